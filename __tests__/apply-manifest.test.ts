@@ -0,0 +1,70 @@
+import { jest } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+
+const mockCreateUpkeep = jest.fn();
+const mockCancelUpkeep = jest.fn();
+
+// The Automation client of the manifest's network, registering upkeeps without a simulator
+await (jest as any).unstable_mockModule('../src/automation', () => ({
+    Automation: jest.fn(() => ({ createUpkeep: mockCreateUpkeep, cancelUpkeep: mockCancelUpkeep })),
+}));
+
+const { applyManifest, getStateFilePath } = await import('../src/cli/apply-manifest');
+
+const OLD_CONTRACT = '0x000000000000000000000000000000000000c0de';
+const NEW_CONTRACT = '0x000000000000000000000000000000000000beef';
+
+describe('applyManifest', () => {
+    let dir: string;
+    let manifestPath: string;
+    const wallet = ethers.Wallet.createRandom();
+
+    const readState = () => JSON.parse(fs.readFileSync(getStateFilePath(manifestPath), 'utf8'));
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cartesi-chainlink-'));
+        manifestPath = path.join(dir, 'upkeeps.json');
+
+        const network = { mode: 'local', chainId: 31337, simulatorUrl: 'http://127.0.0.1:7789' };
+        const upkeep = { name: 'Counter', upkeepContract: OLD_CONTRACT, gasLimit: 250000, triggerType: 'custom' };
+        fs.writeFileSync(manifestPath, JSON.stringify({ version: '2', network, upkeeps: { counter: { ...upkeep, upkeepContract: NEW_CONTRACT } } }));
+        fs.writeFileSync(getStateFilePath(manifestPath), JSON.stringify({
+            version: '2',
+            network,
+            contracts: {},
+            upkeeps: { counter: { name: 'Counter', upkeepId: '1', address: OLD_CONTRACT, config: upkeep } },
+            timestamp: '2026-01-01T00:00:00.000Z',
+        }));
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('registers the replacement of a canceled upkeep on retry without canceling it again', async () => {
+        mockCancelUpkeep.mockResolvedValue(undefined as never);
+        mockCreateUpkeep.mockRejectedValueOnce(new Error('registrar reverted') as never);
+
+        await expect(applyManifest(manifestPath, wallet)).rejects.toThrow('Failed to register upkeep: registrar reverted');
+        expect(mockCancelUpkeep).toHaveBeenCalledWith('1');
+        expect(readState().upkeeps.counter).toEqual(expect.objectContaining({ upkeepId: '1', canceled: true }));
+
+        mockCreateUpkeep.mockResolvedValueOnce({ upkeepId: '2' } as never);
+        await applyManifest(manifestPath, wallet);
+
+        expect(mockCancelUpkeep).toHaveBeenCalledTimes(1);
+        expect(mockCreateUpkeep).toHaveBeenLastCalledWith(expect.objectContaining({ upkeepContract: NEW_CONTRACT }));
+        expect(readState().upkeeps.counter).toEqual({
+            name: 'Counter',
+            upkeepId: '2',
+            address: NEW_CONTRACT,
+            config: expect.objectContaining({ upkeepContract: NEW_CONTRACT }),
+        });
+    });
+});
@@ -0,0 +1,106 @@
+import { jest, describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import http from 'http';
+import { startSimulatorServer, SimulatorServer } from '../src/simulator/server';
+
+const PRIVATE_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const PORT = 17893;
+const BASE_URL = `http://127.0.0.1:${PORT}`;
+const TOKEN = 'secret-token';
+
+describe('Simulator authentication', () => {
+    let simulator: SimulatorServer;
+
+    beforeAll(async () => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        simulator = await startSimulatorServer({
+            rpcUrl: 'http://127.0.0.1:1',
+            privateKey: PRIVATE_KEY,
+            port: PORT,
+            host: '127.0.0.1',
+            authToken: TOKEN,
+            corsOrigins: ['http://app.test'],
+        });
+    });
+
+    afterAll(async () => {
+        await simulator.close();
+    });
+
+    it('refuses requests without the bearer token', async () => {
+        const missing = await fetch(`${BASE_URL}/status`);
+        const wrong = await fetch(`${BASE_URL}/status`, { headers: { Authorization: 'Bearer nope' } });
+        const valid = await fetch(`${BASE_URL}/status`, { headers: { Authorization: `Bearer ${TOKEN}` } });
+
+        expect(missing.status).toBe(401);
+        expect(missing.headers.get('www-authenticate')).toBe('Bearer');
+        expect(await missing.json()).toEqual({ message: 'Missing or invalid bearer token' });
+        expect(wrong.status).toBe(401);
+        expect(valid.status).toBe(200);
+    });
+
+    it('serves the dashboard page and takes the token of its event stream from the query', async () => {
+        const controller = new AbortController();
+        const page = await fetch(`${BASE_URL}/`);
+        const events = await fetch(`${BASE_URL}/events?token=${TOKEN}`, { signal: controller.signal });
+        const otherRoute = await fetch(`${BASE_URL}/upkeeps?token=${TOKEN}`);
+        controller.abort();
+
+        expect(page.status).toBe(200);
+        expect(events.status).toBe(200);
+        expect(otherRoute.status).toBe(401);
+    });
+
+    it('only answers browsers of the allowed origins', async () => {
+        const preflight = await fetch(`${BASE_URL}/tick`, {
+            method: 'OPTIONS',
+            headers: { Origin: 'http://app.test', 'Access-Control-Request-Method': 'POST', 'Access-Control-Request-Headers': 'authorization' },
+        });
+        const allowed = await fetch(`${BASE_URL}/status`, { headers: { Origin: 'http://app.test', Authorization: `Bearer ${TOKEN}` } });
+        const other = await fetch(`${BASE_URL}/tick`, { method: 'POST', headers: { Origin: 'http://evil.test' } });
+
+        expect(preflight.status).toBe(204);
+        expect(preflight.headers.get('access-control-allow-origin')).toBe('http://app.test');
+        expect(preflight.headers.get('access-control-allow-headers')).toContain('Authorization');
+        expect(allowed.headers.get('access-control-allow-origin')).toBe('http://app.test');
+        expect(other.status).toBe(403);
+    });
+
+    it('accepts the dashboard at a loopback address, not at a rebound DNS name', async () => {
+        const headers = { Authorization: `Bearer ${TOKEN}` };
+        const dashboard = await fetch(`${BASE_URL}/tick`, { method: 'POST', headers: { ...headers, Origin: `http://localhost:${PORT}` } });
+        const rebound = await fetch(`${BASE_URL}/tick`, { method: 'POST', headers: { ...headers, Origin: `http://evil.test:${PORT}`, Host: `evil.test:${PORT}` } });
+
+        expect(dashboard.status).not.toBe(403);
+        expect(rebound.status).toBe(403);
+    });
+});
+
+describe('Simulator without authentication', () => {
+    const OPEN_PORT = PORT + 1;
+    let simulator: SimulatorServer;
+
+    // fetch does not let a request set its Host header
+    const statusFor = (host: string) => new Promise<number>((resolve, reject) => {
+        http.get({ host: '127.0.0.1', port: OPEN_PORT, path: '/upkeeps', headers: { Host: host } }, (res) => {
+            res.resume();
+            resolve(res.statusCode!);
+        }).on('error', reject);
+    });
+
+    beforeAll(async () => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        simulator = await startSimulatorServer({ rpcUrl: 'http://127.0.0.1:1', privateKey: PRIVATE_KEY, port: OPEN_PORT, host: '127.0.0.1' });
+    });
+
+    afterAll(async () => {
+        await simulator.close();
+    });
+
+    it('only answers requests for its own host names', async () => {
+        expect(await statusFor(`localhost:${OPEN_PORT}`)).toBe(200);
+        expect(await statusFor(`127.0.0.1:${OPEN_PORT}`)).toBe(200);
+        expect(await statusFor(`[::1]:${OPEN_PORT}`)).toBe(200);
+        // A page whose DNS name was rebound to the simulator sends no Origin with same-origin requests
+        expect(await statusFor(`evil.test:${OPEN_PORT}`)).toBe(403);
+    });
+});
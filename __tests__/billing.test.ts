@@ -0,0 +1,37 @@
+import { BigNumber, ethers } from 'ethers';
+import { LinkBilling } from '../src/simulator/billing';
+
+describe('LinkBilling', () => {
+    const gwei = ethers.utils.parseUnits('1', 'gwei');
+
+    it('charges gas plus overhead and premium, converted to LINK', () => {
+        // Sepolia: 20% premium, no flat fee
+        const billing = new LinkBilling({ chainId: 11155111, linkNativePrice: '0.005' });
+
+        const fee = billing.calculateFee(BigNumber.from(20_000), gwei);
+
+        // (20_000 + 80_000) * 1 gwei * 1.2 / 0.005
+        expect(ethers.utils.formatEther(fee)).toBe('0.024');
+    });
+
+    it('uses the gas ceiling multiplier and gas limit for the maximum fee', () => {
+        const billing = new LinkBilling({ chainId: 11155111, linkNativePrice: '0.005' });
+
+        const maxFee = billing.calculateMaxFee(20_000, gwei);
+
+        // Sepolia's gasCeilingMultiplier is 3
+        expect(maxFee).toEqual(billing.calculateFee(BigNumber.from(20_000), gwei.mul(3)));
+    });
+
+    it('exposes the network minimum spend as the minimum balance', () => {
+        const billing = new LinkBilling({ chainId: 1 });
+
+        expect(ethers.utils.formatEther(billing.minBalance)).toBe('0.1');
+        expect(billing.networkName).toBe('Ethereum Mainnet');
+    });
+
+    it('rejects unsupported chains and invalid prices', () => {
+        expect(() => new LinkBilling({ chainId: 31337 })).toThrow("not supported on chainId '31337'");
+        expect(() => new LinkBilling({ chainId: 1, linkNativePrice: '0' })).toThrow('must be greater than zero');
+    });
+});
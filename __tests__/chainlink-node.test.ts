@@ -0,0 +1,138 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { ethers } from 'ethers';
+import { ChainlinkNode, ChainUpkeep } from '../src/simulator/chainlink/node';
+import { LocalAutomationRegistrarArtifact, LocalAutomationRegistryArtifact } from '../src/simulator/chainlink/artifacts';
+import { decodeRevertReason } from '../src/simulator/history';
+import { getAutomationNetworkConfig, localAutomationNetworkConfig, registerAutomationNetwork } from '../src/core/networks';
+
+const DEPLOYMENT = {
+    chainId: 31337,
+    linkTokenAddress: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+    registrarAddress: '0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0',
+    registryAddress: '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512',
+    nodes: ['0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266'],
+    deployedAt: '2026-01-01T00:00:00.000Z',
+};
+const UPKEEP = '0x00000000000000000000000000000000000000bb';
+const EMITTER = '0x00000000000000000000000000000000000000aa';
+const TOPIC0 = ethers.utils.id('InputAdded(address,uint256,bytes)');
+// Log trigger upkeep IDs carry the trigger type in their 16th byte
+const LOG_UPKEEP_ID = ethers.BigNumber.from('0x1234567890abcdef1234567890abcdef01' + '00'.repeat(15)).toString();
+
+const registry = new ethers.utils.Interface(LocalAutomationRegistryArtifact.abi);
+const registrar = new ethers.utils.Interface(LocalAutomationRegistrarArtifact.abi);
+
+type CheckResult = [boolean, string, number];
+
+// A provider answering the registry's view functions from the given state
+function mockRegistry(state: { ids: string[]; check?: CheckResult }): ethers.providers.JsonRpcProvider {
+    const provider = new ethers.providers.StaticJsonRpcProvider('http://127.0.0.1:1', { chainId: 31337, name: 'local' });
+    jest.spyOn(provider, 'getBlockNumber').mockResolvedValue(7);
+    jest.spyOn(provider, 'getLogs').mockImplementation(async (filter) => {
+        if (filter.address !== DEPLOYMENT.registrarAddress) {
+            return [];
+        }
+        const { data, topics } = registrar.encodeEventLog(registrar.getEvent('RegistrationApproved'), [ethers.constants.HashZero, 'Forwarder', LOG_UPKEEP_ID]);
+        return [{ address: DEPLOYMENT.registrarAddress, data, topics, blockNumber: 5, logIndex: 0 } as unknown as ethers.providers.Log];
+    });
+    jest.spyOn(provider, 'call').mockImplementation(async (transaction) => {
+        const call = registry.parseTransaction({ data: (await transaction.data) as string });
+        const results: Record<string, unknown[]> = {
+            getActiveUpkeepIDs: [state.ids],
+            getTriggerType: [1],
+            getUpkeep: [{
+                target: UPKEEP,
+                performGas: 500000,
+                checkData: '0x',
+                balance: ethers.utils.parseEther('5'),
+                admin: DEPLOYMENT.nodes[0],
+                maxValidBlocknumber: 0,
+                lastPerformedBlockNumber: 0,
+                amountSpent: ethers.utils.parseEther('1'),
+                paused: false,
+                offchainConfig: '0x',
+            }],
+            getUpkeepTriggerConfig: [ethers.utils.defaultAbiCoder.encode(
+                ['address', 'uint8', 'bytes32', 'bytes32', 'bytes32', 'bytes32'],
+                [EMITTER, 2, TOPIC0, ethers.constants.HashZero, ethers.utils.hexZeroPad('0x2a', 32), ethers.constants.HashZero]
+            )],
+            'checkUpkeep(uint256,bytes)': [...(state.check ?? [false, '0x', 4]), 0, 0, 0, 0],
+            checkCallback: [...(state.check ?? [false, '0x', 4]), 0],
+        };
+        const key = call.name === 'checkUpkeep' ? call.signature : call.name;
+        return registry.encodeFunctionResult(call.functionFragment, results[key]);
+    });
+    return provider;
+}
+
+describe('local Chainlink stack', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('reports the upkeeps of the registry and their cancellation', async () => {
+        const state = { ids: [LOG_UPKEEP_ID] };
+        const upkeeps: ChainUpkeep[] = [];
+        const cancelled: string[] = [];
+        const node = new ChainlinkNode(DEPLOYMENT, mockRegistry(state), {
+            onUpkeep: (upkeep) => upkeeps.push(upkeep),
+            onUpkeepCancelled: (upkeepId) => cancelled.push(upkeepId),
+        }, true);
+
+        await node.sync();
+
+        expect(upkeeps).toHaveLength(1);
+        expect(upkeeps[0].options).toEqual(expect.objectContaining({
+            name: 'Forwarder',
+            triggerType: 'log',
+            upkeepContract: ethers.utils.getAddress(UPKEEP),
+            gasLimit: 500000,
+            logEmitterAddress: ethers.utils.getAddress(EMITTER),
+            logEventSignature: TOPIC0,
+            logTopicFilters: [null, ethers.utils.hexZeroPad('0x2a', 32), null],
+        }));
+        expect(upkeeps[0].balance.toString()).toBe(ethers.utils.parseEther('5').toString());
+
+        state.ids = [];
+        await node.sync();
+        expect(cancelled).toEqual([LOG_UPKEEP_ID]);
+    });
+
+    it('checks through the registry, surfacing reverts and refusals', async () => {
+        const state: { ids: string[]; check?: CheckResult } = { ids: [], check: [true, '0x1234', 0] };
+        const signer = ethers.Wallet.createRandom();
+        const caller = new ChainlinkNode(DEPLOYMENT, mockRegistry(state), { onUpkeep: () => {}, onUpkeepCancelled: () => {} }, true)
+            .caller(LOG_UPKEEP_ID, signer);
+
+        await expect(caller.callStatic.checkLog({ index: 0, timestamp: 0, txHash: ethers.constants.HashZero, blockNumber: 1,
+            blockHash: ethers.constants.HashZero, source: EMITTER, topics: [TOPIC0], data: '0x' })).resolves.toEqual([true, '0x1234']);
+
+        state.check = [false, '0x', 4];
+        await expect(caller.checkUpkeep()).resolves.toEqual([false, '0x']);
+
+        state.check = [false, new ethers.utils.Interface(['function Error(string)']).encodeFunctionData('Error', ['no inputs']), 3];
+        const error = await caller.checkUpkeep().catch((e: unknown) => e);
+        expect(decodeRevertReason(error)).toBe('reverted: no inputs');
+
+        state.check = [false, '0x', 6];
+        await expect(caller.checkUpkeep()).rejects.toThrow("The registry refused the check: the upkeep's balance does not cover a perform");
+
+        state.check = [true, '0x5678', 0];
+        await expect(caller.callStatic.checkCallback(['0xaa'], '0x')).resolves.toEqual([true, '0x5678']);
+        state.check = [false, '0x', 7];
+        await expect(caller.callStatic.checkCallback(['0xaa'], '0x')).rejects.toThrow('checkCallback of the upkeep reverted');
+    });
+
+    it('registers the deployment as the Automation network of its chain', () => {
+        registerAutomationNetwork(localAutomationNetworkConfig(DEPLOYMENT));
+
+        const config = getAutomationNetworkConfig(31337);
+        expect(config.registryAddress).toBe(DEPLOYMENT.registryAddress);
+        expect(config.registrarAddress).toBe(DEPLOYMENT.registrarAddress);
+        expect(config.linkTokenAddress).toBe(DEPLOYMENT.linkTokenAddress);
+    });
+});
@@ -3,15 +3,24 @@ import { jest } from '@jest/globals';
 import { BigNumber, ethers, Signer, ContractReceipt } from 'ethers';
 import { ChainlinkProvider } from '../src/providers/chainlink.provider';
 import { getAutomationNetworkConfig } from '../src/core/networks';
-import { CreateCustomUpkeepOptions } from '../src/interfaces';
+import { CreateCustomUpkeepOptions, CreateTimeUpkeepOptions } from '../src/interfaces';
 
 type LinkTokenStub = { 
   address: string; 
   approve: jest.Mock;
+  balanceOf: jest.Mock;
+  allowance: jest.Mock;
 };
 type RegistrarStub = { 
   address: string; 
   registerUpkeep: jest.Mock;
+  callStatic: { registerUpkeep: jest.Mock };
+};
+type CronFactoryStub = {
+  address: string;
+  encodeCronJob: jest.Mock;
+  newCronUpkeepWithJob: jest.Mock;
+  interface: { parseLog: jest.Mock };
 };
 type RegistryStub = {
   address: string;
@@ -20,6 +29,9 @@ type RegistryStub = {
   pauseUpkeep: jest.Mock;
   unpauseUpkeep: jest.Mock;
   cancelUpkeep: jest.Mock;
+  setUpkeepGasLimit: jest.Mock;
+  setUpkeepCheckData: jest.Mock;
+  setUpkeepTriggerConfig: jest.Mock;
   interface: { parseLog: jest.Mock };
 };
 
@@ -37,6 +49,9 @@ describe('ChainlinkProvider', () => {
   let stubRegistrar: RegistrarStub;
   let stubRegistry: RegistryStub;
   let stubLinkToken: LinkTokenStub;
+  let stubCronFactory: CronFactoryStub;
+  const cronFactoryAddress = '0x000000000000000000000000000000000000CaFe';
+  const cronUpkeepAddress = '0x000000000000000000000000000000000000c809';
 
   // A fake receipt whose log address matches registryAddress
   const fakeLog = { address: networkConfig.registryAddress, data: '0x' };
@@ -53,12 +68,15 @@ describe('ChainlinkProvider', () => {
     stubLinkToken = {
       address: networkConfig.linkTokenAddress,
       approve: jest.fn().mockReturnValue(makeTxStub()),
+      balanceOf: jest.fn().mockResolvedValue(ethers.utils.parseEther('10') as never),
+      allowance: jest.fn().mockResolvedValue(BigNumber.from(0) as never),
     };
 
     // Stub Registrar contract
     stubRegistrar = {
       address: networkConfig.registrarAddress,
       registerUpkeep: jest.fn().mockReturnValue(makeTxStub(fakeReceipt)),
+      callStatic: { registerUpkeep: jest.fn().mockResolvedValue(BigNumber.from(42) as never) },
     };
 
     // Stub Registry contract
@@ -76,6 +94,9 @@ describe('ChainlinkProvider', () => {
       pauseUpkeep: jest.fn().mockReturnValue(makeTxStub()),
       unpauseUpkeep: jest.fn().mockReturnValue(makeTxStub()),
       cancelUpkeep: jest.fn().mockReturnValue(makeTxStub()),
+      setUpkeepGasLimit: jest.fn().mockReturnValue(makeTxStub()),
+      setUpkeepCheckData: jest.fn().mockReturnValue(makeTxStub()),
+      setUpkeepTriggerConfig: jest.fn().mockReturnValue(makeTxStub()),
       interface: {
         parseLog: jest.fn().mockReturnValue({
           name: 'UpkeepRegistered',
@@ -84,6 +105,16 @@ describe('ChainlinkProvider', () => {
       },
     };
 
+    // Stub CronUpkeepFactory contract, whose receipt logs the CronUpkeep it deployed
+    stubCronFactory = {
+      address: cronFactoryAddress,
+      encodeCronJob: jest.fn().mockResolvedValue('0xc0ffee' as never),
+      newCronUpkeepWithJob: jest.fn().mockReturnValue(makeTxStub(({ logs: [{ address: cronFactoryAddress }] } as unknown) as ContractReceipt)),
+      interface: {
+        parseLog: jest.fn().mockReturnValue({ name: 'NewCronUpkeepCreated', args: { upkeep: cronUpkeepAddress } }),
+      },
+    };
+
     // Spy on ethers.Contract and cast to jest.Mock to allow mockImplementation
     const contractSpy = jest.spyOn(
       (ethers as unknown as { Contract: jest.Mock }),
@@ -95,6 +126,7 @@ describe('ChainlinkProvider', () => {
       if (address === networkConfig.registrarAddress) return stubRegistrar;
       if (address === networkConfig.registryAddress) return stubRegistry;
       if (address === networkConfig.linkTokenAddress) return stubLinkToken;
+      if (address === cronFactoryAddress) return stubCronFactory;
       throw new Error(`Unexpected contract address: ${address}`);
     });
   });
@@ -137,6 +169,88 @@ describe('ChainlinkProvider', () => {
     expect(upkeepId).toBe('42');
   });
 
+  it('createUpkeep rejects time-based upkeeps when no CronUpkeepFactory is configured', async () => {
+    const provider = new ChainlinkProvider(fakeSigner, chainId);
+    const options: CreateTimeUpkeepOptions = {
+      name: 'CronUpkeep',
+      upkeepContract: '0xUpkeepContract',
+      triggerType: 'time',
+      cronExpression: '*/5 * * * *',
+      gasLimit: 500_000,
+      initialFunds: '1.5',
+    };
+
+    await expect(provider.createUpkeep(options)).rejects.toThrow('no CronUpkeepFactory address is configured');
+    expect(stubRegistrar.registerUpkeep).not.toHaveBeenCalled();
+  });
+
+  it('createUpkeep deploys time-based upkeeps through the configured CronUpkeepFactory and registers them', async () => {
+    const provider = new ChainlinkProvider(fakeSigner, chainId, cronFactoryAddress);
+    const options: CreateTimeUpkeepOptions = {
+      name: 'CronUpkeep',
+      upkeepContract: '0x000000000000000000000000000000000000c0de',
+      triggerType: 'time',
+      cronExpression: '*/5 * * * *',
+      performData: '0x1234',
+      gasLimit: 500_000,
+      initialFunds: '1.5',
+    };
+
+    const { upkeepId } = await provider.createUpkeep(options);
+
+    const handler = new ethers.utils.Interface(['function performUpkeep(bytes calldata performData)']).encodeFunctionData('performUpkeep', ['0x1234']);
+    expect(stubCronFactory.encodeCronJob).toHaveBeenCalledWith(options.upkeepContract, handler, '*/5 * * * *');
+    expect(stubCronFactory.newCronUpkeepWithJob).toHaveBeenCalledWith('0xc0ffee');
+    expect(stubRegistrar.registerUpkeep).toHaveBeenCalledWith(expect.objectContaining({
+      upkeepContract: cronUpkeepAddress,
+      triggerType: 0,
+      triggerConfig: '0x',
+    }));
+    expect(upkeepId).toBe('42');
+    await expect(provider.simulateCreateUpkeep(options)).resolves.toContainEqual(expect.objectContaining({ check: 'registerUpkeep', status: 'warning' }));
+  });
+
+  it('simulateCreateUpkeep reports the checks without sending transactions', async () => {
+    const provider = new ChainlinkProvider(fakeSigner, chainId);
+    const options: CreateCustomUpkeepOptions = {
+      name: 'TestUpkeep',
+      upkeepContract: '0x000000000000000000000000000000000000c0de',
+      triggerType: 'custom',
+      gasLimit: 6_000_000,
+      initialFunds: '1.5',
+    };
+
+    const checks = await provider.simulateCreateUpkeep(options);
+
+    expect(checks.map(({ check, status }) => [check, status])).toEqual([
+      ['gasLimit', 'error'],
+      ['LINK balance', 'ok'],
+      ['LINK allowance', 'ok'],
+      ['registerUpkeep', 'ok'],
+    ]);
+    expect(stubRegistrar.callStatic.registerUpkeep).toHaveBeenCalled();
+    expect(stubLinkToken.approve).not.toHaveBeenCalled();
+    expect(stubRegistrar.registerUpkeep).not.toHaveBeenCalled();
+  });
+
+  it('simulateCreateUpkeep flags insufficient LINK and decodes registrar reverts', async () => {
+    stubLinkToken.balanceOf.mockResolvedValue(ethers.utils.parseEther('1') as never);
+    stubLinkToken.allowance.mockResolvedValue(ethers.utils.parseEther('5') as never);
+    stubRegistrar.callStatic.registerUpkeep.mockRejectedValue({ data: '0x0274e761' } as never);
+    const provider = new ChainlinkProvider(fakeSigner, chainId);
+
+    const checks = await provider.simulateCreateUpkeep({
+      name: 'TestUpkeep',
+      upkeepContract: '0x000000000000000000000000000000000000c0de',
+      triggerType: 'custom',
+      gasLimit: 500_000,
+      initialFunds: '1.5',
+    });
+
+    expect(checks).toContainEqual(expect.objectContaining({ check: 'LINK balance', status: 'error' }));
+    expect(checks).toContainEqual({ check: 'registerUpkeep', status: 'error', message: 'Would revert: The upkeep is already registered.' });
+  });
+
   it('getUpkeep returns formatted UpkeepInfo', async () => {
     const provider = new ChainlinkProvider(fakeSigner, chainId);
     const info = await provider.getUpkeep('0xSomeId');
@@ -179,6 +293,55 @@ describe('ChainlinkProvider', () => {
     expect(stubRegistry.cancelUpkeep).toHaveBeenCalledWith('ID3');
   });
 
+  it('updateUpkeep only calls the registry setters for the given fields', async () => {
+    const provider = new ChainlinkProvider(fakeSigner, chainId);
+
+    await provider.updateUpkeep('ID4', { gasLimit: 300_000, checkData: '0x01' });
+
+    expect(stubRegistry.setUpkeepGasLimit).toHaveBeenCalledWith('ID4', 300_000);
+    expect(stubRegistry.setUpkeepCheckData).toHaveBeenCalledWith('ID4', '0x01');
+    expect(stubRegistry.setUpkeepTriggerConfig).not.toHaveBeenCalled();
+  });
+
+  it('updateUpkeep encodes named topic filters by indexed parameter type', async () => {
+    const provider = new ChainlinkProvider(fakeSigner, chainId);
+    const emitter = '0x0000000000000000000000000000000000000002';
+
+    await provider.updateUpkeep('ID6', {
+      trigger: {
+        triggerType: 'log',
+        logEmitterAddress: emitter,
+        logEventSignature: 'InputAdded(address indexed appContract, uint256 indexed index, bytes input)',
+        logTopicFilters: { index: 5 },
+      },
+    });
+
+    const [id, triggerConfig] = stubRegistry.setUpkeepTriggerConfig.mock.calls[0] as [string, string];
+    const decoded = ethers.utils.defaultAbiCoder.decode(['address', 'uint8', 'bytes32', 'bytes32', 'bytes32', 'bytes32'], triggerConfig);
+    expect(id).toBe('ID6');
+    expect(decoded[1]).toBe(0b10);
+    expect(decoded[2]).toBe(ethers.utils.id('InputAdded(address,uint256,bytes)'));
+    expect(decoded.slice(3)).toEqual([ethers.constants.HashZero, ethers.utils.hexZeroPad('0x05', 32), ethers.constants.HashZero]);
+  });
+
+  it('updateUpkeep rejects schedule changes of time-based upkeeps', async () => {
+    const provider = new ChainlinkProvider(fakeSigner, chainId);
+
+    await expect(provider.updateUpkeep('ID5', { trigger: { triggerType: 'time', cronExpression: '0 * * * *' } }))
+      .rejects.toThrow('cannot be changed');
+  });
+
+  it('simulateUpdateUpkeep checks the new settings against the network limits', async () => {
+    const provider = new ChainlinkProvider(fakeSigner, chainId);
+
+    await expect(provider.simulateUpdateUpkeep('ID7', { gasLimit: 300_000 })).resolves.toEqual([
+      expect.objectContaining({ check: 'limits', status: 'ok' }),
+    ]);
+    const checks = await provider.simulateUpdateUpkeep('ID7', { gasLimit: 6_000_000, checkData: '0x' + '00'.repeat(6000) });
+    expect(checks.map(({ check, status }) => [check, status])).toEqual([['limits', 'error'], ['limits', 'error']]);
+    expect(stubRegistry.setUpkeepGasLimit).not.toHaveBeenCalled();
+  });
+
   it('_handleContractError maps known and unknown errors correctly', () => {
     const providerPriv = new ChainlinkProvider(fakeSigner, chainId) as unknown as {
       _handleContractError: (e: unknown, c: string) => never;
@@ -0,0 +1,70 @@
+import { isValidCronExpression, nextCronTick, parseCronExpression } from '../src/core/cron';
+
+// 2024-01-01T00:00:00Z was a Monday
+const MONDAY_MIDNIGHT = Date.UTC(2024, 0, 1, 0, 0, 0) / 1000;
+
+describe('cron', () => {
+    describe('parseCronExpression', () => {
+        it('parses wildcards, exact values, intervals, ranges and lists', () => {
+            const schedule = parseCronExpression('*/15 9-11 1,15 * 0');
+
+            expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+            expect([...schedule.hours]).toEqual([9, 10, 11]);
+            expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+            expect(schedule.months.size).toBe(12);
+            expect([...schedule.daysOfWeek]).toEqual([0]);
+        });
+
+        it('rejects expressions with the wrong number of fields', () => {
+            expect(() => parseCronExpression('* * * *')).toThrow('must have exactly 5 fields');
+        });
+
+        it('rejects out-of-range and malformed values', () => {
+            expect(() => parseCronExpression('60 * * * *')).toThrow('out of range');
+            expect(() => parseCronExpression('* * * * 7')).toThrow('out of range');
+            expect(() => parseCronExpression('*/0 * * * *')).toThrow('Invalid minute interval');
+            expect(() => parseCronExpression('5-1 * * * *')).toThrow('start is greater than end');
+            expect(isValidCronExpression('1-5/2 * * * *')).toBe(false);
+        });
+
+        it('rejects expressions that never match a date', () => {
+            expect(() => parseCronExpression('0 0 30 2 *')).toThrow('it never matches a date');
+            expect(isValidCronExpression('0 0 31 4,6,9,11 *')).toBe(false);
+            expect(isValidCronExpression('0 0 29 2 *')).toBe(true);
+        });
+    });
+
+    describe('nextCronTick', () => {
+        it('returns the next matching minute strictly after the timestamp', () => {
+            const schedule = parseCronExpression('*/15 * * * *');
+
+            expect(nextCronTick(schedule, MONDAY_MIDNIGHT)).toBe(MONDAY_MIDNIGHT + 15 * 60);
+            expect(nextCronTick(schedule, MONDAY_MIDNIGHT + 14 * 60 + 59)).toBe(MONDAY_MIDNIGHT + 15 * 60);
+        });
+
+        it('requires day-of-month and day-of-week to both match', () => {
+            // Noon on a Sunday that is also the 1st of the month: 2024-09-01
+            const schedule = parseCronExpression('0 12 1 * 0');
+
+            expect(nextCronTick(schedule, MONDAY_MIDNIGHT)).toBe(Date.UTC(2024, 8, 1, 12, 0, 0) / 1000);
+        });
+
+        it('finds ticks more than a year away', () => {
+            expect(nextCronTick(parseCronExpression('0 0 29 2 *'), Date.UTC(2026, 2, 1) / 1000)).toBe(Date.UTC(2028, 1, 29) / 1000);
+            // The Friday the 13th after July 2012 was in September 2013
+            expect(nextCronTick(parseCronExpression('0 0 13 * 5'), Date.UTC(2012, 6, 14) / 1000)).toBe(Date.UTC(2013, 8, 13) / 1000);
+        });
+
+        it('moves to the next matching day once every tick of the day has passed', () => {
+            const schedule = parseCronExpression('30 9 * * 1');
+
+            expect(nextCronTick(schedule, MONDAY_MIDNIGHT + 10 * 3600)).toBe(MONDAY_MIDNIGHT + 7 * 24 * 3600 + 9 * 3600 + 30 * 60);
+        });
+
+        it('throws for schedules that never match', () => {
+            const schedule = { ...parseCronExpression('0 0 * 2 *'), daysOfMonth: new Set([31]) };
+
+            expect(() => nextCronTick(schedule, MONDAY_MIDNIGHT)).toThrow('never matches');
+        });
+    });
+});
@@ -0,0 +1,86 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { acquireLock, formatUptime, getLockFilePath, getSimulatorDir, getTokenFilePath, readAuthToken, readLock, registerLocalChainlinkNetwork, releaseLock, removeAuthToken, writeAuthToken } from '../src/cli/daemon';
+import { readChainlinkDeployment, writeChainlinkDeployment } from '../src/simulator/chainlink/deployment';
+import { getAutomationNetworkConfig } from '../src/core/networks';
+
+describe('simulator lock files', () => {
+    let cwd: string;
+    const lock = { port: 7790, rpcUrl: 'http://127.0.0.1:8545', startedAt: '2026-01-01T00:00:00.000Z' };
+
+    beforeEach(() => {
+        cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'cartesi-chainlink-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(cwd, { recursive: true, force: true });
+    });
+
+    it('records the current process and releases the lock', () => {
+        acquireLock(lock, cwd);
+
+        expect(readLock(7790, cwd)).toEqual({ pid: process.pid, ...lock });
+        expect(readLock(7791, cwd)).toBeUndefined();
+
+        releaseLock(7790, cwd);
+        expect(fs.existsSync(getLockFilePath(7790, cwd))).toBe(false);
+    });
+
+    it('refuses a port held by another running process', () => {
+        fs.mkdirSync(path.dirname(getLockFilePath(7790, cwd)));
+        fs.writeFileSync(getLockFilePath(7790, cwd), JSON.stringify({ ...lock, pid: process.ppid }));
+
+        expect(() => acquireLock(lock, cwd)).toThrow(`already running on port 7790 (PID ${process.ppid})`);
+        // Only the holder releases its lock
+        releaseLock(7790, cwd);
+        expect(readLock(7790, cwd)?.pid).toBe(process.ppid);
+    });
+
+    it('removes lock files left behind by a process that is gone', () => {
+        fs.mkdirSync(path.dirname(getLockFilePath(7790, cwd)));
+        fs.writeFileSync(getLockFilePath(7790, cwd), JSON.stringify({ ...lock, pid: 2 ** 22 + 1 }));
+
+        expect(readLock(7790, cwd)).toBeUndefined();
+        expect(fs.existsSync(getLockFilePath(7790, cwd))).toBe(false);
+        expect(acquireLock(lock, cwd).pid).toBe(process.pid);
+    });
+
+    it('stores the bearer token of a port for the current user only', () => {
+        expect(readAuthToken(7790, cwd)).toBeUndefined();
+
+        writeAuthToken(7790, 'secret', cwd);
+
+        expect(readAuthToken(7790, cwd)).toBe('secret');
+        expect(fs.statSync(getTokenFilePath(7790, cwd)).mode & 0o777).toBe(0o600);
+        removeAuthToken(7790, cwd);
+        expect(readAuthToken(7790, cwd)).toBeUndefined();
+    });
+
+    it('records the local Chainlink stack deployed to a chain', () => {
+        const deployment = {
+            chainId: 31337,
+            linkTokenAddress: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+            registrarAddress: '0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0',
+            registryAddress: '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512',
+            nodes: ['0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266'],
+            deployedAt: '2026-01-01T00:00:00.000Z',
+        };
+        expect(readChainlinkDeployment(31337, getSimulatorDir(cwd))).toBeUndefined();
+
+        writeChainlinkDeployment(deployment, getSimulatorDir(cwd));
+
+        expect(readChainlinkDeployment(31337, getSimulatorDir(cwd))).toEqual(deployment);
+        expect(readChainlinkDeployment(1337, getSimulatorDir(cwd))).toBeUndefined();
+        // The network configuration only knows the stack once it is registered
+        expect(() => getAutomationNetworkConfig(31337)).toThrow("Chainlink Automation is not supported on chainId '31337'");
+        expect(registerLocalChainlinkNetwork(31337, cwd)).toEqual(deployment);
+        expect(getAutomationNetworkConfig(31337).registryAddress).toBe(deployment.registryAddress);
+    });
+
+    it('formats uptimes', () => {
+        expect(formatUptime(42)).toBe('42s');
+        expect(formatUptime(3 * 60 + 5)).toBe('3m 5s');
+        expect(formatUptime(2 * 3600 + 7)).toBe('2h 0m 7s');
+    });
+});
@@ -0,0 +1,37 @@
+import { jest, describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { startSimulatorServer, SimulatorServer } from '../src/simulator/server';
+
+const PRIVATE_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const PORT = 17892;
+
+describe('Simulator dashboard', () => {
+    let simulator: SimulatorServer;
+
+    beforeAll(async () => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        simulator = await startSimulatorServer({ rpcUrl: 'http://127.0.0.1:1', privateKey: PRIVATE_KEY, port: PORT, host: '127.0.0.1' });
+    });
+
+    afterAll(async () => {
+        await simulator.close();
+    });
+
+    it('serves a self-contained page', async () => {
+        const response = await fetch(`http://127.0.0.1:${PORT}/`);
+        const html = await response.text();
+
+        expect(response.status).toBe(200);
+        expect(response.headers.get('content-type')).toContain('text/html');
+        expect(response.headers.get('content-security-policy')).toContain("connect-src 'self'");
+        // Offline: nothing is loaded from elsewhere
+        expect(html).not.toMatch(/(src|href)=["']?(https?:)?\/\//);
+        const script = html.match(/<script>([\s\S]*)<\/script>/)?.[1];
+        expect(() => new Function(script!)).not.toThrow();
+    });
+
+    it('checks registered upkeeps only', async () => {
+        const response = await fetch(`http://127.0.0.1:${PORT}/upkeeps/0x0000000000000000000000000000000000000001/check`, { method: 'POST' });
+
+        expect(response.status).toBe(404);
+    });
+});
@@ -0,0 +1,117 @@
+import { jest, describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { SimulatorEvents } from '../src/simulator/events';
+import { startSimulatorServer, SimulatorServer } from '../src/simulator/server';
+import { LocalProvider } from '../src/providers/local.provider';
+import type { SimulatorEvent } from '../src/interfaces';
+
+const PRIVATE_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const PORT = 17891;
+const UPKEEP = '0x0000000000000000000000000000000000000001';
+const OTHER_UPKEEP = '0x0000000000000000000000000000000000000002';
+
+const nextTick = () => new Promise((resolve) => setTimeout(resolve, 20));
+
+describe('SimulatorEvents', () => {
+    it('numbers events and hands them to the listeners still subscribed', () => {
+        const events = new SimulatorEvents();
+        const received: SimulatorEvent[] = [];
+        const unsubscribe = events.subscribe((event) => received.push(event));
+
+        events.emit({ type: 'registered', upkeepId: UPKEEP });
+        unsubscribe();
+        events.emit({ type: 'unregistered', upkeepId: UPKEEP });
+
+        expect(received).toEqual([expect.objectContaining({ id: 1, type: 'registered', upkeepId: UPKEEP })]);
+    });
+
+    it('keeps the most recent events for replay', () => {
+        const events = new SimulatorEvents(2);
+        for (let blockNumber = 1; blockNumber <= 3; blockNumber++) {
+            events.emit({ type: 'check', upkeepId: UPKEEP, blockNumber, upkeepNeeded: false });
+        }
+
+        expect(events.since(0).map((event) => event.id)).toEqual([2, 3]);
+        expect(events.since(2).map((event) => event.id)).toEqual([3]);
+    });
+});
+
+describe('Simulator event stream', () => {
+    let simulator: SimulatorServer;
+    let provider: LocalProvider;
+
+    beforeAll(async () => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+        simulator = await startSimulatorServer({ rpcUrl: 'http://127.0.0.1:1', privateKey: PRIVATE_KEY, port: PORT, host: '127.0.0.1' });
+        provider = new LocalProvider(undefined, `http://127.0.0.1:${PORT}`);
+    });
+
+    afterAll(async () => {
+        await simulator.close();
+    });
+
+    it('streams the events of the upkeep and types subscribed to', async () => {
+        const received: SimulatorEvent[] = [];
+        const subscription = await provider.subscribe((event) => received.push(event), { upkeepId: UPKEEP, types: ['check', 'perform-sent'] });
+
+        simulator.registry.events.emit({ type: 'registered', upkeepId: UPKEEP });
+        simulator.registry.events.emit({ type: 'check', upkeepId: OTHER_UPKEEP, blockNumber: 7, upkeepNeeded: true });
+        simulator.registry.events.emit({ type: 'check', upkeepId: UPKEEP, blockNumber: 7, upkeepNeeded: true, performData: '0x01' });
+        simulator.registry.events.emit({ type: 'perform-sent', upkeepId: UPKEEP, blockNumber: 7, txHash: '0xabc' });
+        await nextTick();
+        subscription.close();
+
+        expect(received).toEqual([
+            expect.objectContaining({ type: 'check', upkeepId: UPKEEP, blockNumber: 7, upkeepNeeded: true, performData: '0x01' }),
+            expect.objectContaining({ type: 'perform-sent', upkeepId: UPKEEP, txHash: '0xabc' }),
+        ]);
+    });
+
+    it('waits for the next perform of an upkeep', async () => {
+        const confirmed = provider.waitForPerform(UPKEEP, 5_000);
+        await nextTick();
+        simulator.registry.events.emit({ type: 'perform-confirmed', upkeepId: OTHER_UPKEEP, txHash: '0xother' });
+        simulator.registry.events.emit({ type: 'perform-confirmed', upkeepId: UPKEEP, txHash: '0xdef', gasUsed: '21000' });
+        await expect(confirmed).resolves.toMatchObject({ txHash: '0xdef', gasUsed: '21000' });
+
+        const failed = provider.waitForPerform(UPKEEP, 5_000);
+        await nextTick();
+        simulator.registry.events.emit({ type: 'perform-failed', upkeepId: UPKEEP, error: 'insufficient balance' });
+        await expect(failed).rejects.toThrow(`Perform of upkeep '${UPKEEP}' failed: insufficient balance`);
+
+        await expect(provider.waitForPerform(UPKEEP, 50)).rejects.toThrow(`Upkeep '${UPKEEP}' did not perform within 50ms.`);
+    });
+
+    it('does not miss a perform mined while subscribing, or after a given event', async () => {
+        const { events } = simulator.registry;
+        events.emit({ type: 'perform-confirmed', upkeepId: UPKEEP, txHash: '0x00' });
+        // Mined after the call reached the simulator, before the event stream is subscribed to
+        const since = events.since.bind(events);
+        jest.spyOn(events, 'since').mockImplementationOnce((lastId) => {
+            events.emit({ type: 'perform-confirmed', upkeepId: UPKEEP, txHash: '0x01' });
+            return since(lastId);
+        });
+        await expect(provider.waitForPerform(UPKEEP, 5_000)).resolves.toMatchObject({ txHash: '0x01' });
+        const id = events.lastId;
+
+        simulator.registry.events.emit({ type: 'perform-confirmed', upkeepId: UPKEEP, txHash: '0x02' });
+        await expect(provider.waitForPerform(UPKEEP, 5_000, id)).resolves.toMatchObject({ txHash: '0x02' });
+    });
+
+    it('closes the subscription of a listener that throws', async () => {
+        const onError = jest.fn();
+        await provider.subscribe(() => { throw new Error('listener failed'); }, { upkeepId: UPKEEP, onError });
+
+        simulator.registry.events.emit({ type: 'check', upkeepId: UPKEEP, blockNumber: 8, upkeepNeeded: false });
+        await nextTick();
+
+        expect(onError).toHaveBeenCalledWith(new Error('listener failed'));
+    });
+
+    it('rejects unknown event types', async () => {
+        const response = await fetch(`http://127.0.0.1:${PORT}/events?types=performed`);
+
+        expect(response.status).toBe(400);
+        expect(await response.json()).toEqual({ message: expect.stringContaining('types must be a comma-separated list of') });
+    });
+});
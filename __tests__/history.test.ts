@@ -0,0 +1,44 @@
+import { describe, it, expect } from '@jest/globals';
+import { ethers } from 'ethers';
+import { ExecutionHistory, decodeRevertReason } from '../src/simulator/history';
+
+const revertData = (signature: string, types: string[], values: unknown[]) =>
+    ethers.utils.hexConcat([ethers.utils.id(signature).slice(0, 10), ethers.utils.defaultAbiCoder.encode(types, values)]);
+
+describe('ExecutionHistory', () => {
+    it('pages the records most recent first', () => {
+        const history = new ExecutionHistory();
+        for (let blockNumber = 1; blockNumber <= 5; blockNumber++) {
+            history.record({ blockNumber, status: 'not-needed' });
+        }
+
+        expect(history.page(0, 2).map((record) => record.blockNumber)).toEqual([5, 4]);
+        expect(history.page(2, 2).map((record) => record.blockNumber)).toEqual([3, 2]);
+        expect(history.page(4, 2).map((record) => record.blockNumber)).toEqual([1]);
+        expect(history.page(10, 2)).toEqual([]);
+    });
+
+    it('keeps the last records up to its limit, without reusing their ids', () => {
+        const history = new ExecutionHistory(3);
+        for (let blockNumber = 1; blockNumber <= 5; blockNumber++) {
+            history.record({ blockNumber, status: 'performed' });
+        }
+
+        expect(history.size).toBe(3);
+        expect(history.page().map((record) => record.id)).toEqual([5, 4, 3]);
+    });
+});
+
+describe('decodeRevertReason', () => {
+    it('decodes Error(string), Panic(uint256) and custom errors', () => {
+        expect(decodeRevertReason({ data: revertData('Error(string)', ['string'], ['too early']) })).toBe('reverted: too early');
+        expect(decodeRevertReason({ error: { data: revertData('Panic(uint256)', ['uint256'], [0x11]) } })).toBe('panicked with code 0x11');
+        expect(decodeRevertReason({ error: { data: { data: revertData('NotReady(uint256)', ['uint256'], [1]) } } }))
+            .toBe(`reverted with custom error ${ethers.utils.id('NotReady(uint256)').slice(0, 10)}`);
+    });
+
+    it('falls back to the reason or message of the error', () => {
+        expect(decodeRevertReason(Object.assign(new Error('call revert exception'), { reason: 'missing revert data' }))).toBe('missing revert data');
+        expect(decodeRevertReason(new Error('insufficient funds'))).toBe('insufficient funds');
+    });
+});
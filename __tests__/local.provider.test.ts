@@ -21,6 +21,9 @@ await (jest as any).unstable_mockModule('axios', () => {
 // Now import the SUT after the mock is in place
 const { LocalProvider } = await import('../src/providers/local.provider');
 
+// Requests to a simulator that does not require a token
+const NO_AUTH = { headers: {} };
+
 describe('LocalProvider (ESM + axios mocked)', () => {
   beforeAll(() => {
     // Avoid noisy console output during tests
@@ -43,12 +46,43 @@ describe('LocalProvider (ESM + axios mocked)', () => {
     await Promise.resolve();
 
     expect(mockGet).toHaveBeenCalledTimes(1);
-    expect(mockGet).toHaveBeenCalledWith('http://localhost:7788/status');
+    expect(mockGet).toHaveBeenCalledWith('http://localhost:7788/status', NO_AUTH);
     expect(provider).toBeInstanceOf(LocalProvider);
   });
 
+  it('targets the simulator given by simulatorUrl', async () => {
+    const provider = new LocalProvider(undefined, 'http://127.0.0.1:7789/');
+    await Promise.resolve();
+
+    mockPost.mockResolvedValueOnce({ data: {} } as never);
+    await provider.unpauseUpkeep('0x123');
+
+    expect(mockGet).toHaveBeenCalledWith('http://127.0.0.1:7789/status', NO_AUTH);
+    expect(mockPost).toHaveBeenCalledWith('http://127.0.0.1:7789/upkeeps/0x123/unpause', undefined, NO_AUTH);
+  });
+
+  it('sends the bearer token of a simulator started with --auth', async () => {
+    const auth = { headers: { Authorization: 'Bearer secret' } };
+    const provider = new LocalProvider(undefined, undefined, 'secret');
+    await Promise.resolve();
+
+    mockPost.mockResolvedValueOnce({ data: {} } as never);
+    await provider.pauseUpkeep('0x123');
+
+    expect(mockGet).toHaveBeenCalledWith('http://localhost:7788/status', auth);
+    expect(mockPost).toHaveBeenCalledWith('http://localhost:7788/upkeeps/0x123/pause', undefined, auth);
+
+    process.env.SIMULATOR_AUTH_TOKEN = 'from-env';
+    try {
+      new LocalProvider();
+      expect(mockGet).toHaveBeenLastCalledWith('http://localhost:7788/status', { headers: { Authorization: 'Bearer from-env' } });
+    } finally {
+      delete process.env.SIMULATOR_AUTH_TOKEN;
+    }
+  });
+
   describe('createUpkeep', () => {
-    it('calls /register and returns upkeepId (contract address)', async () => {
+    it('calls /register and returns the upkeepId the simulator issued', async () => {
       const provider = new LocalProvider();
       await Promise.resolve(); // let healthcheck settle
 
@@ -60,76 +94,215 @@ describe('LocalProvider (ESM + axios mocked)', () => {
         initialFunds: '0',
       };
 
-      mockPost.mockResolvedValueOnce({ data: {} } as never);
+      mockPost.mockResolvedValueOnce({ data: { upkeepId: '123' } } as never);
 
       const result = await provider.createUpkeep(options);
 
       expect(mockPost).toHaveBeenCalledTimes(1);
-      expect(mockPost).toHaveBeenCalledWith('http://localhost:7788/register', options);
-      expect(result).toEqual({ upkeepId: '0xabcDEF123' });
+      expect(mockPost).toHaveBeenCalledWith('http://localhost:7788/register', options, NO_AUTH);
+      expect(result).toEqual({ upkeepId: '123' });
+    });
+
+    it('registers the signer as the upkeep admin', async () => {
+      const signer = { getAddress: jest.fn(() => Promise.resolve('0xAdmin')) };
+      const provider = new LocalProvider(signer as never);
+      await Promise.resolve();
+
+      const options = {
+        name: 'Test Upkeep',
+        upkeepContract: '0xabcDEF123',
+        gasLimit: 500_000,
+        triggerType: 'custom' as const,
+        initialFunds: '0',
+      };
+
+      mockPost.mockResolvedValueOnce({ data: { upkeepId: '123' } } as never);
+
+      await provider.createUpkeep(options);
+
+      expect(mockPost).toHaveBeenCalledWith('http://localhost:7788/register', { ...options, adminAddress: '0xAdmin' }, NO_AUTH);
+    });
+  });
+
+  describe('simulateCreateUpkeep', () => {
+    it('warns when the contract already has an upkeep with the same trigger', async () => {
+      const provider = new LocalProvider();
+      await Promise.resolve();
+
+      mockGet.mockResolvedValueOnce({ data: { status: 'ok' } } as never);
+      mockGet.mockResolvedValueOnce({ data: { upkeeps: [
+        { id: '123', target: '0xABCDEF123', triggerType: 'custom' },
+        { id: '456', target: '0xabcdef123', triggerType: 'log' },
+      ] } } as never);
+
+      const checks = await provider.simulateCreateUpkeep({
+        name: 'Test Upkeep',
+        upkeepContract: '0xabcDEF123',
+        gasLimit: 500_000,
+        triggerType: 'custom',
+        initialFunds: '0',
+      });
+
+      expect(mockGet).toHaveBeenLastCalledWith('http://localhost:7788/upkeeps', NO_AUTH);
+      expect(checks).toContainEqual({
+        check: 'register',
+        status: 'warning',
+        message: 'Contract 0xabcDEF123 already has custom upkeep(s) 123; registering adds another.',
+      });
+      expect(mockPost).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('simulateUpdateUpkeep', () => {
+    it('checks the new settings against the limits enforced by the simulator', async () => {
+      const provider = new LocalProvider();
+      await Promise.resolve();
+
+      mockGet.mockResolvedValueOnce({ data: { status: 'ok', limits: { checkGasLimit: 10_000_000, performGasLimit: 5_000_000, maxCheckDataSize: 2000, maxPerformDataSize: 2000 } } } as never);
+
+      const checks = await provider.simulateUpdateUpkeep('123', { gasLimit: 6_000_000 });
+
+      expect(checks).toEqual([{
+        check: 'limits',
+        status: 'error',
+        message: 'gasLimit 6000000 exceeds the performGasLimit of 5000000 (enforced by the simulator).',
+      }]);
+      expect(mockPost).not.toHaveBeenCalled();
     });
   });
 
   describe('cancelUpkeep', () => {
-    it('calls /unregister with upkeepContract payload', async () => {
+    it('calls /unregister with the upkeepId', async () => {
       const provider = new LocalProvider();
       await Promise.resolve();
 
       mockPost.mockResolvedValueOnce({ data: {} } as never);
 
-      const upkeepId = '0x123';
+      const upkeepId = '123';
       await provider.cancelUpkeep(upkeepId);
 
       expect(mockPost).toHaveBeenCalledTimes(1);
-      expect(mockPost).toHaveBeenCalledWith('http://localhost:7788/unregister', { upkeepContract: upkeepId });
+      expect(mockPost).toHaveBeenCalledWith('http://localhost:7788/unregister', { upkeepId }, NO_AUTH);
     });
   });
 
   describe('getUpkeep', () => {
-    it('returns a mock object (no real on-chain data)', async () => {
+    it('reads the upkeep record from /upkeeps/:id', async () => {
       const provider = new LocalProvider();
       await Promise.resolve();
 
       const upkeepId = '0x123';
+      mockGet.mockResolvedValueOnce({
+        data: {
+          id: upkeepId,
+          name: 'Test Upkeep',
+          triggerType: 'custom',
+          status: 'paused',
+          target: upkeepId,
+          admin: '0xAdmin',
+          balance: '4.5',
+          gasLimit: 500_000,
+          isPaused: true,
+          performData: '0xbeef',
+        },
+      } as never);
+
       const result = await provider.getUpkeep(upkeepId);
 
-      expect(result).toEqual(
-        expect.objectContaining({
-          target: upkeepId,
-          admin: expect.any(String),
-          balance: expect.any(String),
-          gasLimit: expect.any(Number),
-          isPaused: expect.any(Boolean),
-          performData: expect.any(String),
-        })
-      );
+      expect(mockGet).toHaveBeenLastCalledWith('http://localhost:7788/upkeeps/0x123', NO_AUTH);
+      expect(result).toEqual({
+        target: upkeepId,
+        admin: '0xAdmin',
+        balance: '4.5',
+        gasLimit: 500_000,
+        isPaused: true,
+        performData: '0xbeef',
+      });
+    });
+
+    it('surfaces the simulator error message', async () => {
+      const provider = new LocalProvider();
+      await Promise.resolve();
+
+      mockGet.mockRejectedValueOnce({ response: { status: 404, data: { message: 'No upkeep registered with ID 0x404' } } } as never);
+
+      await expect(provider.getUpkeep('0x404')).rejects.toThrow('Error during getUpkeep: No upkeep registered with ID 0x404');
+    });
+  });
+
+  describe('getUpkeepHistory', () => {
+    it('reads a page of executions from /upkeeps/:id/history', async () => {
+      const provider = new LocalProvider();
+      await Promise.resolve();
+
+      const page = {
+        upkeepId: '0x123',
+        total: 1,
+        offset: 0,
+        limit: 10,
+        records: [{ id: 1, timestamp: '2024-01-01T00:00:00.000Z', blockNumber: 42, status: 'performed', txHash: '0xabc', gasUsed: '21000' }],
+      };
+      mockGet.mockResolvedValueOnce({ data: page } as never);
+
+      await expect(provider.getUpkeepHistory('0x123', { limit: 10 })).resolves.toEqual(page);
+      expect(mockGet).toHaveBeenLastCalledWith('http://localhost:7788/upkeeps/0x123/history', { ...NO_AUTH, params: { limit: 10 } });
     });
   });
 
   describe('addFunds', () => {
-    it('is a no-op that resolves', async () => {
+    it('calls /upkeeps/:id/fund with the amount', async () => {
       const provider = new LocalProvider();
       await Promise.resolve();
 
+      mockPost.mockResolvedValueOnce({ data: {} } as never);
+
       await expect(provider.addFunds('0x123', '10')).resolves.toBeUndefined();
+      expect(mockPost).toHaveBeenCalledWith('http://localhost:7788/upkeeps/0x123/fund', { amount: '10' }, NO_AUTH);
+    });
+  });
+
+  describe('updateUpkeep', () => {
+    it('calls /upkeeps/:id/update with the changes', async () => {
+      const provider = new LocalProvider();
+      await Promise.resolve();
+
+      mockPost.mockResolvedValueOnce({ data: {} } as never);
+
+      await expect(provider.updateUpkeep('0x123', { gasLimit: 300000, checkData: '0x01' })).resolves.toBeUndefined();
+      expect(mockPost).toHaveBeenCalledWith('http://localhost:7788/upkeeps/0x123/update', { gasLimit: 300000, checkData: '0x01' }, NO_AUTH);
     });
   });
 
   describe('pauseUpkeep', () => {
-    it('is a no-op that resolves', async () => {
+    it('calls /upkeeps/:id/pause', async () => {
       const provider = new LocalProvider();
       await Promise.resolve();
 
+      mockPost.mockResolvedValueOnce({ data: {} } as never);
+
       await expect(provider.pauseUpkeep('0x123')).resolves.toBeUndefined();
+      expect(mockPost).toHaveBeenCalledWith('http://localhost:7788/upkeeps/0x123/pause', undefined, NO_AUTH);
+    });
+
+    it('surfaces the simulator error message', async () => {
+      const provider = new LocalProvider();
+      await Promise.resolve();
+
+      mockPost.mockRejectedValueOnce({ response: { status: 400, data: { message: 'Failed to pause upkeep: Upkeep is already paused.' } } } as never);
+
+      await expect(provider.pauseUpkeep('0x123')).rejects.toThrow('Upkeep is already paused.');
     });
   });
 
   describe('unpauseUpkeep', () => {
-    it('is a no-op that resolves', async () => {
+    it('calls /upkeeps/:id/unpause', async () => {
       const provider = new LocalProvider();
       await Promise.resolve();
 
+      mockPost.mockResolvedValueOnce({ data: {} } as never);
+
       await expect(provider.unpauseUpkeep('0x123')).resolves.toBeUndefined();
+      expect(mockPost).toHaveBeenCalledWith('http://localhost:7788/upkeeps/0x123/unpause', undefined, NO_AUTH);
     });
   });
 
@@ -142,6 +315,6 @@ describe('LocalProvider (ESM + axios mocked)', () => {
 
     // Even on failure, constructor should not throw
     expect(provider).toBeInstanceOf(LocalProvider);
-    expect(mockGet).toHaveBeenCalledWith('http://localhost:7788/status');
+    expect(mockGet).toHaveBeenCalledWith('http://localhost:7788/status', NO_AUTH);
   });
 });
@@ -0,0 +1,324 @@
+import { jest, describe, it, expect, beforeAll, beforeEach } from '@jest/globals';
+import { ethers } from 'ethers';
+import { LogTriggerJob, LogTriggerJobConfig, UpkeepJobHooks } from '../src/simulator/jobs';
+import type { LimitViolation } from '../src/simulator/limits';
+import type { Execution } from '../src/simulator/history';
+import { LogDedupeStore } from '../src/simulator/dedupe';
+
+const EMITTER = '0x0000000000000000000000000000000000000002';
+
+/**
+ * A chain whose blocks and logs are set by the test, exposing the provider calls LogTriggerJob makes.
+ */
+class FakeChain {
+    readonly _isProvider = true;
+    blocks: string[] = []; // Hash per height
+    logs: ethers.providers.Log[] = [];
+    maxRange = Infinity; // Larger eth_getLogs queries are refused, like providers do
+    queries: [number, number][] = [];
+    private _listeners: ((blockNumber: number) => void)[] = [];
+
+    mine(count = 1, fork = ''): void {
+        for (let i = 0; i < count; i++) {
+            this.blocks.push(ethers.utils.id(`${fork}block-${this.blocks.length}`));
+        }
+        this._listeners.forEach((listener) => listener(this.blocks.length - 1));
+    }
+
+    // Replaces the blocks from `height` on, as a reorg would
+    reorg(height: number): void {
+        this.blocks = this.blocks.map((hash, i) => (i >= height ? ethers.utils.id(`fork-block-${i}`) : hash));
+    }
+
+    emit(txHash: string, height = this.blocks.length - 1): void {
+        const logIndex = this.logs.filter((log) => log.blockNumber === height).length;
+        this.logs.push({
+            blockNumber: height, blockHash: '', transactionHash: ethers.utils.id(txHash), logIndex, transactionIndex: 0,
+            address: EMITTER, topics: [], data: '0x', removed: false,
+        });
+    }
+
+    on(_event: string, listener: (blockNumber: number) => void) { this._listeners.push(listener); }
+    off(_event: string, listener: (blockNumber: number) => void) { this._listeners = this._listeners.filter((l) => l !== listener); }
+    async getBlockNumber() { return this.blocks.length - 1; }
+    async getBlock(height: number) { return { number: height, hash: this.blocks[height], timestamp: 1_700_000_000 + height }; }
+    async getLogs({ fromBlock, toBlock }: { fromBlock: number; toBlock: number }) {
+        if (toBlock - fromBlock + 1 > this.maxRange) {
+            throw Object.assign(new Error(`query exceeds max block range ${this.maxRange}`), { code: -32602 });
+        }
+        this.queries.push([fromBlock, toBlock]);
+        return this.logs
+            .filter((log) => log.blockNumber >= fromBlock && log.blockNumber <= toBlock)
+            .map((log) => ({ ...log, blockHash: this.blocks[log.blockNumber] }));
+    }
+}
+
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('LogTriggerJob', () => {
+    let chain: FakeChain;
+    let checkLog: jest.Mock<(log: { txHash: string }) => Promise<[boolean, string]>>;
+    let performUpkeep: jest.Mock<() => Promise<{ hash?: string; wait: () => Promise<object> }>>;
+    let checkpoints: number[];
+
+    beforeAll(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    beforeEach(() => {
+        chain = new FakeChain();
+        chain.mine(11); // Blocks 0-10
+        checkLog = jest.fn(async () => [true, '0x'] as [boolean, string]);
+        performUpkeep = jest.fn(async () => ({ wait: async () => ({}) }));
+        checkpoints = [];
+    });
+
+    async function startJob(
+        confirmations = 0, resumeFrom?: number, hooks: UpkeepJobHooks = {}, config: LogTriggerJobConfig = {}, provider: object = chain
+    ): Promise<LogTriggerJob> {
+        const signer = new ethers.VoidSigner(ethers.constants.AddressZero, provider as ethers.providers.Provider);
+        const job = new LogTriggerJob(
+            { name: 'Test', upkeepContract: EMITTER, triggerType: 'log', gasLimit: 100000, initialFunds: '0', logEmitterAddress: EMITTER, logEventSignature: 'Ping()' },
+            signer,
+            { onCheckpoint: (blockNumber) => checkpoints.push(blockNumber), ...hooks },
+            { confirmations, dedupeWindow: 5, checkGasLimit: 5_000_000, ...config }
+        );
+        // Stand in for the upkeep contract
+        (job as unknown as { _upkeepContract: object })._upkeepContract = { callStatic: { checkLog }, performUpkeep };
+        await job.start(resumeFrom);
+        return job;
+    }
+
+    it('waits for the confirmation depth before checking a log', async () => {
+        const job = await startJob(2);
+
+        chain.mine();
+        chain.emit('tx-1');
+        chain.mine();
+        await settle();
+        expect(checkLog).not.toHaveBeenCalled();
+
+        chain.mine();
+        await settle();
+        expect(checkLog).toHaveBeenCalledTimes(1);
+        expect(job.processedLogs).toEqual([expect.objectContaining({ blockNumber: 11, state: 'performed' })]);
+        expect(checkpoints.at(-1)).toBe(11);
+
+        await job.stop();
+    });
+
+    it('checks the logs of unconfirmed blocks right away when ticked with force', async () => {
+        const job = await startJob(2, undefined, {}, { manualTick: true });
+
+        chain.mine();
+        chain.emit('tx-1');
+        await job.tick();
+        expect(checkLog).not.toHaveBeenCalled();
+
+        await job.tick(true);
+        expect(checkLog).toHaveBeenCalledTimes(1);
+        expect(checkpoints.at(-1)).toBe(11);
+
+        // Processed logs are not checked again once confirmed
+        chain.mine(2);
+        await job.tick();
+        expect(checkLog).toHaveBeenCalledTimes(1);
+
+        await job.stop();
+    });
+
+    it('records each log once with its outcome', async () => {
+        checkLog
+            .mockResolvedValueOnce([false, '0x'])
+            .mockRejectedValueOnce(new Error('execution reverted'));
+        const job = await startJob();
+
+        chain.mine();
+        chain.emit('not-needed');
+        chain.emit('reverted');
+        chain.emit('performed');
+        chain.mine();
+        chain.mine();
+        await settle();
+
+        expect(job.processedLogs.map(({ state, error }) => ({ state, error }))).toEqual([
+            { state: 'checked-not-needed', error: undefined },
+            { state: 'failed', error: 'execution reverted' },
+            { state: 'performed', error: undefined },
+        ]);
+        expect(checkLog).toHaveBeenCalledTimes(3);
+        expect(performUpkeep).toHaveBeenCalledTimes(1);
+
+        await job.stop();
+    });
+
+    it('checks under the checkGasLimit and records why a perform was skipped', async () => {
+        const violations: LimitViolation[] = [];
+        checkLog.mockRejectedValueOnce(new Error('out of gas'));
+        const job = await startJob(0, undefined, {
+            canPerform: async () => 'performData is 3000 bytes, above the maxPerformDataSize of 2000. Skipping perform.',
+            onViolation: (violation) => violations.push(violation),
+        });
+
+        chain.mine();
+        chain.emit('out-of-gas');
+        chain.emit('too-large');
+        chain.mine();
+        await settle();
+
+        expect(checkLog).toHaveBeenCalledWith(expect.anything(), '0x', { gasLimit: 5_000_000 });
+        expect(job.processedLogs.map(({ state, error }) => ({ state, error }))).toEqual([
+            { state: 'failed', error: 'out of gas' },
+            { state: 'failed', error: 'performData is 3000 bytes, above the maxPerformDataSize of 2000. Skipping perform.' },
+        ]);
+        expect(violations).toEqual([expect.objectContaining({ limit: 'checkGasLimit' })]);
+        expect(performUpkeep).not.toHaveBeenCalled();
+
+        await job.stop();
+    });
+
+    it('reports each execution with its trigger, transaction and decoded revert reason', async () => {
+        const executions: Execution[] = [];
+        const revert = ethers.utils.hexConcat(['0x08c379a0', ethers.utils.defaultAbiCoder.encode(['string'], ['not ready'])]);
+        checkLog.mockRejectedValueOnce(Object.assign(new Error('call revert exception'), { data: revert }));
+        performUpkeep.mockResolvedValueOnce({ hash: '0xperform', wait: async () => ({ transactionHash: '0xperform', gasUsed: ethers.BigNumber.from(21000) }) });
+        const events: string[] = [];
+        const job = await startJob(0, undefined, {
+            onChecked: ({ upkeepNeeded }) => events.push(`checked: ${upkeepNeeded}`),
+            onPerformSent: (_execution, txHash) => events.push(`sent: ${txHash}`),
+            onExecution: (execution) => {
+                executions.push(execution);
+                events.push(execution.status);
+            },
+        });
+
+        chain.mine();
+        chain.emit('reverted');
+        chain.emit('performed');
+        chain.mine();
+        await settle();
+
+        expect(executions).toEqual([
+            expect.objectContaining({ blockNumber: 11, status: 'check-failed', error: 'reverted: not ready' }),
+            expect.objectContaining({
+                blockNumber: 11,
+                trigger: { transactionHash: ethers.utils.id('performed'), logIndex: 1, blockHash: chain.blocks[11] },
+                upkeepNeeded: true,
+                status: 'performed',
+                txHash: '0xperform',
+                gasUsed: '21000',
+            }),
+        ]);
+        expect(events).toEqual(['check-failed', 'checked: true', 'sent: 0xperform', 'performed']);
+
+        await job.stop();
+    });
+
+    it('drops the logs of replaced blocks and checks their replacements', async () => {
+        const job = await startJob();
+        chain.mine();
+        chain.emit('tx-1');
+        chain.mine();
+        await settle();
+        expect(job.processedLogs).toHaveLength(1);
+
+        // Block 11 is replaced, with the same transaction mined again
+        chain.reorg(11);
+        chain.mine();
+        await settle();
+
+        expect(checkLog).toHaveBeenCalledTimes(2);
+        expect(job.processedLogs).toEqual([expect.objectContaining({ blockNumber: 11, blockHash: chain.blocks[11], state: 'performed' })]);
+
+        await job.stop();
+    });
+
+    it('catches up on the logs emitted since its checkpoint', async () => {
+        chain.emit('missed', 8);
+        chain.emit('already-processed', 6);
+
+        const job = await startJob(0, 7);
+
+        expect(checkLog).toHaveBeenCalledTimes(1);
+        expect(job.processedLogs).toEqual([expect.objectContaining({ blockNumber: 8 })]);
+        expect(checkpoints).toEqual([10]);
+
+        await job.stop();
+    });
+
+    it('fetches logs in ranges of maxBlockRange blocks, splitting those the node refuses', async () => {
+        chain.maxRange = 3;
+        chain.emit('first', 2);
+        chain.emit('second', 5);
+        chain.emit('third', 9);
+
+        const job = await startJob(0, 0, {}, { maxBlockRange: 8 });
+
+        expect(checkLog.mock.calls.map(([log]) => log.txHash)).toEqual(['first', 'second', 'third'].map((tx) => ethers.utils.id(tx)));
+        expect(chain.queries).toEqual([[1, 2], [3, 4], [5, 6], [7, 8], [9, 10]]);
+        // Checkpointed after every maxBlockRange blocks
+        expect(checkpoints).toEqual([8, 10]);
+
+        await job.stop();
+    });
+
+    it('grows a range reduced by a refusal back to maxBlockRange once queries pass again', async () => {
+        chain.maxRange = 4;
+        const job = await startJob(0, 0, {}, { maxBlockRange: 8, manualTick: true });
+        await job.tick();
+        // Refused once for 8 blocks, then queried 4 at a time
+        expect(chain.queries).toEqual([[1, 4], [5, 8], [9, 10]]);
+
+        // The node accepts large queries again, e.g. after a temporary "too many results"
+        chain.maxRange = Infinity;
+        chain.queries = [];
+        chain.mine(40); // Blocks 11-50
+        await job.tick();
+
+        expect(chain.queries.map(([from, to]) => to - from + 1)).toEqual([4, 4, 4, 4, 4, 4, 4, 8, 4]);
+
+        await job.stop();
+    });
+
+    it('polls HTTP providers for new blocks at the polling interval', async () => {
+        const provider = new ethers.providers.StaticJsonRpcProvider('http://127.0.0.1:1', { chainId: 31337, name: 'local' });
+        jest.spyOn(provider, 'getBlockNumber').mockImplementation(() => chain.getBlockNumber());
+        jest.spyOn(provider, 'getBlock').mockImplementation((height) => chain.getBlock(height as number) as unknown as Promise<ethers.providers.Block>);
+        jest.spyOn(provider, 'getLogs').mockImplementation((filter) => chain.getLogs(filter as { fromBlock: number; toBlock: number }));
+        const on = jest.spyOn(provider, 'on');
+        const job = await startJob(0, undefined, {}, { pollingInterval: 10 }, provider);
+
+        chain.mine();
+        chain.emit('tx-1');
+        chain.mine();
+        await new Promise((resolve) => setTimeout(resolve, 100));
+
+        expect(on).not.toHaveBeenCalled();
+        expect(job.processedLogs).toEqual([expect.objectContaining({ blockNumber: 11, state: 'performed' })]);
+
+        await job.stop();
+    });
+});
+
+describe('LogDedupeStore', () => {
+    const log = (blockNumber: number, logIndex = 0) => ({
+        blockNumber, blockHash: ethers.utils.id(`block-${blockNumber}`), transactionHash: ethers.utils.id(`tx-${blockNumber}`), logIndex,
+    }) as ethers.providers.Log;
+
+    it('identifies logs by block hash and index and prunes them by height', () => {
+        const store = new LogDedupeStore();
+        store.record(log(1), 'performed');
+        store.record(log(2), 'checked-not-needed');
+        store.record(log(3, 1), 'failed', 'insufficient balance');
+
+        expect(store.has(log(3, 1))).toBe(true);
+        expect(store.has(log(3, 0))).toBe(false);
+        expect(store.get(log(3, 1))).toMatchObject({ state: 'failed', error: 'insufficient balance' });
+
+        expect(store.prune(2)).toBe(1);
+        expect(store.dropAbove(2).map((entry) => entry.blockNumber)).toEqual([3]);
+        expect(store.size).toBe(1);
+    });
+});
@@ -0,0 +1,169 @@
+import { ManifestV2Schema, parseManifest, isManifestV2, type StateV2 } from '../src/manifest/schema';
+import { getApplyOrder, resolveReferences } from '../src/manifest/references';
+import { planManifest, hasChanges, UNKNOWN_OUTPUT } from '../src/manifest/plan';
+
+const INPUT_BOX = '0x59b22D57D4f067708AB0c00552767405926dc768';
+
+function buildManifest(overrides: Record<string, unknown> = {}) {
+    return {
+        version: '2',
+        network: { mode: 'local', chainId: 31337 },
+        contracts: {
+            logCounter: {
+                artifact: './artifacts/InputBoxLogCounter.json',
+                constructorArgs: [INPUT_BOX, '${contracts.counter.address}'],
+            },
+            counter: { artifact: './artifacts/Counter.json' },
+        },
+        upkeeps: {
+            inputLogger: {
+                name: 'InputBox → Counter',
+                upkeepContract: '${contracts.logCounter.address}',
+                gasLimit: 250000,
+                triggerType: 'log',
+                logEmitterAddress: INPUT_BOX,
+                logEventSignature: 'InputAdded(address,uint256,bytes)',
+            },
+        },
+        ...overrides,
+    };
+}
+
+describe('v2 manifests', () => {
+    it('parses a v2 manifest and orders entries by their references', () => {
+        const manifest = parseManifest(buildManifest());
+
+        expect(isManifestV2(manifest)).toBe(true);
+        expect(getApplyOrder(manifest as never)).toEqual([
+            { kind: 'contract', name: 'counter' },
+            { kind: 'contract', name: 'logCounter' },
+            { kind: 'upkeep', name: 'inputLogger' },
+        ]);
+    });
+
+    it('resolves references against the outputs of applied entries', () => {
+        const manifest = ManifestV2Schema.parse(buildManifest());
+        const outputs = { contracts: { counter: { address: '0x1234' } }, upkeeps: {} };
+
+        const deployment = resolveReferences(manifest.contracts.logCounter, outputs);
+
+        expect(deployment.constructorArgs).toEqual([INPUT_BOX, '0x1234']);
+        expect(() => resolveReferences(manifest.upkeeps.inputLogger, outputs)).toThrow('contracts.logCounter has not been applied yet');
+    });
+
+    it('rejects references to unknown entries', () => {
+        const result = ManifestV2Schema.safeParse(buildManifest({ contracts: {} }));
+
+        expect(result.success).toBe(false);
+        expect(result.error?.issues[0].message).toContain("unknown entry 'contracts.logCounter'");
+    });
+
+    it('rejects circular references', () => {
+        const result = ManifestV2Schema.safeParse(buildManifest({
+            contracts: {
+                a: { artifact: './A.json', constructorArgs: ['${contracts.b.address}'] },
+                b: { artifact: './B.json', constructorArgs: ['${contracts.a.address}'] },
+            },
+            upkeeps: {
+                inputLogger: { name: 'A', upkeepContract: '${contracts.a.address}', gasLimit: 100000, triggerType: 'custom' },
+            },
+        }));
+
+        expect(result.success).toBe(false);
+        expect(result.error?.issues[0].message).toContain('Circular reference');
+    });
+
+    it('accepts time-based upkeeps in chainlink mode with the CronUpkeepFactory to deploy them through', () => {
+        const manifest = ManifestV2Schema.parse(buildManifest({
+            network: { mode: 'chainlink', chainId: 11155111, cronUpkeepFactoryAddress: INPUT_BOX },
+            upkeeps: {
+                cron: { name: 'Cron', upkeepContract: INPUT_BOX, gasLimit: 100000, triggerType: 'time', cronExpression: '0 * * * *', initialFunds: '1' },
+            },
+        }));
+
+        expect(manifest.network.cronUpkeepFactoryAddress).toBe(INPUT_BOX);
+        expect(ManifestV2Schema.safeParse(buildManifest({ network: { mode: 'chainlink', chainId: 1, cronUpkeepFactoryAddress: '0x1234' } })).success).toBe(false);
+    });
+});
+
+describe('planManifest', () => {
+    const COUNTER = '0x000000000000000000000000000000000000c0de';
+    const LOG_COUNTER = '0x0000000000000000000000000000000000001095';
+
+    // The state left by applying buildManifest() with the given upkeep settings
+    function buildState(upkeep: Record<string, unknown> = {}): StateV2 {
+        const manifest = ManifestV2Schema.parse(buildManifest());
+        const outputs = { contracts: { counter: { address: COUNTER }, logCounter: { address: LOG_COUNTER } }, upkeeps: {} };
+        return {
+            version: '2',
+            network: { mode: 'local', chainId: 31337 },
+            contracts: {
+                counter: { address: COUNTER, deployment: manifest.contracts.counter },
+                logCounter: { address: LOG_COUNTER, deployment: resolveReferences(manifest.contracts.logCounter, outputs) },
+            },
+            upkeeps: {
+                inputLogger: {
+                    name: 'InputBox → Counter',
+                    upkeepId: LOG_COUNTER,
+                    address: LOG_COUNTER,
+                    config: { ...resolveReferences(manifest.upkeeps.inputLogger, outputs), ...upkeep },
+                },
+            },
+            timestamp: '2026-01-01T00:00:00.000Z',
+        };
+    }
+
+    it('creates every entry without a state', () => {
+        const plan = planManifest(ManifestV2Schema.parse(buildManifest()));
+
+        expect(plan.steps.map((step) => step.operations)).toEqual([[{ type: 'create' }], [{ type: 'create' }], [{ type: 'create' }]]);
+    });
+
+    it('is a no-op when the state matches the manifest', () => {
+        const plan = planManifest(ManifestV2Schema.parse(buildManifest()), buildState());
+
+        expect(hasChanges(plan)).toBe(false);
+        expect(plan.orphans).toEqual([]);
+    });
+
+    it('updates, funds and unpauses an upkeep in place', () => {
+        const state = buildState({ gasLimit: 200000, initialFunds: '1.0', paused: true });
+        const manifest = buildManifest();
+        manifest.upkeeps.inputLogger = { ...manifest.upkeeps.inputLogger, initialFunds: '2.5' };
+
+        const plan = planManifest(ManifestV2Schema.parse(manifest), state);
+
+        expect(plan.steps[2].operations).toEqual([
+            { type: 'update', changes: [{ field: 'gasLimit', from: 200000, to: 250000 }] },
+            { type: 'fund', amount: '1.5' },
+            { type: 'unpause' },
+        ]);
+    });
+
+    it('replaces a contract and the upkeeps that depend on it', () => {
+        const state = buildState();
+        state.contracts.counter.deployment = { artifact: './artifacts/OldCounter.json', constructorArgs: [] };
+
+        const plan = planManifest(ManifestV2Schema.parse(buildManifest()), state);
+
+        expect(plan.steps.map((step) => step.operations[0]?.type)).toEqual(['replace', 'replace', 'replace']);
+        expect(plan.steps[2].operations[0]).toEqual({
+            type: 'replace',
+            reason: `upkeepContract changed from ${LOG_COUNTER} to ${UNKNOWN_OUTPUT}`,
+        });
+    });
+
+    it('replaces a time-based upkeep whose schedule changed in chainlink mode', () => {
+        const cron = { name: 'Cron', upkeepContract: LOG_COUNTER, gasLimit: 250000, triggerType: 'time', cronExpression: '0 * * * *' };
+        const state = buildState(cron);
+        const manifest = ManifestV2Schema.parse(buildManifest({ upkeeps: { inputLogger: { ...cron, cronExpression: '*/5 * * * *' } } }));
+
+        expect(planManifest(manifest, state).steps[2].operations).toEqual([
+            { type: 'update', changes: [{ field: 'trigger', from: { cronExpression: '0 * * * *', performData: '0x' }, to: { cronExpression: '*/5 * * * *', performData: '0x' } }] },
+        ]);
+        manifest.network.mode = 'chainlink';
+        expect(planManifest(manifest, state).steps[2].operations).toEqual([
+            { type: 'replace', reason: "schedule changed from '0 * * * *' (performData 0x) to '*/5 * * * *' (performData 0x)" },
+        ]);
+    });
+});
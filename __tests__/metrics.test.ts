@@ -0,0 +1,89 @@
+import { jest, describe, it, expect, beforeAll } from '@jest/globals';
+import { EventEmitter } from 'events';
+import { ethers } from 'ethers';
+import { SimulatorMetrics } from '../src/simulator/metrics';
+import { UpkeepRegistry } from '../src/simulator/registry';
+
+const PRIVATE_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const CONTRACT = '0x0000000000000000000000000000000000000001';
+const LABELS = { upkeep: CONTRACT, name: 'Counter' };
+
+describe('SimulatorMetrics', () => {
+    it('counts checks and performs per upkeep and outcome', () => {
+        const metrics = new SimulatorMetrics();
+        metrics.recordExecution(LABELS, { blockNumber: 1, upkeepNeeded: false, status: 'not-needed' });
+        metrics.recordExecution(LABELS, { blockNumber: 2, upkeepNeeded: true, txHash: '0x01', gasUsed: '80000', status: 'performed' });
+        metrics.recordExecution(LABELS, { blockNumber: 3, error: 'boom', status: 'check-failed' });
+        // Time-based upkeeps perform without a check
+        metrics.recordExecution({ upkeep: '0x02', name: 'Cron "daily"' }, { blockNumber: 3, performData: '0x', error: 'insufficient balance', status: 'skipped' });
+
+        const text = metrics.render({ activeJobs: 2, blockLags: [{ labels: { ...LABELS, trigger: 'custom' }, lag: 3 }] });
+
+        expect(text).toContain('# TYPE chainlink_simulator_checks_total counter');
+        expect(text).toContain(`chainlink_simulator_checks_total{upkeep="${CONTRACT}",name="Counter",outcome="not_needed"} 1`);
+        expect(text).toContain(`chainlink_simulator_checks_total{upkeep="${CONTRACT}",name="Counter",outcome="needed"} 1`);
+        expect(text).toContain(`chainlink_simulator_checks_total{upkeep="${CONTRACT}",name="Counter",outcome="failed"} 1`);
+        expect(text).not.toContain('chainlink_simulator_checks_total{upkeep="0x02"');
+        expect(text).toContain(`chainlink_simulator_performs_total{upkeep="${CONTRACT}",name="Counter",outcome="success"} 1`);
+        expect(text).toContain('chainlink_simulator_performs_total{upkeep="0x02",name="Cron \\"daily\\"",outcome="skipped"} 1');
+        expect(text).toContain(`chainlink_simulator_perform_gas_used_bucket{upkeep="${CONTRACT}",name="Counter",le="50000"} 0`);
+        expect(text).toContain(`chainlink_simulator_perform_gas_used_bucket{upkeep="${CONTRACT}",name="Counter",le="100000"} 1`);
+        expect(text).toContain(`chainlink_simulator_perform_gas_used_sum{upkeep="${CONTRACT}",name="Counter"} 80000`);
+        expect(text).toContain('chainlink_simulator_active_jobs 2');
+        expect(text).toContain(`chainlink_simulator_block_lag{upkeep="${CONTRACT}",name="Counter",trigger="custom"} 3`);
+        expect(text.endsWith('\n')).toBe(true);
+    });
+
+    it('drops the series of a forgotten upkeep', () => {
+        const metrics = new SimulatorMetrics();
+        metrics.recordCheckDuration(LABELS, 0.2);
+        expect(metrics.render({ activeJobs: 1, blockLags: [] })).toContain(`chainlink_simulator_check_duration_seconds_count{upkeep="${CONTRACT}",name="Counter"} 1`);
+
+        metrics.forget(CONTRACT);
+
+        expect(metrics.render({ activeJobs: 0, blockLags: [] })).not.toContain(CONTRACT);
+    });
+
+    it('counts failed RPC requests, but not reverted calls', () => {
+        const metrics = new SimulatorMetrics();
+        const provider = new EventEmitter();
+        metrics.watchProvider(provider as unknown as ethers.providers.JsonRpcProvider);
+
+        provider.emit('debug', { action: 'request', request: { method: 'eth_blockNumber' } });
+        provider.emit('debug', { action: 'response', error: new Error('missing response'), request: { method: 'eth_blockNumber' } });
+        provider.emit('debug', { action: 'response', error: Object.assign(new Error('execution reverted'), { code: 3 }), request: { method: 'eth_call' } });
+
+        const text = metrics.render({ activeJobs: 0, blockLags: [] });
+        expect(text).toContain('chainlink_simulator_rpc_errors_total{method="eth_blockNumber"} 1');
+        expect(text).not.toContain('method="eth_call"');
+    });
+});
+
+describe('UpkeepRegistry metrics', () => {
+    let blockNumber = 100;
+
+    beforeAll(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(ethers.providers.JsonRpcProvider.prototype, 'getBlockNumber').mockImplementation(async () => blockNumber);
+        jest.spyOn(ethers.providers.JsonRpcProvider.prototype, 'getBlock').mockResolvedValue({ hash: '0x' + '11'.repeat(32), number: 100 } as ethers.providers.Block);
+    });
+
+    it('reports the executions of upkeeps and how far their jobs lag behind', async () => {
+        const registry = new UpkeepRegistry({ rpcUrl: 'http://127.0.0.1:8545', privateKey: PRIVATE_KEY, manualTick: true });
+        const upkeepId = await registry.registerUpkeep({ name: 'Counter', upkeepContract: CONTRACT, triggerType: 'custom', gasLimit: 100000, initialFunds: '0' });
+        // Stand in for the upkeep contract
+        const { job } = (registry as unknown as { _upkeeps: Map<string, { job: { _upkeepContract: object } }> })._upkeeps.get(upkeepId)!;
+        job._upkeepContract = { checkUpkeep: async () => [false, '0x'] };
+
+        blockNumber = 101;
+        await registry.tick();
+        blockNumber = 104;
+        const text = await registry.collectMetrics();
+
+        expect(text).toContain(`chainlink_simulator_checks_total{upkeep="${upkeepId}",name="Counter",outcome="not_needed"} 1`);
+        expect(text).toContain(`chainlink_simulator_check_duration_seconds_count{upkeep="${upkeepId}",name="Counter"} 1`);
+        expect(text).toContain('chainlink_simulator_active_jobs 1');
+        expect(text).toContain(`chainlink_simulator_block_lag{upkeep="${upkeepId}",name="Counter",trigger="custom"} 3`);
+        await registry.stopAll();
+    });
+});
@@ -0,0 +1,129 @@
+import { jest, describe, it, expect, beforeAll, beforeEach } from '@jest/globals';
+import { ethers } from 'ethers';
+import { NonceManagedSigner } from '../src/simulator/nonce-manager';
+
+const PRIVATE_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const TARGET = '0x0000000000000000000000000000000000000001';
+const GWEI = ethers.utils.parseUnits('1', 'gwei');
+
+/**
+ * A node whose mempool is driven by the test: sent transactions stay pending until mined.
+ */
+class FakeNode {
+    readonly _isProvider = true;
+    sent: ethers.Transaction[] = [];
+    mined = new Map<string, number>(); // Hash -> receipt status
+    confirmedNonce = 0; // Transaction count of mined transactions
+    rejectNext: string[] = []; // Errors thrown by the next sends
+
+    async getNetwork() { return { chainId: 31337, name: 'unknown' }; }
+    async resolveName(name: string) { return name; }
+    async estimateGas() { return ethers.BigNumber.from(100000); }
+    async getFeeData() { return { gasPrice: GWEI, maxFeePerGas: null, maxPriorityFeePerGas: null, lastBaseFeePerGas: null }; }
+    async getTransactionCount() { return this.confirmedNonce; }
+
+    async sendTransaction(signed: string) {
+        const error = this.rejectNext.shift();
+        if (error) {
+            throw new Error(error);
+        }
+        const tx = ethers.utils.parseTransaction(signed);
+        this.sent.push(tx);
+        return { ...tx, hash: tx.hash!, confirmations: 0, wait: async () => { throw new Error('not used'); } };
+    }
+
+    mine(hash: string, status = 1): void {
+        this.mined.set(hash, status);
+        this.confirmedNonce += 1;
+    }
+
+    async getTransactionReceipt(hash: string) {
+        return this.mined.has(hash) ? ({ transactionHash: hash, status: this.mined.get(hash) } as ethers.providers.TransactionReceipt) : null;
+    }
+
+    // Times out right away unless the transaction was mined
+    async waitForTransaction(hash: string) {
+        const receipt = await this.getTransactionReceipt(hash);
+        if (!receipt) {
+            throw Object.assign(new Error('timeout exceeded'), { code: ethers.errors.TIMEOUT });
+        }
+        return receipt;
+    }
+}
+
+describe('NonceManagedSigner', () => {
+    let node: FakeNode;
+    let signer: NonceManagedSigner;
+
+    beforeAll(() => {
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    beforeEach(() => {
+        node = new FakeNode();
+        const wallet = new ethers.Wallet(PRIVATE_KEY, node as unknown as ethers.providers.Provider);
+        signer = new NonceManagedSigner(wallet, { receiptTimeoutMs: 1, maxAttempts: 3 });
+    });
+
+    it('gives concurrent sends consecutive nonces', async () => {
+        const responses = await Promise.all([1, 2, 3].map((value) => signer.sendTransaction({ to: TARGET, value })));
+
+        expect(responses.map((response) => response.nonce)).toEqual([0, 1, 2]);
+        expect(node.sent.map((tx) => tx.nonce)).toEqual([0, 1, 2]);
+    });
+
+    it('resyncs the nonce and retries when the node rejects it', async () => {
+        await signer.sendTransaction({ to: TARGET });
+        node.mine(node.sent[0].hash!);
+        node.confirmedNonce = 5; // Sent meanwhile by another tool
+        node.rejectNext = ['nonce too low'];
+
+        const response = await signer.sendTransaction({ to: TARGET });
+
+        expect(response.nonce).toBe(5);
+        expect(node.sent.map((tx) => tx.nonce)).toEqual([0, 5]);
+    });
+
+    it('does not retry other errors and keeps later sends going', async () => {
+        node.rejectNext = ['insufficient funds for gas * price + value'];
+
+        await expect(signer.sendTransaction({ to: TARGET })).rejects.toThrow('insufficient funds');
+        await expect(signer.sendTransaction({ to: TARGET })).resolves.toMatchObject({ nonce: 0 });
+    });
+
+    it('replaces a stuck transaction with bumped fees and the same nonce', async () => {
+        const response = await signer.sendTransaction({ to: TARGET });
+        const mineReplacement = jest.spyOn(node, 'sendTransaction').mockImplementationOnce(async (signed: string) => {
+            const replacement = await FakeNode.prototype.sendTransaction.call(node, signed);
+            node.mine(replacement.hash);
+            return replacement;
+        });
+
+        const receipt = await response.wait();
+
+        expect(mineReplacement).toHaveBeenCalledTimes(1);
+        expect(node.sent.map((tx) => [tx.nonce, tx.gasPrice!.toString()])).toEqual([[0, GWEI.toString()], [0, GWEI.mul(120).div(100).toString()]]);
+        expect(receipt.transactionHash).toBe(node.sent[1].hash);
+    });
+
+    it('returns the receipt of a replaced transaction mined after all', async () => {
+        const response = await signer.sendTransaction({ to: TARGET });
+        jest.spyOn(node, 'sendTransaction').mockImplementationOnce(async () => {
+            node.mine(node.sent[0].hash!);
+            throw new Error('nonce too low');
+        });
+
+        await expect(response.wait()).resolves.toMatchObject({ transactionHash: node.sent[0].hash });
+    });
+
+    it('gives up after maxAttempts and reports reverted transactions', async () => {
+        const stuck = await signer.sendTransaction({ to: TARGET });
+        await expect(stuck.wait()).rejects.toThrow('was not mined after 3 attempt(s)');
+        expect(node.sent).toHaveLength(3);
+
+        node.confirmedNonce = 0;
+        const reverted = await signer.sendTransaction({ to: TARGET });
+        node.mine(reverted.hash, 0);
+        await expect(reverted.wait()).rejects.toThrow(`Transaction ${reverted.hash} reverted.`);
+    });
+});
@@ -0,0 +1,265 @@
+import { jest, describe, it, expect, beforeAll, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import { UpkeepRegistry } from '../src/simulator/registry';
+import type { StoredRegistry } from '../src/simulator/store';
+
+const PRIVATE_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const POOL_KEY = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+const CONTRACT = '0x0000000000000000000000000000000000000001';
+const UPKEEP_ID = '35430269863982748651824498759668845436677939838111525428013516688250267543028';
+const LATEST_BLOCK = { hash: '0x' + '11'.repeat(32), number: 100 } as ethers.providers.Block;
+
+function storedRegistry(overrides: Partial<StoredRegistry> = {}): StoredRegistry {
+    return {
+        version: 2,
+        chainId: 31337,
+        nonce: 1,
+        upkeeps: [{
+            id: UPKEEP_ID,
+            options: { name: 'Counter', upkeepContract: CONTRACT, triggerType: 'custom', gasLimit: 100000, initialFunds: '2.0' },
+            status: 'paused',
+            admin: '0x00000000000000000000000000000000000000aa',
+            balance: ethers.utils.parseEther('1.5').toString(),
+            lastPerformData: '0x1234',
+            performCount: 3,
+            totalSpent: ethers.utils.parseEther('0.5').toString(),
+            lastCharge: ethers.utils.parseEther('0.2').toString(),
+            lastProcessedBlock: 90,
+        }],
+        ...overrides,
+    };
+}
+
+describe('UpkeepRegistry persistence', () => {
+    let storePath: string;
+
+    beforeAll(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+        jest.spyOn(ethers.providers.JsonRpcProvider.prototype, 'getNetwork').mockResolvedValue({ chainId: 31337, name: 'unknown' });
+        jest.spyOn(ethers.providers.JsonRpcProvider.prototype, 'getBlockNumber').mockResolvedValue(100);
+        jest.spyOn(ethers.providers.JsonRpcProvider.prototype, 'getBlock').mockResolvedValue(LATEST_BLOCK);
+    });
+
+    beforeEach(() => {
+        storePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'cartesi-chainlink-')), 'upkeeps.json');
+    });
+
+    afterEach(() => {
+        fs.rmSync(path.dirname(storePath), { recursive: true, force: true });
+    });
+
+    function createRegistry(): UpkeepRegistry {
+        return new UpkeepRegistry({ rpcUrl: 'http://127.0.0.1:8545', privateKey: PRIVATE_KEY, storePath });
+    }
+
+    it('restores upkeeps saved by a previous run', async () => {
+        fs.writeFileSync(storePath, JSON.stringify(storedRegistry()));
+        const registry = createRegistry();
+
+        await expect(registry.restore()).resolves.toBe(1);
+        expect(registry.getUpkeep(UPKEEP_ID)).toMatchObject({
+            name: 'Counter',
+            status: 'paused',
+            admin: '0x00000000000000000000000000000000000000aa',
+            balance: '1.5',
+            performData: '0x1234',
+            performCount: 3,
+            totalSpent: '0.5',
+        });
+    });
+
+    it('saves changes when it stops', async () => {
+        fs.writeFileSync(storePath, JSON.stringify(storedRegistry()));
+        const registry = createRegistry();
+        await registry.restore();
+
+        registry.addFunds(UPKEEP_ID, '1.0');
+        await registry.stopAll();
+
+        const saved = JSON.parse(fs.readFileSync(storePath, 'utf8')) as StoredRegistry;
+        expect(saved.upkeeps[0]).toMatchObject({ balance: ethers.utils.parseEther('2.5').toString(), lastProcessedBlock: 90 });
+    });
+
+    it('ignores registrations made on another chain', async () => {
+        fs.writeFileSync(storePath, JSON.stringify(storedRegistry({ chainId: 1 })));
+        const registry = createRegistry();
+
+        await expect(registry.restore()).resolves.toBe(0);
+        expect(registry.getRegisteredUpkeepsCount()).toBe(0);
+    });
+
+    it('spreads upkeeps across the key pool', async () => {
+        const [upkeep] = storedRegistry().upkeeps;
+        const ids = ['1', '2', '3'];
+        fs.writeFileSync(storePath, JSON.stringify(storedRegistry({
+            upkeeps: ids.map((id) => ({ ...upkeep, id })),
+        })));
+        const registry = new UpkeepRegistry({ rpcUrl: 'http://127.0.0.1:8545', privateKey: PRIVATE_KEY, storePath, keyPool: [PRIVATE_KEY, POOL_KEY] });
+        await registry.restore();
+
+        const jobSigners = (registry as unknown as { _jobSigners: Map<string, { address: string }> })._jobSigners;
+        expect(registry.walletAddresses).toEqual([new ethers.Wallet(PRIVATE_KEY).address, new ethers.Wallet(POOL_KEY).address]);
+        expect(ids.map((id) => jobSigners.get(id)?.address)).toEqual([...registry.walletAddresses, registry.walletAddresses[0]]);
+    });
+
+    it('starts over when the chain is behind the last processed block', async () => {
+        const stored = storedRegistry();
+        stored.upkeeps[0].lastProcessedBlock = 500;
+        fs.writeFileSync(storePath, JSON.stringify(stored));
+        const registry = createRegistry();
+        await registry.restore();
+
+        await registry.stopAll();
+
+        const saved = JSON.parse(fs.readFileSync(storePath, 'utf8')) as StoredRegistry;
+        expect(saved.upkeeps[0].lastProcessedBlock).toBeUndefined();
+    });
+
+    it('gives upkeeps stored under their contract address an ID', async () => {
+        const [upkeep] = storedRegistry().upkeeps;
+        fs.writeFileSync(storePath, JSON.stringify({ version: 1, chainId: 31337, upkeeps: [{ ...upkeep, id: CONTRACT }] }));
+        const registry = createRegistry();
+
+        await expect(registry.restore()).resolves.toBe(1);
+        await registry.stopAll();
+
+        const saved = JSON.parse(fs.readFileSync(storePath, 'utf8')) as StoredRegistry;
+        expect(saved).toMatchObject({ version: 2, nonce: 1, upkeeps: [{ id: expect.not.stringMatching(/^0x/), balance: upkeep.balance }] });
+        expect(registry.getUpkeep(saved.upkeeps[0].id)).toMatchObject({ name: 'Counter', target: CONTRACT });
+    });
+
+    it('registers several upkeeps on the same contract under distinct IDs', async () => {
+        fs.writeFileSync(storePath, JSON.stringify(storedRegistry()));
+        const registry = createRegistry();
+        await registry.restore();
+
+        const options = { name: 'Counter', upkeepContract: CONTRACT, gasLimit: 100000, initialFunds: '0' };
+        const first = await registry.registerUpkeep({ ...options, triggerType: 'custom', checkData: '0x01' });
+        const second = await registry.registerUpkeep({ ...options, triggerType: 'custom', checkData: '0x02' });
+
+        expect(new Set([UPKEEP_ID, first, second]).size).toBe(3);
+        expect(registry.getRegisteredUpkeepsCount()).toBe(3);
+        await registry.unregisterUpkeep(first);
+        expect(registry.hasUpkeep(first)).toBe(false);
+        expect(registry.hasUpkeep(second)).toBe(true);
+        await registry.stopAll();
+
+        const saved = JSON.parse(fs.readFileSync(storePath, 'utf8')) as StoredRegistry;
+        expect(saved.nonce).toBe(3);
+    });
+
+    it('swaps the job of an updated upkeep once the old one has stopped', async () => {
+        fs.writeFileSync(storePath, JSON.stringify(storedRegistry()));
+        const registry = createRegistry();
+        await registry.restore();
+        const record = (registry as unknown as { _upkeeps: Map<string, { job: { stop(): Promise<void> } }> })._upkeeps.get(UPKEEP_ID)!;
+        const oldJob = record.job;
+        let settle = () => {};
+        jest.spyOn(oldJob, 'stop').mockReturnValue(new Promise<void>((resolve) => { settle = resolve; }));
+
+        const update = registry.updateUpkeep(UPKEEP_ID, { gasLimit: 200000 });
+        await new Promise((resolve) => setImmediate(resolve));
+        expect(record.job).toBe(oldJob);
+
+        settle();
+        await update;
+        expect(record.job).not.toBe(oldJob);
+        expect(registry.getUpkeep(UPKEEP_ID).gasLimit).toBe(200000);
+        await registry.stopAll();
+    });
+});
+
+describe('UpkeepRegistry limits', () => {
+    beforeAll(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+        jest.spyOn(ethers.providers.JsonRpcProvider.prototype, 'getBlock').mockResolvedValue(LATEST_BLOCK);
+    });
+
+    it('enforces the limits of the configured network', async () => {
+        const registry = new UpkeepRegistry({ rpcUrl: 'http://127.0.0.1:8545', privateKey: PRIVATE_KEY, limitsChainId: 1 });
+
+        expect(registry.limits).toEqual({ checkGasLimit: 10_000_000, performGasLimit: 5_000_000, maxCheckDataSize: 5_000, maxPerformDataSize: 2_000 });
+        expect(registry.validateLimits({ gasLimit: 5_000_001, checkData: ethers.utils.hexlify(new Uint8Array(5_001)) })).toEqual([
+            'gasLimit 5000001 exceeds the performGasLimit of 5000000',
+            'checkData is 5001 bytes, above the maxCheckDataSize of 5000',
+        ]);
+        await expect(registry.registerUpkeep({ name: 'Heavy', upkeepContract: CONTRACT, triggerType: 'custom', gasLimit: 6_000_000, initialFunds: '0' }))
+            .rejects.toThrow('Upkeep Heavy exceeds the Chainlink limits: gasLimit 6000000 exceeds the performGasLimit of 5000000.');
+        expect(registry.getRegisteredUpkeepsCount()).toBe(0);
+    });
+
+    it('skips performs whose performData is too large and reports it on the upkeep', async () => {
+        const stored = storedRegistry();
+        const storePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'cartesi-chainlink-')), 'upkeeps.json');
+        fs.writeFileSync(storePath, JSON.stringify(stored));
+        const registry = new UpkeepRegistry({ rpcUrl: 'http://127.0.0.1:8545', privateKey: PRIVATE_KEY, storePath });
+        await registry.restore();
+
+        const checkPerform = (registry as unknown as { _checkPerform: (id: string, performData: string) => Promise<string | undefined> })._checkPerform.bind(registry);
+        await expect(checkPerform(UPKEEP_ID, '0x1234')).resolves.toBeUndefined();
+        await expect(checkPerform(UPKEEP_ID, ethers.utils.hexlify(new Uint8Array(2_001)))).resolves.toContain('above the maxPerformDataSize of 2000');
+
+        expect(registry.getUpkeep(UPKEEP_ID).violations).toEqual([expect.objectContaining({ limit: 'maxPerformDataSize' })]);
+        fs.rmSync(path.dirname(storePath), { recursive: true, force: true });
+    });
+});
+
+describe('UpkeepRegistry manual ticks', () => {
+    let blockNumber: number;
+
+    beforeAll(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+        jest.spyOn(ethers.providers.JsonRpcProvider.prototype, 'getBlockNumber').mockImplementation(async () => blockNumber);
+        jest.spyOn(ethers.providers.JsonRpcProvider.prototype, 'getBlock').mockResolvedValue(LATEST_BLOCK);
+    });
+
+    beforeEach(() => {
+        blockNumber = 100;
+    });
+
+    it('runs the due checks and performs on tick and reports them', async () => {
+        const registry = new UpkeepRegistry({ rpcUrl: 'http://127.0.0.1:8545', privateKey: PRIVATE_KEY, manualTick: true });
+        const upkeepId = await registry.registerUpkeep({ name: 'Counter', upkeepContract: CONTRACT, triggerType: 'custom', gasLimit: 100000, initialFunds: '0' });
+        const checkUpkeep = jest.fn(async () => [true, '0x12']);
+        const performUpkeep = jest.fn(async () => ({
+            hash: '0xperform',
+            wait: async () => ({ transactionHash: '0xperform', gasUsed: ethers.BigNumber.from(21000) }),
+        }));
+        // Stand in for the upkeep contract
+        const { job } = (registry as unknown as { _upkeeps: Map<string, { job: { _upkeepContract: object } }> })._upkeeps.get(upkeepId)!;
+        job._upkeepContract = { checkUpkeep, performUpkeep };
+
+        await expect(registry.tick()).resolves.toEqual({ blockNumber: 100, upkeeps: 1, executions: [] });
+        expect(checkUpkeep).not.toHaveBeenCalled();
+
+        blockNumber = 101;
+        const summary = await registry.tick();
+
+        expect(summary).toEqual({
+            blockNumber: 101,
+            upkeeps: 1,
+            executions: [expect.objectContaining({ upkeepId, blockNumber: 101, status: 'performed', performData: '0x12', txHash: '0xperform', gasUsed: '21000' })],
+        });
+        expect(registry.getHistory(upkeepId).records).toEqual([expect.objectContaining({ id: summary.executions[0].id })]);
+
+        // A manual check runs even though block 101 was checked already
+        checkUpkeep.mockResolvedValueOnce([false, '0x']);
+        await expect(registry.checkUpkeep(upkeepId)).resolves.toMatchObject({ blockNumber: 101, executions: [{ blockNumber: 101, status: 'not-needed' }] });
+        expect(checkUpkeep).toHaveBeenCalledTimes(2);
+        await registry.stopAll();
+    });
+
+    it('refuses to tick a simulator running upkeeps on its own', async () => {
+        const registry = new UpkeepRegistry({ rpcUrl: 'http://127.0.0.1:8545', privateKey: PRIVATE_KEY });
+
+        await expect(registry.tick()).rejects.toThrow('Ticks can only be run in manual-tick mode');
+    });
+});
@@ -0,0 +1,108 @@
+import { jest, describe, it, expect, beforeAll, afterEach } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import { CustomLogicJob } from '../src/simulator/jobs';
+import type { Execution } from '../src/simulator/history';
+import { FixtureReportSource, ReportSource, decodeStreamsLookup } from '../src/simulator/streams';
+
+const UPKEEP = '0x0000000000000000000000000000000000000003';
+const ETH_USD = '0x000359843a543ee2fe414dc14c7e7920ef10f4372990b79d6361cdc0dd1ba782';
+const BTC_USD = '0x00037da06d56d083fe599397a4769a042d63aa73dc4ef57709d31e9971a5b439';
+
+const streams = new ethers.utils.Interface([
+    'error StreamsLookup(string feedParamKey, string[] feeds, string timeParamKey, uint256 time, bytes extraData)',
+]);
+
+// How a node reports the StreamsLookup revert of an eth_call
+function streamsLookupError(feeds: string[], time: number, extraData = '0xabcd'): Error {
+    return Object.assign(new Error('call revert exception'), {
+        data: streams.encodeErrorResult('StreamsLookup', ['feedIDs', feeds, 'timestamp', time, extraData]),
+    });
+}
+
+describe('StreamsLookup', () => {
+    let tmpDir: string;
+
+    beforeAll(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        if (tmpDir) {
+            fs.rmSync(tmpDir, { recursive: true, force: true });
+        }
+    });
+
+    function writeFixture(fixture: object): string {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'streams-'));
+        const filePath = path.join(tmpDir, 'reports.json');
+        fs.writeFileSync(filePath, JSON.stringify(fixture));
+        return filePath;
+    }
+
+    async function runCheck(reportSource?: ReportSource) {
+        const provider = { _isProvider: true, getBlockNumber: async () => 10 };
+        const signer = new ethers.VoidSigner(ethers.constants.AddressZero, provider as unknown as ethers.providers.Provider);
+        const executions: Execution[] = [];
+        const job = new CustomLogicJob(
+            { name: 'Streams', upkeepContract: UPKEEP, triggerType: 'custom', gasLimit: 100000, initialFunds: '0' },
+            signer,
+            { onExecution: (execution) => executions.push(execution) },
+            { manualTick: true, reportSource }
+        );
+        const checkCallback = jest.fn(async (_values: string[], _extraData: string) => [true, '0x1234'] as [boolean, string]);
+        const performUpkeep = jest.fn(async () => ({ hash: '0x01', wait: async () => ({ transactionHash: '0x01', gasUsed: ethers.BigNumber.from(21000) }) }));
+        // Stand in for the upkeep contract
+        (job as unknown as { _upkeepContract: object })._upkeepContract = {
+            checkUpkeep: async () => { throw streamsLookupError([ETH_USD, BTC_USD], 1_700_000_100); },
+            callStatic: { checkCallback },
+            performUpkeep,
+        };
+        await job.start();
+        await job.tick(true);
+        return { executions, checkCallback, performUpkeep };
+    }
+
+    it('decodes the lookup of a reverted check', () => {
+        expect(decodeStreamsLookup(streamsLookupError([ETH_USD], 42))).toEqual({
+            feedParamKey: 'feedIDs',
+            feeds: [ETH_USD],
+            timeParamKey: 'timestamp',
+            time: ethers.BigNumber.from(42),
+            extraData: '0xabcd',
+        });
+        expect(decodeStreamsLookup(new Error('execution reverted'))).toBeUndefined();
+    });
+
+    it('picks the newest fixture report up to the lookup time', async () => {
+        const source = new FixtureReportSource(writeFixture({
+            [ETH_USD]: [{ time: 100, report: '0x01' }, { time: 200, report: '0x02' }, { time: 300, report: '0x03' }],
+            [BTC_USD.toUpperCase().replace('0X', '0x')]: '0xbb',
+        }));
+        const lookup = decodeStreamsLookup(streamsLookupError([ETH_USD, BTC_USD], 250))!;
+
+        await expect(source.fetchReports(lookup)).resolves.toEqual(['0x02', '0xbb']);
+        await expect(source.fetchReports({ ...lookup, time: ethers.BigNumber.from(50) })).rejects.toThrow(`No report of feed ${ETH_USD} at timestamp 50`);
+    });
+
+    it('performs with the answer of checkCallback to the fetched reports', async () => {
+        const source = new FixtureReportSource(writeFixture({ [ETH_USD]: '0xaa', [BTC_USD]: '0xbb' }));
+
+        const { executions, checkCallback, performUpkeep } = await runCheck(source);
+
+        expect(checkCallback).toHaveBeenCalledWith(['0xaa', '0xbb'], '0xabcd', {});
+        expect(performUpkeep).toHaveBeenCalledWith('0x1234', { gasLimit: 100000 });
+        expect(executions).toEqual([expect.objectContaining({ status: 'performed', performData: '0x1234' })]);
+    });
+
+    it('fails the check without a report source', async () => {
+        const { executions, checkCallback } = await runCheck();
+
+        expect(checkCallback).not.toHaveBeenCalled();
+        expect(executions).toEqual([expect.objectContaining({ status: 'check-failed' })]);
+        expect(executions[0].error).toContain('the simulator has no report source');
+    });
+});
@@ -0,0 +1,45 @@
+import { ethers } from 'ethers';
+import { DEPLOYMENT_TEMPLATES, getDeploymentTemplate, validateTemplateArgs } from '../src/manifest/templates';
+import { DeploymentSchema } from '../src/manifest/schema';
+
+const INPUT_BOX = '0x59b22D57D4f067708AB0c00552767405926dc768';
+const APP = '0x0000000000000000000000000000000000000001';
+
+describe('deployment templates', () => {
+    it('ships an artifact whose constructor matches the declared parameters', () => {
+        for (const template of Object.values(DEPLOYMENT_TEMPLATES)) {
+            const contractInterface = new ethers.utils.Interface(template.artifact.abi);
+
+            expect(contractInterface.deploy.inputs.map((input) => input.type)).toEqual(template.params.map((param) => param.type));
+            expect(ethers.utils.isHexString(template.artifact.bytecode)).toBe(true);
+        }
+    });
+
+    it('validates constructor arguments by type', () => {
+        const pusher = getDeploymentTemplate('inputbox-periodic-pusher');
+
+        expect(validateTemplateArgs(pusher, [INPUT_BOX, APP, 60, '0x1234'])).toEqual([]);
+        expect(validateTemplateArgs(pusher, [INPUT_BOX, 'not-an-address', -1, '0x123'])).toEqual([
+            'appContract: must be an address',
+            'interval: must be a non-negative integer',
+            'payload: must be a hex string',
+        ]);
+        expect(validateTemplateArgs(pusher, [INPUT_BOX])[0]).toContain('expects 4 constructor argument(s)');
+    });
+
+    it('accepts references for address parameters only when asked to', () => {
+        const forwarder = getDeploymentTemplate('inputbox-log-forwarder');
+        const args = [INPUT_BOX, APP, '${contracts.counter.address}'];
+
+        expect(validateTemplateArgs(forwarder, args, true)).toEqual([]);
+        expect(validateTemplateArgs(forwarder, args)).toEqual(['target: must be an address']);
+    });
+
+    it('rejects unknown templates and invalid arguments in manifests', () => {
+        const unknown = DeploymentSchema.safeParse({ template: 'nope' });
+        const invalid = DeploymentSchema.safeParse({ template: 'counter', constructorArgs: ['ten'] });
+
+        expect(unknown.error?.issues[0].message).toContain("Unknown deployment template 'nope'");
+        expect(invalid.error?.issues[0]).toMatchObject({ path: ['constructorArgs'], message: 'initialValue: must be a non-negative integer or a decimal/hex string' });
+    });
+});
@@ -0,0 +1,69 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { ethers } from 'ethers';
+import { ChainClock, UnsupportedRpcMethodError } from '../src/simulator/time';
+
+/**
+ * A development node keeping its own clock, answering the calls ChainClock makes.
+ */
+class FakeNode {
+    blockNumber = 10;
+    timestamp = 1_700_000_000;
+    offset = 0;
+    unsupported: Record<string, object> = {}; // Errors thrown for each missing method
+
+    send = jest.fn(async (method: string, params: unknown[]) => {
+        if (this.unsupported[method]) {
+            throw this.unsupported[method];
+        }
+        if (method === 'evm_increaseTime') {
+            this.offset += params[0] as number;
+        } else if (method === 'evm_setNextBlockTimestamp') {
+            this.offset = (params[0] as number) - this.timestamp - 1;
+        } else if (method === 'evm_mine') {
+            this.blockNumber += 1;
+            this.timestamp += 1 + this.offset;
+            this.offset = 0;
+        }
+        return '0x0';
+    });
+
+    async getBlock() {
+        return { number: this.blockNumber, timestamp: this.timestamp };
+    }
+}
+
+describe('ChainClock', () => {
+    let node: FakeNode;
+    let clock: ChainClock;
+
+    beforeEach(() => {
+        node = new FakeNode();
+        clock = new ChainClock(node as unknown as ethers.providers.JsonRpcProvider);
+    });
+
+    it('moves the clock forward and mines a block', async () => {
+        await expect(clock.increaseTime(3_600)).resolves.toEqual({ blockNumber: 11, timestamp: 1_700_003_601 });
+        expect(node.send.mock.calls).toEqual([['evm_increaseTime', [3_600]], ['evm_mine', []]]);
+    });
+
+    it('mines the next block at a timestamp, then more blocks', async () => {
+        await expect(clock.setNextBlockTimestamp(1_800_000_000, 3)).resolves.toEqual({ blockNumber: 13, timestamp: 1_800_000_002 });
+        await expect(clock.mine(0)).rejects.toThrow('blocks must be an integer between 1 and 1000.');
+    });
+
+    it('reports methods the node lacks, without calling them again', async () => {
+        node.unsupported.evm_increaseTime = Object.assign(new Error('Method not found'), { code: -32601 });
+        node.unsupported.evm_setNextBlockTimestamp = new Error('the method evm_setNextBlockTimestamp does not exist/is not available');
+
+        await expect(clock.increaseTime(60)).rejects.toThrow(new UnsupportedRpcMethodError('evm_increaseTime'));
+        await expect(clock.increaseTime(60)).rejects.toBeInstanceOf(UnsupportedRpcMethodError);
+        await expect(clock.setNextBlockTimestamp(1_800_000_000)).rejects.toThrow('The node does not support evm_setNextBlockTimestamp');
+        expect(node.send).toHaveBeenCalledTimes(2);
+    });
+
+    it('passes other node errors through', async () => {
+        node.unsupported.evm_setNextBlockTimestamp = new Error('Timestamp error: 1 is lower than or equal to previous block timestamp');
+
+        await expect(clock.setNextBlockTimestamp(1)).rejects.toThrow('lower than or equal to previous block timestamp');
+    });
+});
@@ -0,0 +1,97 @@
+import { ethers } from 'ethers';
+import { encodeTopicFilters, resolveLogEvent, validateTopicFilters } from '../src/core/topics';
+import { UpkeepEntrySchema } from '../src/manifest/schema';
+
+const APP = '0x00000000000000000000000000000000000000aa';
+const INPUT_ADDED = 'InputAdded(address indexed appContract, uint256 indexed index, bytes input)';
+const INPUT_ADDED_ABI = ['event InputAdded(address indexed appContract, uint256 indexed index, bytes input)'];
+
+const pad = (value: string) => ethers.utils.hexZeroPad(value, 32).toLowerCase();
+
+describe('topic filters', () => {
+    it('hashes the canonical signature as topic0', () => {
+        const { topic0 } = encodeTopicFilters({ logEventSignature: INPUT_ADDED });
+
+        expect(topic0).toBe(ethers.utils.id('InputAdded(address,uint256,bytes)'));
+        expect(resolveLogEvent(`event ${INPUT_ADDED}`).name).toBe('InputAdded');
+    });
+
+    it('encodes named filters at the position of their indexed parameter', () => {
+        const { topics } = encodeTopicFilters({ logEventSignature: INPUT_ADDED, logTopicFilters: { index: 3 } });
+
+        expect(topics).toEqual([null, pad('0x03'), null]);
+    });
+
+    it('encodes named and positional filters the same way', () => {
+        const named = encodeTopicFilters({ logEventSignature: INPUT_ADDED, logTopicFilters: { appContract: APP, index: '7' } });
+        const positional = encodeTopicFilters({ logEventSignature: INPUT_ADDED, logTopicFilters: [APP, '7', null] });
+
+        expect(named).toEqual(positional);
+        expect(named.topics[0]).toBe(pad(APP));
+    });
+
+    it('looks up the indexed parameters in logEventAbi', () => {
+        const { topics } = encodeTopicFilters({
+            logEventSignature: 'InputAdded(address,uint256,bytes)',
+            logEventAbi: INPUT_ADDED_ABI,
+            logTopicFilters: { appContract: APP },
+        });
+
+        expect(topics).toEqual([pad(APP), null, null]);
+    });
+
+    it('hashes string and bytes values and parses booleans', () => {
+        const { topics } = encodeTopicFilters({
+            logEventSignature: 'Tagged(string indexed tag, bytes indexed blob, bool indexed flag)',
+            logTopicFilters: { tag: 'hello', blob: '0x1234', flag: 'true' },
+        });
+
+        expect(topics).toEqual([ethers.utils.id('hello'), ethers.utils.keccak256('0x1234'), pad('0x01')]);
+    });
+
+    it('falls back to raw encoding for signatures without indexed parameters', () => {
+        const { topics } = encodeTopicFilters({ logEventSignature: 'InputAdded(address,uint256,bytes)', logTopicFilters: [APP, '42', null] });
+
+        expect(topics).toEqual([pad(APP), pad('0x2a'), null]);
+    });
+
+    it('accepts a topic0 hash in place of the signature, with positional filters only', () => {
+        const topic0 = ethers.utils.id('InputAdded(address,uint256,bytes)');
+
+        expect(encodeTopicFilters({ logEventSignature: topic0.toUpperCase().replace('0X', '0x'), logTopicFilters: [null, '42'] }))
+            .toEqual({ topic0, topics: [null, pad('0x2a'), null] });
+        expect(validateTopicFilters({ logEventSignature: topic0, logTopicFilters: { index: 1 } }))
+            .toContain('Named topic filters need the event signature');
+    });
+
+    it('reports unknown names, non-indexed parameters and invalid values', () => {
+        expect(validateTopicFilters({ logEventSignature: INPUT_ADDED, logTopicFilters: { app: APP } }))
+            .toBe("Unknown parameter 'app' for InputAdded; indexed parameters: appContract, index");
+        expect(validateTopicFilters({ logEventSignature: INPUT_ADDED, logTopicFilters: { input: '0x' } }))
+            .toContain("'input' is not an indexed parameter of InputAdded");
+        expect(validateTopicFilters({ logEventSignature: INPUT_ADDED, logTopicFilters: { appContract: '0x1234' } }))
+            .toContain(`Invalid value "0x1234" for 'appContract' (address)`);
+        expect(validateTopicFilters({ logEventSignature: INPUT_ADDED, logTopicFilters: [null, null, '1'] }))
+            .toBe('Topic filter 3 is set, but InputAdded has 2 indexed parameter(s)');
+        expect(validateTopicFilters({ logEventSignature: 'InputAdded(address,uint256,bytes)', logTopicFilters: { appContract: APP } }))
+            .toContain('Named topic filters need the indexed parameters of InputAdded');
+        expect(validateTopicFilters({ logEventSignature: INPUT_ADDED, logTopicFilters: { appContract: APP } })).toBeUndefined();
+    });
+
+    it('validates the filters of manifest upkeeps, leaving references for apply time', () => {
+        const upkeep = {
+            name: 'Forwarder',
+            gasLimit: 300000,
+            triggerType: 'log',
+            upkeepContract: APP,
+            logEmitterAddress: APP,
+            logEventSignature: INPUT_ADDED,
+        };
+
+        expect(UpkeepEntrySchema.safeParse({ ...upkeep, logTopicFilters: { appContract: '${contracts.app.address}' } }).success).toBe(true);
+
+        const result = UpkeepEntrySchema.safeParse({ ...upkeep, logTopicFilters: { application: APP } });
+        expect(result.success).toBe(false);
+        expect(result.error?.issues[0]).toEqual(expect.objectContaining({ path: ['logTopicFilters'] }));
+    });
+});
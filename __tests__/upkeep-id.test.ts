@@ -0,0 +1,22 @@
+import { ethers } from 'ethers';
+import { deriveUpkeepId } from '../src/simulator/upkeep-id';
+
+const BLOCK_HASH = '0x' + '11'.repeat(32);
+const REGISTRY = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+
+const toBytes = (id: string) => ethers.utils.arrayify(ethers.BigNumber.from(id).toHexString());
+
+describe('deriveUpkeepId', () => {
+    it('clears bytes 4 to 14 and encodes the trigger type in byte 15', () => {
+        const id = deriveUpkeepId(BLOCK_HASH, REGISTRY, 0, 'log');
+
+        expect(id).toBe('35430269863982748651824498759668845436677939838111525428013516688250267543028');
+        expect(ethers.utils.hexlify(toBytes(id).slice(4, 16))).toBe('0x000000000000000000000001');
+        expect(toBytes(deriveUpkeepId(BLOCK_HASH, REGISTRY, 0, 'custom'))[15]).toBe(0);
+        expect(toBytes(deriveUpkeepId(BLOCK_HASH, REGISTRY, 0, 'time'))[15]).toBe(0);
+    });
+
+    it('changes with the registration nonce', () => {
+        expect(deriveUpkeepId(BLOCK_HASH, REGISTRY, 1, 'custom')).not.toBe(deriveUpkeepId(BLOCK_HASH, REGISTRY, 0, 'custom'));
+    });
+});
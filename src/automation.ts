@@ -1,4 +1,14 @@
-import { AutomationConfig, CreateUpkeepOptions, UpkeepInfo, IAutomationProvider } from './interfaces.js';
+import {
+    AutomationConfig,
+    CreateUpkeepOptions,
+    DryRunCheck,
+    EventSubscription,
+    IAutomationProvider,
+    SimulatorEvent,
+    SubscribeOptions,
+    UpdateUpkeepOptions,
+    UpkeepInfo,
+} from './interfaces.js';
 import { ChainlinkProvider } from './providers/chainlink.provider.js';
 import { LocalProvider } from './providers/local.provider.js';
 
@@ -6,12 +16,12 @@ export class Automation {
     private _provider: IAutomationProvider;
 
     constructor(config: AutomationConfig) {
-        const { signer, chainId, mode = 'chainlink' } = config;
+        const { signer, chainId, mode = 'chainlink', simulatorUrl, simulatorToken, cronUpkeepFactoryAddress } = config;
 
         if (mode === 'chainlink') {
-            this._provider = new ChainlinkProvider(signer, chainId);
+            this._provider = new ChainlinkProvider(signer, chainId, cronUpkeepFactoryAddress);
         } else if (mode === 'local') {
-            this._provider = new LocalProvider();
+            this._provider = new LocalProvider(signer, simulatorUrl, simulatorToken);
         } else {
             throw new Error(`Mode "${mode}" is not yet supported.`);
         }
@@ -24,6 +34,13 @@ export class Automation {
         return this._provider.createUpkeep(options);
     }
 
+    /**
+     * Checks whether `createUpkeep` would succeed with these options, without sending any transaction.
+     */
+    async simulateCreateUpkeep(options: CreateUpkeepOptions): Promise<DryRunCheck[]> {
+        return this._provider.simulateCreateUpkeep(options);
+    }
+
     /**
      * Retrieves the on-chain information for an existing upkeep.
      */
@@ -31,6 +48,20 @@ export class Automation {
         return this._provider.getUpkeep(upkeepId);
     }
 
+    /**
+     * Changes the gas limit, check data, offchain config or trigger configuration of an existing upkeep.
+     */
+    async updateUpkeep(upkeepId: string, options: UpdateUpkeepOptions): Promise<void> {
+        return this._provider.updateUpkeep(upkeepId, options);
+    }
+
+    /**
+     * Checks whether `updateUpkeep` would succeed with these options, without sending any transaction.
+     */
+    async simulateUpdateUpkeep(upkeepId: string, options: UpdateUpkeepOptions): Promise<DryRunCheck[]> {
+        return this._provider.simulateUpdateUpkeep(upkeepId, options);
+    }
+
     /**
      * Adds more LINK funds to an existing upkeep.
      */
@@ -58,5 +89,28 @@ export class Automation {
     async cancelUpkeep(upkeepId: string): Promise<void> {
         return this._provider.cancelUpkeep(upkeepId);
     }
+
+    /**
+     * Streams the registrations, checks and performs of the local simulator to `listener`.
+     * Only available in local mode.
+     */
+    async subscribe(listener: (event: SimulatorEvent) => void, options?: SubscribeOptions): Promise<EventSubscription> {
+        if (!this._provider.subscribe) {
+            throw new Error('Event subscriptions are only supported in local mode.');
+        }
+        return this._provider.subscribe(listener, options);
+    }
+
+    /**
+     * Waits for the next perform of an upkeep to be mined, rejecting if it fails or does not happen
+     * within `timeoutMs`. Performs count from the call on, or from the event with id `since` if given.
+     * Only available in local mode.
+     */
+    async waitForPerform(upkeepId: string, timeoutMs?: number, since?: number): Promise<SimulatorEvent> {
+        if (!this._provider.waitForPerform) {
+            throw new Error('Waiting for performs is only supported in local mode.');
+        }
+        return this._provider.waitForPerform(upkeepId, timeoutMs, since);
+    }
 }
 
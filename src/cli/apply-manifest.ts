@@ -3,20 +3,33 @@ import fs from 'fs';
 import path from 'path';
 import { parse } from 'jsonc-parser';
 import { Automation } from '../automation.js';
-import { CreateUpkeepOptions } from '../interfaces.js';
-import { ManifestSchema, type Manifest, type State } from '../manifest/schema.js';
-import { deployUpkeep, validateArtifactPath } from '../manifest/deployer.js';
+import { registerLocalChainlinkNetwork, resolveSimulatorToken } from './daemon.js';
+import { CreateUpkeepOptions, DryRunCheck, UpdateUpkeepOptions, UpkeepTriggerConfig } from '../interfaces.js';
+import {
+  parseManifest,
+  isManifestV2,
+  toManifestV2,
+  toStateV2,
+  StateSchema,
+  StateV2Schema,
+  type AnyManifest,
+  type Deployment,
+  type Manifest,
+  type ManifestV2,
+  type StateV2,
+  type UpkeepEntry
+} from '../manifest/schema.js';
+import { deployUpkeep, estimateDeploymentGas, validateArtifactPath } from '../manifest/deployer.js';
+import { resolveReferences, type ManifestOutputs } from '../manifest/references.js';
+import { planManifest, formatPlan, hasChanges, isRecreated, UNKNOWN_OUTPUT, type FieldChange, type ManifestPlan } from '../manifest/plan.js';
 
 /**
- * Applies a manifest file, handling deployment and registration
- * 
+ * Reads and validates a manifest file of any version.
+ *
  * @param filePath - Path to the manifest JSON file
- * @param wallet - Ethereum wallet for transactions
- * @throws Error if manifest is invalid or operations fail
+ * @throws Error if the file is missing or the manifest is invalid
  */
-export async function applyManifest(filePath: string, wallet: ethers.Wallet): Promise<void> {
-  console.log(`📋 Loading manifest from: ${filePath}`);
-  
+export function loadManifest(filePath: string): AnyManifest {
   // Validate manifest file exists
   if (!fs.existsSync(filePath)) {
     throw new Error(`Manifest file not found: ${filePath}`);
@@ -32,138 +45,441 @@ export async function applyManifest(filePath: string, wallet: ethers.Wallet): Pr
   }
 
   // Validate manifest against schema
-  let manifest: Manifest;
   try {
-    manifest = ManifestSchema.parse(rawManifest);
+    return parseManifest(rawManifest);
   } catch (error: unknown) {
     const zodError = error as { errors?: Array<{ path: Array<string | number>; message: string }> };
-    const errorMessage = zodError.errors 
+    const errorMessage = zodError.errors
       ? zodError.errors.map((err) => `${err.path.join('.')}: ${err.message}`).join(', ')
       : error instanceof Error ? error.message : String(error);
     throw new Error(`Invalid manifest: ${errorMessage}`);
   }
+}
+
+export function getStateFilePath(manifestPath: string): string {
+  return manifestPath.replace(/\.jsonc?$/, '.state.json');
+}
+
+/**
+ * Reads the state file of a manifest, converting v1 state files to the v2 format.
+ *
+ * @returns The state, or undefined if the manifest was never applied
+ * @throws Error if the state file is invalid or belongs to another network
+ */
+export function loadState(manifestPath: string, manifest: AnyManifest): StateV2 | undefined {
+  const stateFilePath = getStateFilePath(manifestPath);
+  if (!fs.existsSync(stateFilePath)) {
+    return undefined;
+  }
+
+  let state: StateV2;
+  try {
+    const rawState: unknown = JSON.parse(fs.readFileSync(stateFilePath, 'utf8'));
+    state = (rawState as { version?: unknown } | null)?.version === '2'
+      ? StateV2Schema.parse(rawState)
+      : toStateV2(StateSchema.parse(rawState), manifest as Manifest);
+  } catch (error) {
+    throw new Error(`Invalid state file ${stateFilePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (state.network.chainId !== manifest.network.chainId || state.network.mode !== manifest.network.mode) {
+    throw new Error(
+      `State file ${stateFilePath} was created for ${state.network.mode} (chainId: ${state.network.chainId}), ` +
+      `but the manifest targets ${manifest.network.mode} (chainId: ${manifest.network.chainId})`
+    );
+  }
+  return state;
+}
+
+/**
+ * Computes the plan for a manifest file against its state file, without sending anything.
+ * v1 manifests are planned as their v2 equivalent.
+ */
+export function planManifestFile(filePath: string): { manifest: ManifestV2; state?: StateV2; plan: ManifestPlan } {
+  const anyManifest = loadManifest(filePath);
+  const manifest = isManifestV2(anyManifest) ? anyManifest : toManifestV2(anyManifest);
+  const state = loadState(filePath, anyManifest);
+  return { manifest, state, plan: planManifest(manifest, state) };
+}
+
+/**
+ * Applies a manifest file: computes a plan against its state file, then deploys,
+ * registers and updates only what changed. The state file is updated after each step.
+ *
+ * @param filePath - Path to the manifest JSON file
+ * @param wallet - Ethereum wallet for transactions
+ * @throws Error if manifest is invalid or operations fail
+ */
+export async function applyManifest(filePath: string, wallet: ethers.Wallet): Promise<void> {
+  console.log(`📋 Loading manifest from: ${filePath}`);
+  const { manifest, state: previousState, plan } = planManifestFile(filePath);
 
   console.log(`✅ Manifest validated successfully`);
   console.log(`🌐 Network: ${manifest.network.mode} (chainId: ${manifest.network.chainId})`);
-  console.log(`📝 Registration: ${manifest.registration.name} (${manifest.registration.triggerType})`);
+  console.log(`\n🧭 Plan:`);
+  formatPlan(plan).forEach((line) => console.log(line));
 
-  // Initialize Automation instance
-  const automation = new Automation({
-    signer: wallet,
-    chainId: manifest.network.chainId,
-    mode: manifest.network.mode
-  });
+  if (!hasChanges(plan)) {
+    console.log(`\n✅ Everything is up to date.`);
+  }
 
-  let upkeepContract = manifest.registration.upkeepContract;
-  let deployedAddress: string | undefined;
+  const automation = createAutomation(manifest.network, wallet);
 
-  // Handle deployment if needed
-  if (upkeepContract === 'auto') {
-    if (!manifest.deployment) {
-      throw new Error("Deployment configuration is required when upkeepContract is 'auto'");
+  const state: StateV2 = previousState ?? {
+    version: '2',
+    network: manifest.network,
+    contracts: {},
+    upkeeps: {},
+    timestamp: new Date().toISOString()
+  };
+  const manifestDir = path.dirname(filePath);
+
+  for (const step of plan.steps) {
+    const { node } = step;
+
+    if (node.kind === 'contract') {
+      const deployment = resolveReferences(manifest.contracts[node.name], state);
+      let address = state.contracts[node.name]?.address;
+      if (isRecreated(step)) {
+        console.log(`\n🔧 Deploying contract '${node.name}'...`);
+        address = await deployFromManifest(deployment, manifestDir, wallet);
+      }
+      recordState(filePath, state, state.contracts, node.name, { address, deployment });
+      continue;
     }
 
-    console.log(`🔧 Auto-deployment requested...`);
-
-    // Validate artifact path if provided
-    if (manifest.deployment.artifact) {
-      // Resolve artifact path relative to manifest file
-      const manifestDir = path.dirname(filePath);
-      const absoluteArtifactPath = path.resolve(manifestDir, manifest.deployment.artifact);
-      validateArtifactPath(absoluteArtifactPath);
-
-      // Deploy contract
-      deployedAddress = await deployUpkeep({
-        wallet,
-        artifactPath: absoluteArtifactPath,
-        constructorArgs: manifest.deployment.constructorArgs || []
-      });
-
-      upkeepContract = deployedAddress;
-      console.log(`🎯 Using deployed contract address: ${deployedAddress}`);
-    } else if (manifest.deployment.template) {
-      // Deploy from template (stubbed for future)
-      deployedAddress = await deployUpkeep({
-        wallet,
-        template: manifest.deployment.template,
-        constructorArgs: manifest.deployment.constructorArgs || []
-      });
-
-      upkeepContract = deployedAddress;
+    const upkeep = resolveReferences(manifest.upkeeps[node.name], state);
+    let upkeepId = state.upkeeps[node.name]?.upkeepId;
+    for (const operation of step.operations) {
+      switch (operation.type) {
+        case 'replace':
+          console.log(`\n🗑️  Canceling upkeep '${node.name}' (${upkeepId}): ${operation.reason}`);
+          // Stop before registering the replacement: the state keeps the ID of the upkeep still running
+          await runUpkeepOperation('cancel', node.name, () => automation.cancelUpkeep(upkeepId));
+          // Recorded right away, so that a failed registration is retried without canceling it again
+          recordState(filePath, state, state.upkeeps, node.name, { ...state.upkeeps[node.name], canceled: true });
+        // falls through
+        case 'create':
+          console.log(`\n📝 Registering upkeep '${node.name}': ${upkeep.name} (${upkeep.triggerType})...`);
+          upkeepId = await registerUpkeep(automation, buildUpkeepOptions(upkeep, upkeep.upkeepContract));
+          console.log(`📊 Upkeep ID: ${upkeepId}`);
+          break;
+        case 'update':
+          console.log(`\n🔄 Updating ${operation.changes.map((change) => change.field).join(', ')} of upkeep '${node.name}'...`);
+          await runUpkeepOperation('update', node.name, () => automation.updateUpkeep(upkeepId, buildUpdateOptions(upkeep, operation.changes)));
+          break;
+        case 'fund':
+          console.log(`\n💰 Funding upkeep '${node.name}' with ${operation.amount} LINK...`);
+          await runUpkeepOperation('fund', node.name, () => automation.addFunds(upkeepId, operation.amount));
+          break;
+        case 'pause':
+          console.log(`\n⏸️  Pausing upkeep '${node.name}'...`);
+          await runUpkeepOperation('pause', node.name, () => automation.pauseUpkeep(upkeepId));
+          break;
+        case 'unpause':
+          console.log(`\n▶️  Unpausing upkeep '${node.name}'...`);
+          await runUpkeepOperation('unpause', node.name, () => automation.unpauseUpkeep(upkeepId));
+          break;
+      }
     }
+    recordState(filePath, state, state.upkeeps, node.name, {
+      name: upkeep.name,
+      upkeepId,
+      address: upkeep.upkeepContract,
+      config: upkeep
+    });
+  }
+
+  if (hasChanges(plan)) {
+    console.log(`\n✨ Manifest applied successfully!`);
   }
 
-  // Build CreateUpkeepOptions
-  let upkeepOptions: CreateUpkeepOptions;
-  
-  if (manifest.registration.triggerType === 'log') {
-    upkeepOptions = {
-      name: manifest.registration.name,
-      upkeepContract: upkeepContract as string,
-      gasLimit: manifest.registration.gasLimit,
+  // Display summary
+  console.log(`\n📋 Summary:`);
+  console.log(`   Network: ${manifest.network.mode} (${manifest.network.chainId})`);
+  for (const [name, contract] of Object.entries(state.contracts)) {
+    console.log(`   Contract ${name}: ${contract.address}`);
+  }
+  for (const [name, upkeep] of Object.entries(state.upkeeps)) {
+    console.log(`   Upkeep ${name}: ${upkeep.upkeepId} (${upkeep.address})`);
+  }
+}
+
+/**
+ * A dry run check, with the manifest entry it concerns.
+ */
+export interface DryRunEntryCheck extends DryRunCheck {
+  entry: string; // e.g. 'contract counter'
+}
+
+export interface DryRunReport {
+  plan: ManifestPlan;
+  checks: DryRunEntryCheck[];
+}
+
+/**
+ * Runs the apply pipeline of a manifest file without broadcasting anything: artifacts are loaded,
+ * deployments are estimated, and registrations and in-place updates are simulated by the provider.
+ *
+ * @param filePath - Path to the manifest JSON file
+ * @param wallet - Ethereum wallet that would send the transactions
+ * @returns The plan and every check performed; a check with status 'error' means apply would fail
+ */
+export async function dryRunManifest(filePath: string, wallet: ethers.Wallet): Promise<DryRunReport> {
+  console.log(`📋 Loading manifest from: ${filePath}`);
+  const { manifest, state, plan } = planManifestFile(filePath);
+
+  console.log(`✅ Manifest validated successfully`);
+  console.log(`🌐 Network: ${manifest.network.mode} (chainId: ${manifest.network.chainId})`);
+  console.log(`\n🧭 Plan:`);
+  formatPlan(plan).forEach((line) => console.log(line));
+
+  const automation = createAutomation(manifest.network, wallet);
+
+  // Outputs of the entries created or replaced by the plan are only known after apply
+  const outputs: ManifestOutputs = { contracts: { ...state?.contracts }, upkeeps: { ...state?.upkeeps } };
+  const checks: DryRunEntryCheck[] = [];
+  const manifestDir = path.dirname(filePath);
+  let deploymentGas = ethers.BigNumber.from(0);
+
+  for (const step of plan.steps) {
+    const entry = `${step.node.kind} ${step.node.name}`;
+
+    if (!isRecreated(step)) {
+      // Settings changed in place must still be accepted by the registry
+      for (const operation of step.operations) {
+        if (operation.type !== 'update') {
+          continue;
+        }
+        const upkeep = resolveReferences(manifest.upkeeps[step.node.name], outputs);
+        try {
+          const updateChecks = await automation.simulateUpdateUpkeep(state!.upkeeps[step.node.name].upkeepId, buildUpdateOptions(upkeep, operation.changes));
+          checks.push(...updateChecks.map((check) => ({ entry, ...check })));
+        } catch (error) {
+          checks.push({ entry, check: 'update', status: 'error', message: error instanceof Error ? error.message : String(error) });
+        }
+      }
+      continue;
+    }
+
+    if (step.node.kind === 'contract') {
+      const deployment = resolveReferences(manifest.contracts[step.node.name], outputs);
+      outputs.contracts[step.node.name] = { address: UNKNOWN_OUTPUT };
+
+      if (JSON.stringify(deployment.constructorArgs).includes(UNKNOWN_OUTPUT)) {
+        checks.push({ entry, check: 'deployment', status: 'warning', message: 'Gas not estimated: the constructor arguments reference contracts deployed by this manifest.' });
+        continue;
+      }
+      try {
+        const artifactPath = deployment.artifact && path.resolve(manifestDir, deployment.artifact);
+        if (artifactPath) {
+          validateArtifactPath(artifactPath);
+        }
+        const gas = await estimateDeploymentGas({
+          wallet,
+          artifactPath,
+          template: deployment.template,
+          constructorArgs: deployment.constructorArgs || []
+        });
+        deploymentGas = deploymentGas.add(gas);
+        checks.push({ entry, check: 'deployment', status: 'ok', message: `Would use about ${gas.toString()} gas.` });
+      } catch (error) {
+        checks.push({ entry, check: 'deployment', status: 'error', message: error instanceof Error ? error.message : String(error) });
+      }
+    } else {
+      const upkeep = resolveReferences(manifest.upkeeps[step.node.name], outputs);
+      outputs.upkeeps[step.node.name] = { upkeepId: UNKNOWN_OUTPUT };
+
+      try {
+        const upkeepChecks = await automation.simulateCreateUpkeep(buildUpkeepOptions(upkeep, upkeep.upkeepContract));
+        checks.push(...upkeepChecks.map((check) => ({ entry, ...check })));
+      } catch (error) {
+        checks.push({ entry, check: 'registration', status: 'error', message: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  }
+
+  if (!deploymentGas.isZero()) {
+    checks.push(await checkDeploymentFunds(wallet, deploymentGas));
+  }
+
+  const report = { plan, checks };
+  printDryRunReport(report);
+  return report;
+}
+
+async function checkDeploymentFunds(wallet: ethers.Wallet, gas: ethers.BigNumber): Promise<DryRunEntryCheck> {
+  const entry = `wallet ${wallet.address}`;
+  try {
+    const [gasPrice, balance] = await Promise.all([wallet.getGasPrice(), wallet.getBalance()]);
+    const cost = gas.mul(gasPrice);
+    return balance.lt(cost)
+      ? { entry, check: 'ETH balance', status: 'error', message: `${ethers.utils.formatEther(balance)} ETH is not enough for about ${ethers.utils.formatEther(cost)} ETH of deployment gas.` }
+      : { entry, check: 'ETH balance', status: 'ok', message: `${ethers.utils.formatEther(balance)} ETH covers about ${ethers.utils.formatEther(cost)} ETH of deployment gas.` };
+  } catch (error) {
+    return { entry, check: 'ETH balance', status: 'warning', message: `Could not estimate the deployment cost: ${error instanceof Error ? error.message : String(error)}` };
+  }
+}
+
+function printDryRunReport(report: DryRunReport): void {
+  const icons = { ok: '✅', warning: '⚠️ ', error: '❌' };
+
+  console.log(`\n🧪 Dry run report:`);
+  if (report.checks.length === 0) {
+    console.log(`   Nothing to deploy or register.`);
+  }
+  for (const check of report.checks) {
+    console.log(`   ${icons[check.status]} ${check.entry} - ${check.check}: ${check.message}`);
+  }
+
+  const errors = report.checks.filter((check) => check.status === 'error').length;
+  const warnings = report.checks.filter((check) => check.status === 'warning').length;
+  console.log(`\n${errors > 0 ? '❌' : '✅'} Dry run: ${errors} error(s), ${warnings} warning(s). No transactions were sent.`);
+}
+
+/**
+ * The Automation client of a manifest's network. In chainlink mode, the local Chainlink stack deployed
+ * to the chain from this directory, if any, is registered first.
+ */
+function createAutomation(network: ManifestV2['network'], wallet: ethers.Wallet): Automation {
+  if (network.mode === 'chainlink') {
+    registerLocalChainlinkNetwork(network.chainId);
+  }
+  return new Automation({
+    signer: wallet,
+    chainId: network.chainId,
+    mode: network.mode,
+    simulatorUrl: network.simulatorUrl,
+    simulatorToken: resolveSimulatorToken(network.simulatorUrl),
+    cronUpkeepFactoryAddress: network.cronUpkeepFactoryAddress
+  });
+}
+
+/**
+ * Records the outcome of a step in the state, and saves the state file if the entry changed.
+ */
+function recordState<T>(manifestPath: string, state: StateV2, entries: Record<string, T>, name: string, entry: T): void {
+  if (JSON.stringify(entries[name]) === JSON.stringify(entry)) {
+    return;
+  }
+  entries[name] = entry;
+  state.timestamp = new Date().toISOString();
+  writeStateFile(manifestPath, state);
+}
+
+/**
+ * Deploys a contract described by a manifest deployment section.
+ * Artifact paths are resolved relative to the manifest file.
+ */
+async function deployFromManifest(deployment: Deployment, manifestDir: string, wallet: ethers.Wallet): Promise<string> {
+  if (deployment.artifact) {
+    const absoluteArtifactPath = path.resolve(manifestDir, deployment.artifact);
+    validateArtifactPath(absoluteArtifactPath);
+
+    return deployUpkeep({
+      wallet,
+      artifactPath: absoluteArtifactPath,
+      constructorArgs: deployment.constructorArgs || []
+    });
+  }
+
+  // Deploy from a built-in template
+  return deployUpkeep({
+    wallet,
+    template: deployment.template,
+    constructorArgs: deployment.constructorArgs || []
+  });
+}
+
+/**
+ * Builds the library's upkeep options from a manifest upkeep entry.
+ */
+function buildUpkeepOptions(upkeep: UpkeepEntry, upkeepContract: string): CreateUpkeepOptions {
+  const base = {
+    name: upkeep.name,
+    upkeepContract,
+    gasLimit: upkeep.gasLimit,
+    // Required in chainlink mode; in local mode the simulator tracks it as simulated LINK
+    initialFunds: upkeep.initialFunds ?? '0',
+    ...(upkeep.checkData && { checkData: upkeep.checkData }),
+    ...(upkeep.offchainConfig && { offchainConfig: upkeep.offchainConfig })
+  };
+
+  const trigger = buildTriggerConfig(upkeep);
+  return trigger ? { ...base, ...trigger } : { ...base, triggerType: 'custom' };
+}
+
+/**
+ * Builds the trigger configuration of a log or time-based upkeep entry.
+ */
+function buildTriggerConfig(upkeep: UpkeepEntry): UpkeepTriggerConfig | undefined {
+  if (upkeep.triggerType === 'log') {
+    return {
       triggerType: 'log',
-      initialFunds: manifest.network.mode === 'chainlink' 
-        ? manifest.registration.initialFunds! 
-        : '0',
-      logEmitterAddress: manifest.registration.logEmitterAddress!,
-      logEventSignature: manifest.registration.logEventSignature!,
-      ...(manifest.registration.logTopicFilters && {
-        logTopicFilters: manifest.registration.logTopicFilters
+      logEmitterAddress: upkeep.logEmitterAddress!,
+      logEventSignature: upkeep.logEventSignature!,
+      ...(upkeep.logEventAbi && {
+        logEventAbi: upkeep.logEventAbi as string[]
+      }),
+      ...(upkeep.logTopicFilters && {
+        logTopicFilters: upkeep.logTopicFilters
       })
     };
-  } else {
-    upkeepOptions = {
-      name: manifest.registration.name,
-      upkeepContract: upkeepContract as string,
-      gasLimit: manifest.registration.gasLimit,
-      triggerType: 'custom',
-      initialFunds: manifest.network.mode === 'chainlink' 
-        ? manifest.registration.initialFunds! 
-        : '0'
+  }
+
+  if (upkeep.triggerType === 'time') {
+    return {
+      triggerType: 'time',
+      cronExpression: upkeep.cronExpression!,
+      ...(upkeep.performData && {
+        performData: upkeep.performData
+      })
     };
   }
 
-  // Register the upkeep
-  console.log(`📝 Registering upkeep...`);
-  let upkeepId: string;
+  return undefined;
+}
+
+/**
+ * Builds the library's update options for the fields a plan changes.
+ */
+function buildUpdateOptions(upkeep: UpkeepEntry, changes: FieldChange[]): UpdateUpkeepOptions {
+  const options: UpdateUpkeepOptions = {};
+  for (const { field } of changes) {
+    if (field === 'gasLimit') {
+      options.gasLimit = upkeep.gasLimit;
+    } else if (field === 'trigger') {
+      options.trigger = buildTriggerConfig(upkeep);
+    } else {
+      options[field] = upkeep[field] ?? '0x';
+    }
+  }
+  return options;
+}
+
+async function registerUpkeep(automation: Automation, options: CreateUpkeepOptions): Promise<string> {
   try {
-    const result = await automation.createUpkeep(upkeepOptions);
-    upkeepId = result.upkeepId;
+    const result = await automation.createUpkeep(options);
+    return result.upkeepId;
   } catch (error) {
     throw new Error(`Failed to register upkeep: ${error instanceof Error ? error.message : String(error)}`);
   }
+}
 
-  console.log(`🎉 Upkeep registered successfully!`);
-  console.log(`📊 Upkeep ID: ${upkeepId}`);
-  console.log(`📍 Contract: ${upkeepContract}`);
-
-  // Write state file
-  const stateFilePath = filePath.replace(/\.jsonc?$/, '.state.json');
-  const state: State = {
-    address: upkeepContract as string,
-    upkeepId,
-    network: manifest.network,
-    name: manifest.registration.name,
-    timestamp: new Date().toISOString()
-  };
+async function runUpkeepOperation(operation: string, name: string, call: () => Promise<void>): Promise<void> {
+  try {
+    await call();
+  } catch (error) {
+    throw new Error(`Failed to ${operation} upkeep '${name}': ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
 
+function writeStateFile(manifestPath: string, state: StateV2): void {
+  const stateFilePath = getStateFilePath(manifestPath);
   try {
     fs.writeFileSync(stateFilePath, JSON.stringify(state, null, 2));
     console.log(`💾 State saved to: ${stateFilePath}`);
   } catch (error) {
     console.warn(`⚠️  Failed to write state file: ${error instanceof Error ? error.message : String(error)}`);
   }
-
-  console.log(`\n✨ Manifest applied successfully!`);
-  
-  // Display summary
-  console.log(`\n📋 Summary:`);
-  console.log(`   Name: ${manifest.registration.name}`);
-  console.log(`   Type: ${manifest.registration.triggerType}`);
-  console.log(`   Contract: ${upkeepContract}`);
-  console.log(`   Upkeep ID: ${upkeepId}`);
-  console.log(`   Network: ${manifest.network.mode} (${manifest.network.chainId})`);
-  if (deployedAddress) {
-    console.log(`   Deployed: Yes (${deployedAddress})`);
-  }
-} 
\ No newline at end of file
+}
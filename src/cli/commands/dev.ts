@@ -1,20 +1,102 @@
 import type { Argv } from 'yargs';
+import { spawn } from 'child_process';
+import fs from 'fs';
 import { ethers } from 'ethers';
 import prompts from 'prompts';
-import { startSimulatorServer } from '../../simulator/server.js';
+import { startSimulatorServer, type SimulatorServer, type SimulatorStatus } from '../../simulator/server.js';
 import { ANVIL_ACCOUNTS } from '../../simulator/accounts.js';
+import { DEFAULT_LINK_NATIVE_PRICE } from '../../simulator/billing.js';
+import { DEFAULT_SIMULATOR_HOST, DEFAULT_SIMULATOR_PORT, closeRpcProvider, createRpcProvider } from '../../simulator/registry.js';
+import { generateAuthToken } from '../../simulator/auth.js';
+import { DEFAULT_LOG_POLLING_INTERVAL, DEFAULT_MAX_BLOCK_RANGE } from '../../simulator/jobs.js';
+import { deployChainlinkStack } from '../../simulator/chainlink/deploy.js';
+import { getChainlinkDeploymentPath, readChainlinkDeployment, writeChainlinkDeployment } from '../../simulator/chainlink/deployment.js';
+import { createReportSource } from '../../simulator/streams.js';
+import { chainlinkAutomationNetworks, type LocalChainlinkDeployment } from '../../core/networks.js';
+import type { ExecutionHistoryPage, ExecutionRecord, TimeTravelResult } from '../../interfaces.js';
+import {
+  SIMULATOR_DIR,
+  acquireLock,
+  formatUptime,
+  getLockFilePath,
+  getLogFilePath,
+  getSimulatorDir,
+  getStoreFilePath,
+  getTokenFilePath,
+  isProcessRunning,
+  readAuthToken,
+  readLock,
+  releaseLock,
+  removeAuthToken,
+  waitFor,
+  writeAuthToken,
+} from '../daemon.js';
 
 interface DevStartArgs {
   port?: number;
+  host?: string;
   rpcUrl?: string;
   privateKey?: string;
   interactive?: boolean;
+  billingChainId?: number;
+  linkNativePrice?: string;
+  confirmations?: number;
+  logPollingInterval?: number;
+  maxBlockRange?: number;
+  keyPool?: number;
+  limitsChainId?: number;
+  manualTick?: boolean;
+  chainlink?: boolean;
+  streamsReports?: string;
+  auth?: boolean;
+  cors?: string[];
+  detach?: boolean;
+  reset?: boolean;
+  logFile?: string; // Set on the background process started by --detach
+}
+
+interface DevDeployChainlinkArgs {
+  rpcUrl: string;
+  privateKey?: string;
+  node?: string[];
+  linkNativePrice?: string;
 }
 
 interface DevStatusArgs {
   port?: number;
+  host?: string;
+}
+
+interface DevLogsArgs {
+  upkeepId: string;
+  port?: number;
+  host?: string;
+  limit?: number;
+  follow?: boolean;
+}
+
+interface DevTimeArgs {
+  action: 'increase' | 'set' | 'mine';
+  value?: string;
+  blocks?: number;
+  port?: number;
+  host?: string;
+}
+
+interface DevStopArgs {
+  port?: number;
+  timeout?: number;
+  force?: boolean;
 }
 
+// How often `dev logs --follow` polls for new executions
+const FOLLOW_INTERVAL_MS = 1_000;
+
+const DURATION_UNITS: Record<string, number> = { s: 1, m: 60, h: 3_600, d: 86_400, w: 604_800 };
+
+// How long `dev start --detach` waits for the background simulator to take its lock
+const DETACH_TIMEOUT_MS = 15_000;
+
 // Helper function to format Anvil account selection
 const formatAnvilAccount = (account: { address: string; privateKey: string }, index: number) => {
   const address = account.address;
@@ -25,10 +107,60 @@ const formatAnvilAccount = (account: { address: string; privateKey: string }, in
   };
 };
 
+/**
+ * The headers authenticating the CLI with the simulator of a port: the token of SIMULATOR_AUTH_TOKEN,
+ * otherwise the one stored by `dev start --auth`.
+ */
+function authHeaders(port: number): Record<string, string> {
+  const token = process.env.SIMULATOR_AUTH_TOKEN || readAuthToken(port);
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+/**
+ * Deploys a local Chainlink stack and records it for the chain, refusing chains that have Chainlink Automation.
+ */
+async function deployLocalChainlink(wallet: ethers.Wallet, nodes: string[], linkNativePrice?: string): Promise<LocalChainlinkDeployment> {
+  const { chainId } = await wallet.provider.getNetwork();
+  if (chainlinkAutomationNetworks[chainId]) {
+    throw new Error(`Chainlink Automation runs on chainId ${chainId} (${chainlinkAutomationNetworks[chainId].name}) already; deploy a local stack to a development node only`);
+  }
+  console.log(`📦 Deploying a Chainlink Automation stack to chainId ${chainId} from ${wallet.address}...`);
+  const deployment = await deployChainlinkStack(wallet, { nodes, linkNativePrice });
+  writeChainlinkDeployment(deployment, getSimulatorDir());
+  return deployment;
+}
+
+/**
+ * The local Chainlink stack recorded for the chain, deployed first if there is none or the node was reset.
+ */
+async function resolveLocalChainlink(wallet: ethers.Wallet, nodes: string[], linkNativePrice?: string): Promise<LocalChainlinkDeployment> {
+  const { chainId } = await wallet.provider.getNetwork();
+  const recorded = readChainlinkDeployment(chainId, getSimulatorDir());
+  if (recorded && await wallet.provider.getCode(recorded.registryAddress) !== '0x') {
+    return recorded;
+  }
+  if (recorded) {
+    console.log(`⚠️  The Chainlink registry recorded in ${getChainlinkDeploymentPath(chainId, getSimulatorDir())} is gone, was the node reset? Deploying it again.`);
+  }
+  return deployLocalChainlink(wallet, nodes, linkNativePrice);
+}
+
+/**
+ * The extra keys performs are spread across: the first `size` Anvil/Hardhat accounts,
+ * plus the comma-separated private keys of SIMULATOR_KEY_POOL.
+ */
+function resolveKeyPool(size = 0): string[] {
+  if (size > ANVIL_ACCOUNTS.length) {
+    throw new Error(`--key-pool can use at most ${ANVIL_ACCOUNTS.length} default accounts; pass other keys with SIMULATOR_KEY_POOL`);
+  }
+  const fromEnv = (process.env.SIMULATOR_KEY_POOL ?? '').split(',').map((key) => key.trim()).filter(Boolean);
+  return [...ANVIL_ACCOUNTS.slice(0, size).map((account) => account.privateKey), ...fromEnv];
+}
+
 async function handleDevStart(args: DevStartArgs): Promise<void> {
   try {
-    let { rpcUrl, privateKey } = args;
-    const { interactive = true } = args;
+    let { rpcUrl, privateKey = process.env.SIMULATOR_PRIVATE_KEY } = args;
+    const { interactive = true, port = DEFAULT_SIMULATOR_PORT } = args;
 
     // Interactive prompts if values not provided
     if (interactive && (!rpcUrl || !privateKey)) {
@@ -92,16 +224,138 @@ async function handleDevStart(args: DevStartArgs): Promise<void> {
     console.log(`📡 RPC URL: ${rpcUrl}`);
     
     // Test connection before starting
+    const provider = createRpcProvider(rpcUrl);
     try {
-      const provider = new ethers.providers.JsonRpcProvider(rpcUrl);
       const network = await provider.getNetwork();
       console.log(`✅ Connected to network: ${network.name} (chainId: ${network.chainId})`);
     } catch (error) {
       throw new Error(`Failed to connect to RPC: ${error instanceof Error ? error.message : String(error)}`);
     }
 
+    if (args.billingChainId) {
+      console.log(`💸 Simulated LINK billing enabled (chainId: ${args.billingChainId})`);
+    }
+
+    if (args.confirmations) {
+      console.log(`⛓️  Log triggers wait for ${args.confirmations} confirmation(s)`);
+    }
+
+    if (args.manualTick) {
+      console.log(`⏸️  Manual-tick mode: upkeeps only run on POST /tick`);
+    }
+
+    if (args.streamsReports) {
+      console.log(`📡 Answering StreamsLookup checks with the reports of ${args.streamsReports}`);
+    }
+
+    // A detached simulator receives the token of the process that started it
+    const authToken = args.auth ? process.env.SIMULATOR_AUTH_TOKEN || generateAuthToken() : undefined;
+
+    const keyPool = resolveKeyPool(args.keyPool);
+    if (keyPool.length > 0) {
+      console.log(`🔑 Spreading performs across a pool of ${new Set([privateKey, ...keyPool]).size} keys`);
+    }
+
+    if (port !== DEFAULT_SIMULATOR_PORT) {
+      console.log(`💡 Point clients at this instance with SIMULATOR_BASE_URL=http://localhost:${port} or the simulatorUrl option`);
+    }
+
+    const running = readLock(port);
+    if (running && running.pid !== process.pid) {
+      throw new Error(`A simulator is already running on port ${port} (PID ${running.pid}). Stop it with: cartesi-chainlink dev stop --port ${port}`);
+    }
+
+    const storePath = getStoreFilePath(port);
+    if (args.reset && fs.existsSync(storePath)) {
+      fs.rmSync(storePath);
+      console.log(`🧹 Forgot the upkeeps registered in previous runs`);
+    }
+
+    if (args.detach) {
+      await closeRpcProvider(provider);
+      await startDetached(args, rpcUrl, privateKey, port, authToken);
+      return;
+    }
+
+    // Every key sending performs must be allowed by the registry
+    let chainlink: LocalChainlinkDeployment | undefined;
+    if (args.chainlink) {
+      const wallet = new ethers.Wallet(privateKey, provider);
+      const nodes = [wallet.address, ...keyPool.map((key) => new ethers.Wallet(key).address)];
+      chainlink = await resolveLocalChainlink(wallet, nodes, args.linkNativePrice);
+      console.log(`🔗 Running the upkeeps of the Chainlink registry at ${chainlink.registryAddress}`);
+    }
+    // The simulator opens its own connection
+    await closeRpcProvider(provider);
+
+    const lock = acquireLock({
+      port,
+      host: args.host,
+      rpcUrl,
+      startedAt: new Date().toISOString(),
+      ...(args.logFile && { logFile: args.logFile })
+    });
+    // The CLI and LocalProvider read the token from the project; a token left by a crashed run is removed
+    if (authToken) {
+      writeAuthToken(port, authToken);
+    } else {
+      removeAuthToken(port);
+    }
+    process.on('exit', () => {
+      releaseLock(port);
+      if (authToken) {
+        removeAuthToken(port);
+      }
+    });
+
     // Start the simulator server
-    startSimulatorServer({ rpcUrl, privateKey });
+    let simulator: SimulatorServer;
+    try {
+      simulator = await startSimulatorServer({
+        rpcUrl,
+        privateKey,
+        port,
+        host: args.host,
+        authToken,
+        corsOrigins: args.cors,
+        storePath,
+        logTrigger: { confirmations: args.confirmations, pollingInterval: args.logPollingInterval, maxBlockRange: args.maxBlockRange },
+        keyPool,
+        ...(args.limitsChainId && { limitsChainId: args.limitsChainId }),
+        ...(args.manualTick && { manualTick: true }),
+        ...(chainlink && { chainlink }),
+        ...(args.streamsReports && { reportSource: createReportSource(args.streamsReports) }),
+        ...(args.billingChainId && {
+          billing: { chainId: args.billingChainId, linkNativePrice: args.linkNativePrice }
+        })
+      });
+    } catch (error) {
+      releaseLock(port);
+      throw error;
+    }
+    console.log(`🔒 PID ${lock.pid}, lock file: ${getLockFilePath(port)}`);
+    if (authToken) {
+      console.log(`🔑 Bearer token stored in ${getTokenFilePath(port)}`);
+    }
+
+    // Let in-flight performs settle on Ctrl+C or `dev stop`; a second signal exits immediately
+    let stopping = false;
+    const shutdown = async (signal: NodeJS.Signals) => {
+      if (stopping) {
+        console.log(`⚠️  Received ${signal} again, exiting without waiting for jobs.`);
+        process.exit(1);
+      }
+      stopping = true;
+      console.log(`\n🛑 Received ${signal}, stopping the simulator...`);
+      try {
+        await simulator.close();
+        console.log(`👋 Simulator stopped.`);
+      } finally {
+        process.exit(0);
+      }
+    };
+    process.on('SIGINT', (signal) => void shutdown(signal));
+    process.on('SIGTERM', (signal) => void shutdown(signal));
 
   } catch (error) {
     console.error(`❌ Error starting simulator: ${error instanceof Error ? error.message : String(error)}`);
@@ -109,32 +363,287 @@ async function handleDevStart(args: DevStartArgs): Promise<void> {
   }
 }
 
+/**
+ * Runs `dev start` again as a background process, logging to the port's log file,
+ * and waits until it has taken the port's lock.
+ */
+async function startDetached(args: DevStartArgs, rpcUrl: string, privateKey: string, port: number, authToken?: string): Promise<void> {
+  fs.mkdirSync(getSimulatorDir(), { recursive: true });
+  const logFile = getLogFilePath(port);
+  const log = fs.openSync(logFile, 'a');
+
+  const childArgs = [
+    ...process.execArgv,
+    process.argv[1],
+    'dev', 'start',
+    '--rpc-url', rpcUrl,
+    '--port', String(port),
+    '--log-file', logFile,
+    ...(args.host ? ['--host', args.host] : []),
+    ...(args.billingChainId ? ['--billing-chain-id', String(args.billingChainId)] : []),
+    ...(args.linkNativePrice ? ['--link-native-price', args.linkNativePrice] : []),
+    ...(args.confirmations ? ['--confirmations', String(args.confirmations)] : []),
+    ...(args.logPollingInterval ? ['--log-polling-interval', String(args.logPollingInterval)] : []),
+    ...(args.maxBlockRange ? ['--max-block-range', String(args.maxBlockRange)] : []),
+    ...(args.keyPool ? ['--key-pool', String(args.keyPool)] : []),
+    ...(args.limitsChainId ? ['--limits-chain-id', String(args.limitsChainId)] : []),
+    ...(args.manualTick ? ['--manual-tick'] : []),
+    ...(args.chainlink ? ['--chainlink'] : []),
+    ...(args.streamsReports ? ['--streams-reports', args.streamsReports] : []),
+    ...(authToken ? ['--auth'] : []),
+    ...(args.cors ?? []).flatMap((origin) => ['--cors', origin]),
+  ];
+  // The private key and token go through the environment so that they do not show up in the process list
+  const child = spawn(process.execPath, childArgs, {
+    detached: true,
+    stdio: ['ignore', log, log],
+    env: { ...process.env, SIMULATOR_PRIVATE_KEY: privateKey, ...(authToken && { SIMULATOR_AUTH_TOKEN: authToken }) },
+  });
+  fs.closeSync(log);
+
+  let exited = false;
+  child.on('exit', () => { exited = true; });
+  child.unref();
+
+  const started = await waitFor(() => exited || readLock(port)?.pid === child.pid, DETACH_TIMEOUT_MS);
+  if (!started || exited) {
+    throw new Error(`The background simulator did not start${exited ? '' : ` within ${DETACH_TIMEOUT_MS / 1000}s`}. See ${logFile}`);
+  }
+
+  console.log(`✅ Simulator running in the background (PID ${child.pid})`);
+  console.log(`📝 Logs: ${logFile}`);
+  if (authToken) {
+    console.log(`🔑 Bearer token stored in ${getTokenFilePath(port)}`);
+  }
+  console.log(`💡 Stop it with: cartesi-chainlink dev stop${port !== DEFAULT_SIMULATOR_PORT ? ` --port ${port}` : ''}`);
+}
+
 async function handleDevStatus(args: DevStatusArgs): Promise<void> {
-  const { port = 7788 } = args;
+  const { port = DEFAULT_SIMULATOR_PORT, host = 'localhost' } = args;
+  const lock = readLock(port);
   
   try {
-    console.log(`🔍 Checking simulator status on port ${port}...`);
+    console.log(`🔍 Checking simulator status on ${host}:${port}...`);
     
     // Try to connect to the simulator
-    const response = await fetch(`http://localhost:${port}/status`);
+    const response = await fetch(`http://${host}:${port}/status`, { headers: authHeaders(port) });
     
     if (response.ok) {
-      const data = await response.json();
+      const data = await response.json() as SimulatorStatus;
       console.log(`✅ Simulator is running`);
-      console.log(`📊 Status: ${data.status || 'active'}`);
-      console.log(`🌐 URL: http://localhost:${port}`);
+      console.log(`   PID: ${data.pid}${lock?.logFile ? ' (detached)' : ''}`);
+      console.log(`   Uptime: ${formatUptime(data.uptime)}`);
+      console.log(`   URL: http://${host}:${port}`);
+      const token = process.env.SIMULATOR_AUTH_TOKEN || readAuthToken(port);
+      console.log(`   Dashboard: http://${host}:${port}/${token ? `#token=${token}` : ''}`);
+      console.log(`   RPC URL: ${data.rpcUrl}`);
+      console.log(`   Wallet: ${data.wallet}`);
+      if (data.wallets.length > 1) {
+        console.log(`   Key pool: ${data.wallets.join(', ')}`);
+      }
+      if (data.manualTick) {
+        console.log(`   Mode: manual ticks (POST /tick)`);
+      }
+      if (data.chainlinkRegistry) {
+        console.log(`   Chainlink registry: ${data.chainlinkRegistry}`);
+      }
+      console.log(`   Limits: check gas ${data.limits.checkGasLimit.toLocaleString()}, perform gas ${data.limits.performGasLimit.toLocaleString()}, checkData ${data.limits.maxCheckDataSize ?? 'unlimited'} bytes, performData ${data.limits.maxPerformDataSize ?? 'unlimited'} bytes`);
+      if (lock?.logFile) {
+        console.log(`   Logs: ${lock.logFile}`);
+      }
+      console.log(`\n📋 Registered upkeeps (${data.registeredUpkeeps}):`);
+      for (const upkeep of data.upkeeps) {
+        const violations = upkeep.violations ? ` ⚠️  ${upkeep.violations} limit violation(s), see GET /upkeeps/${upkeep.id}` : '';
+        console.log(`   - ${upkeep.name} [${upkeep.triggerType}, ${upkeep.status}] ${upkeep.id}${violations}`);
+      }
+    } else if (response.status === 401) {
+      console.log(`❌ The simulator requires a bearer token: set SIMULATOR_AUTH_TOKEN, or run this command where it was started`);
     } else {
       console.log(`❌ Simulator is not responding (HTTP ${response.status})`);
     }
   } catch (_error) {
-    console.log(`❌ Simulator is not running on port ${port}`);
-    console.log(`💡 Start it with: cartesi-chainlink dev start`);
+    if (lock) {
+      console.log(`❌ Simulator process ${lock.pid} holds port ${port} but is not responding on ${host}:${port}`);
+      console.log(`💡 Stop it with: cartesi-chainlink dev stop --port ${port}`);
+    } else {
+      console.log(`❌ Simulator is not running on ${host}:${port}`);
+      console.log(`💡 Start it with: cartesi-chainlink dev start`);
+    }
+  }
+}
+
+async function handleDevDeployChainlink(args: DevDeployChainlinkArgs): Promise<void> {
+  const privateKey = args.privateKey || process.env.SIMULATOR_PRIVATE_KEY || ANVIL_ACCOUNTS[0].privateKey;
+  try {
+    const wallet = new ethers.Wallet(privateKey, createRpcProvider(args.rpcUrl));
+    const deployment = await deployLocalChainlink(wallet, args.node ?? [], args.linkNativePrice);
+    console.log(`✅ Chainlink Automation stack deployed:`);
+    console.log(`   LINK token: ${deployment.linkTokenAddress}`);
+    console.log(`   Registrar:  ${deployment.registrarAddress}`);
+    console.log(`   Registry:   ${deployment.registryAddress}`);
+    console.log(`   Nodes:      ${deployment.nodes.join(', ')}`);
+    console.log(`📝 Recorded in ${getChainlinkDeploymentPath(deployment.chainId, getSimulatorDir())}: manifests of mode 'chainlink' on chainId ${deployment.chainId} use it when applied from this directory`);
+    console.log(`💡 ${wallet.address} holds the LINK supply. Run the upkeeps with: cartesi-chainlink dev start --chainlink`);
+    await closeRpcProvider(wallet.provider);
+  } catch (error) {
+    console.error(`❌ Error deploying the Chainlink stack: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+}
+
+async function handleDevStop(args: DevStopArgs): Promise<void> {
+  const { port = DEFAULT_SIMULATOR_PORT, timeout = 15, force = false } = args;
+
+  const lock = readLock(port);
+  if (!lock) {
+    console.log(`ℹ️  No simulator running on port ${port} (no lock file in ${SIMULATOR_DIR}/)`);
+    return;
+  }
+
+  console.log(`🛑 Stopping simulator (PID ${lock.pid}) on port ${port}...`);
+  process.kill(lock.pid, 'SIGTERM');
+
+  if (await waitFor(() => !isProcessRunning(lock.pid), timeout * 1000)) {
+    console.log(`✅ Simulator stopped.`);
+    return;
+  }
+
+  if (force) {
+    process.kill(lock.pid, 'SIGKILL');
+    fs.rmSync(getLockFilePath(port), { force: true });
+    console.log(`⚠️  Simulator killed after ${timeout}s without stopping.`);
+    return;
+  }
+
+  console.error(`❌ Simulator still running after ${timeout}s, probably waiting for a pending perform transaction.`);
+  console.error(`💡 Use --force to kill it.`);
+  process.exit(1);
+}
+
+const formatExecution = (record: ExecutionRecord) => {
+  const trigger = record.trigger ? ` log ${record.trigger.transactionHash}#${record.trigger.logIndex}` : '';
+  const tx = record.txHash ? ` tx ${record.txHash}` : '';
+  const gas = record.gasUsed ? ` gas ${Number(record.gasUsed).toLocaleString()}` : '';
+  const error = record.error ? ` - ${record.error}` : '';
+  return `   #${record.id} ${record.timestamp} block ${record.blockNumber} ${record.status}${trigger}${tx}${gas}${error}`;
+};
+
+async function fetchHistory(baseUrl: string, port: number, upkeepId: string, limit: number): Promise<ExecutionHistoryPage> {
+  const response = await fetch(`${baseUrl}/upkeeps/${upkeepId}/history?limit=${limit}`, { headers: authHeaders(port) });
+  const data = await response.json() as ExecutionHistoryPage & { message?: string };
+  if (!response.ok) {
+    throw new Error(data.message ?? `HTTP ${response.status}`);
   }
+  return data;
 }
 
-async function handleDevStop(): Promise<void> {
-  console.log(`⚠️  Manual stop not implemented yet.`);
-  console.log(`💡 Use Ctrl+C to stop the simulator process.`);
+async function handleDevLogs(args: DevLogsArgs): Promise<void> {
+  const { upkeepId, port = DEFAULT_SIMULATOR_PORT, host = 'localhost', limit = 20, follow = false } = args;
+  const baseUrl = `http://${host}:${port}`;
+
+  let page: ExecutionHistoryPage;
+  try {
+    page = await fetchHistory(baseUrl, port, upkeepId, limit);
+  } catch (error) {
+    console.error(`❌ Could not read the history of ${upkeepId} from ${baseUrl}: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+
+  console.log(`📜 Executions of ${upkeepId} (${page.records.length} of ${page.total}):`);
+  // Pages come most recent first, logs read oldest first
+  for (const record of [...page.records].reverse()) {
+    console.log(formatExecution(record));
+  }
+  if (!follow) {
+    return;
+  }
+
+  let lastId = page.records[0]?.id ?? 0;
+  console.log(`👀 Following new executions, press Ctrl+C to stop...`);
+  for (;;) {
+    await new Promise((resolve) => setTimeout(resolve, FOLLOW_INTERVAL_MS));
+    try {
+      const { records } = await fetchHistory(baseUrl, port, upkeepId, limit);
+      for (const record of records.filter((record) => record.id > lastId).reverse()) {
+        console.log(formatExecution(record));
+        lastId = record.id;
+      }
+    } catch (error) {
+      console.error(`❌ Stopped following ${upkeepId}: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+  }
+}
+
+// Parses seconds, or a duration such as 90s, 15m, 2h or 1d
+function parseDuration(value: string): number | undefined {
+  const match = /^(\d+)([smhdw]?)$/.exec(value.trim());
+  return match ? Number(match[1]) * DURATION_UNITS[match[2] || 's'] : undefined;
+}
+
+// Parses a Unix timestamp in seconds, or a date such as 2030-01-01T00:00:00Z
+function parseTimestamp(value: string): number | undefined {
+  if (/^\d+$/.test(value.trim())) {
+    return Number(value);
+  }
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : Math.floor(time / 1000);
+}
+
+async function handleDevTime(args: DevTimeArgs): Promise<void> {
+  const { action, value, blocks, port = DEFAULT_SIMULATOR_PORT, host = 'localhost' } = args;
+
+  let body: Record<string, number>;
+  if (action === 'increase') {
+    const seconds = value === undefined ? undefined : parseDuration(value);
+    if (!seconds) {
+      console.error(`❌ Give the time to add in seconds, or as a duration such as 90s, 15m, 2h or 1d`);
+      process.exit(1);
+    }
+    body = { seconds, ...(blocks && { blocks }) };
+  } else if (action === 'set') {
+    const timestamp = value === undefined ? undefined : parseTimestamp(value);
+    if (!timestamp) {
+      console.error(`❌ Give the timestamp of the next block as Unix seconds or as a date such as 2030-01-01T00:00:00Z`);
+      process.exit(1);
+    }
+    body = { timestamp, ...(blocks && { blocks }) };
+  } else {
+    const count = value === undefined ? blocks ?? 1 : Number(value);
+    if (!Number.isInteger(count) || count < 1) {
+      console.error(`❌ Give the number of blocks to mine as a positive integer`);
+      process.exit(1);
+    }
+    body = { blocks: count };
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(`http://${host}:${port}/time/${action}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authHeaders(port) },
+      body: JSON.stringify(body)
+    });
+  } catch (_error) {
+    console.error(`❌ Simulator is not running on ${host}:${port}`);
+    console.log(`💡 Start it with: cartesi-chainlink dev start`);
+    process.exit(1);
+  }
+  const data = await response.json() as TimeTravelResult & { message?: string; errors?: string[] };
+  if (!response.ok) {
+    console.error(`❌ ${data.message}${data.errors ? `: ${data.errors.join('; ')}` : ''}`);
+    process.exit(1);
+  }
+
+  console.log(`⏩ Chain at block ${data.blockNumber}, ${new Date(data.timestamp * 1000).toISOString()}`);
+  if (data.tick.executions.length === 0) {
+    console.log(`   No upkeep ran (${data.tick.upkeeps} active)`);
+    return;
+  }
+  console.log(`📜 Executions (${data.tick.executions.length}):`);
+  for (const record of data.tick.executions) {
+    console.log(`${formatExecution(record)} [${record.upkeepId}]`);
+  }
 }
 
 export function devCommands(yargs: Argv): Argv {
@@ -152,7 +661,11 @@ export function devCommands(yargs: Argv): Argv {
                 alias: 'p',
                 type: 'number',
                 description: 'Port for the simulator server',
-                default: 7788
+                default: DEFAULT_SIMULATOR_PORT
+              })
+              .option('host', {
+                type: 'string',
+                description: `Address the simulator server binds to (defaults to ${DEFAULT_SIMULATOR_HOST}, this machine only; 0.0.0.0 for all interfaces)`
               })
               .option('rpc-url', {
                 alias: 'r',
@@ -164,10 +677,79 @@ export function devCommands(yargs: Argv): Argv {
                 type: 'string',
                 description: 'Private key for simulator wallet'
               })
+              .option('billing-chain-id', {
+                type: 'number',
+                description: 'Charge simulated LINK on each perform using the fee parameters of this chainId'
+              })
+              .option('link-native-price', {
+                type: 'string',
+                description: 'Price of 1 LINK in the native token, used for simulated billing',
+                default: DEFAULT_LINK_NATIVE_PRICE
+              })
+              .option('confirmations', {
+                type: 'number',
+                description: 'Blocks mined on top of a log before log trigger upkeeps check it',
+                default: 0
+              })
+              .option('log-polling-interval', {
+                type: 'number',
+                description: `Milliseconds between polls for new blocks of log trigger upkeeps over HTTP (default ${DEFAULT_LOG_POLLING_INTERVAL}); ws:// URLs subscribe instead`
+              })
+              .option('max-block-range', {
+                type: 'number',
+                description: `Most blocks fetched by one eth_getLogs query of log trigger upkeeps (default ${DEFAULT_MAX_BLOCK_RANGE}), halved while the node refuses it`
+              })
+              .option('key-pool', {
+                type: 'number',
+                description: 'Spread performs across this many default Anvil/Hardhat accounts (more keys: SIMULATOR_KEY_POOL)'
+              })
+              .option('limits-chain-id', {
+                type: 'number',
+                description: 'Enforce the gas and data-size limits of this chainId (defaults to --billing-chain-id, then Ethereum Sepolia)'
+              })
+              .option('manual-tick', {
+                type: 'boolean',
+                description: 'Only run upkeeps on POST /tick, for deterministic tests',
+                default: false
+              })
+              .option('chainlink', {
+                type: 'boolean',
+                description: 'Run the upkeeps of the local Chainlink registry through it, deploying it first if needed (see dev deploy-chainlink)',
+                default: false
+              })
+              .option('streams-reports', {
+                type: 'string',
+                description: 'JSON fixture file or mock server URL providing the Data Streams reports of StreamsLookup checks'
+              })
+              .option('auth', {
+                type: 'boolean',
+                description: `Require a bearer token on API requests, stored in ${SIMULATOR_DIR}/simulator-<port>.token (SIMULATOR_AUTH_TOKEN to choose it)`,
+                default: false
+              })
+              .option('cors', {
+                type: 'string',
+                array: true,
+                description: "Origins allowed to call the API from a browser ('*' for any); none by default"
+              })
               .option('no-interactive', {
                 type: 'boolean',
                 description: 'Disable interactive prompts',
                 default: false
+              })
+              .option('detach', {
+                alias: 'd',
+                type: 'boolean',
+                description: `Run the simulator in the background, logging to ${SIMULATOR_DIR}/simulator-<port>.log`,
+                default: false
+              })
+              .option('reset', {
+                type: 'boolean',
+                description: 'Forget the upkeeps registered in previous runs instead of restoring them',
+                default: false
+              })
+              .option('log-file', {
+                type: 'string',
+                hidden: true
               });
           },
           async (args) => {
@@ -177,27 +759,155 @@ export function devCommands(yargs: Argv): Argv {
             } as DevStartArgs);
           }
         )
+        .command(
+          'deploy-chainlink',
+          'Deploy a LINK token, an Automation registrar and registry to the local node, for mode \'chainlink\'',
+          (yargs) => {
+            return yargs
+              .option('rpc-url', {
+                alias: 'r',
+                type: 'string',
+                description: 'RPC URL of the local blockchain node',
+                default: 'http://127.0.0.1:8545'
+              })
+              .option('private-key', {
+                alias: 'k',
+                type: 'string',
+                description: 'Private key of the deployer, which owns the registry and the LINK supply (defaults to SIMULATOR_PRIVATE_KEY, then the first Anvil account)'
+              })
+              .option('node', {
+                type: 'string',
+                array: true,
+                description: 'Address allowed to perform through the registry (defaults to the deployer)'
+              })
+              .option('link-native-price', {
+                type: 'string',
+                description: 'Price of 1 LINK in the native token, used to charge performs',
+                default: DEFAULT_LINK_NATIVE_PRICE
+              });
+          },
+          async (args) => {
+            await handleDevDeployChainlink(args as DevDeployChainlinkArgs);
+          }
+        )
         .command(
           'status',
           'Check the status of the local simulator',
           (yargs) => {
-            return yargs.option('port', {
-              alias: 'p',
-              type: 'number',
-              description: 'Port of the simulator server',
-              default: 7788
-            });
+            return yargs
+              .option('port', {
+                alias: 'p',
+                type: 'number',
+                description: 'Port of the simulator server',
+                default: DEFAULT_SIMULATOR_PORT
+              })
+              .option('host', {
+                type: 'string',
+                description: 'Host of the simulator server',
+                default: 'localhost'
+              });
           },
           async (args) => {
             await handleDevStatus(args as DevStatusArgs);
           }
         )
+        .command(
+          'logs <upkeepId>',
+          'Show the recent checks and performs of an upkeep',
+          (yargs) => {
+            return yargs
+              .positional('upkeepId', {
+                type: 'string',
+                description: 'ID of the upkeep',
+                demandOption: true
+              })
+              .option('port', {
+                alias: 'p',
+                type: 'number',
+                description: 'Port of the simulator server',
+                default: DEFAULT_SIMULATOR_PORT
+              })
+              .option('host', {
+                type: 'string',
+                description: 'Host of the simulator server',
+                default: 'localhost'
+              })
+              .option('limit', {
+                alias: 'n',
+                type: 'number',
+                description: 'Number of recent executions to show',
+                default: 20
+              })
+              .option('follow', {
+                alias: 'f',
+                type: 'boolean',
+                description: 'Keep printing new executions as they happen',
+                default: false
+              });
+          },
+          async (args) => {
+            await handleDevLogs(args as unknown as DevLogsArgs);
+          }
+        )
+        .command(
+          'time <action> [value]',
+          'Move the local chain through time and run the upkeeps right away (Anvil and Hardhat nodes)',
+          (yargs) => {
+            return yargs
+              .positional('action', {
+                choices: ['increase', 'set', 'mine'] as const,
+                description: 'increase <duration>: add time, set <timestamp>: set the next block timestamp, mine [blocks]: mine blocks',
+                demandOption: true
+              })
+              .positional('value', {
+                type: 'string',
+                description: 'Duration (3600, 90s, 15m, 2h, 1d), timestamp (Unix seconds or date) or number of blocks'
+              })
+              .option('blocks', {
+                alias: 'b',
+                type: 'number',
+                description: 'Blocks to mine after moving the clock'
+              })
+              .option('port', {
+                alias: 'p',
+                type: 'number',
+                description: 'Port of the simulator server',
+                default: DEFAULT_SIMULATOR_PORT
+              })
+              .option('host', {
+                type: 'string',
+                description: 'Host of the simulator server',
+                default: 'localhost'
+              });
+          },
+          async (args) => {
+            await handleDevTime(args as unknown as DevTimeArgs);
+          }
+        )
         .command(
           'stop',
           'Stop the local simulator',
-          () => {},
-          async () => {
-            await handleDevStop();
+          (yargs) => {
+            return yargs
+              .option('port', {
+                alias: 'p',
+                type: 'number',
+                description: 'Port of the simulator server',
+                default: DEFAULT_SIMULATOR_PORT
+              })
+              .option('timeout', {
+                type: 'number',
+                description: 'Seconds to wait for in-flight performs before giving up',
+                default: 15
+              })
+              .option('force', {
+                type: 'boolean',
+                description: 'Kill the simulator if it does not stop within the timeout',
+                default: false
+              });
+          },
+          async (args) => {
+            await handleDevStop(args as DevStopArgs);
           }
         )
         .demandCommand(1, 'Please specify a dev command')
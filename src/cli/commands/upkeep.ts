@@ -2,9 +2,11 @@ import type { Argv } from 'yargs';
 import { ethers } from 'ethers';
 import fs from 'fs';
 import path from 'path';
-import { applyManifest } from '../apply-manifest.js';
+import { applyManifest, dryRunManifest, planManifestFile } from '../apply-manifest.js';
+import { formatPlan, hasChanges } from '../../manifest/plan.js';
 import { Automation } from '../../automation.js';
-import { CreateUpkeepOptions } from '../../interfaces.js';
+import { resolveSimulatorToken } from '../daemon.js';
+import { CreateUpkeepOptions, LogTopicFilters } from '../../interfaces.js';
 
 interface UpkeepApplyArgs {
   file: string;
@@ -14,10 +16,14 @@ interface UpkeepApplyArgs {
   dryRun?: boolean;
 }
 
+interface UpkeepPlanArgs {
+  file: string;
+}
+
 interface UpkeepRegisterArgs {
   name: string;
   contract: string;
-  trigger: 'log' | 'custom';
+  trigger: 'log' | 'custom' | 'time';
   gasLimit: number;
   initialFunds?: string;
   network?: string;
@@ -27,6 +33,10 @@ interface UpkeepRegisterArgs {
   logEmitter?: string;
   logEvent?: string;
   logTopics?: string;
+  // Time-specific options
+  cron?: string;
+  performData?: string;
+  cronFactory?: string;
 }
 
 interface UpkeepListArgs {
@@ -133,7 +143,10 @@ async function handleUpkeepApply(args: UpkeepApplyArgs): Promise<void> {
 
     if (dryRun) {
       console.log(`🧪 Dry run mode enabled - no transactions will be sent`);
-      console.log(`ℹ️  Dry-run validation not yet implemented`);
+      const report = await dryRunManifest(file, wallet);
+      if (report.checks.some((check) => check.status === 'error')) {
+        process.exit(1);
+      }
       return;
     }
 
@@ -146,6 +159,46 @@ async function handleUpkeepApply(args: UpkeepApplyArgs): Promise<void> {
   }
 }
 
+async function handleUpkeepPlan(args: UpkeepPlanArgs): Promise<void> {
+  try {
+    const { manifest, state, plan } = planManifestFile(args.file);
+
+    console.log(`📋 Plan for ${args.file}`);
+    console.log(`🌐 Network: ${manifest.network.mode} (chainId: ${manifest.network.chainId})`);
+    if (!state) {
+      console.log(`ℹ️  No state file found, everything will be created`);
+    }
+    console.log('');
+    formatPlan(plan).forEach((line) => console.log(line));
+
+    if (hasChanges(plan)) {
+      console.log(`\n💡 Run 'upkeep apply ${args.file}' to apply these changes`);
+    } else {
+      console.log(`\n✅ Everything is up to date`);
+    }
+  } catch (error) {
+    console.error(`❌ Error planning manifest: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Parses --log-topics: either positional topics, empty for any value, or name=value pairs.
+ */
+function parseLogTopics(value: string): LogTopicFilters {
+  const parts = value.split(',').map(t => t.trim());
+  if (!parts.some(part => part.includes('='))) {
+    return parts.map(part => part || null);
+  }
+  return Object.fromEntries(parts.filter(Boolean).map((part) => {
+    const separator = part.indexOf('=');
+    if (separator <= 0) {
+      throw new Error(`Invalid log topic filter '${part}': expected name=value`);
+    }
+    return [part.slice(0, separator).trim(), part.slice(separator + 1).trim() || null];
+  }));
+}
+
 async function handleUpkeepRegister(args: UpkeepRegisterArgs): Promise<void> {
   try {
     const { name, contract, trigger, gasLimit, network, privateKey } = args;
@@ -157,7 +210,9 @@ async function handleUpkeepRegister(args: UpkeepRegisterArgs): Promise<void> {
     const automation = new Automation({
       signer: wallet,
       chainId: networkConfig.chainId,
-      mode: networkConfig.mode
+      mode: networkConfig.mode,
+      simulatorToken: resolveSimulatorToken(),
+      cronUpkeepFactoryAddress: args.cronFactory
     });
 
     let upkeepOptions: CreateUpkeepOptions;
@@ -175,9 +230,22 @@ async function handleUpkeepRegister(args: UpkeepRegisterArgs): Promise<void> {
         logEmitterAddress: args.logEmitter,
         logEventSignature: args.logEvent,
         ...(args.logTopics && {
-          logTopicFilters: args.logTopics.split(',').map(t => t.trim() || null)
+          logTopicFilters: parseLogTopics(args.logTopics)
         })
       };
+    } else if (trigger === 'time') {
+      if (!args.cron) {
+        throw new Error('A cron expression (--cron) is required for time triggers');
+      }
+      upkeepOptions = {
+        name,
+        upkeepContract: contract,
+        gasLimit,
+        triggerType: 'time',
+        initialFunds: args.initialFunds || (networkConfig.mode === 'chainlink' ? '1.0' : '0'),
+        cronExpression: args.cron,
+        ...(args.performData && { performData: args.performData })
+      };
     } else {
       upkeepOptions = {
         name,
@@ -214,13 +282,26 @@ async function handleUpkeepList(_args: UpkeepListArgs): Promise<void> {
       return;
     }
 
-    console.log(`\n📊 Found ${stateFiles.length} upkeep(s):\n`);
+    console.log(`\n📊 Found ${stateFiles.length} state file(s):\n`);
     
     for (const file of stateFiles) {
       try {
         const content = fs.readFileSync(file, 'utf8');
         const state = JSON.parse(content);
-        
+
+        // v2 state files hold several upkeeps
+        if (state.version === '2') {
+          for (const [entry, upkeep] of Object.entries(state.upkeeps as Record<string, { name: string; upkeepId: string; address: string }>)) {
+            console.log(`🔹 ${upkeep.name} (${entry})`);
+            console.log(`   ID: ${upkeep.upkeepId}`);
+            console.log(`   Contract: ${upkeep.address}`);
+            console.log(`   Network: ${state.network.mode} (${state.network.chainId})`);
+            console.log(`   Updated: ${new Date(state.timestamp).toLocaleString()}`);
+            console.log(`   State file: ${path.relative(process.cwd(), file)}\n`);
+          }
+          continue;
+        }
+
         console.log(`🔹 ${state.name}`);
         console.log(`   ID: ${state.upkeepId}`);
         console.log(`   Contract: ${state.address}`);
@@ -248,7 +329,8 @@ async function handleUpkeepShow(args: UpkeepShowArgs): Promise<void> {
     const automation = new Automation({
       signer: wallet,
       chainId: networkConfig.chainId,
-      mode: networkConfig.mode
+      mode: networkConfig.mode,
+      simulatorToken: resolveSimulatorToken()
     });
 
     console.log(`🔍 Fetching upkeep details for ID: ${upkeepId}`);
@@ -277,18 +359,14 @@ async function handleUpkeepFund(args: UpkeepFundArgs): Promise<void> {
     const { upkeepId, amount, network, privateKey } = args;
     const networkConfig = getNetworkConfig(network, args.rpcUrl);
 
-    if (networkConfig.mode === 'local') {
-      console.log(`ℹ️  Funding is not required for local mode`);
-      return;
-    }
-
     const provider = new ethers.providers.JsonRpcProvider(networkConfig.rpcUrl);
     const wallet = new ethers.Wallet(privateKey, provider);
     
     const automation = new Automation({
       signer: wallet,
       chainId: networkConfig.chainId,
-      mode: networkConfig.mode
+      mode: networkConfig.mode,
+      simulatorToken: resolveSimulatorToken()
     });
 
     console.log(`💰 Funding upkeep ${upkeepId} with ${amount} LINK...`);
@@ -308,18 +386,14 @@ async function handleUpkeepPause(args: UpkeepPauseArgs): Promise<void> {
     const { upkeepId, network, privateKey } = args;
     const networkConfig = getNetworkConfig(network, args.rpcUrl);
 
-    if (networkConfig.mode === 'local') {
-      console.log(`ℹ️  Local mode upkeeps don't need to be paused - use cancel instead`);
-      return;
-    }
-
     const provider = new ethers.providers.JsonRpcProvider(networkConfig.rpcUrl);
     const wallet = new ethers.Wallet(privateKey, provider);
     
     const automation = new Automation({
       signer: wallet,
       chainId: networkConfig.chainId,
-      mode: networkConfig.mode
+      mode: networkConfig.mode,
+      simulatorToken: resolveSimulatorToken()
     });
 
     console.log(`⏸️  Pausing upkeep ${upkeepId}...`);
@@ -339,18 +413,14 @@ async function handleUpkeepUnpause(args: UpkeepUnpauseArgs): Promise<void> {
     const { upkeepId, network, privateKey } = args;
     const networkConfig = getNetworkConfig(network, args.rpcUrl);
 
-    if (networkConfig.mode === 'local') {
-      console.log(`ℹ️  Local mode upkeeps don't need to be unpaused`);
-      return;
-    }
-
     const provider = new ethers.providers.JsonRpcProvider(networkConfig.rpcUrl);
     const wallet = new ethers.Wallet(privateKey, provider);
     
     const automation = new Automation({
       signer: wallet,
       chainId: networkConfig.chainId,
-      mode: networkConfig.mode
+      mode: networkConfig.mode,
+      simulatorToken: resolveSimulatorToken()
     });
 
     console.log(`▶️  Resuming upkeep ${upkeepId}...`);
@@ -376,7 +446,8 @@ async function handleUpkeepCancel(args: UpkeepCancelArgs): Promise<void> {
     const automation = new Automation({
       signer: wallet,
       chainId: networkConfig.chainId,
-      mode: networkConfig.mode
+      mode: networkConfig.mode,
+      simulatorToken: resolveSimulatorToken()
     });
 
     console.log(`🗑️  Canceling upkeep ${upkeepId}...`);
@@ -448,7 +519,7 @@ export function upkeepCommands(yargs: Argv): Argv {
               })
               .option('dry-run', {
                 alias: 'd',
-                describe: 'Validate the manifest without executing transactions',
+                describe: 'Simulate deployments and registrations without sending transactions',
                 type: 'boolean',
                 default: false
               });
@@ -457,6 +528,21 @@ export function upkeepCommands(yargs: Argv): Argv {
             await handleUpkeepApply(args as UpkeepApplyArgs);
           }
         )
+        .command(
+          'plan <file>',
+          'Show what applying a manifest would change, without sending transactions',
+          (yargs) => {
+            return yargs
+              .positional('file', {
+                describe: 'Path to the manifest JSON file',
+                type: 'string',
+                demandOption: true
+              });
+          },
+          async (args) => {
+            await handleUpkeepPlan(args as UpkeepPlanArgs);
+          }
+        )
         .command(
           'register',
           'Register an upkeep directly (programmatic style)',
@@ -474,7 +560,7 @@ export function upkeepCommands(yargs: Argv): Argv {
               })
               .option('trigger', {
                 describe: 'Trigger type',
-                choices: ['log', 'custom'] as const,
+                choices: ['log', 'custom', 'time'] as const,
                 demandOption: true
               })
               .option('gas-limit', {
@@ -495,7 +581,19 @@ export function upkeepCommands(yargs: Argv): Argv {
                 type: 'string'
               })
               .option('log-topics', {
-                describe: 'Log topic filters (comma-separated, for log triggers)',
+                describe: 'Log topic filters, positional (0x..,,0x..) or by indexed parameter name (appContract=0x..,index=3), comma-separated (for log triggers)',
+                type: 'string'
+              })
+              .option('cron', {
+                describe: 'Cron expression, e.g. "*/15 * * * *" (for time triggers)',
+                type: 'string'
+              })
+              .option('perform-data', {
+                describe: 'Hex data passed to performUpkeep on each tick (for time triggers)',
+                type: 'string'
+              })
+              .option('cron-factory', {
+                describe: 'CronUpkeepFactory address to deploy the CronUpkeep through (for time triggers on Chainlink networks)',
                 type: 'string'
               })
               .option('network', {
@@ -1,10 +1,15 @@
 import type { Argv } from 'yargs';
 import fs from 'fs';
 import path from 'path';
-import { ManifestSchema } from '../../manifest/schema.js';
+import { parse } from 'jsonc-parser';
+import { parseManifest, isManifestV2, type ManifestV2 } from '../../manifest/schema.js';
+import { getApplyOrder } from '../../manifest/references.js';
+import { DEPLOYMENT_TEMPLATES, getDeploymentTemplate } from '../../manifest/templates/index.js';
+import { DEFAULT_SIMULATOR_PORT } from '../../simulator/registry.js';
 
 interface UtilInitArgs {
-  type?: 'log' | 'custom';
+  type?: 'log' | 'custom' | 'time';
+  template?: string;
   network?: string;
   output?: string;
 }
@@ -52,6 +57,25 @@ const CUSTOM_TRIGGER_TEMPLATE = {
   }
 };
 
+const TIME_TRIGGER_TEMPLATE = {
+  version: "1",
+  network: {
+    mode: "local" as const,
+    chainId: 31337
+  },
+  deployment: {
+    artifact: "./artifacts/MyTimeUpkeep.json",
+    constructorArgs: ["0xTARGET_CONTRACT_ADDRESS"]
+  },
+  registration: {
+    name: "My Time-Based Upkeep",
+    upkeepContract: "auto" as const,
+    gasLimit: 300000,
+    triggerType: "time" as const,
+    cronExpression: "*/5 * * * *"
+  }
+};
+
 const CHAINLINK_LOG_TEMPLATE = {
   version: "1",
   network: {
@@ -92,34 +116,101 @@ const CHAINLINK_CUSTOM_TEMPLATE = {
   }
 };
 
+const CHAINLINK_TIME_TEMPLATE = {
+  version: "1",
+  network: {
+    mode: "chainlink" as const,
+    chainId: 11155111,
+    cronUpkeepFactoryAddress: "0xCRON_UPKEEP_FACTORY_ADDRESS"
+  },
+  deployment: {
+    artifact: "./artifacts/MyTimeUpkeep.json",
+    constructorArgs: ["0xTARGET_CONTRACT_ADDRESS"]
+  },
+  registration: {
+    name: "My Sepolia Time-Based Upkeep",
+    upkeepContract: "auto" as const,
+    gasLimit: 300000,
+    triggerType: "time" as const,
+    initialFunds: "2.0",
+    cronExpression: "0 * * * *"
+  }
+};
+
+const LOCAL_TEMPLATES = {
+  log: LOG_TRIGGER_TEMPLATE,
+  custom: CUSTOM_TRIGGER_TEMPLATE,
+  time: TIME_TRIGGER_TEMPLATE
+};
+
+const CHAINLINK_TEMPLATES = {
+  log: CHAINLINK_LOG_TEMPLATE,
+  custom: CHAINLINK_CUSTOM_TEMPLATE,
+  time: CHAINLINK_TIME_TEMPLATE
+};
+
+/**
+ * Builds a manifest that deploys a built-in deployment template, with placeholder constructor arguments.
+ */
+function buildDeploymentTemplateManifest(templateName: string, network: string) {
+  const { name, params, registration } = getDeploymentTemplate(templateName);
+  const { name: upkeepName, gasLimit, triggerType, ...triggerFields } = registration;
+  return {
+    version: "1",
+    network: {
+      mode: network === 'local' ? 'local' : 'chainlink',
+      chainId: network === 'local' ? 31337 : 11155111
+    },
+    deployment: {
+      template: name,
+      constructorArgs: params.map((param) => param.placeholder)
+    },
+    registration: {
+      name: upkeepName,
+      upkeepContract: "auto",
+      gasLimit,
+      triggerType,
+      ...(network !== 'local' && { initialFunds: "2.0" }),
+      ...triggerFields
+    }
+  };
+}
+
 async function handleUtilInit(args: UtilInitArgs): Promise<void> {
   try {
-    const { type = 'custom', network = 'local', output } = args;
+    const { network = 'local', output, template: deploymentTemplate } = args;
+    const type = deploymentTemplate ? getDeploymentTemplate(deploymentTemplate).registration.triggerType : args.type ?? 'custom';
     
     console.log(`🎬 Initializing manifest template...`);
     console.log(`   Type: ${type}`);
     console.log(`   Network: ${network}`);
+    if (deploymentTemplate) {
+      console.log(`   Deployment template: ${deploymentTemplate}`);
+    }
 
     // Select template based on type and network
     let template: { network: { chainId: number; mode: string }; [key: string]: unknown };
-    if (network === 'local') {
-      template = JSON.parse(JSON.stringify(type === 'log' ? LOG_TRIGGER_TEMPLATE : CUSTOM_TRIGGER_TEMPLATE));
+    if (deploymentTemplate) {
+      template = buildDeploymentTemplateManifest(deploymentTemplate, network);
+    } else if (network === 'local') {
+      template = JSON.parse(JSON.stringify(LOCAL_TEMPLATES[type]));
     } else {
-      template = JSON.parse(JSON.stringify(type === 'log' ? CHAINLINK_LOG_TEMPLATE : CHAINLINK_CUSTOM_TEMPLATE));
-      // Update chainId for common networks
-      if (network === 'mainnet') template.network.chainId = 1;
-      else if (network === 'arbitrum') template.network.chainId = 42161;
-      else if (network === 'polygon') template.network.chainId = 137;
-      else if (network === 'base') template.network.chainId = 8453;
+      template = JSON.parse(JSON.stringify(CHAINLINK_TEMPLATES[type]));
     }
 
+    // Update chainId for common networks
+    if (network === 'mainnet') template.network.chainId = 1;
+    else if (network === 'arbitrum') template.network.chainId = 42161;
+    else if (network === 'polygon') template.network.chainId = 137;
+    else if (network === 'base') template.network.chainId = 8453;
+
     // Update network mode for non-local networks
     if (network !== 'local') {
       template.network.mode = 'chainlink';
     }
 
     // Generate filename if not specified
-    const filename = output || `${type}-${network}-upkeep.json`;
+    const filename = output || `${deploymentTemplate ?? type}-${network}-upkeep.json`;
     
     // Check if file already exists
     if (fs.existsSync(filename)) {
@@ -135,15 +226,31 @@ async function handleUtilInit(args: UtilInitArgs): Promise<void> {
     console.log(`\n📝 Next steps:`);
     console.log(`   1. Edit ${filename} to configure your upkeep`);
     console.log(`   2. Update contract addresses and constructor arguments`);
-    console.log(`   3. Ensure your artifact file exists at the specified path`);
-    console.log(`   4. Apply with: cartesi-chainlink upkeep apply ${filename} --private-key <key>`);
+    if (deploymentTemplate) {
+      console.log(`   3. Apply with: cartesi-chainlink upkeep apply ${filename} --private-key <key>`);
+      console.log(`\n🧩 Constructor arguments of '${deploymentTemplate}':`);
+      for (const param of getDeploymentTemplate(deploymentTemplate).params) {
+        console.log(`   - ${param.name} (${param.type}): ${param.description}`);
+      }
+    } else {
+      console.log(`   3. Ensure your artifact file exists at the specified path`);
+      console.log(`   4. Apply with: cartesi-chainlink upkeep apply ${filename} --private-key <key>`);
+    }
     
     if (type === 'log') {
       console.log(`\n💡 Log Trigger Tips:`);
       console.log(`   - Set logEmitterAddress to the contract that emits the event`);
       console.log(`   - Use exact event signature: EventName(type1,type2,...)`);
       console.log(`   - Optional: Add logTopicFilters for additional filtering`);
-    } else {
+    } else if (type === 'time') {
+      console.log(`\n💡 Time-Based Tips:`);
+      console.log(`   - Set cronExpression to a 5-field cron schedule (UTC)`);
+      console.log(`   - performUpkeep() is called on every tick, no checkUpkeep() needed`);
+      console.log(`   - Optional: Add performData to pass fixed data to performUpkeep()`);
+      if (network !== 'local') {
+        console.log(`   - Set network.cronUpkeepFactoryAddress to the CronUpkeepFactory deployed on the network`);
+      }
+    } else if (!deploymentTemplate) {
       console.log(`\n💡 Custom Logic Tips:`);
       console.log(`   - Implement checkUpkeep() in your contract`);
       console.log(`   - Return true when upkeep is needed`);
@@ -171,15 +278,22 @@ async function handleUtilValidate(args: UtilValidateArgs): Promise<void> {
     let rawManifest: unknown;
     try {
       const content = fs.readFileSync(file, 'utf8');
-      rawManifest = JSON.parse(content);
+      rawManifest = parse(content);
     } catch (error) {
       throw new Error(`Failed to parse JSON: ${error instanceof Error ? error.message : String(error)}`);
     }
 
     // Validate against schema
     try {
-      const manifest = ManifestSchema.parse(rawManifest);
+      const anyManifest = parseManifest(rawManifest);
       console.log(`✅ Manifest is valid!`);
+
+      if (isManifestV2(anyManifest)) {
+        printManifestV2Summary(anyManifest, file);
+        console.log(`\n🎉 Validation completed successfully!`);
+        return;
+      }
+      const manifest = anyManifest;
       
       // Show summary
       console.log(`\n📋 Manifest Summary:`);
@@ -190,7 +304,7 @@ async function handleUtilValidate(args: UtilValidateArgs): Promise<void> {
       console.log(`   Gas Limit: ${manifest.registration.gasLimit.toLocaleString()}`);
       
       if (manifest.deployment) {
-        console.log(`   Deployment: ${manifest.deployment.artifact ? 'From artifact' : 'From template'}`);
+        console.log(`   Deployment: ${manifest.deployment.artifact ? 'From artifact' : `From template '${manifest.deployment.template}'`}`);
         if (manifest.deployment.constructorArgs && manifest.deployment.constructorArgs.length > 0) {
           console.log(`   Constructor Args: ${manifest.deployment.constructorArgs.length} argument(s)`);
         }
@@ -201,6 +315,10 @@ async function handleUtilValidate(args: UtilValidateArgs): Promise<void> {
         console.log(`   Log Event: ${manifest.registration.logEventSignature}`);
       }
       
+      if (manifest.registration.triggerType === 'time') {
+        console.log(`   Schedule: ${manifest.registration.cronExpression}`);
+      }
+      
       if (manifest.network.mode === 'chainlink') {
         console.log(`   Initial Funds: ${manifest.registration.initialFunds} LINK`);
       }
@@ -270,6 +388,37 @@ async function handleUtilValidate(args: UtilValidateArgs): Promise<void> {
   }
 }
 
+function printManifestV2Summary(manifest: ManifestV2, file: string): void {
+  console.log(`\n📋 Manifest Summary:`);
+  console.log(`   Version: 2`);
+  console.log(`   Network: ${manifest.network.mode} (${manifest.network.chainId})`);
+  console.log(`   Contracts: ${Object.keys(manifest.contracts).length}`);
+  console.log(`   Upkeeps: ${Object.keys(manifest.upkeeps).length}`);
+
+  for (const [name, upkeep] of Object.entries(manifest.upkeeps)) {
+    console.log(`   - ${name}: ${upkeep.name} (${upkeep.triggerType}) → ${upkeep.upkeepContract}`);
+  }
+
+  console.log(`\n🧭 Apply order:`);
+  getApplyOrder(manifest).forEach((node, i) => {
+    console.log(`   ${i + 1}. ${node.kind} ${node.name}`);
+  });
+
+  // Check artifact paths
+  console.log(`\n🔍 Validation Checks:`);
+  const manifestDir = path.dirname(file);
+  for (const [name, contract] of Object.entries(manifest.contracts)) {
+    if (!contract.artifact) continue;
+    const artifactPath = path.resolve(manifestDir, contract.artifact);
+    if (fs.existsSync(artifactPath)) {
+      console.log(`   ✅ Artifact file exists for ${name}: ${contract.artifact}`);
+    } else {
+      console.log(`   ⚠️  Artifact file not found for ${name}: ${contract.artifact}`);
+      console.log(`      Expected at: ${artifactPath}`);
+    }
+  }
+}
+
 async function handleUtilVersion(): Promise<void> {
   console.log(`📦 Cartesi Chainlink CLI`);
   console.log(`   Version: 1.0.0`);
@@ -278,11 +427,11 @@ async function handleUtilVersion(): Promise<void> {
   
   // Check for local simulator
   try {
-    const response = await fetch('http://localhost:7788/status', { 
+    const response = await fetch(`http://localhost:${DEFAULT_SIMULATOR_PORT}/status`, { 
       signal: AbortSignal.timeout(2000) 
     });
     if (response.ok) {
-      console.log(`   Local Simulator: ✅ Running on port 7788`);
+      console.log(`   Local Simulator: ✅ Running on port ${DEFAULT_SIMULATOR_PORT}`);
     } else {
       console.log(`   Local Simulator: ❌ Not responding`);
     }
@@ -311,9 +460,13 @@ export function utilCommands(yargs: Argv): Argv {
               .option('type', {
                 alias: 't',
                 describe: 'Upkeep trigger type',
-                choices: ['log', 'custom'] as const,
+                choices: ['log', 'custom', 'time'] as const,
                 default: 'custom'
               })
+              .option('template', {
+                describe: 'Deploy a built-in contract template (sets the trigger type)',
+                choices: Object.keys(DEPLOYMENT_TEMPLATES)
+              })
               .option('network', {
                 alias: 'n',
                 describe: 'Target network',
@@ -0,0 +1,195 @@
+/**
+ * @fileoverview Lock and log files of the simulator processes started by `dev start`, kept in a
+ * project-local `.cartesi-chainlink/` directory, next to the upkeeps they persist. Files are kept
+ * per port, so several simulators can run side by side; `dev status` and `dev stop` find them by port.
+ * A simulator started with `--auth` also stores its bearer token there, for the CLI to send.
+ * The addresses of local Chainlink stacks deployed by `dev deploy-chainlink` are kept there per chain,
+ * for the CLI to register them as Automation networks.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { DEFAULT_SIMULATOR_PORT } from '../simulator/registry.js';
+import { readChainlinkDeployment } from '../simulator/chainlink/deployment.js';
+import { chainlinkAutomationNetworks, localAutomationNetworkConfig, registerAutomationNetwork, type LocalChainlinkDeployment } from '../core/networks.js';
+
+export const SIMULATOR_DIR = '.cartesi-chainlink';
+
+/**
+ * The content of a lock file: which process serves a port, and how it was started.
+ */
+export interface SimulatorLock {
+  pid: number;
+  port: number;
+  host?: string;
+  rpcUrl: string;
+  startedAt: string; // ISO date
+  logFile?: string; // Only set for detached simulators
+}
+
+export function getSimulatorDir(cwd: string = process.cwd()): string {
+  return path.join(cwd, SIMULATOR_DIR);
+}
+
+export function getLockFilePath(port: number, cwd?: string): string {
+  return path.join(getSimulatorDir(cwd), `simulator-${port}.lock`);
+}
+
+export function getLogFilePath(port: number, cwd?: string): string {
+  return path.join(getSimulatorDir(cwd), `simulator-${port}.log`);
+}
+
+export function getStoreFilePath(port: number, cwd?: string): string {
+  return path.join(getSimulatorDir(cwd), `simulator-${port}.upkeeps.json`);
+}
+
+export function getTokenFilePath(port: number, cwd?: string): string {
+  return path.join(getSimulatorDir(cwd), `simulator-${port}.token`);
+}
+
+/**
+ * Registers the local Chainlink stack deployed to a chain from this project, if any, as the Automation
+ * network of that chain, so that mode 'chainlink' uses it. Chains with built-in support are left alone.
+ * @returns The deployment, or undefined if none was registered.
+ */
+export function registerLocalChainlinkNetwork(chainId: number, cwd?: string): LocalChainlinkDeployment | undefined {
+  const deployment = chainlinkAutomationNetworks[chainId] ? undefined : readChainlinkDeployment(chainId, getSimulatorDir(cwd));
+  if (deployment) {
+    registerAutomationNetwork(localAutomationNetworkConfig(deployment));
+  }
+  return deployment;
+}
+
+/**
+ * Stores the bearer token of the simulator serving a port, readable by the current user only.
+ */
+export function writeAuthToken(port: number, token: string, cwd?: string): void {
+  fs.mkdirSync(getSimulatorDir(cwd), { recursive: true });
+  const tokenFile = getTokenFilePath(port, cwd);
+  fs.writeFileSync(tokenFile, token, { mode: 0o600 });
+  fs.chmodSync(tokenFile, 0o600); // writeFileSync keeps the mode of an existing file
+}
+
+/**
+ * Reads the bearer token stored by the simulator serving a port.
+ * @returns The token, or undefined if that simulator does not require one.
+ */
+export function readAuthToken(port: number, cwd?: string): string | undefined {
+  try {
+    return fs.readFileSync(getTokenFilePath(port, cwd), 'utf8').trim() || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * The bearer token the CLI sends to the simulator at `simulatorUrl`: the token of SIMULATOR_AUTH_TOKEN,
+ * otherwise the one stored by `dev start --auth` for its port in the current directory.
+ */
+export function resolveSimulatorToken(simulatorUrl = process.env.SIMULATOR_BASE_URL || `http://localhost:${DEFAULT_SIMULATOR_PORT}`): string | undefined {
+  if (process.env.SIMULATOR_AUTH_TOKEN) {
+    return process.env.SIMULATOR_AUTH_TOKEN;
+  }
+  try {
+    const { port } = new URL(simulatorUrl);
+    return port ? readAuthToken(Number(port)) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function removeAuthToken(port: number, cwd?: string): void {
+  fs.rmSync(getTokenFilePath(port, cwd), { force: true });
+}
+
+/**
+ * Returns true if a process with this PID exists.
+ */
+export function isProcessRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * Reads the lock file of a port. Lock files left behind by a process that no longer runs are removed.
+ * @returns The lock, or undefined if no simulator holds the port.
+ */
+export function readLock(port: number, cwd?: string): SimulatorLock | undefined {
+  const lockFile = getLockFilePath(port, cwd);
+  if (!fs.existsSync(lockFile)) {
+    return undefined;
+  }
+
+  let lock: SimulatorLock | undefined;
+  try {
+    lock = JSON.parse(fs.readFileSync(lockFile, 'utf8')) as SimulatorLock;
+  } catch {
+    lock = undefined;
+  }
+  if (!lock || typeof lock.pid !== 'number' || !isProcessRunning(lock.pid)) {
+    fs.rmSync(lockFile, { force: true });
+    return undefined;
+  }
+  return lock;
+}
+
+/**
+ * Takes the lock of a port for the current process.
+ * @throws An error if another running simulator holds it.
+ */
+export function acquireLock(lock: Omit<SimulatorLock, 'pid'>, cwd?: string): SimulatorLock {
+  const existing = readLock(lock.port, cwd);
+  if (existing && existing.pid !== process.pid) {
+    throw new Error(`A simulator is already running on port ${lock.port} (PID ${existing.pid}). Stop it with: cartesi-chainlink dev stop --port ${lock.port}`);
+  }
+
+  const acquired: SimulatorLock = { pid: process.pid, ...lock };
+  fs.mkdirSync(getSimulatorDir(cwd), { recursive: true });
+  fs.writeFileSync(getLockFilePath(lock.port, cwd), JSON.stringify(acquired, null, 2));
+  return acquired;
+}
+
+/**
+ * Removes the lock of a port, if the current process holds it.
+ */
+export function releaseLock(port: number, cwd?: string): void {
+  const lockFile = getLockFilePath(port, cwd);
+  try {
+    const lock = JSON.parse(fs.readFileSync(lockFile, 'utf8')) as SimulatorLock;
+    if (lock.pid === process.pid) {
+      fs.rmSync(lockFile, { force: true });
+    }
+  } catch {
+    // Already gone
+  }
+}
+
+/**
+ * Polls until a condition holds or the timeout elapses.
+ * @returns Whether the condition held in time.
+ */
+export async function waitFor(condition: () => boolean, timeoutMs: number, intervalMs = 200): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() >= deadline) {
+      return false;
+    }
+    await new Promise((resolve) => setTimeout(resolve, intervalMs));
+  }
+  return true;
+}
+
+/**
+ * Formats a duration in seconds as e.g. "2h 5m 3s".
+ */
+export function formatUptime(seconds: number): string {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = Math.floor(seconds % 60);
+  return [h && `${h}h`, (h || m) && `${m}m`, `${s}s`].filter(Boolean).join(' ');
+}
@@ -2,7 +2,7 @@
 import yargs from 'yargs/yargs';
 import { hideBin } from 'yargs/helpers';
 import { ethers } from 'ethers';
-import { applyManifest } from './apply-manifest.js';
+import { applyManifest, dryRunManifest } from './apply-manifest.js';
 
 interface ApplyCommandArgs {
   file: string;
@@ -50,8 +50,10 @@ async function handleApplyCommand(args: ApplyCommandArgs): Promise<void> {
 
     if (dryRun) {
       console.log(`🧪 Dry run mode enabled - no transactions will be sent`);
-      // TODO: Implement dry-run validation
-      console.log(`ℹ️  Dry-run validation not yet implemented`);
+      const report = await dryRunManifest(file, wallet);
+      if (report.checks.some((check) => check.status === 'error')) {
+        process.exit(1);
+      }
       return;
     }
 
@@ -92,7 +94,7 @@ async function main(): Promise<void> {
           })
           .option('dry-run', {
             alias: 'd',
-            describe: 'Validate the manifest without executing transactions',
+            describe: 'Simulate deployments and registrations without sending transactions',
             type: 'boolean',
             default: false
           });
@@ -104,7 +106,7 @@ async function main(): Promise<void> {
     .example([
       ['$0 apply manifest.json --private-key 0x123...', 'Apply manifest using default local RPC'],
       ['$0 apply manifest.json --rpc-url https://rpc.ankr.com/eth_sepolia --private-key 0x123...', 'Apply manifest to Sepolia testnet'],
-      ['$0 apply manifest.json --private-key 0x123... --dry-run', 'Validate manifest without executing']
+      ['$0 apply manifest.json --private-key 0x123... --dry-run', 'Simulate the manifest without sending transactions']
     ])
     .demandCommand(1, 'Please specify a command')
     .help('h')
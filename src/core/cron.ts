@@ -0,0 +1,174 @@
+/**
+ * @fileoverview Minimal cron expression support for time-based upkeeps.
+ * Mirrors the subset of syntax accepted by Chainlink's on-chain `Cron` library
+ * (5 fields, evaluated in UTC): `*`, `N`, `*\/N`, `A-B` and `A,B,C`.
+ */
+
+interface CronFieldSpec {
+    name: string;
+    min: number;
+    max: number;
+}
+
+const CRON_FIELDS: CronFieldSpec[] = [
+    { name: 'minute', min: 0, max: 59 },
+    { name: 'hour', min: 0, max: 23 },
+    { name: 'day of month', min: 1, max: 31 },
+    { name: 'month', min: 1, max: 12 },
+    { name: 'day of week', min: 0, max: 6 },
+];
+
+/**
+ * A parsed cron expression. Each field holds the set of allowed values.
+ */
+export interface CronSchedule {
+    expression: string;
+    minutes: Set<number>;
+    hours: Set<number>;
+    daysOfMonth: Set<number>;
+    months: Set<number>;
+    daysOfWeek: Set<number>;
+}
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+// Cron ticks are searched day by day. Days of the week fall on the same dates every 28 years
+// (between 1901 and 2099), so a schedule that matches no day within 28 years never matches.
+const MAX_SEARCH_DAYS = 28 * 366;
+
+// The start of a 28-year calendar cycle, used to check that a schedule matches some date at all
+const CALENDAR_CYCLE_START = Date.UTC(2000, 0, 1) / 1000;
+
+function parseNumber(value: string, spec: CronFieldSpec): number {
+    if (!/^\d+$/.test(value)) {
+        throw new Error(`Invalid ${spec.name} value '${value}'`);
+    }
+    const n = Number(value);
+    if (n < spec.min || n > spec.max) {
+        throw new Error(`The ${spec.name} value ${n} is out of range (${spec.min}-${spec.max})`);
+    }
+    return n;
+}
+
+function parseField(field: string, spec: CronFieldSpec): Set<number> {
+    const values = new Set<number>();
+
+    if (field === '*') {
+        for (let i = spec.min; i <= spec.max; i++) values.add(i);
+        return values;
+    }
+
+    // Interval: */N
+    if (field.startsWith('*/')) {
+        const step = Number(field.slice(2));
+        if (!/^\d+$/.test(field.slice(2)) || step <= 0) {
+            throw new Error(`Invalid ${spec.name} interval '${field}'`);
+        }
+        for (let i = spec.min; i <= spec.max; i += step) values.add(i);
+        return values;
+    }
+
+    // Range: A-B
+    if (field.includes('-')) {
+        const [from, to, ...rest] = field.split('-');
+        if (rest.length > 0) {
+            throw new Error(`Invalid ${spec.name} range '${field}'`);
+        }
+        const start = parseNumber(from, spec);
+        const end = parseNumber(to, spec);
+        if (start > end) {
+            throw new Error(`Invalid ${spec.name} range '${field}': start is greater than end`);
+        }
+        for (let i = start; i <= end; i++) values.add(i);
+        return values;
+    }
+
+    // List: A,B,C (a single value is a list of one)
+    for (const part of field.split(',')) {
+        values.add(parseNumber(part, spec));
+    }
+    return values;
+}
+
+/**
+ * Parses a 5-field cron expression (minute hour day-of-month month day-of-week).
+ * @throws An error describing the first invalid field.
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+    const fields = expression.trim().split(/\s+/);
+    if (fields.length !== CRON_FIELDS.length) {
+        throw new Error(`Cron expression '${expression}' must have exactly 5 fields (minute hour day month weekday)`);
+    }
+
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) => {
+        try {
+            return parseField(field, CRON_FIELDS[i]);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            throw new Error(`Invalid cron expression '${expression}': ${message}`);
+        }
+    });
+
+    const schedule = { expression, minutes, hours, daysOfMonth, months, daysOfWeek };
+    if (findMatchingDay(schedule, CALENDAR_CYCLE_START) === undefined) {
+        throw new Error(`Invalid cron expression '${expression}': it never matches a date`);
+    }
+    return schedule;
+}
+
+/**
+ * Returns true if the expression is a valid cron expression.
+ */
+export function isValidCronExpression(expression: string): boolean {
+    try {
+        parseCronExpression(expression);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+function matchesDay(schedule: CronSchedule, day: number): boolean {
+    const date = new Date(day * 1000);
+    return (
+        schedule.daysOfMonth.has(date.getUTCDate()) &&
+        schedule.months.has(date.getUTCMonth() + 1) &&
+        schedule.daysOfWeek.has(date.getUTCDay())
+    );
+}
+
+// Returns the start (unix seconds) of the first matching day at or after the given day, if any
+function findMatchingDay(schedule: CronSchedule, day: number): number | undefined {
+    for (let i = 0; i < MAX_SEARCH_DAYS; i++, day += DAY_SECONDS) {
+        if (matchesDay(schedule, day)) return day;
+    }
+    return undefined;
+}
+
+/**
+ * Computes the first tick of the schedule strictly after the given timestamp.
+ * All fields must match (day-of-month AND day-of-week), as in Chainlink's `Cron` library.
+ * @param schedule The parsed cron schedule.
+ * @param afterTimestamp A unix timestamp, in seconds.
+ * @returns The unix timestamp (seconds) of the next tick.
+ */
+export function nextCronTick(schedule: CronSchedule, afterTimestamp: number): number {
+    // Start at the beginning of the next whole minute
+    const start = (Math.floor(afterTimestamp / 60) + 1) * 60;
+    const hours = [...schedule.hours].sort((a, b) => a - b);
+    const minutes = [...schedule.minutes].sort((a, b) => a - b);
+
+    let day = findMatchingDay(schedule, Math.floor(start / DAY_SECONDS) * DAY_SECONDS);
+    while (day !== undefined) {
+        for (const hour of hours) {
+            for (const minute of minutes) {
+                const candidate = day + hour * 3600 + minute * 60;
+                if (candidate >= start) return candidate;
+            }
+        }
+        // Every tick of the first matching day has passed; move on to the next one
+        day = findMatchingDay(schedule, day + DAY_SECONDS);
+    }
+
+    throw new Error(`Cron expression '${schedule.expression}' never matches a date`);
+}
@@ -0,0 +1,43 @@
+/**
+ * @fileoverview The gas and data-size limits Chainlink enforces on upkeeps. The Chainlink provider
+ * checks settings against them in dry runs and the simulator enforces them, from the same rules.
+ */
+
+import { ethers } from 'ethers';
+import { AutomationNetworkConfig, getAutomationNetworkConfig } from './networks.js';
+import type { CreateUpkeepOptions } from '../interfaces.js';
+
+/**
+ * The gas and data-size limits Chainlink enforces on upkeeps, from the parameters of a supported network.
+ */
+export type ExecutionLimits = Pick<AutomationNetworkConfig['parameters'], 'checkGasLimit' | 'performGasLimit' | 'maxCheckDataSize' | 'maxPerformDataSize'>;
+
+export function getExecutionLimits(chainId: number): ExecutionLimits {
+    const { checkGasLimit, performGasLimit, maxCheckDataSize, maxPerformDataSize } = getAutomationNetworkConfig(chainId).parameters;
+    return { checkGasLimit, performGasLimit, maxCheckDataSize, maxPerformDataSize };
+}
+
+/**
+ * The size in bytes of hex data such as checkData or performData.
+ */
+export function dataSize(data: string | undefined): number {
+    return data ? ethers.utils.hexDataLength(data) : 0;
+}
+
+/**
+ * Checks the settings of an upkeep the registrar would refuse: a gasLimit above the
+ * network's performGasLimit, or checkData larger than maxCheckDataSize. Settings left
+ * out, such as those an update does not change, are not checked.
+ * @returns The violated limits, empty if the upkeep is within them.
+ */
+export function validateUpkeepLimits(options: Partial<Pick<CreateUpkeepOptions, 'gasLimit' | 'checkData'>>, limits: ExecutionLimits): string[] {
+    const errors: string[] = [];
+    if (options.gasLimit !== undefined && options.gasLimit > limits.performGasLimit) {
+        errors.push(`gasLimit ${options.gasLimit} exceeds the performGasLimit of ${limits.performGasLimit}`);
+    }
+    const checkDataSize = dataSize(options.checkData);
+    if (limits.maxCheckDataSize !== null && checkDataSize > limits.maxCheckDataSize) {
+        errors.push(`checkData is ${checkDataSize} bytes, above the maxCheckDataSize of ${limits.maxCheckDataSize}`);
+    }
+    return errors;
+}
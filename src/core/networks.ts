@@ -52,6 +52,9 @@ function loadAbi(contractName: string): ContractInterface {
 const AutomationRegistrarV2_1_ABI = loadAbi('AutomationRegistrar2_1');
 const AutomationRegistryV2_1_ABI = loadAbi('KeeperRegistry2_0');
 const LinkTokenABI = loadAbi('LinkTokenInterface');
+export const CronUpkeepFactoryABI = loadAbi('CronUpkeepFactory');
+// The full v2.1 registry interface, including the admin setters served by its logic contracts
+export const AutomationRegistryMasterV2_1_ABI = loadAbi('IKeeperRegistryMaster');
 
 
 // =================================================================
@@ -73,6 +76,7 @@ export interface AutomationNetworkConfig {
     registrarAbi: ContractInterface;
     registryAddress: string;
     registryAbi: ContractInterface;
+    cronUpkeepFactoryAddress?: string; // Required for time-based (cron) upkeeps; not deployed on all networks
     parameters: {
         paymentPremiumPPB: number;
         flatFeeMicroLink?: number; // Optional, not present on all networks
@@ -353,16 +357,62 @@ export const chainlinkAutomationNetworks: Record<number, AutomationNetworkConfig
 // Helper Function
 // =================================================================
 
+// Parameters of the local stacks: the limits of Ethereum Sepolia, and performs charged their gas without premium
+const LOCAL_NETWORK_PARAMETERS: AutomationNetworkConfig['parameters'] = {
+    paymentPremiumPPB: 0, flatFeeMicroLink: 0, checkGasLimit: 10_000_000, performGasLimit: 5_000_000, gasCeilingMultiplier: 2, minUpkeepSpendLink: 0, maxCheckDataSize: 5_000, maxPerformDataSize: 2_000, blockCountPerTurn: null
+};
+
+/**
+ * The contracts of a Chainlink Automation stack deployed to a development node.
+ */
+export interface LocalChainlinkDeployment {
+    chainId: number;
+    linkTokenAddress: string;
+    registrarAddress: string;
+    registryAddress: string;
+    nodes: string[]; // The addresses allowed to send performs through the registry
+    deployedAt: string; // ISO date
+}
+
+/**
+ * Describes a Chainlink Automation stack deployed to a development node by `dev deploy-chainlink`.
+ * Its contracts are ABI-compatible with those of the public networks, so the Chainlink provider
+ * works against them unchanged. It has no CronUpkeepFactory: time-based upkeeps need one deployed separately,
+ * passed as `cronUpkeepFactoryAddress`.
+ */
+export const localAutomationNetworkConfig = (deployment: LocalChainlinkDeployment): AutomationNetworkConfig => ({
+    name: `Local Chainlink (chainId ${deployment.chainId})`,
+    chainId: deployment.chainId,
+    linkTokenAddress: deployment.linkTokenAddress,
+    linkTokenAbi: LinkTokenABI,
+    registrarAddress: deployment.registrarAddress,
+    registryAddress: deployment.registryAddress,
+    registrarAbi: AutomationRegistrarV2_1_ABI,
+    registryAbi: AutomationRegistryV2_1_ABI,
+    parameters: LOCAL_NETWORK_PARAMETERS
+});
+
+// Networks registered at runtime, they take precedence over the built-in ones
+const registeredNetworks: Record<number, AutomationNetworkConfig> = {};
+
+/**
+ * Registers the automation configuration of a network this library does not know, e.g. a local
+ * stack deployed from a test. It replaces any configuration known for that chain ID.
+ */
+export const registerAutomationNetwork = (config: AutomationNetworkConfig): void => {
+    registeredNetworks[config.chainId] = config;
+};
+
 /**
- * Retrieves the automation configuration for a given chain ID.
+ * Retrieves the automation configuration for a given chain ID: a registered one, or else a built-in one.
  * @param chainId The chain ID of the desired network.
  * @returns The configuration object for the specified network.
  * @throws An error if the chain ID is not supported by the library.
  */
 export const getAutomationNetworkConfig = (chainId: number): AutomationNetworkConfig => {
-    const config = chainlinkAutomationNetworks[chainId];
+    const config = registeredNetworks[chainId] ?? chainlinkAutomationNetworks[chainId];
     if (!config) {
-        throw new Error(`Chainlink Automation is not supported on chainId '${chainId}' by this library.`);
+        throw new Error(`Chainlink Automation is not supported on chainId '${chainId}' by this library. On a development node, deploy a local stack with 'cartesi-chainlink dev deploy-chainlink' and register it with registerAutomationNetwork.`);
     }
     return config;
 };
@@ -0,0 +1,163 @@
+/**
+ * @fileoverview Topic filters of log trigger upkeeps. The Chainlink provider packs them into the
+ * trigger config and the simulator filters logs with them; both encode them here, so that an
+ * upkeep matches the same logs in local and chainlink modes.
+ */
+
+import { ContractInterface, ethers } from 'ethers';
+import type { CreateLogUpkeepOptions } from '../interfaces.js';
+
+type LogEventOptions = Pick<CreateLogUpkeepOptions, 'logEventSignature' | 'logEventAbi' | 'logTopicFilters'>;
+
+/**
+ * The topics a log trigger filters on: the event's topic and up to 3 indexed parameters (null for any value).
+ */
+export interface EncodedTopicFilters {
+    topic0: string;
+    topics: [string | null, string | null, string | null];
+}
+
+/**
+ * Parses the event of a log trigger, from `logEventAbi` when given, otherwise from the signature itself.
+ * @throws An error if the signature is invalid or the ABI does not declare the event.
+ */
+export function resolveLogEvent(signature: string, abi?: ContractInterface): ethers.utils.EventFragment {
+    const trimmed = signature.trim().replace(/^event\s+/, '');
+    try {
+        if (abi) {
+            const contractInterface = abi instanceof ethers.utils.Interface ? abi : new ethers.utils.Interface(abi);
+            return contractInterface.getEvent(trimmed);
+        }
+        return ethers.utils.EventFragment.from(trimmed);
+    } catch (error) {
+        const reason = (error as { reason?: string }).reason ?? (error as Error).message;
+        throw new Error(`Invalid log event '${signature}'${abi ? ' for the given ABI' : ''}: ${reason}`);
+    }
+}
+
+function isUnset(value: unknown): boolean {
+    return value === null || value === undefined || value === '';
+}
+
+/**
+ * Encodes a filter value as the topic of an indexed parameter: static types are ABI-encoded,
+ * strings and bytes are hashed like Solidity does for indexed dynamic types.
+ */
+function encodeTopic(param: ethers.utils.ParamType, value: string | number | boolean): string {
+    const label = `'${param.name || param.type}' (${param.type})`;
+    if (param.baseType === 'array' || param.baseType === 'tuple') {
+        throw new Error(`Filtering on ${label} is not supported`);
+    }
+    try {
+        if (param.type === 'string') {
+            return ethers.utils.id(String(value));
+        }
+        if (param.type === 'bytes') {
+            return ethers.utils.keccak256(String(value));
+        }
+        if (param.type === 'bool' && typeof value !== 'boolean') {
+            if (value !== 'true' && value !== 'false') {
+                throw new Error('expected true or false');
+            }
+            value = value === 'true';
+        }
+        return ethers.utils.defaultAbiCoder.encode([param.type], [value]);
+    } catch (error) {
+        const reason = (error as { reason?: string }).reason ?? (error as Error).message;
+        throw new Error(`Invalid value ${JSON.stringify(value)} for ${label}: ${reason}`);
+    }
+}
+
+/**
+ * Encodes a positional filter when the parameter types are unknown: 32-byte values are used
+ * as-is, shorter hex values (e.g. addresses) are left-padded and decimal values encoded as uint256.
+ */
+function encodeRawTopic(value: string, position: number): string {
+    if (ethers.utils.isHexString(value) && ethers.utils.hexDataLength(value) <= 32) {
+        return ethers.utils.hexZeroPad(value.toLowerCase(), 32);
+    }
+    if (/^\d+$/.test(value)) {
+        return ethers.utils.defaultAbiCoder.encode(['uint256'], [value]);
+    }
+    throw new Error(`Invalid value '${value}' for topic ${position}: expected a hex value of up to 32 bytes or a decimal number`);
+}
+
+/**
+ * Encodes the topic filters of a log trigger, according to the types of the event's indexed parameters.
+ * @throws An error naming the offending filter if a name is unknown or a value does not fit its type.
+ */
+export function encodeTopicFilters(options: LogEventOptions): EncodedTopicFilters {
+    const topics: EncodedTopicFilters['topics'] = [null, null, null];
+    const filters = options.logTopicFilters;
+
+    // A topic0 hash, like the trigger config of a registered upkeep holds, carries no parameter types
+    if (ethers.utils.isHexString(options.logEventSignature.trim(), 32)) {
+        if (filters && !Array.isArray(filters)) {
+            throw new Error('Named topic filters need the event signature, not its topic0 hash: use positional filters');
+        }
+        if (filters && filters.length > 3) {
+            throw new Error(`At most 3 topic filters are supported, got ${filters.length}`);
+        }
+        filters?.forEach((value, i) => {
+            if (!isUnset(value)) {
+                topics[i] = encodeRawTopic(value!, i + 1);
+            }
+        });
+        return { topic0: options.logEventSignature.trim().toLowerCase(), topics };
+    }
+
+    const event = resolveLogEvent(options.logEventSignature, options.logEventAbi);
+    const indexed = event.inputs.filter((input) => input.indexed);
+
+    if (Array.isArray(filters)) {
+        if (filters.length > 3) {
+            throw new Error(`At most 3 topic filters are supported, got ${filters.length}`);
+        }
+        filters.forEach((value, i) => {
+            if (isUnset(value)) {
+                return;
+            }
+            // Without indexed parameters, the signature carries no type information
+            if (indexed.length === 0) {
+                topics[i] = encodeRawTopic(value!, i + 1);
+            } else if (i < indexed.length) {
+                topics[i] = encodeTopic(indexed[i], value!);
+            } else {
+                throw new Error(`Topic filter ${i + 1} is set, but ${event.name} has ${indexed.length} indexed parameter(s)`);
+            }
+        });
+    } else if (filters) {
+        const names = Object.keys(filters).filter((name) => !isUnset(filters[name]));
+        if (names.length > 0 && indexed.length === 0) {
+            throw new Error(
+                `Named topic filters need the indexed parameters of ${event.name}: use a signature like ` +
+                `'${event.name}(address indexed sender, ...)' or provide logEventAbi`
+            );
+        }
+        for (const name of names) {
+            const position = indexed.findIndex((param) => param.name === name);
+            if (position === -1) {
+                const isNotIndexed = event.inputs.some((input) => input.name === name);
+                throw new Error(isNotIndexed
+                    ? `'${name}' is not an indexed parameter of ${event.name}, so logs cannot be filtered on it`
+                    : `Unknown parameter '${name}' for ${event.name}; indexed parameters: ${indexed.map((param) => param.name).join(', ')}`);
+            }
+            topics[position] = encodeTopic(indexed[position], filters[name]!);
+        }
+    }
+
+    return { topic0: ethers.utils.id(event.format()), topics };
+}
+
+/**
+ * Checks the event and topic filters of a log trigger without throwing.
+ * @returns The validation error, or undefined if they are valid.
+ */
+export function validateTopicFilters(options: LogEventOptions): string | undefined {
+    try {
+        encodeTopicFilters(options);
+        return undefined;
+    } catch (error) {
+        return (error as Error).message;
+    }
+}
@@ -7,4 +7,8 @@
 export { Automation } from './automation.js';
 
 // Export all public types and interfaces for type safety and autocompletion.
-export * from './interfaces.js';
\ No newline at end of file
+export * from './interfaces.js';
+
+// Export the registration of networks the library does not know, such as a local Chainlink stack.
+export { registerAutomationNetwork, localAutomationNetworkConfig, type AutomationNetworkConfig, type LocalChainlinkDeployment } from './core/networks.js';
+export { readChainlinkDeployment } from './simulator/chainlink/deployment.js';
\ No newline at end of file
@@ -1,5 +1,5 @@
 
-import { Signer } from 'ethers';
+import { ContractInterface, Signer } from 'ethers';
 
 // =================================================================
 // SECTION 1: Interfaces for ON-CHAIN actions (e.g., registering an upkeep)
@@ -13,6 +13,9 @@ export interface AutomationConfig {
     signer: Signer;
     chainId: number;
     mode?: 'chainlink' | 'local'; // Defaults to 'chainlink' if not provided
+    simulatorUrl?: string; // Base URL of the simulator in 'local' mode, e.g. 'http://localhost:7789'
+    simulatorToken?: string; // Bearer token of a simulator started with --auth, in 'local' mode
+    cronUpkeepFactoryAddress?: string; // CronUpkeepFactory of time-based upkeeps in 'chainlink' mode, overrides the network's
 }
 
 /**
@@ -29,14 +32,24 @@ export interface CreateUpkeepBaseOptions {
     offchainConfig?: string;
 }
 
+/**
+ * Filters on the indexed parameters of a log event; null or missing entries match any value.
+ * Either positional (topics 1 to 3, as 32-byte hex values or values of the parameter's type),
+ * or keyed by indexed parameter name, e.g. `{ appContract: "0x…" }`, which needs the parameter
+ * names and types from a full event signature or `logEventAbi`.
+ */
+export type LogTopicFilters = (string | null)[] | Record<string, string | number | boolean | null>;
+
 /**
  * Options for registering a LOG-triggered upkeep.
  */
 export interface CreateLogUpkeepOptions extends CreateUpkeepBaseOptions {
     triggerType: 'log';
     logEmitterAddress: string;
-    logEventSignature: string; // e.g., "MyEvent(address,uint256)"
-    logTopicFilters?: (string | null)[];
+    // e.g., "MyEvent(address,uint256)", or with names: "MyEvent(address indexed sender, uint256 amount)", or its topic0 hash
+    logEventSignature: string;
+    logEventAbi?: ContractInterface; // An ABI declaring the event, looked up by logEventSignature
+    logTopicFilters?: LogTopicFilters;
 }
 
 /**
@@ -46,11 +59,130 @@ export interface CreateCustomUpkeepOptions extends CreateUpkeepBaseOptions {
     triggerType: 'custom';
 }
 
+/**
+ * Options for registering a TIME-based (cron) upkeep.
+ * On each tick of the schedule, `performUpkeep(performData)` is called on the upkeep contract.
+ */
+export interface CreateTimeUpkeepOptions extends CreateUpkeepBaseOptions {
+    triggerType: 'time';
+    cronExpression: string; // e.g., "*/15 * * * *" (5 fields, evaluated in UTC)
+    performData?: string; // Passed to performUpkeep on every tick. Defaults to '0x' if not provided
+}
+
 /**
  * A combined type used by the public `createUpkeep` function.
  */
-export type CreateUpkeepOptions = CreateLogUpkeepOptions | CreateCustomUpkeepOptions;
+export type CreateUpkeepOptions = CreateLogUpkeepOptions | CreateCustomUpkeepOptions | CreateTimeUpkeepOptions;
+
+/**
+ * The trigger configuration of a log or time-based upkeep.
+ */
+export type UpkeepTriggerConfig =
+    | Pick<CreateLogUpkeepOptions, 'triggerType' | 'logEmitterAddress' | 'logEventSignature' | 'logEventAbi' | 'logTopicFilters'>
+    | Pick<CreateTimeUpkeepOptions, 'triggerType' | 'cronExpression' | 'performData'>;
+
+/**
+ * Changes to an existing upkeep, used by the `updateUpkeep` function.
+ * Omitted fields are left unchanged. The trigger type of an upkeep cannot be changed.
+ */
+export interface UpdateUpkeepOptions {
+    gasLimit?: number;
+    checkData?: string;
+    offchainConfig?: string;
+    trigger?: UpkeepTriggerConfig; // Replaces the whole trigger configuration
+}
+
 
+/**
+ * The outcome of a single check performed by a dry run, without sending any transaction.
+ */
+export interface DryRunCheck {
+    check: string; // What was checked, e.g. 'registerUpkeep' or 'LINK balance'
+    status: 'ok' | 'warning' | 'error';
+    message: string;
+}
+
+/**
+ * One check or perform of an upkeep by the local simulator, as returned by `GET /upkeeps/:id/history`.
+ */
+export interface ExecutionRecord {
+    id: number; // Increases with every execution of the upkeep
+    timestamp: string; // ISO date
+    blockNumber: number; // The block that triggered the execution: the log's block for log triggers
+    trigger?: { transactionHash: string; logIndex: number; blockHash: string }; // The log, for log triggers
+    upkeepNeeded?: boolean; // Unset when the check failed, or for time-based upkeeps which are not checked
+    performData?: string;
+    txHash?: string;
+    gasUsed?: string;
+    status: 'not-needed' | 'performed' | 'skipped' | 'check-failed' | 'perform-failed';
+    error?: string; // The decoded revert reason, or why the perform was skipped
+}
+
+/**
+ * A page of an upkeep's execution history, most recent first.
+ */
+export interface ExecutionHistoryPage {
+    upkeepId: string;
+    total: number; // Executions still kept, across all pages
+    offset: number;
+    limit: number;
+    records: ExecutionRecord[];
+}
+
+/**
+ * What a manual tick of the local simulator ran, as returned by `POST /tick`.
+ */
+export interface TickSummary {
+    blockNumber: number; // The latest block when the tick started
+    upkeeps: number; // Active upkeeps that were ticked
+    executions: (ExecutionRecord & { upkeepId: string })[]; // In the order they ran
+}
+
+/**
+ * The response of the simulator's time-travel endpoints: the latest block once time moved, and what ran then.
+ */
+export interface TimeTravelResult {
+    blockNumber: number;
+    timestamp: number; // Unix seconds
+    tick: TickSummary;
+}
+
+/**
+ * What the local simulator streams from `GET /events`:
+ * - `registered` / `unregistered`: an upkeep was added or removed
+ * - `check`: a check answered (`upkeepNeeded`, `performData`) or failed (`error`)
+ * - `perform-sent`: a perform transaction was sent (`txHash`)
+ * - `perform-confirmed`: it was mined (`txHash`, `gasUsed`)
+ * - `perform-failed`: it reverted or could not be sent, or was skipped (`error`)
+ */
+export type SimulatorEventType = 'registered' | 'unregistered' | 'check' | 'perform-sent' | 'perform-confirmed' | 'perform-failed';
+
+/**
+ * An event of the local simulator. Check and perform events carry the fields of the execution they belong to.
+ */
+export interface SimulatorEvent extends Partial<Omit<ExecutionRecord, 'id' | 'timestamp' | 'status'>> {
+    id: number; // Increases with every event of the simulator, used as the SSE event id
+    type: SimulatorEventType;
+    upkeepId: string;
+    timestamp: string; // ISO date
+}
+
+/**
+ * Which events a subscription receives; all of them by default.
+ */
+export interface SubscribeOptions {
+    upkeepId?: string;
+    types?: SimulatorEventType[];
+    since?: number; // Also replay the kept events emitted after the event with this id (Last-Event-ID)
+    onError?: (error: Error) => void; // Called once if the stream breaks or the listener throws; the subscription is closed then
+}
+
+/**
+ * An open subscription to the simulator's events.
+ */
+export interface EventSubscription {
+    close(): void;
+}
 
 /**
  * The core interface for an Automation provider. This defines the contract
@@ -59,10 +191,15 @@ export type CreateUpkeepOptions = CreateLogUpkeepOptions | CreateCustomUpkeepOpt
 export interface IAutomationProvider {
     createUpkeep(options: CreateUpkeepOptions): Promise<{ upkeepId: string }>;
     getUpkeep(upkeepId: string): Promise<UpkeepInfo>;
+    simulateCreateUpkeep(options: CreateUpkeepOptions): Promise<DryRunCheck[]>;
+    simulateUpdateUpkeep(upkeepId: string, options: UpdateUpkeepOptions): Promise<DryRunCheck[]>;
+    updateUpkeep(upkeepId: string, options: UpdateUpkeepOptions): Promise<void>;
     addFunds(upkeepId: string, amount: string): Promise<void>;
     pauseUpkeep(upkeepId: string): Promise<void>;
     unpauseUpkeep(upkeepId: string): Promise<void>;
     cancelUpkeep(upkeepId: string): Promise<void>;
+    subscribe?(listener: (event: SimulatorEvent) => void, options?: SubscribeOptions): Promise<EventSubscription>;
+    waitForPerform?(upkeepId: string, timeoutMs?: number, since?: number): Promise<SimulatorEvent>;
 }
 
 
@@ -1,5 +1,6 @@
 import { ethers } from 'ethers';
 import fs from 'fs';
+import { getDeploymentTemplate, validateTemplateArgs } from './templates/index.js';
 
 /** Common ABI alias */
 type Abi = ethers.ContractInterface;
@@ -29,7 +30,7 @@ interface ContractArtifact {
 export interface DeploymentOptions {
   wallet: ethers.Wallet;
   artifactPath?: string;
-  template?: string; // reserved for future
+  template?: string; // Name of a built-in template, see templates/index.ts
   constructorArgs?: unknown[];
 }
 
@@ -93,18 +94,29 @@ function normalizeArtifact(artifact: ContractArtifact): { abi: Abi; bytecode: st
 
 /* -------------------------------- deployer -------------------------------- */
 
-export async function deployUpkeep(options: DeploymentOptions): Promise<string> {
+/** Build the contract factory for a built-in template or an artifact file. */
+function createDeploymentFactory(options: DeploymentOptions): ethers.ContractFactory {
   const { wallet, artifactPath, template, constructorArgs = [] } = options;
 
   if (template) {
-    throw new Error('Template loader not implemented');
+    console.log(`📦 Using deployment template: ${template}`);
+    const deploymentTemplate = getDeploymentTemplate(template);
+    const errors = validateTemplateArgs(deploymentTemplate, constructorArgs);
+    if (errors.length > 0) {
+      throw new Error(`Invalid constructor arguments for template '${template}': ${errors.join(', ')}`);
+    }
+    return new ethers.ContractFactory(deploymentTemplate.artifact.abi, deploymentTemplate.artifact.bytecode, wallet);
   }
   if (!artifactPath) {
     throw new Error("Either 'artifactPath' or 'template' must be provided");
   }
 
   console.log(`📦 Loading contract artifact from: ${artifactPath}`);
+  return createFactory(artifactPath, wallet);
+}
 
+/** Load an artifact file and build a contract factory for it. */
+function createFactory(artifactPath: string, wallet: ethers.Wallet): ethers.ContractFactory {
   let artifact: ContractArtifact;
   try {
     const artifactContent = fs.readFileSync(artifactPath, 'utf8');
@@ -117,13 +129,18 @@ export async function deployUpkeep(options: DeploymentOptions): Promise<string>
   const { abi, bytecode } = normalizeArtifact(artifact);
 
   console.log('🔨 Creating contract factory...');
-  let factory: ethers.ContractFactory;
   try {
-    factory = new ethers.ContractFactory(abi, bytecode, wallet);
+    return new ethers.ContractFactory(abi, bytecode, wallet);
   } catch (err) {
     const msg = err instanceof Error ? err.message : String(err);
     throw new Error(`Failed to create contract factory: ${msg}`);
   }
+}
+
+export async function deployUpkeep(options: DeploymentOptions): Promise<string> {
+  const { constructorArgs = [] } = options;
+
+  const factory = createDeploymentFactory(options);
 
   console.log(`🚀 Deploying contract with args: [${constructorArgs.map((a) => JSON.stringify(a)).join(', ')}]`);
 
@@ -152,6 +169,27 @@ export async function deployUpkeep(options: DeploymentOptions): Promise<string>
   return address;
 }
 
+/** Estimate the gas needed to deploy a contract, without sending the transaction. */
+export async function estimateDeploymentGas(options: DeploymentOptions): Promise<ethers.BigNumber> {
+  const { wallet, constructorArgs = [] } = options;
+
+  const factory = createDeploymentFactory(options);
+  let deployTx: ethers.providers.TransactionRequest;
+  try {
+    deployTx = factory.getDeployTransaction(...constructorArgs);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    throw new Error(`Invalid constructor arguments: ${msg}`);
+  }
+
+  try {
+    return await wallet.estimateGas(deployTx);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    throw new Error(`Deployment would fail: ${msg}`);
+  }
+}
+
 export function validateArtifactPath(filePath: string): void {
   if (!fs.existsSync(filePath)) {
     throw new Error(`Artifact file not found: ${filePath}`);
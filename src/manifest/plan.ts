@@ -0,0 +1,279 @@
+/**
+ * @fileoverview Plans the changes needed to bring what a state file records in line with a v2 manifest,
+ * in the style of `terraform plan`. Entries missing from the state are created, entries whose
+ * configuration changed are updated in place when the registry allows it and replaced otherwise.
+ */
+
+import { ethers } from 'ethers';
+import type { Deployment, ManifestV2, StateV2, UpkeepEntry } from './schema.js';
+import { getApplyOrder, resolveReferences, type ManifestNode, type ManifestOutputs } from './references.js';
+
+/**
+ * Stands in for the output of an entry that is created or replaced by the plan.
+ */
+export const UNKNOWN_OUTPUT = '(known after apply)';
+
+/**
+ * An upkeep setting that can be changed in place.
+ */
+export interface FieldChange {
+    field: 'gasLimit' | 'checkData' | 'offchainConfig' | 'trigger';
+    from: unknown;
+    to: unknown;
+}
+
+export type PlanOperation =
+    | { type: 'create' }
+    | { type: 'replace'; reason: string }
+    | { type: 'update'; changes: FieldChange[] }
+    | { type: 'fund'; amount: string }
+    | { type: 'pause' }
+    | { type: 'unpause' };
+
+/**
+ * What the plan does to a single entry. No operations means the entry is up to date.
+ */
+export interface PlanStep {
+    node: ManifestNode;
+    operations: PlanOperation[];
+    notes: string[];
+}
+
+export interface ManifestPlan {
+    steps: PlanStep[]; // In apply order
+    orphans: ManifestNode[]; // Recorded in the state but no longer in the manifest; left untouched
+}
+
+/**
+ * Computes the plan that applies a manifest on top of a state. Without a state, every entry is created.
+ */
+export function planManifest(manifest: ManifestV2, state?: StateV2): ManifestPlan {
+    // Outputs of the entries planned so far: recorded ones, or UNKNOWN_OUTPUT for those created or replaced
+    const outputs: ManifestOutputs = { contracts: {}, upkeeps: {} };
+    const steps: PlanStep[] = [];
+
+    for (const node of getApplyOrder(manifest)) {
+        if (node.kind === 'contract') {
+            const recorded = state?.contracts[node.name];
+            const deployment = resolveReferences(manifest.contracts[node.name], outputs);
+            const step = planContract(node, deployment, recorded);
+            outputs.contracts[node.name] = { address: isRecreated(step) ? UNKNOWN_OUTPUT : recorded!.address };
+            steps.push(step);
+        } else {
+            const recorded = state?.upkeeps[node.name];
+            const upkeep = resolveReferences(manifest.upkeeps[node.name], outputs);
+            const step = planUpkeep(node, upkeep, manifest.network.mode, recorded);
+            outputs.upkeeps[node.name] = { upkeepId: isRecreated(step) ? UNKNOWN_OUTPUT : recorded!.upkeepId };
+            steps.push(step);
+        }
+    }
+
+    const orphans: ManifestNode[] = [
+        ...Object.keys(state?.contracts ?? {})
+            .filter((name) => !(name in manifest.contracts))
+            .map((name) => ({ kind: 'contract' as const, name })),
+        ...Object.keys(state?.upkeeps ?? {})
+            .filter((name) => !(name in manifest.upkeeps))
+            .map((name) => ({ kind: 'upkeep' as const, name })),
+    ];
+
+    return { steps, orphans };
+}
+
+/**
+ * Returns true if the step creates or replaces its entry, giving it a new address or upkeep ID.
+ */
+export function isRecreated(step: PlanStep): boolean {
+    return step.operations.some((operation) => operation.type === 'create' || operation.type === 'replace');
+}
+
+export function hasChanges(plan: ManifestPlan): boolean {
+    return plan.steps.some((step) => step.operations.length > 0);
+}
+
+function planContract(node: ManifestNode, deployment: Deployment, recorded?: StateV2['contracts'][string]): PlanStep {
+    const step: PlanStep = { node, operations: [], notes: [] };
+
+    if (!recorded) {
+        step.operations.push({ type: 'create' });
+    } else if (!recorded.deployment) {
+        step.notes.push('No recorded deployment configuration, assuming it matches the manifest');
+    } else if (!isEqual(deployment, recorded.deployment)) {
+        step.operations.push({ type: 'replace', reason: describeDeploymentChange(deployment, recorded.deployment) });
+    }
+
+    return step;
+}
+
+function planUpkeep(node: ManifestNode, upkeep: UpkeepEntry, mode: ManifestV2['network']['mode'], recorded?: StateV2['upkeeps'][string]): PlanStep {
+    const step: PlanStep = { node, operations: [], notes: [] };
+
+    if (!recorded || recorded.canceled) {
+        if (recorded?.canceled) {
+            step.notes.push(`Upkeep ${recorded.upkeepId} was canceled by an apply that did not register its replacement`);
+        }
+        step.operations.push({ type: 'create' });
+        if (upkeep.paused) {
+            step.operations.push({ type: 'pause' });
+        }
+        return step;
+    }
+
+    // The registry cannot retarget an upkeep or change its trigger type
+    if (upkeep.upkeepContract.toLowerCase() !== recorded.address.toLowerCase()) {
+        step.operations.push({ type: 'replace', reason: `upkeepContract changed from ${recorded.address} to ${upkeep.upkeepContract}` });
+    } else if (recorded.config && upkeep.triggerType !== recorded.config.triggerType) {
+        step.operations.push({ type: 'replace', reason: `triggerType changed from '${recorded.config.triggerType}' to '${upkeep.triggerType}'` });
+    } else if (mode === 'chainlink' && recorded.config && upkeep.triggerType === 'time'
+        && !isEqual(getTriggerConfig(upkeep), getTriggerConfig(recorded.config))) {
+        // The schedule of a time-based upkeep lives in its CronUpkeep contract, which cannot be reconfigured
+        step.operations.push({ type: 'replace', reason: `schedule changed from ${describeSchedule(recorded.config)} to ${describeSchedule(upkeep)}` });
+    }
+    if (step.operations.length > 0) {
+        step.notes.push(`Upkeep ${recorded.upkeepId} is canceled; withdraw its remaining funds from the registry`);
+        if (upkeep.paused) {
+            step.operations.push({ type: 'pause' });
+        }
+        return step;
+    }
+
+    if (!recorded.config) {
+        step.notes.push('No recorded upkeep configuration, assuming it matches the manifest');
+        return step;
+    }
+
+    const changes = diffUpkeepFields(upkeep, recorded.config);
+    if (changes.length > 0) {
+        step.operations.push({ type: 'update', changes });
+    }
+
+    // initialFunds is the total funded through the manifest; raising it tops the upkeep up
+    const funds = ethers.utils.parseEther(upkeep.initialFunds ?? '0');
+    const funded = ethers.utils.parseEther(recorded.config.initialFunds ?? '0');
+    if (funds.gt(funded)) {
+        step.operations.push({ type: 'fund', amount: ethers.utils.formatEther(funds.sub(funded)) });
+    } else if (funds.lt(funded)) {
+        step.notes.push(`initialFunds was lowered from ${recorded.config.initialFunds} to ${upkeep.initialFunds ?? '0'}; funds are never withdrawn`);
+    }
+
+    if (Boolean(upkeep.paused) !== Boolean(recorded.config.paused)) {
+        step.operations.push({ type: upkeep.paused ? 'pause' : 'unpause' });
+    }
+
+    return step;
+}
+
+function diffUpkeepFields(upkeep: UpkeepEntry, recorded: UpkeepEntry): FieldChange[] {
+    const changes: FieldChange[] = [];
+
+    if (upkeep.gasLimit !== recorded.gasLimit) {
+        changes.push({ field: 'gasLimit', from: recorded.gasLimit, to: upkeep.gasLimit });
+    }
+    if ((upkeep.checkData ?? '0x') !== (recorded.checkData ?? '0x')) {
+        changes.push({ field: 'checkData', from: recorded.checkData ?? '0x', to: upkeep.checkData ?? '0x' });
+    }
+    if ((upkeep.offchainConfig ?? '0x') !== (recorded.offchainConfig ?? '0x')) {
+        changes.push({ field: 'offchainConfig', from: recorded.offchainConfig ?? '0x', to: upkeep.offchainConfig ?? '0x' });
+    }
+
+    const trigger = getTriggerConfig(upkeep);
+    const recordedTrigger = getTriggerConfig(recorded);
+    if (!isEqual(trigger, recordedTrigger)) {
+        changes.push({ field: 'trigger', from: recordedTrigger, to: trigger });
+    }
+
+    return changes;
+}
+
+/**
+ * The trigger configuration of an upkeep entry, or undefined for custom logic upkeeps.
+ */
+export function getTriggerConfig(upkeep: UpkeepEntry): Record<string, unknown> | undefined {
+    if (upkeep.triggerType === 'log') {
+        return {
+            logEmitterAddress: upkeep.logEmitterAddress?.toLowerCase(),
+            logEventSignature: upkeep.logEventSignature,
+            ...(upkeep.logEventAbi && { logEventAbi: upkeep.logEventAbi }),
+            logTopicFilters: upkeep.logTopicFilters ?? null,
+        };
+    }
+    if (upkeep.triggerType === 'time') {
+        return { cronExpression: upkeep.cronExpression, performData: upkeep.performData ?? '0x' };
+    }
+    return undefined;
+}
+
+function describeSchedule(upkeep: UpkeepEntry): string {
+    return `'${upkeep.cronExpression}' (performData ${upkeep.performData ?? '0x'})`;
+}
+
+function describeDeploymentChange(deployment: Deployment, recorded: Deployment): string {
+    const fields = (['template', 'artifact', 'constructorArgs'] as const)
+        .filter((field) => !isEqual(deployment[field], recorded[field]));
+    return `${fields.join(', ')} changed`;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function formatValue(value: unknown): string {
+    return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function formatOperation(operation: PlanOperation): string[] {
+    switch (operation.type) {
+        case 'create':
+            return [];
+        case 'replace':
+            return [`replace: ${operation.reason}`];
+        case 'update':
+            return operation.changes.map((change) => `${change.field}: ${formatValue(change.from)} → ${formatValue(change.to)}`);
+        case 'fund':
+            return [`fund: +${operation.amount} LINK`];
+        case 'pause':
+            return ['pause'];
+        case 'unpause':
+            return ['unpause'];
+    }
+}
+
+/**
+ * Renders a plan as human-readable lines, one block per entry followed by a summary line.
+ */
+export function formatPlan(plan: ManifestPlan): string[] {
+    const lines: string[] = [];
+    const counts = { create: 0, replace: 0, change: 0, unchanged: 0 };
+
+    for (const step of plan.steps) {
+        const label = `${step.node.kind} ${step.node.name}`;
+        const types = step.operations.map((operation) => operation.type);
+
+        if (types.includes('create')) {
+            counts.create++;
+            lines.push(`  + ${label} (create)`);
+        } else if (types.includes('replace')) {
+            counts.replace++;
+            lines.push(`-/+ ${label} (replace)`);
+        } else if (types.length > 0) {
+            counts.change++;
+            lines.push(`  ~ ${label} (${types.join(', ')})`);
+        } else {
+            counts.unchanged++;
+            lines.push(`    ${label} (no changes)`);
+        }
+
+        for (const operation of step.operations) {
+            lines.push(...formatOperation(operation).map((line) => `        ${line}`));
+        }
+        lines.push(...step.notes.map((note) => `        ℹ️  ${note}`));
+    }
+
+    for (const orphan of plan.orphans) {
+        lines.push(`  ? ${orphan.kind} ${orphan.name} (no longer in the manifest, left untouched)`);
+    }
+
+    lines.push('');
+    lines.push(`Plan: ${counts.create} to create, ${counts.replace} to replace, ${counts.change} to change, ${counts.unchanged} unchanged.`);
+    return lines;
+}
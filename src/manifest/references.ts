@@ -0,0 +1,175 @@
+/**
+ * @fileoverview Cross-references between the entries of a v2 manifest.
+ * A string value may reference the output of another entry, either as a whole
+ * ("${contracts.counter.address}") or embedded in a larger string.
+ */
+
+import type { ManifestV2 } from './schema.js';
+
+// Which output each entry kind exposes to references
+const REFERENCE_OUTPUTS = {
+    contracts: 'address',
+    upkeeps: 'upkeepId',
+} as const;
+
+type ReferenceKind = keyof typeof REFERENCE_OUTPUTS;
+
+const REFERENCE_PATTERN = /\$\{([^}]*)\}/g;
+const WHOLE_REFERENCE_PATTERN = /^\$\{[^}]*\}$/;
+
+export interface ManifestReference {
+    kind: ReferenceKind;
+    name: string;
+}
+
+/**
+ * A node of the apply graph: one contract to deploy or one upkeep to register.
+ */
+export interface ManifestNode {
+    kind: 'contract' | 'upkeep';
+    name: string;
+}
+
+/**
+ * The outputs produced while applying a manifest, used to resolve references.
+ */
+export interface ManifestOutputs {
+    contracts: Record<string, { address: string }>;
+    upkeeps: Record<string, { upkeepId: string }>;
+}
+
+/**
+ * Returns true if the whole string is a single reference.
+ */
+export function isReference(value: string): boolean {
+    return WHOLE_REFERENCE_PATTERN.test(value);
+}
+
+function parseReference(expression: string): ManifestReference {
+    const [kind, name, output, ...rest] = expression.trim().split('.');
+    if (rest.length === 0 && (kind === 'contracts' || kind === 'upkeeps') && name && output === REFERENCE_OUTPUTS[kind]) {
+        return { kind, name };
+    }
+    throw new Error(`Invalid reference '\${${expression}}'. Expected \${contracts.<name>.address} or \${upkeeps.<name>.upkeepId}`);
+}
+
+/**
+ * Collects every reference found in a value, searching nested arrays and objects.
+ * @throws An error if a reference is malformed.
+ */
+export function findReferences(value: unknown): ManifestReference[] {
+    if (typeof value === 'string') {
+        return [...value.matchAll(REFERENCE_PATTERN)].map((match) => parseReference(match[1]));
+    }
+    if (Array.isArray(value)) {
+        return value.flatMap((item) => findReferences(item));
+    }
+    if (value && typeof value === 'object') {
+        return Object.values(value).flatMap((item) => findReferences(item));
+    }
+    return [];
+}
+
+/**
+ * Replaces every reference in a value with the matching output.
+ * @throws An error if a referenced entry has not been applied yet.
+ */
+export function resolveReferences<T>(value: T, outputs: ManifestOutputs): T {
+    if (typeof value === 'string') {
+        return value.replace(REFERENCE_PATTERN, (_match, expression: string) => {
+            const { kind, name } = parseReference(expression);
+            const output = kind === 'contracts' ? outputs.contracts[name]?.address : outputs.upkeeps[name]?.upkeepId;
+            if (output === undefined) {
+                throw new Error(`Cannot resolve '\${${expression}}': ${kind}.${name} has not been applied yet`);
+            }
+            return output;
+        }) as T;
+    }
+    if (Array.isArray(value)) {
+        return value.map((item) => resolveReferences(item, outputs)) as T;
+    }
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(
+            Object.entries(value).map(([key, item]) => [key, resolveReferences(item, outputs)])
+        ) as T;
+    }
+    return value;
+}
+
+function nodeKey(node: ManifestNode): string {
+    return `${node.kind === 'contract' ? 'contracts' : 'upkeeps'}.${node.name}`;
+}
+
+function referenceKey(reference: ManifestReference): string {
+    return `${reference.kind}.${reference.name}`;
+}
+
+function getNodes(manifest: Pick<ManifestV2, 'contracts' | 'upkeeps'>): { node: ManifestNode; entry: unknown }[] {
+    return [
+        ...Object.entries(manifest.contracts).map(([name, entry]) => ({ node: { kind: 'contract' as const, name }, entry })),
+        ...Object.entries(manifest.upkeeps).map(([name, entry]) => ({ node: { kind: 'upkeep' as const, name }, entry })),
+    ];
+}
+
+/**
+ * Orders the entries of a manifest so that every entry comes after the entries it references.
+ * Entries without dependencies between them keep their declaration order (contracts first).
+ * @throws An error if the references form a cycle.
+ */
+export function getApplyOrder(manifest: Pick<ManifestV2, 'contracts' | 'upkeeps'>): ManifestNode[] {
+    const nodes = getNodes(manifest);
+    const dependencies = new Map<string, Set<string>>(
+        nodes.map(({ node, entry }) => [nodeKey(node), new Set(findReferences(entry).map(referenceKey))])
+    );
+
+    const order: ManifestNode[] = [];
+    const applied = new Set<string>();
+    let pending = nodes.map(({ node }) => node);
+
+    while (pending.length > 0) {
+        const ready = pending.find((node) => [...dependencies.get(nodeKey(node))!].every((dep) => applied.has(dep)));
+        if (!ready) {
+            throw new Error(`Circular reference between: ${pending.map(nodeKey).join(', ')}`);
+        }
+        order.push(ready);
+        applied.add(nodeKey(ready));
+        pending = pending.filter((node) => node !== ready);
+    }
+
+    return order;
+}
+
+/**
+ * Checks the references of a manifest: they must be well-formed, point to existing entries, and not form cycles.
+ * @returns One issue per problem found, with the path of the offending entry.
+ */
+export function validateReferences(
+    manifest: Pick<ManifestV2, 'contracts' | 'upkeeps'>
+): { path: (string | number)[]; message: string }[] {
+    const issues: { path: (string | number)[]; message: string }[] = [];
+    const known = new Set(getNodes(manifest).map(({ node }) => nodeKey(node)));
+
+    for (const { node, entry } of getNodes(manifest)) {
+        const path = [node.kind === 'contract' ? 'contracts' : 'upkeeps', node.name];
+        try {
+            for (const reference of findReferences(entry)) {
+                if (!known.has(referenceKey(reference))) {
+                    issues.push({ path, message: `Reference to unknown entry '${referenceKey(reference)}'` });
+                }
+            }
+        } catch (error) {
+            issues.push({ path, message: error instanceof Error ? error.message : String(error) });
+        }
+    }
+
+    // Cycles can only be detected once every reference is known to be valid
+    if (issues.length === 0) {
+        try {
+            getApplyOrder(manifest);
+        } catch (error) {
+            issues.push({ path: [], message: error instanceof Error ? error.message : String(error) });
+        }
+    }
+
+    return issues;
+}
@@ -1,9 +1,19 @@
 import { z } from 'zod';
+import { parseCronExpression } from '../core/cron.js';
+import { isReference, validateReferences } from './references.js';
+import { getDeploymentTemplate, validateTemplateArgs } from './templates/index.js';
+import { validateTopicFilters } from '../core/topics.js';
+import type { LogTopicFilters } from '../interfaces.js';
+
+const ADDRESS_REGEX = /^0x[a-fA-F0-9]{40}$/;
 
 // Network configuration schema
 export const NetworkSchema = z.object({
   mode: z.enum(['local', 'chainlink']),
-  chainId: z.number().int().positive()
+  chainId: z.number().int().positive(),
+  simulatorUrl: z.string().url().optional(), // Simulator to register with in local mode
+  // CronUpkeepFactory that time-based upkeeps are deployed through in chainlink mode
+  cronUpkeepFactoryAddress: z.string().regex(ADDRESS_REGEX, "Must be a valid Ethereum address").optional()
 });
 
 // Deployment configuration schema
@@ -22,23 +32,60 @@ export const DeploymentSchema = z.object({
     message: "Exactly one of 'template' or 'artifact' must be provided",
     path: ['deployment']
   }
-);
+).superRefine((data, ctx) => {
+  // Built-in templates must exist and get constructor arguments matching their parameters
+  if (data.template === undefined) {
+    return;
+  }
+  try {
+    const template = getDeploymentTemplate(data.template);
+    for (const message of validateTemplateArgs(template, data.constructorArgs, true)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message, path: ['constructorArgs'] });
+    }
+  } catch (error) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: error instanceof Error ? error.message : String(error),
+      path: ['template']
+    });
+  }
+});
 
-// Registration configuration schema
-export const RegistrationSchema = z.object({
+const HexSchema = z.string().regex(/^0x([a-fA-F0-9]{2})*$/, "Must be a hex string");
+
+// Fields shared by the v1 `registration` and the v2 `upkeeps` entries
+const registrationFields = {
   name: z.string().min(1, "Name cannot be empty"),
-  upkeepContract: z.union([
-    z.literal('auto'),
-    z.string().regex(/^0x[a-fA-F0-9]{40}$/, "Must be a valid Ethereum address or 'auto'")
-  ]),
   gasLimit: z.number().int().min(21000, "Gas limit must be at least 21000"),
-  triggerType: z.enum(['custom', 'log']),
+  triggerType: z.enum(['custom', 'log', 'time']),
   initialFunds: z.string().optional(),
+  checkData: HexSchema.optional(),
+  offchainConfig: HexSchema.optional(),
+  paused: z.boolean().optional(),
   // Log-specific fields
-  logEmitterAddress: z.string().regex(/^0x[a-fA-F0-9]{40}$/).optional(),
   logEventSignature: z.string().optional(),
-  logTopicFilters: z.array(z.string().nullable()).length(3).optional()
-}).superRefine((data, ctx) => {
+  logEventAbi: z.array(z.union([z.string(), z.record(z.unknown())])).optional(), // Declares the event, for named filters
+  // Positional topics, or values keyed by indexed parameter name
+  logTopicFilters: z.union([
+    z.array(z.string().nullable()).length(3),
+    z.record(z.union([z.string(), z.number(), z.boolean(), z.null()]))
+  ]).optional(),
+  // Time-specific fields
+  cronExpression: z.string().optional(),
+  performData: HexSchema.optional()
+};
+
+function refineRegistration(
+  data: {
+    triggerType: string;
+    logEmitterAddress?: string;
+    logEventSignature?: string;
+    logEventAbi?: (string | Record<string, unknown>)[];
+    logTopicFilters?: LogTopicFilters;
+    cronExpression?: string;
+  },
+  ctx: z.RefinementCtx
+): void {
   // When triggerType is 'log', require log-specific fields
   if (data.triggerType === 'log') {
     if (!data.logEmitterAddress) {
@@ -54,9 +101,54 @@ export const RegistrationSchema = z.object({
         message: "logEventSignature is required when triggerType is 'log'",
         path: ['logEventSignature']
       });
+    } else {
+      // References are only resolved at apply time, so their topics cannot be checked yet
+      const filters = data.logTopicFilters;
+      const withoutReferences = <T>(value: T) => (typeof value === 'string' && value.includes('${') ? null : value);
+      const error = validateTopicFilters({
+        logEventSignature: data.logEventSignature,
+        logEventAbi: data.logEventAbi as string[] | undefined,
+        logTopicFilters: Array.isArray(filters)
+          ? filters.map(withoutReferences)
+          : filters && Object.fromEntries(Object.entries(filters).map(([name, value]) => [name, withoutReferences(value)]))
+      });
+      if (error) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: error, path: ['logTopicFilters'] });
+      }
     }
   }
-});
+
+  // When triggerType is 'time', require a valid cron expression
+  if (data.triggerType === 'time') {
+    if (!data.cronExpression) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "cronExpression is required when triggerType is 'time'",
+        path: ['cronExpression']
+      });
+    } else {
+      try {
+        parseCronExpression(data.cronExpression);
+      } catch (error) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: error instanceof Error ? error.message : String(error),
+          path: ['cronExpression']
+        });
+      }
+    }
+  }
+}
+
+// Registration configuration schema
+export const RegistrationSchema = z.object({
+  ...registrationFields,
+  upkeepContract: z.union([
+    z.literal('auto'),
+    z.string().regex(ADDRESS_REGEX, "Must be a valid Ethereum address or 'auto'")
+  ]),
+  logEmitterAddress: z.string().regex(ADDRESS_REGEX).optional()
+}).superRefine(refineRegistration);
 
 // Main manifest schema
 export const ManifestSchema = z.object({
@@ -84,19 +176,151 @@ export const ManifestSchema = z.object({
   }
 });
 
+// =================================================================
+// Manifest v2: named contracts and upkeeps with cross-references
+// =================================================================
+
+// An address, or a reference to another entry such as ${contracts.counter.address}
+const AddressOrReferenceSchema = z.string().refine(
+  (value) => ADDRESS_REGEX.test(value) || isReference(value),
+  { message: "Must be a valid Ethereum address or a reference like ${contracts.<name>.address}" }
+);
+
+const EntryNameSchema = z.string().regex(
+  /^[A-Za-z_][A-Za-z0-9_-]*$/,
+  "Entry names must start with a letter or '_' and contain only letters, digits, '_' or '-'"
+);
+
+// A single upkeep of a v2 manifest
+export const UpkeepEntrySchema = z.object({
+  ...registrationFields,
+  upkeepContract: AddressOrReferenceSchema,
+  logEmitterAddress: AddressOrReferenceSchema.optional()
+}).superRefine(refineRegistration);
+
+export const ManifestV2Schema = z.object({
+  version: z.literal('2'),
+  network: NetworkSchema,
+  contracts: z.record(EntryNameSchema, DeploymentSchema).default({}),
+  upkeeps: z.record(EntryNameSchema, UpkeepEntrySchema)
+}).superRefine((data, ctx) => {
+  if (Object.keys(data.upkeeps).length === 0) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "At least one upkeep is required",
+      path: ['upkeeps']
+    });
+  }
+
+  // If mode is 'chainlink', initialFunds is required for every upkeep
+  if (data.network.mode === 'chainlink') {
+    for (const [name, upkeep] of Object.entries(data.upkeeps)) {
+      if (!upkeep.initialFunds) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "initialFunds is required when network mode is 'chainlink'",
+          path: ['upkeeps', name, 'initialFunds']
+        });
+      }
+    }
+  }
+
+  // Every reference must point to an existing entry, without cycles
+  for (const issue of validateReferences(data)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, ...issue });
+  }
+});
+
 // Export TypeScript types
 export type Network = z.infer<typeof NetworkSchema>;
 export type Deployment = z.infer<typeof DeploymentSchema>;
 export type Registration = z.infer<typeof RegistrationSchema>;
 export type Manifest = z.infer<typeof ManifestSchema>;
+export type UpkeepEntry = z.infer<typeof UpkeepEntrySchema>;
+export type ManifestV2 = z.infer<typeof ManifestV2Schema>;
+export type AnyManifest = Manifest | ManifestV2;
+
+export function isManifestV2(manifest: AnyManifest): manifest is ManifestV2 {
+  return manifest.version === '2';
+}
+
+/**
+ * Validates a raw (parsed JSON) manifest against the schema of its version.
+ * @throws A ZodError if the manifest is invalid.
+ */
+export function parseManifest(rawManifest: unknown): AnyManifest {
+  const version = (rawManifest as { version?: unknown } | null)?.version;
+  return version === '2' ? ManifestV2Schema.parse(rawManifest) : ManifestSchema.parse(rawManifest);
+}
 
 // State file schema for tracking deployments
 export const StateSchema = z.object({
-  address: z.string().regex(/^0x[a-fA-F0-9]{40}$/),
+  address: z.string().regex(ADDRESS_REGEX),
   upkeepId: z.string(),
   network: NetworkSchema,
   name: z.string(),
   timestamp: z.string()
 });
 
-export type State = z.infer<typeof StateSchema>; 
\ No newline at end of file
+export type State = z.infer<typeof StateSchema>;
+
+// State file schema for v2 manifests: every deployed contract and registered upkeep, by entry name,
+// with the configuration it was last applied with so that the next apply can compute a plan
+export const StateV2Schema = z.object({
+  version: z.literal('2'),
+  network: NetworkSchema,
+  contracts: z.record(z.object({
+    address: z.string().regex(ADDRESS_REGEX),
+    deployment: DeploymentSchema.optional()
+  })),
+  upkeeps: z.record(z.object({
+    name: z.string(),
+    upkeepId: z.string(),
+    address: z.string().regex(ADDRESS_REGEX),
+    config: UpkeepEntrySchema.optional(),
+    canceled: z.boolean().optional() // Canceled to be replaced, but its replacement is not registered yet
+  })),
+  timestamp: z.string()
+});
+
+export type StateV2 = z.infer<typeof StateV2Schema>;
+
+// Entry names given to the deployment and registration of a v1 manifest when it is applied as a v2 manifest
+const V1_CONTRACT_NAME = 'deployment';
+const V1_UPKEEP_NAME = 'registration';
+
+/**
+ * Converts a v1 manifest into the equivalent v2 manifest, with a single contract and upkeep.
+ */
+export function toManifestV2(manifest: Manifest): ManifestV2 {
+  const { upkeepContract, ...registration } = manifest.registration;
+  // v1 manifests only deploy their contract when upkeepContract is 'auto'
+  const deploys = upkeepContract === 'auto' && manifest.deployment !== undefined;
+  return {
+    version: '2',
+    network: manifest.network,
+    contracts: deploys ? { [V1_CONTRACT_NAME]: manifest.deployment! } : {},
+    upkeeps: {
+      [V1_UPKEEP_NAME]: {
+        ...registration,
+        upkeepContract: upkeepContract === 'auto' ? `\${contracts.${V1_CONTRACT_NAME}.address}` : upkeepContract
+      }
+    }
+  };
+}
+
+/**
+ * Converts the state file of a v1 manifest into the equivalent v2 state.
+ * The v1 state does not record the applied configuration.
+ */
+export function toStateV2(state: State, manifest: Manifest): StateV2 {
+  return {
+    version: '2',
+    network: state.network,
+    contracts: manifest.registration.upkeepContract === 'auto' ? { [V1_CONTRACT_NAME]: { address: state.address } } : {},
+    upkeeps: {
+      [V1_UPKEEP_NAME]: { name: state.name, upkeepId: state.upkeepId, address: state.address }
+    },
+    timestamp: state.timestamp
+  };
+}
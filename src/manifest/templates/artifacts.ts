@@ -0,0 +1,48 @@
+// Generated from ./contracts with solc 0.8.24 (optimizer enabled, 200 runs, evmVersion paris).
+// Do not edit by hand: recompile the contracts and regenerate this file instead.
+
+export interface TemplateArtifact {
+    abi: string[];
+    bytecode: string;
+}
+
+export const CounterArtifact: TemplateArtifact = {
+    abi: [
+        'constructor(uint256 _initialValue)',
+        'event Incremented(uint256 value)',
+        'function increment()',
+        'function onInput(address, uint256, bytes)',
+        'function value() view returns (uint256)',
+    ],
+    bytecode:
+        '0x608060405234801561001057600080fd5b5060405161022c38038061022c83398101604081905261002f91610037565b600055610050565b60006020828403121561004957600080fd5b5051919050565b6101cd8061005f6000396000f3fe608060405234801561001057600080fd5b50600436106100415760003560e01c80633fa4f2451461004657806363f28bce14610061578063d09de08a14610076575b600080fd5b61004f60005481565b60405190815260200160405180910390f35b61007461006f3660046100db565b61007e565b005b61007461008c565b61008661008c565b50505050565b600160008082825461009e9190610170565b90915550506000546040519081527f20d8a6f5a693f9d1d627a598e8820f7a55ee74c183aa8f1a30e8d4e8dd9a8d849060200160405180910390a1565b600080600080606085870312156100f157600080fd5b84356001600160a01b038116811461010857600080fd5b935060208501359250604085013567ffffffffffffffff8082111561012c57600080fd5b818701915087601f83011261014057600080fd5b81358181111561014f57600080fd5b88602082850101111561016157600080fd5b95989497505060200194505050565b8082018082111561019157634e487b7160e01b600052601160045260246000fd5b9291505056fea2646970667358221220bb6ccb5b2008a784025ea024964547ab80edf1a92ced1b15ec0d1ee4ad24356564736f6c63430008180033',
+};
+
+export const InputBoxLogForwarderArtifact: TemplateArtifact = {
+    abi: [
+        'constructor(address _inputBox, address _appContract, address _target)',
+        'event InputForwarded(uint256 indexed index)',
+        'function appContract() view returns (address)',
+        'function checkLog(tuple(uint256 index, uint256 timestamp, bytes32 txHash, uint256 blockNumber, bytes32 blockHash, address source, bytes32[] topics, bytes data) log, bytes) view returns (bool upkeepNeeded, bytes performData)',
+        'function inputBox() view returns (address)',
+        'function performUpkeep(bytes performData)',
+        'function target() view returns (address)',
+    ],
+    bytecode:
+        '0x60e060405234801561001057600080fd5b5060405161089738038061089783398101604081905261002f91610068565b6001600160a01b0392831660805290821660a0521660c0526100ab565b80516001600160a01b038116811461006357600080fd5b919050565b60008060006060848603121561007d57600080fd5b6100868461004c565b92506100946020850161004c565b91506100a26040850161004c565b90509250925092565b60805160a05160c0516107a36100f46000396000818160df015261030c015260008181610106015281816102000152610339015260008181608b015261013601526107a36000f3fe608060405234801561001057600080fd5b50600436106100575760003560e01c806340691db41461005c57806344e90611146100865780634585e33b146100c5578063d4b83992146100da578063debe86ed14610101575b600080fd5b61006f61006a366004610411565b610128565b60405161007d9291906104c9565b60405180910390f35b6100ad7f000000000000000000000000000000000000000000000000000000000000000081565b6040516001600160a01b03909116815260200161007d565b6100d86100d33660046104ec565b6102e1565b005b6100ad7f000000000000000000000000000000000000000000000000000000000000000081565b6100ad7f000000000000000000000000000000000000000000000000000000000000000081565b600060606001600160a01b037f00000000000000000000000000000000000000000000000000000000000000001661016660c0870160a0880161052e565b6001600160a01b031614158061018a5750600361018660c087018761055e565b9050105b806101d957507fc05d337121a6e8605c6ec0b72aa29c4210ffe6e5b9cefdd6a7058188a8f66f986101be60c087018761055e565b60008181106101cf576101cf6105a8565b9050602002013514155b156101f657505060408051602081019091526000808252906102d9565b6001600160a01b037f00000000000000000000000000000000000000000000000000000000000000001661022d60c087018761055e565b600181811061023e5761023e6105a8565b9050602002013560001c6001600160a01b03161461026e57505060408051602081019091526000808252906102d9565b600061027d60e08701876105be565b81019061028a91906106a8565b9050600161029b60c088018861055e565b60028181106102ac576102ac6105a8565b6040516102c4936020928302013592508591016106dd565b60405160208183030381529060405292509250505b935093915050565b6000806102f0838501856106f6565b6040516331f945e760e11b815291935091506001600160a01b037f000000000000000000000000000000000000000000000000000000000000000016906363f28bce90610365907f0000000000000000000000000000000000000000000000000000000000000000908690869060040161073d565b600060405180830381600087803b15801561037f57600080fd5b505af1158015610393573d6000803e3d6000fd5b50506040518492507ffcee49efdd123e4469a627bf1cbc530e1c60826b220a207b35f649309741b5609150600090a250505050565b60008083601f8401126103da57600080fd5b50813567ffffffffffffffff8111156103f257600080fd5b60208301915083602082850101111561040a57600080fd5b9250929050565b60008060006040848603121561042657600080fd5b833567ffffffffffffffff8082111561043e57600080fd5b90850190610100828803121561045357600080fd5b9093506020850135908082111561046957600080fd5b50610476868287016103c8565b9497909650939450505050565b6000815180845260005b818110156104a95760208185018101518683018201520161048d565b506000602082860101526020601f19601f83011685010191505092915050565b82151581526040602082015260006104e46040830184610483565b949350505050565b600080602083850312156104ff57600080fd5b823567ffffffffffffffff81111561051657600080fd5b610522858286016103c8565b90969095509350505050565b60006020828403121561054057600080fd5b81356001600160a01b038116811461055757600080fd5b9392505050565b6000808335601e1984360301811261057557600080fd5b83018035915067ffffffffffffffff82111561059057600080fd5b6020019150600581901b360382131561040a57600080fd5b634e487b7160e01b600052603260045260246000fd5b6000808335601e198436030181126105d557600080fd5b83018035915067ffffffffffffffff8211156105f057600080fd5b60200191503681900382131561040a57600080fd5b634e487b7160e01b600052604160045260246000fd5b600082601f83011261062c57600080fd5b813567ffffffffffffffff8082111561064757610647610605565b604051601f8301601f19908116603f0116810190828211818310171561066f5761066f610605565b8160405283815286602085880101111561068857600080fd5b836020870160208301376000602085830101528094505050505092915050565b6000602082840312156106ba57600080fd5b813567ffffffffffffffff8111156106d157600080fd5b6104e48482850161061b565b8281526040602082015260006104e46040830184610483565b6000806040838503121561070957600080fd5b82359150602083013567ffffffffffffffff81111561072757600080fd5b6107338582860161061b565b9150509250929050565b60018060a01b03841681528260208201526060604082015260006107646060830184610483565b9594505050505056fea2646970667358221220d07f35f2c82e4641c1d5b6e81cf413183b31914a8b8df4d23776d82b1d91505064736f6c63430008180033',
+};
+
+export const InputBoxPeriodicPusherArtifact: TemplateArtifact = {
+    abi: [
+        'constructor(address _inputBox, address _appContract, uint256 _interval, bytes _payload)',
+        'function appContract() view returns (address)',
+        'function checkUpkeep(bytes) view returns (bool upkeepNeeded, bytes performData)',
+        'function inputBox() view returns (address)',
+        'function interval() view returns (uint256)',
+        'function lastTimestamp() view returns (uint256)',
+        'function payload() view returns (bytes)',
+        'function performUpkeep(bytes)',
+    ],
+    bytecode:
+        '0x60e060405234801561001057600080fd5b506040516108fc3803806108fc83398101604081905261002f91610094565b6001600160a01b03808516608052831660a05260c082905260006100538282610213565b505042600155506102d2915050565b80516001600160a01b038116811461007957600080fd5b919050565b634e487b7160e01b600052604160045260246000fd5b600080600080608085870312156100aa57600080fd5b6100b385610062565b935060206100c2818701610062565b6040870151606088015191955093506001600160401b03808211156100e657600080fd5b818801915088601f8301126100fa57600080fd5b81518181111561010c5761010c61007e565b604051601f8201601f19908116603f011681019083821181831017156101345761013461007e565b816040528281528b8684870101111561014c57600080fd5b600093505b8284101561016e5784840186015181850187015292850192610151565b600086848301015280965050505050505092959194509250565b600181811c9082168061019c57607f821691505b6020821081036101bc57634e487b7160e01b600052602260045260246000fd5b50919050565b601f82111561020e576000816000526020600020601f850160051c810160208610156101eb5750805b601f850160051c820191505b8181101561020a578281556001016101f7565b5050505b505050565b81516001600160401b0381111561022c5761022c61007e565b6102408161023a8454610188565b846101c2565b602080601f831160018114610275576000841561025d5750858301515b600019600386901b1c1916600185901b17855561020a565b600085815260208120601f198616915b828110156102a457888601518255948401946001909101908401610285565b50858210156102c25787850151600019600388901b60f8161c191681555b5050505050600190811b01905550565b60805160a05160c0516105e061031c600039600081816101180152818161017801526102a3015260008181610154015261022a01526000818160a301526101fd01526105e06000f3fe608060405234801561001057600080fd5b506004361061007d5760003560e01c80636e04ff0d1161005b5780636e04ff0d146100f2578063947a36fb14610113578063a878f8581461013a578063debe86ed1461014f57600080fd5b806319d8ac611461008257806344e906111461009e5780634585e33b146100dd575b600080fd5b61008b60015481565b6040519081526020015b60405180910390f35b6100c57f000000000000000000000000000000000000000000000000000000000000000081565b6040516001600160a01b039091168152602001610095565b6100f06100eb36600461037a565b610176565b005b61010561010036600461037a565b61029d565b604051610095929190610432565b61008b7f000000000000000000000000000000000000000000000000000000000000000081565b6101426102ec565b6040516100959190610455565b6100c57f000000000000000000000000000000000000000000000000000000000000000081565b7f0000000000000000000000000000000000000000000000000000000000000000600154426101a5919061046f565b10156101e25760405162461bcd60e51b81526020600482015260086024820152672a37b79039b7b7b760c11b604482015260640160405180910390fd5b42600155604051631789cd6360e01b81526001600160a01b037f00000000000000000000000000000000000000000000000000000000000000001690631789cd6390610255907f0000000000000000000000000000000000000000000000000000000000000000906000906004016104d0565b6020604051808303816000875af1158015610274573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906102989190610591565b505050565b600060607f0000000000000000000000000000000000000000000000000000000000000000600154426102d0919061046f565b6040805160208101909152600081529111159590945092505050565b600080546102f990610496565b80601f016020809104026020016040519081016040528092919081815260200182805461032590610496565b80156103725780601f1061034757610100808354040283529160200191610372565b820191906000526020600020905b81548152906001019060200180831161035557829003601f168201915b505050505081565b6000806020838503121561038d57600080fd5b823567ffffffffffffffff808211156103a557600080fd5b818501915085601f8301126103b957600080fd5b8135818111156103c857600080fd5b8660208285010111156103da57600080fd5b60209290920196919550909350505050565b6000815180845260005b81811015610412576020818501810151868301820152016103f6565b506000602082860101526020601f19601f83011685010191505092915050565b821515815260406020820152600061044d60408301846103ec565b949350505050565b60208152600061046860208301846103ec565b9392505050565b8181038181111561049057634e487b7160e01b600052601160045260246000fd5b92915050565b600181811c908216806104aa57607f821691505b6020821081036104ca57634e487b7160e01b600052602260045260246000fd5b50919050565b60018060a01b03831681526000602060406020840152600084548160018260011c9150600183168061050357607f831692505b60208310810361052157634e487b7160e01b85526022600452602485fd5b6040880183905260608801818015610540576001811461055657610581565b60ff198616825284151560051b82019650610581565b60008b81526020902060005b8681101561057b57815484820152908501908901610562565b83019750505b50949a9950505050505050505050565b6000602082840312156105a357600080fd5b505191905056fea26469706673582212205b48e4b66258417bf3857ace11b3ee4d3c96469b3caf40183aabaf73c0b324c164736f6c63430008180033',
+};
@@ -0,0 +1,24 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.18;
+
+import {IInputForwardTarget} from "./IInputForwardTarget.sol";
+
+/// @notice A counter that is incremented directly, or once per input forwarded by an InputBoxLogForwarder.
+contract Counter is IInputForwardTarget {
+    uint256 public value;
+
+    event Incremented(uint256 value);
+
+    constructor(uint256 _initialValue) {
+        value = _initialValue;
+    }
+
+    function increment() public {
+        value += 1;
+        emit Incremented(value);
+    }
+
+    function onInput(address, uint256, bytes calldata) external override {
+        increment();
+    }
+}
@@ -0,0 +1,10 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.18;
+
+/// @notice Receives the inputs forwarded by an InputBoxLogForwarder.
+interface IInputForwardTarget {
+    /// @param appContract The application contract the input was sent to
+    /// @param index The input index
+    /// @param input The input payload
+    function onInput(address appContract, uint256 index, bytes calldata input) external;
+}
@@ -0,0 +1,43 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.18;
+
+import {ILogAutomation, Log} from "@chainlink/contracts/src/v0.8/automation/interfaces/ILogAutomation.sol";
+import {IInputForwardTarget} from "./IInputForwardTarget.sol";
+
+/// @notice Log-triggered upkeep that forwards every input sent to an application through the InputBox
+/// to a target contract.
+/// @dev Register it with a log trigger on the InputBox's InputAdded event.
+contract InputBoxLogForwarder is ILogAutomation {
+    bytes32 private constant INPUT_ADDED = keccak256("InputAdded(address,uint256,bytes)");
+
+    address public immutable inputBox;
+    address public immutable appContract;
+    IInputForwardTarget public immutable target;
+
+    event InputForwarded(uint256 indexed index);
+
+    constructor(address _inputBox, address _appContract, address _target) {
+        inputBox = _inputBox;
+        appContract = _appContract;
+        target = IInputForwardTarget(_target);
+    }
+
+    function checkLog(Log calldata log, bytes calldata)
+        external
+        view
+        override
+        returns (bool upkeepNeeded, bytes memory performData)
+    {
+        if (log.source != inputBox || log.topics.length < 3 || log.topics[0] != INPUT_ADDED) return (false, "");
+        if (address(uint160(uint256(log.topics[1]))) != appContract) return (false, "");
+
+        bytes memory input = abi.decode(log.data, (bytes));
+        return (true, abi.encode(uint256(log.topics[2]), input));
+    }
+
+    function performUpkeep(bytes calldata performData) external override {
+        (uint256 index, bytes memory input) = abi.decode(performData, (uint256, bytes));
+        target.onInput(appContract, index, input);
+        emit InputForwarded(index);
+    }
+}
@@ -0,0 +1,40 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.18;
+
+import {AutomationCompatibleInterface} from "@chainlink/contracts/src/v0.8/automation/interfaces/AutomationCompatibleInterface.sol";
+import {IInputBox} from "./IInputBox.sol";
+
+/// @notice Custom logic upkeep that sends a fixed payload to an application through the InputBox
+/// once every `interval` seconds.
+contract InputBoxPeriodicPusher is AutomationCompatibleInterface {
+    IInputBox public immutable inputBox;
+    address public immutable appContract;
+    uint256 public immutable interval;
+    bytes public payload;
+
+    uint256 public lastTimestamp;
+
+    constructor(address _inputBox, address _appContract, uint256 _interval, bytes memory _payload) {
+        inputBox = IInputBox(_inputBox);
+        appContract = _appContract;
+        interval = _interval;
+        payload = _payload;
+        lastTimestamp = block.timestamp;
+    }
+
+    function checkUpkeep(bytes calldata)
+        external
+        view
+        override
+        returns (bool upkeepNeeded, bytes memory performData)
+    {
+        upkeepNeeded = block.timestamp - lastTimestamp >= interval;
+        return (upkeepNeeded, "");
+    }
+
+    function performUpkeep(bytes calldata) external override {
+        require(block.timestamp - lastTimestamp >= interval, "Too soon");
+        lastTimestamp = block.timestamp;
+        inputBox.addInput(appContract, payload);
+    }
+}
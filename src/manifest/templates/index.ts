@@ -0,0 +1,142 @@
+/**
+ * @fileoverview Built-in deployment templates, usable as `deployment.template` in a manifest.
+ * Each template ships a compiled artifact and describes its constructor parameters,
+ * so that constructor arguments can be validated before anything is deployed.
+ */
+
+import { ethers } from 'ethers';
+import type { LogTopicFilters } from '../../interfaces.js';
+import { isReference } from '../references.js';
+import {
+    CounterArtifact,
+    InputBoxLogForwarderArtifact,
+    InputBoxPeriodicPusherArtifact,
+    type TemplateArtifact,
+} from './artifacts.js';
+
+export type TemplateParamType = 'address' | 'uint256' | 'bytes';
+
+export interface TemplateParam {
+    name: string;
+    type: TemplateParamType;
+    description: string;
+    placeholder: string | number; // Written by `util init --template`
+}
+
+export interface DeploymentTemplate {
+    name: string;
+    description: string;
+    params: TemplateParam[];
+    artifact: TemplateArtifact;
+    // Registration settings suggested by `util init --template`
+    registration: {
+        name: string;
+        gasLimit: number;
+        triggerType: 'custom' | 'log';
+        logEmitterAddress?: string;
+        logEventSignature?: string;
+        logTopicFilters?: LogTopicFilters;
+    };
+}
+
+export const DEPLOYMENT_TEMPLATES: Record<string, DeploymentTemplate> = {
+    'inputbox-log-forwarder': {
+        name: 'inputbox-log-forwarder',
+        description: 'Log-triggered upkeep that forwards every input sent to an application through the InputBox to a target contract',
+        params: [
+            { name: 'inputBox', type: 'address', description: 'The InputBox contract', placeholder: '0xINPUT_BOX_ADDRESS' },
+            { name: 'appContract', type: 'address', description: 'The application whose inputs are forwarded', placeholder: '0xAPP_CONTRACT_ADDRESS' },
+            { name: 'target', type: 'address', description: 'The contract implementing onInput(address,uint256,bytes)', placeholder: '0xTARGET_CONTRACT_ADDRESS' },
+        ],
+        artifact: InputBoxLogForwarderArtifact,
+        registration: {
+            name: 'InputBox Log Forwarder',
+            gasLimit: 300000,
+            triggerType: 'log',
+            logEmitterAddress: '0xINPUT_BOX_ADDRESS',
+            logEventSignature: 'InputAdded(address indexed appContract, uint256 indexed index, bytes input)',
+            logTopicFilters: { appContract: '0xAPP_CONTRACT_ADDRESS' },
+        },
+    },
+    'inputbox-periodic-pusher': {
+        name: 'inputbox-periodic-pusher',
+        description: 'Custom logic upkeep that sends a fixed payload to an application through the InputBox at a fixed interval',
+        params: [
+            { name: 'inputBox', type: 'address', description: 'The InputBox contract', placeholder: '0xINPUT_BOX_ADDRESS' },
+            { name: 'appContract', type: 'address', description: 'The application that receives the inputs', placeholder: '0xAPP_CONTRACT_ADDRESS' },
+            { name: 'interval', type: 'uint256', description: 'Seconds between two inputs', placeholder: 60 },
+            { name: 'payload', type: 'bytes', description: 'The input payload, as a hex string', placeholder: '0x' },
+        ],
+        artifact: InputBoxPeriodicPusherArtifact,
+        registration: {
+            name: 'InputBox Periodic Pusher',
+            gasLimit: 300000,
+            triggerType: 'custom',
+        },
+    },
+    counter: {
+        name: 'counter',
+        description: 'A counter, incremented by increment() or by inputs forwarded from inputbox-log-forwarder',
+        params: [
+            { name: 'initialValue', type: 'uint256', description: 'The starting value', placeholder: 0 },
+        ],
+        artifact: CounterArtifact,
+        registration: {
+            name: 'Counter',
+            gasLimit: 100000,
+            triggerType: 'custom',
+        },
+    },
+};
+
+/**
+ * Returns a built-in deployment template by name.
+ * @throws An error listing the available templates if the name is unknown.
+ */
+export function getDeploymentTemplate(name: string): DeploymentTemplate {
+    const template = DEPLOYMENT_TEMPLATES[name];
+    if (!template) {
+        throw new Error(`Unknown deployment template '${name}'. Available templates: ${Object.keys(DEPLOYMENT_TEMPLATES).join(', ')}`);
+    }
+    return template;
+}
+
+function validateParam(param: TemplateParam, value: unknown, allowReferences: boolean): string | undefined {
+    // References are resolved to addresses before deployment
+    if (allowReferences && typeof value === 'string' && isReference(value)) {
+        return param.type === 'address' ? undefined : 'only address parameters can reference other entries';
+    }
+
+    switch (param.type) {
+        case 'address':
+            return typeof value === 'string' && ethers.utils.isAddress(value) ? undefined : 'must be an address';
+        case 'uint256':
+            if (typeof value === 'number') {
+                return Number.isSafeInteger(value) && value >= 0 ? undefined : 'must be a non-negative integer';
+            }
+            return typeof value === 'string' && /^(\d+|0x[0-9a-fA-F]+)$/.test(value) ? undefined : 'must be a non-negative integer or a decimal/hex string';
+        case 'bytes':
+            return typeof value === 'string' && ethers.utils.isHexString(value) && value.length % 2 === 0 ? undefined : 'must be a hex string';
+    }
+}
+
+/**
+ * Checks constructor arguments against the parameters of a template.
+ * @param allowReferences - Accept manifest references for address parameters, as they are resolved later
+ * @returns One message per invalid argument, empty if the arguments are valid.
+ */
+export function validateTemplateArgs(template: DeploymentTemplate, args: unknown[], allowReferences = false): string[] {
+    if (args.length !== template.params.length) {
+        const expected = template.params.map((param) => `${param.name} (${param.type})`).join(', ');
+        return [`Template '${template.name}' expects ${template.params.length} constructor argument(s): ${expected}; got ${args.length}`];
+    }
+
+    const errors: string[] = [];
+    template.params.forEach((param, i) => {
+        const error = validateParam(param, args[i], allowReferences);
+        if (error) {
+            errors.push(`${param.name}: ${error}`);
+        }
+    });
+    return errors;
+}
@@ -1,6 +1,12 @@
-import { ethers, Signer, Contract, ContractReceipt } from 'ethers';
-import { getAutomationNetworkConfig } from '../core/networks.js';
-import { CreateUpkeepOptions, UpkeepInfo, IAutomationProvider, CreateLogUpkeepOptions } from '../interfaces.js';
+import { ethers, BigNumber, Signer, Contract, ContractReceipt } from 'ethers';
+import { getAutomationNetworkConfig, CronUpkeepFactoryABI, AutomationRegistryMasterV2_1_ABI } from '../core/networks.js';
+import { encodeTopicFilters } from '../core/topics.js';
+import { validateUpkeepLimits } from '../core/limits.js';
+import { CreateUpkeepOptions, UpkeepInfo, IAutomationProvider, CreateLogUpkeepOptions, CreateTimeUpkeepOptions, DryRunCheck, UpdateUpkeepOptions, UpkeepTriggerConfig } from '../interfaces.js';
+
+const NO_CRON_FACTORY_ERROR = (networkName: string) =>
+    `Time-based upkeeps are not supported on ${networkName}: no CronUpkeepFactory address is configured. Set cronUpkeepFactoryAddress to the CronUpkeepFactory deployed on this network.`;
+const TIME_SCHEDULE_CHANGE_ERROR = 'The schedule of a time-based upkeep cannot be changed. Cancel it and register a new upkeep instead.';
 
 // A map of known error selectors to human-readable messages
 const REVERT_SELECTORS: { [key: string]: string } = {
@@ -21,10 +27,16 @@ export class ChainlinkProvider implements IAutomationProvider {
     private _registry: Contract;
     private _registrar: Contract;
     private _networkConfig: ReturnType<typeof getAutomationNetworkConfig>;
+    private _cronUpkeepFactoryAddress?: string;
 
-    constructor(signer: Signer, chainId: number) {
+    /**
+     * @param cronUpkeepFactoryAddress The CronUpkeepFactory time-based upkeeps are deployed through,
+     * in place of the one of the network configuration.
+     */
+    constructor(signer: Signer, chainId: number, cronUpkeepFactoryAddress?: string) {
         this._signer = signer;
         this._networkConfig = getAutomationNetworkConfig(chainId);
+        this._cronUpkeepFactoryAddress = cronUpkeepFactoryAddress ?? this._networkConfig.cronUpkeepFactoryAddress;
 
         const {
             registrarAddress,
@@ -44,23 +56,17 @@ export class ChainlinkProvider implements IAutomationProvider {
         try {
             const fundsInWei = ethers.utils.parseEther(options.initialFunds);
 
+            // Time-based upkeeps are registered as a CronUpkeep that calls the target on schedule
+            const upkeepContract = options.triggerType === 'time'
+                ? await this._deployCronUpkeep(options)
+                : options.upkeepContract;
+
             console.log(`Approving ${options.initialFunds} LINK for the registrar...`);
             const approveTx = await this._linkToken.approve(this._networkConfig.registrarAddress, fundsInWei);
             await approveTx.wait();
             console.log('Approval successful.');
 
-            const registrationParams = {
-                name: options.name,
-                encryptedEmail: options.encryptedEmail || '0x',
-                upkeepContract: options.upkeepContract,
-                gasLimit: options.gasLimit,
-                adminAddress: await this._signer.getAddress(),
-                triggerType: options.triggerType === 'log' ? 1 : 0,
-                checkData: options.checkData || '0x',
-                triggerConfig: this._encodeTriggerConfig(options),
-                offchainConfig: options.offchainConfig || '0x',
-                amount: fundsInWei,
-            };
+            const registrationParams = this._buildRegistrationParams(options, upkeepContract, await this._signer.getAddress());
 
             console.log('Registering upkeep...');
             const registerTx = await this._registrar.registerUpkeep(registrationParams);
@@ -75,6 +81,72 @@ export class ChainlinkProvider implements IAutomationProvider {
         }
     }
 
+    async simulateCreateUpkeep(options: CreateUpkeepOptions): Promise<DryRunCheck[]> {
+        const checks: DryRunCheck[] = [];
+        const { performGasLimit } = this._networkConfig.parameters;
+
+        if (options.gasLimit > performGasLimit) {
+            checks.push({ check: 'gasLimit', status: 'error', message: `${options.gasLimit} exceeds the performGasLimit of ${this._networkConfig.name} (${performGasLimit}).` });
+        } else {
+            checks.push({ check: 'gasLimit', status: 'ok', message: `${options.gasLimit} is within the performGasLimit (${performGasLimit}).` });
+        }
+
+        const admin = await this._signer.getAddress();
+        const fundsInWei = ethers.utils.parseEther(options.initialFunds);
+        let allowanceTooLow = false;
+        try {
+            const balance: BigNumber = await this._linkToken.balanceOf(admin);
+            checks.push(balance.lt(fundsInWei)
+                ? { check: 'LINK balance', status: 'error', message: `${ethers.utils.formatEther(balance)} LINK is not enough for initialFunds of ${options.initialFunds} LINK.` }
+                : { check: 'LINK balance', status: 'ok', message: `${ethers.utils.formatEther(balance)} LINK covers initialFunds of ${options.initialFunds} LINK.` });
+
+            const allowance: BigNumber = await this._linkToken.allowance(admin, this._networkConfig.registrarAddress);
+            allowanceTooLow = allowance.lt(fundsInWei);
+            checks.push({
+                check: 'LINK allowance',
+                status: 'ok',
+                message: allowanceTooLow
+                    ? `The registrar may spend ${ethers.utils.formatEther(allowance)} LINK; ${options.initialFunds} LINK will be approved before registering.`
+                    : `The registrar may already spend ${ethers.utils.formatEther(allowance)} LINK.`,
+            });
+        } catch (error: unknown) {
+            checks.push({ check: 'LINK balance', status: 'error', message: `Could not read the LINK token: ${this._describeContractError(error)}` });
+        }
+
+        if (options.triggerType === 'time') {
+            checks.push(this._cronUpkeepFactoryAddress
+                ? { check: 'registerUpkeep', status: 'warning', message: 'Not simulated: the CronUpkeep it registers is only deployed when applying.' }
+                : { check: 'registerUpkeep', status: 'error', message: NO_CRON_FACTORY_ERROR(this._networkConfig.name) });
+            return checks;
+        }
+        if (!ethers.utils.isAddress(options.upkeepContract)) {
+            checks.push({ check: 'registerUpkeep', status: 'warning', message: 'Not simulated: the upkeep contract is only deployed when applying.' });
+            return checks;
+        }
+
+        try {
+            const params = this._buildRegistrationParams(options, options.upkeepContract, admin);
+            const upkeepId: BigNumber = await this._registrar.callStatic.registerUpkeep(params);
+            checks.push({ check: 'registerUpkeep', status: 'ok', message: `Would register upkeep ${upkeepId.toString()}.` });
+        } catch (error: unknown) {
+            const reason = this._describeContractError(error);
+            checks.push(allowanceTooLow
+                ? { check: 'registerUpkeep', status: 'warning', message: `Reverted, possibly because LINK is not approved yet: ${reason}` }
+                : { check: 'registerUpkeep', status: 'error', message: `Would revert: ${reason}` });
+        }
+        return checks;
+    }
+
+    async simulateUpdateUpkeep(_upkeepId: string, options: UpdateUpkeepOptions): Promise<DryRunCheck[]> {
+        if (options.trigger?.triggerType === 'time') {
+            return [{ check: 'update', status: 'error', message: TIME_SCHEDULE_CHANGE_ERROR }];
+        }
+        const errors = validateUpkeepLimits(options, this._networkConfig.parameters);
+        return errors.length > 0
+            ? errors.map((message) => ({ check: 'limits', status: 'error', message: `${message} (${this._networkConfig.name}).` }))
+            : [{ check: 'limits', status: 'ok', message: `The new settings are within the limits of ${this._networkConfig.name}.` }];
+    }
+
     async getUpkeep(upkeepId: string): Promise<UpkeepInfo> {
         try {
             const upkeepData = await this._registry.getUpkeep(upkeepId);
@@ -91,6 +163,37 @@ export class ChainlinkProvider implements IAutomationProvider {
         }
     }
 
+    async updateUpkeep(upkeepId: string, options: UpdateUpkeepOptions): Promise<void> {
+        try {
+            // The setters live in the registry's logic contracts, reached through the registry address
+            const registry = new ethers.Contract(this._networkConfig.registryAddress, AutomationRegistryMasterV2_1_ABI, this._signer);
+
+            if (options.trigger?.triggerType === 'time') {
+                throw new Error(TIME_SCHEDULE_CHANGE_ERROR);
+            }
+
+            if (options.gasLimit !== undefined) {
+                console.log(`Setting gas limit of upkeep ${upkeepId} to ${options.gasLimit}...`);
+                await (await registry.setUpkeepGasLimit(upkeepId, options.gasLimit)).wait();
+            }
+            if (options.checkData !== undefined) {
+                console.log(`Setting check data of upkeep ${upkeepId}...`);
+                await (await registry.setUpkeepCheckData(upkeepId, options.checkData)).wait();
+            }
+            if (options.offchainConfig !== undefined) {
+                console.log(`Setting offchain config of upkeep ${upkeepId}...`);
+                await (await registry.setUpkeepOffchainConfig(upkeepId, options.offchainConfig)).wait();
+            }
+            if (options.trigger) {
+                console.log(`Setting trigger config of upkeep ${upkeepId}...`);
+                await (await registry.setUpkeepTriggerConfig(upkeepId, this._encodeTriggerConfig(options.trigger))).wait();
+            }
+            console.log('✅ Upkeep updated.');
+        } catch (_error: unknown) {
+            this._handleContractError(_error, 'updateUpkeep');
+        }
+    }
+
     async addFunds(upkeepId: string, amount: string): Promise<void> {
         try {
             const amountInWei = ethers.utils.parseEther(amount);
@@ -143,25 +246,61 @@ export class ChainlinkProvider implements IAutomationProvider {
         }
     }
 
-    private _encodeTriggerConfig(options: CreateUpkeepOptions): string {
-        if (options.triggerType === 'custom') {
-            return '0x';
+    private async _deployCronUpkeep(options: CreateTimeUpkeepOptions): Promise<string> {
+        const factoryAddress = this._cronUpkeepFactoryAddress;
+        if (!factoryAddress) {
+            throw new Error(NO_CRON_FACTORY_ERROR(this._networkConfig.name));
         }
+        const cronFactory = new ethers.Contract(factoryAddress, CronUpkeepFactoryABI, this._signer);
+
+        const handler = new ethers.utils.Interface(['function performUpkeep(bytes calldata performData)'])
+            .encodeFunctionData('performUpkeep', [options.performData || '0x']);
+        const encodedJob = await cronFactory.encodeCronJob(options.upkeepContract, handler, options.cronExpression);
 
-        const logOptions = options as CreateLogUpkeepOptions;
-        const topic0 = ethers.utils.id(logOptions.logEventSignature);
-        let filterSelector = 0;
-        const topics: (string | null)[] = [null, null, null];
+        console.log(`Deploying CronUpkeep for schedule "${options.cronExpression}"...`);
+        const tx = await cronFactory.newCronUpkeepWithJob(encodedJob);
+        const receipt: ContractReceipt = await tx.wait();
 
-        if (logOptions.logTopicFilters) {
-            for (let i = 0; i < 3; i++) {
-                if (logOptions.logTopicFilters[i]) {
-                    filterSelector |= (1 << i);
-                    topics[i] = ethers.utils.hexZeroPad(logOptions.logTopicFilters[i]!, 32);
+        for (const log of receipt.logs) {
+            if (log.address !== cronFactory.address) continue;
+            try {
+                const parsedLog = cronFactory.interface.parseLog(log);
+                if (parsedLog.name === 'NewCronUpkeepCreated') {
+                    console.log(`CronUpkeep deployed at ${parsedLog.args.upkeep}.`);
+                    return parsedLog.args.upkeep;
                 }
+            } catch {
+                // Not a factory event, ignore
             }
         }
-        
+        throw new Error('Could not find the NewCronUpkeepCreated event in the transaction receipt.');
+    }
+
+    private _buildRegistrationParams(options: CreateUpkeepOptions, upkeepContract: string, adminAddress: string) {
+        return {
+            name: options.name,
+            encryptedEmail: options.encryptedEmail || '0x',
+            upkeepContract,
+            gasLimit: options.gasLimit,
+            adminAddress,
+            triggerType: options.triggerType === 'log' ? 1 : 0,
+            checkData: options.checkData || '0x',
+            triggerConfig: this._encodeTriggerConfig(options),
+            offchainConfig: options.offchainConfig || '0x',
+            amount: ethers.utils.parseEther(options.initialFunds),
+        };
+    }
+
+    private _encodeTriggerConfig(options: CreateUpkeepOptions | UpkeepTriggerConfig): string {
+        if (options.triggerType !== 'log') {
+            return '0x';
+        }
+
+        const logOptions = options as Pick<CreateLogUpkeepOptions, 'logEmitterAddress' | 'logEventSignature' | 'logEventAbi' | 'logTopicFilters'>;
+        const { topic0, topics } = encodeTopicFilters(logOptions);
+        // Bit i is set when topic i + 1 is filtered on
+        const filterSelector = topics.reduce((selector, topic, i) => (topic ? selector | (1 << i) : selector), 0);
+
         return ethers.utils.defaultAbiCoder.encode(
             ['address', 'uint8', 'bytes32', 'bytes32', 'bytes32', 'bytes32'],
             [
@@ -219,26 +358,27 @@ export class ChainlinkProvider implements IAutomationProvider {
         return undefined;
     }
       
-    private _handleContractError(error: unknown, context: string): never {
-    // Map known revert selectors first
-    const selector = this._findRevertData(error);
-    if (selector && REVERT_SELECTORS[selector]) {
-        throw new Error(`Error during ${context}: ${REVERT_SELECTORS[selector]}`);
-    }
-    
-    // Fallbacks: reason → message → generic
-    if (error && typeof error === 'object') {
-        const err = error as Record<string, unknown>;
-        const reason = err.reason;
-        if (typeof reason === 'string') {
-        throw new Error(`Error during ${context}: ${reason}`);
+    private _describeContractError(error: unknown): string {
+        // Map known revert selectors first
+        const selector = this._findRevertData(error);
+        if (selector && REVERT_SELECTORS[selector]) {
+            return REVERT_SELECTORS[selector];
         }
-        const message = err.message;
-        if (typeof message === 'string') {
-        throw new Error(`Error during ${context}: ${message}`);
+
+        // Fallbacks: reason → message → generic
+        if (error && typeof error === 'object') {
+            const err = error as Record<string, unknown>;
+            if (typeof err.reason === 'string') {
+                return err.reason;
+            }
+            if (typeof err.message === 'string') {
+                return err.message;
+            }
         }
+        return 'An unknown error occurred';
     }
-    
-    throw new Error(`Error during ${context}: An unknown error occurred`);
+
+    private _handleContractError(error: unknown, context: string): never {
+        throw new Error(`Error during ${context}: ${this._describeContractError(error)}`);
     }
-} 
\ No newline at end of file
+}
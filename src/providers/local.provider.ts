@@ -1,11 +1,50 @@
 import axios from 'axios';
-import { CreateUpkeepOptions, IAutomationProvider, UpkeepInfo } from '../interfaces.js';
+import { Signer } from 'ethers';
+import type { Readable } from 'stream';
+import {
+    CreateUpkeepOptions,
+    DryRunCheck,
+    EventSubscription,
+    ExecutionHistoryPage,
+    IAutomationProvider,
+    SimulatorEvent,
+    SubscribeOptions,
+    TickSummary,
+    UpdateUpkeepOptions,
+    UpkeepInfo,
+} from '../interfaces.js';
+import { validateUpkeepLimits, type ExecutionLimits } from '../core/limits.js';
 
-const SIMULATOR_BASE_URL = process.env.SIMULATOR_BASE_URL || 'http://localhost:7788';
+const DEFAULT_SIMULATOR_URL = 'http://localhost:7788';
+const DEFAULT_WAIT_FOR_PERFORM_TIMEOUT_MS = 60_000;
+
+// The data of a Server-Sent Events frame, undefined for comments such as keep-alives
+function parseEventData(frame: string): string | undefined {
+    const lines = frame.split('\n').filter((line) => line.startsWith('data:'));
+    return lines.length > 0 ? lines.map((line) => line.slice(5).trimStart()).join('\n') : undefined;
+}
+
+// The fields of `GET /upkeeps` entries the provider reads
+interface SimulatedUpkeepSummary {
+    id: string;
+    target: string;
+    triggerType: CreateUpkeepOptions['triggerType'];
+}
 
 export class LocalProvider implements IAutomationProvider {
+    private _signer?: Signer;
+    private _baseUrl: string;
+    private _headers: Record<string, string>; // Carry the bearer token, if any
 
-    constructor() {
+    /**
+     * @param simulatorUrl - Base URL of the simulator; defaults to the SIMULATOR_BASE_URL environment variable, then http://localhost:7788
+     * @param authToken - Bearer token of a simulator started with `--auth`; defaults to the SIMULATOR_AUTH_TOKEN environment variable
+     */
+    constructor(signer?: Signer, simulatorUrl?: string, authToken?: string) {
+        this._signer = signer;
+        this._baseUrl = (simulatorUrl || process.env.SIMULATOR_BASE_URL || DEFAULT_SIMULATOR_URL).replace(/\/+$/, '');
+        const token = authToken || process.env.SIMULATOR_AUTH_TOKEN;
+        this._headers = token ? { Authorization: `Bearer ${token}` } : {};
         // Check if the simulator is alive on startup
         this.getStatus().catch(err => {
             console.error('[LocalProvider] Could not connect to the local simulator service. Is it running?', err);
@@ -13,9 +52,9 @@ export class LocalProvider implements IAutomationProvider {
         });
     }
 
-    private async getStatus(): Promise<{ status: string }> {
+    private async getStatus(): Promise<{ status: string; limits?: ExecutionLimits }> {
         try {
-            const response = await axios.get(`${SIMULATOR_BASE_URL}/status`);
+            const response = await axios.get(`${this._baseUrl}/status`, { headers: this._headers });
             return response.data;
         } catch (err: unknown) {
             console.error(`[LocalProvider] Could not connect to the local simulator service. Is it running?`, err);
@@ -25,43 +64,246 @@ export class LocalProvider implements IAutomationProvider {
 
     async createUpkeep(options: CreateUpkeepOptions): Promise<{ upkeepId: string }> {
         console.log(`[LocalProvider] Registering upkeep '${options.name}' with local simulator...`);
-        await axios.post(`${SIMULATOR_BASE_URL}/register`, options);
-        console.log(`[LocalProvider] Upkeep '${options.name}' registered successfully.`);
-        // For local simulation, the "upkeepId" is simply the contract address
-        return { upkeepId: options.upkeepContract };
+        // The signer becomes the upkeep admin, like in the on-chain registry
+        const payload = this._signer
+            ? { ...options, adminAddress: await this._signer.getAddress() }
+            : options;
+        const { data } = await axios.post(`${this._baseUrl}/register`, payload, { headers: this._headers });
+        console.log(`[LocalProvider] Upkeep '${options.name}' registered successfully. Upkeep ID: ${data.upkeepId}`);
+        // A uint256 derived like the registry's, so that IDs look the same in both modes
+        return { upkeepId: data.upkeepId };
+    }
+
+    async simulateCreateUpkeep(options: CreateUpkeepOptions): Promise<DryRunCheck[]> {
+        const { status } = await this.getStatus();
+        if (status !== 'ok') {
+            return [{ check: 'simulator', status: 'error', message: `The local simulator is not reachable at ${this._baseUrl}.` }];
+        }
+        const checks: DryRunCheck[] = [{ check: 'simulator', status: 'ok', message: `The local simulator is running at ${this._baseUrl}.` }];
+
+        // A contract may have several upkeeps, but the same one twice is most likely a mistake
+        try {
+            const { data } = await axios.get(`${this._baseUrl}/upkeeps`, { headers: this._headers });
+            const duplicates = (data.upkeeps as SimulatedUpkeepSummary[]).filter((upkeep) =>
+                upkeep.target.toLowerCase() === options.upkeepContract.toLowerCase() && upkeep.triggerType === options.triggerType);
+            checks.push(duplicates.length === 0
+                ? { check: 'register', status: 'ok', message: `Would register '${options.name}' (${options.triggerType}).` }
+                : { check: 'register', status: 'warning', message: `Contract ${options.upkeepContract} already has ${options.triggerType} upkeep(s) ${duplicates.map((upkeep) => upkeep.id).join(', ')}; registering adds another.` });
+        } catch (_error: unknown) {
+            checks.push({ check: 'register', status: 'warning', message: `Could not check existing upkeeps: ${_error instanceof Error ? _error.message : String(_error)}` });
+        }
+        return checks;
+    }
+
+    async simulateUpdateUpkeep(_upkeepId: string, options: UpdateUpkeepOptions): Promise<DryRunCheck[]> {
+        const { status, limits } = await this.getStatus();
+        if (status !== 'ok' || !limits) {
+            return [{ check: 'simulator', status: 'error', message: `The local simulator is not reachable at ${this._baseUrl}.` }];
+        }
+        const errors = validateUpkeepLimits(options, limits);
+        return errors.length > 0
+            ? errors.map((message) => ({ check: 'limits', status: 'error', message: `${message} (enforced by the simulator).` }))
+            : [{ check: 'limits', status: 'ok', message: 'The new settings are within the limits enforced by the simulator.' }];
     }
 
     async cancelUpkeep(upkeepId: string): Promise<void> {
         console.log(`[LocalProvider] Unregistering upkeep '${upkeepId}' from local simulator...`);
-        await axios.post(`${SIMULATOR_BASE_URL}/unregister`, { upkeepContract: upkeepId });
+        await axios.post(`${this._baseUrl}/unregister`, { upkeepId }, { headers: this._headers });
         console.log(`[LocalProvider] Upkeep '${upkeepId}' unregistered successfully.`);
     }
 
-    async getUpkeep(_upkeepId: string): Promise<UpkeepInfo> {
-        console.warn(`[LocalProvider] getUpkeep() does not return real on-chain data in local mode.`);
-        // Return a mock object, as there's no real on-chain registry to query
-        return {
-            target: _upkeepId,
-            admin: '0x0000000000000000000000000000000000000000', // Mock data
-            balance: '0',
-            gasLimit: 0,
-            isPaused: false,
-            performData: '0x',
+    async getUpkeep(upkeepId: string): Promise<UpkeepInfo> {
+        try {
+            const { data } = await axios.get(`${this._baseUrl}/upkeeps/${upkeepId}`, { headers: this._headers });
+            return {
+                target: data.target,
+                admin: data.admin,
+                balance: data.balance,
+                gasLimit: data.gasLimit,
+                isPaused: data.isPaused,
+                performData: data.performData,
+            };
+        } catch (_error: unknown) {
+            this._handleRequestError(_error, 'getUpkeep');
+        }
+    }
+
+    /**
+     * Reads the recent executions of an upkeep from the simulator, most recent first.
+     */
+    async getUpkeepHistory(upkeepId: string, paging: { offset?: number; limit?: number } = {}): Promise<ExecutionHistoryPage> {
+        try {
+            const { data } = await axios.get(`${this._baseUrl}/upkeeps/${upkeepId}/history`, { headers: this._headers, params: paging });
+            return data;
+        } catch (_error: unknown) {
+            this._handleRequestError(_error, 'getUpkeepHistory');
+        }
+    }
+
+    /**
+     * Runs every due check and perform of a simulator started in manual-tick mode.
+     * @returns What ran, once every perform was mined.
+     */
+    async tick(): Promise<TickSummary> {
+        try {
+            const { data } = await axios.post(`${this._baseUrl}/tick`, undefined, { headers: this._headers });
+            return data;
+        } catch (_error: unknown) {
+            this._handleRequestError(_error, 'tick');
+        }
+    }
+
+    /**
+     * Streams the simulator's events to `listener` (registrations, checks and performs), from `GET /events`.
+     * @returns The subscription once the simulator accepted it: every event emitted from then on is received.
+     */
+    async subscribe(listener: (event: SimulatorEvent) => void, options: SubscribeOptions = {}): Promise<EventSubscription> {
+        const { upkeepId, types, since, onError } = options;
+        const controller = new AbortController();
+        let stream: Readable;
+        try {
+            const { data } = await axios.get(`${this._baseUrl}/events`, {
+                headers: since === undefined ? this._headers : { ...this._headers, 'Last-Event-ID': String(since) },
+                params: { upkeepId, types: types?.join(',') },
+                responseType: 'stream',
+                signal: controller.signal,
+            });
+            stream = data;
+        } catch (_error: unknown) {
+            this._handleRequestError(_error, 'subscribe');
+        }
+
+        let closed = false;
+        const close = () => {
+            closed = true;
+            controller.abort();
+            stream.destroy();
+        };
+        const fail = (error: Error) => {
+            if (!closed) {
+                close();
+                onError?.(error);
+            }
         };
+
+        let buffer = '';
+        stream.setEncoding('utf8');
+        stream.on('data', (chunk: string) => {
+            buffer += chunk;
+            for (let end = buffer.indexOf('\n\n'); end >= 0 && !closed; end = buffer.indexOf('\n\n')) {
+                const data = parseEventData(buffer.slice(0, end));
+                buffer = buffer.slice(end + 2);
+                let event: SimulatorEvent | undefined;
+                try {
+                    event = data === undefined ? undefined : JSON.parse(data);
+                } catch (_error: unknown) {
+                    fail(new Error(`Invalid event from the simulator: ${data}`));
+                }
+                if (event) {
+                    try {
+                        listener(event);
+                    } catch (error: unknown) {
+                        fail(error instanceof Error ? error : new Error(String(error)));
+                    }
+                }
+            }
+        });
+        stream.on('error', (error: Error) => fail(error));
+        stream.on('end', () => fail(new Error('The simulator closed the event stream.')));
+        return { close };
     }
 
-    async addFunds(_upkeepId: string, _amount: string): Promise<void> {
-        console.log(`[LocalProvider] addFunds() is a no-op in local mode. Funding is not required.`);
-        return Promise.resolve();
+    /**
+     * Waits for the next perform of an upkeep to be mined: the first one after the event with id `since`,
+     * or else after the simulator's latest event when the call reaches it.
+     * @returns Its `perform-confirmed` event.
+     * @throws An error if the perform reverts or is skipped, or if none is mined within `timeoutMs`.
+     */
+    async waitForPerform(upkeepId: string, timeoutMs = DEFAULT_WAIT_FOR_PERFORM_TIMEOUT_MS, since?: number): Promise<SimulatorEvent> {
+        // The kept events after that one are replayed, so that a perform done while subscribing is not missed
+        if (since === undefined) {
+            try {
+                const { data } = await axios.get(`${this._baseUrl}/status`, { headers: this._headers });
+                since = (data as { lastEventId: number }).lastEventId;
+            } catch (_error: unknown) {
+                this._handleRequestError(_error, 'waitForPerform');
+            }
+        }
+        let settled = false;
+        let subscription: EventSubscription | undefined;
+        let timer: NodeJS.Timeout | undefined;
+        try {
+            return await new Promise<SimulatorEvent>((resolve, reject) => {
+                timer = setTimeout(() => reject(new Error(`Upkeep '${upkeepId}' did not perform within ${timeoutMs}ms.`)), timeoutMs);
+                const onEvent = (event: SimulatorEvent) => {
+                    if (event.type === 'perform-confirmed') {
+                        resolve(event);
+                    } else {
+                        reject(new Error(`Perform of upkeep '${upkeepId}' failed: ${event.error}`));
+                    }
+                };
+                this.subscribe(onEvent, { upkeepId, types: ['perform-confirmed', 'perform-failed'], since, onError: reject }).then((opened) => {
+                    subscription = opened;
+                    // Settled (e.g. timed out) while subscribing
+                    if (settled) {
+                        opened.close();
+                    }
+                }, reject);
+            });
+        } finally {
+            settled = true;
+            clearTimeout(timer);
+            subscription?.close();
+        }
     }
 
-    async pauseUpkeep(_upkeepId: string): Promise<void> {
-        console.warn(`[LocalProvider] pauseUpkeep() is not applicable in local mode. Use cancelUpkeep() instead.`);
-        return Promise.resolve();
+    async updateUpkeep(upkeepId: string, options: UpdateUpkeepOptions): Promise<void> {
+        try {
+            console.log(`[LocalProvider] Updating upkeep '${upkeepId}'...`);
+            await axios.post(`${this._baseUrl}/upkeeps/${upkeepId}/update`, options, { headers: this._headers });
+            console.log(`[LocalProvider] Upkeep updated.`);
+        } catch (_error: unknown) {
+            this._handleRequestError(_error, 'updateUpkeep');
+        }
     }
 
-    async unpauseUpkeep(_upkeepId: string): Promise<void> {
-        console.warn(`[LocalProvider] unpauseUpkeep() is not applicable in local mode.`);
-        return Promise.resolve();
+    async addFunds(upkeepId: string, amount: string): Promise<void> {
+        try {
+            console.log(`[LocalProvider] Adding ${amount} simulated LINK to upkeep '${upkeepId}'...`);
+            await axios.post(`${this._baseUrl}/upkeeps/${upkeepId}/fund`, { amount }, { headers: this._headers });
+            console.log(`[LocalProvider] Funds added successfully.`);
+        } catch (_error: unknown) {
+            this._handleRequestError(_error, 'addFunds');
+        }
+    }
+
+    async pauseUpkeep(upkeepId: string): Promise<void> {
+        try {
+            console.log(`[LocalProvider] Pausing upkeep '${upkeepId}'...`);
+            await axios.post(`${this._baseUrl}/upkeeps/${upkeepId}/pause`, undefined, { headers: this._headers });
+            console.log(`[LocalProvider] Upkeep paused.`);
+        } catch (_error: unknown) {
+            this._handleRequestError(_error, 'pauseUpkeep');
+        }
+    }
+
+    async unpauseUpkeep(upkeepId: string): Promise<void> {
+        try {
+            console.log(`[LocalProvider] Unpausing upkeep '${upkeepId}'...`);
+            await axios.post(`${this._baseUrl}/upkeeps/${upkeepId}/unpause`, undefined, { headers: this._headers });
+            console.log(`[LocalProvider] Upkeep unpaused and is now active.`);
+        } catch (_error: unknown) {
+            this._handleRequestError(_error, 'unpauseUpkeep');
+        }
+    }
+
+    private _handleRequestError(error: unknown, context: string): never {
+        // Prefer the simulator's own error message when it answered
+        const response = (error as { response?: { data?: { message?: unknown } } } | null)?.response;
+        if (typeof response?.data?.message === 'string') {
+            throw new Error(`Error during ${context}: ${response.data.message}`);
+        }
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`Error during ${context}: ${message}`);
     }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,122 @@
+import crypto from 'crypto';
+import type express from 'express';
+
+/**
+ * Generates a random bearer token for the simulator's API.
+ */
+export function generateAuthToken(): string {
+    return crypto.randomBytes(32).toString('hex');
+}
+
+// Compares digests, so that neither the length nor the content of the token leaks through timing
+function sameToken(provided: string, expected: string): boolean {
+    const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+    return crypto.timingSafeEqual(digest(provided), digest(expected));
+}
+
+/**
+ * Refuses requests without the bearer token with a 401. The token is read from the Authorization
+ * header, or from the `token` query parameter of requests `acceptsQueryToken` matches: browsers
+ * cannot set headers on an EventSource.
+ * @param isPublic - Requests served without the token
+ */
+export function requireBearerToken(
+    token: string,
+    isPublic: (req: express.Request) => boolean,
+    acceptsQueryToken: (req: express.Request) => boolean,
+): express.RequestHandler {
+    return (req, res, next) => {
+        if (isPublic(req)) {
+            return next();
+        }
+        const fromHeader = /^Bearer\s+(\S+)$/i.exec(req.get('authorization') ?? '')?.[1];
+        const fromQuery = acceptsQueryToken(req) && typeof req.query.token === 'string' ? req.query.token : undefined;
+        const provided = fromHeader ?? fromQuery;
+        if (provided === undefined || !sameToken(provided, token)) {
+            res.status(401).set('WWW-Authenticate', 'Bearer').json({ message: 'Missing or invalid bearer token' });
+            return;
+        }
+        next();
+    };
+}
+
+// The names the simulator is reached at from its own machine
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+// The loopback names and, unless it listens on every interface, the address the simulator is bound to
+function ownHostNames(boundHost: string): Set<string> {
+    const hosts = new Set(LOOPBACK_HOSTS);
+    if (boundHost !== '0.0.0.0' && boundHost !== '::') {
+        hosts.add(boundHost.includes(':') ? `[${boundHost}]` : boundHost);
+    }
+    return hosts;
+}
+
+/**
+ * Refuses requests whose Host header names neither a loopback address, `boundHost`, nor the IP address
+ * the request was received on, with a 403. Used when no token is required: a page whose DNS name is
+ * rebound to the simulator sends no Origin header with its same-origin requests, but its own name as Host.
+ * @param boundHost - The address the simulator listens on
+ */
+export function requireOwnHost(boundHost: string): express.RequestHandler {
+    const ownHosts = ownHostNames(boundHost);
+    return (req, res, next) => {
+        const host = req.get('host');
+        if (host === undefined) {
+            // Browsers always send one
+            return next();
+        }
+        const localAddress = (req.socket.localAddress ?? '').replace(/^::ffff:/, '');
+        let hostname: string | undefined;
+        try {
+            hostname = new URL(`http://${host}`).hostname;
+        } catch {
+            // Refused below
+        }
+        if (hostname && (ownHosts.has(hostname) || hostname === (localAddress.includes(':') ? `[${localAddress}]` : localAddress))) {
+            return next();
+        }
+        res.status(403).json({ message: `Requests for host ${host} are not allowed: reach the simulator at localhost or its bound address, or start it with --auth` });
+    };
+}
+
+/**
+ * Lets browsers call the API from the given origins ('*' for any), answering their preflight requests.
+ * Requests from other origins are refused with a 403, so that a web page cannot make the simulator
+ * act through requests a browser sends without asking. Requests of the dashboard, served from a
+ * loopback address or `boundHost` on the simulator's port, are always accepted. The Host header is
+ * not trusted for this: a page rebinding its DNS name to the simulator sends its own.
+ * @param boundHost - The address the simulator listens on
+ */
+export function allowOrigins(origins: string[], boundHost: string): express.RequestHandler {
+    const anyOrigin = origins.includes('*');
+    const ownHosts = ownHostNames(boundHost);
+    const isOwnOrigin = (origin: string, req: express.Request) => {
+        try {
+            const url = new URL(origin);
+            const port = Number(url.port || (url.protocol === 'https:' ? 443 : 80));
+            return url.protocol === `${req.protocol}:` && ownHosts.has(url.hostname) && port === req.socket.localPort;
+        } catch {
+            return false;
+        }
+    };
+    return (req, res, next) => {
+        const origin = req.get('origin');
+        if (!origin || isOwnOrigin(origin, req)) {
+            return next();
+        }
+        if (!anyOrigin && !origins.includes(origin)) {
+            res.status(403).json({ message: `Requests from origin ${origin} are not allowed by the simulator's CORS settings` });
+            return;
+        }
+        res.set('Access-Control-Allow-Origin', anyOrigin ? '*' : origin).vary('Origin');
+        if (req.method === 'OPTIONS') {
+            res.set('Access-Control-Allow-Methods', 'GET, POST')
+                .set('Access-Control-Allow-Headers', 'Authorization, Content-Type, Last-Event-ID')
+                .set('Access-Control-Max-Age', '600')
+                .sendStatus(204);
+            return;
+        }
+        next();
+    };
+}
@@ -0,0 +1,70 @@
+import { BigNumber, ethers } from 'ethers';
+import { AutomationNetworkConfig, getAutomationNetworkConfig } from '../core/networks.js';
+
+/**
+ * Default price of 1 LINK expressed in the native token (e.g. ETH per LINK).
+ */
+export const DEFAULT_LINK_NATIVE_PRICE = '0.005';
+
+// Chainlink bills a fixed gas overhead on top of the perform's own gas usage
+const PERFORM_GAS_OVERHEAD = 80_000;
+
+const JUELS_PER_MICRO_LINK = BigNumber.from(10).pow(12);
+
+/**
+ * Options that enable simulated LINK billing in the simulator.
+ */
+export interface BillingOptions {
+    chainId: number; // The network whose fee parameters are simulated
+    linkNativePrice?: string; // Native tokens per LINK, defaults to DEFAULT_LINK_NATIVE_PRICE
+}
+
+/**
+ * Computes simulated Chainlink Automation fees, in juels (1e-18 LINK), using the
+ * fee parameters of a supported network from `networks.ts`.
+ */
+export class LinkBilling {
+    private _parameters: AutomationNetworkConfig['parameters'];
+    private _networkName: string;
+    private _linkNativePrice: BigNumber;
+
+    constructor(options: BillingOptions) {
+        const networkConfig = getAutomationNetworkConfig(options.chainId);
+        this._parameters = networkConfig.parameters;
+        this._networkName = networkConfig.name;
+        this._linkNativePrice = ethers.utils.parseEther(options.linkNativePrice || DEFAULT_LINK_NATIVE_PRICE);
+        if (this._linkNativePrice.lte(0)) {
+            throw new Error('The LINK/native price must be greater than zero.');
+        }
+    }
+
+    public get networkName(): string {
+        return this._networkName;
+    }
+
+    /**
+     * The minimum balance an upkeep must keep to be performed.
+     */
+    public get minBalance(): BigNumber {
+        return ethers.utils.parseEther(String(this._parameters.minUpkeepSpendLink));
+    }
+
+    /**
+     * Calculates the fee charged for a perform.
+     * fee = (gasUsed + overhead) * gasPrice * (1 + premium) / linkNativePrice + flatFee
+     */
+    public calculateFee(gasUsed: BigNumber, gasPrice: BigNumber): BigNumber {
+        // networks.ts stores the premium as a percentage (e.g. 20 means 20%)
+        const premiumPercent = Math.round(this._parameters.paymentPremiumPPB);
+        const nativeCost = gasUsed.add(PERFORM_GAS_OVERHEAD).mul(gasPrice).mul(100 + premiumPercent).div(100);
+        const flatFee = JUELS_PER_MICRO_LINK.mul(this._parameters.flatFeeMicroLink ?? 0);
+        return nativeCost.mul(ethers.constants.WeiPerEther).div(this._linkNativePrice).add(flatFee);
+    }
+
+    /**
+     * The largest fee a perform could cost, used to check funding before sending it.
+     */
+    public calculateMaxFee(gasLimit: number, gasPrice: BigNumber): BigNumber {
+        return this.calculateFee(BigNumber.from(gasLimit), gasPrice.mul(this._parameters.gasCeilingMultiplier));
+    }
+}
@@ -0,0 +1,114 @@
+// Generated from ./contracts with solc 0.8.24 (optimizer enabled, 200 runs, evmVersion paris).
+// Do not edit by hand: recompile the contracts and regenerate this file instead.
+
+export interface ChainlinkArtifact {
+    abi: string[];
+    bytecode: string;
+}
+
+export const LocalLinkTokenArtifact: ChainlinkArtifact = {
+    abi: [
+        'constructor()',
+        'event Approval(address indexed owner, address indexed spender, uint256 value)',
+        'event Transfer(address indexed from, address indexed to, uint256 value)',
+        'function allowance(address, address) view returns (uint256)',
+        'function approve(address spender, uint256 value) returns (bool success)',
+        'function balanceOf(address) view returns (uint256)',
+        'function decimals() view returns (uint8)',
+        'function decreaseApproval(address spender, uint256 subtractedValue) returns (bool success)',
+        'function increaseApproval(address spender, uint256 addedValue)',
+        'function name() view returns (string)',
+        'function symbol() view returns (string)',
+        'function totalSupply() view returns (uint256)',
+        'function transfer(address to, uint256 value) returns (bool success)',
+        'function transferAndCall(address to, uint256 value, bytes data) returns (bool success)',
+        'function transferFrom(address from, address to, uint256 value) returns (bool success)',
+    ],
+    bytecode:
+        '0x608060405234801561001057600080fd5b50336000818152602081815260408083206b033b2e3c9fd0803ce80000009081905590519081527fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef910160405180910390a361086c806100716000396000f3fe608060405234801561001057600080fd5b50600436106100b45760003560e01c80636618846311610071578063661884631461018157806370a082311461019457806395d89b41146101b4578063a9059cbb146101d7578063d73dd623146101ea578063dd62ed3e146101ff57600080fd5b806306fdde03146100b9578063095ea7b3146100fd57806318160ddd1461012057806323b872dd14610141578063313ce567146101545780634000aea01461016e575b600080fd5b6100e76040518060400160405280600f81526020016e21b430b4b72634b735902a37b5b2b760891b81525081565b6040516100f49190610605565b60405180910390f35b61011061010b366004610670565b61022a565b60405190151581526020016100f4565b6101336b033b2e3c9fd0803ce800000081565b6040519081526020016100f4565b61011061014f36600461069a565b610241565b61015c601281565b60405160ff90911681526020016100f4565b61011061017c3660046106d6565b610308565b61011061018f366004610670565b610394565b6101336101a236600461075d565b60006020819052908152604090205481565b6100e7604051806040016040528060048152602001634c494e4b60e01b81525081565b6101106101e5366004610670565b6103e6565b6101fd6101f8366004610670565b6103f3565b005b61013361020d36600461077f565b600160209081526000928352604080842090915290825290205481565b600061023733848461042d565b5060015b92915050565b6001600160a01b0383166000908152600160209081526040808320338452909152812054828110156102ba5760405162461bcd60e51b815260206004820152601c60248201527f4c494e4b3a20696e73756666696369656e7420616c6c6f77616e63650000000060448201526064015b60405180910390fd5b60001981146102f2576102cd83826107c8565b6001600160a01b03861660009081526001602090815260408083203384529091529020555b6102fd85858561048f565b506001949350505050565b600061031485856103e6565b506001600160a01b0385163b156102fd57604051635260769b60e11b81526001600160a01b0386169063a4c0ed36906103579033908890889088906004016107db565b600060405180830381600087803b15801561037157600080fd5b505af1158015610385573d6000803e3d6000fd5b50505050506001949350505050565b3360008181526001602090815260408083206001600160a01b038716845290915281205490916103dc90858386116103d5576103d086856107c8565b61042d565b600061042d565b5060019392505050565b600061023733848461048f565b3360008181526001602090815260408083206001600160a01b0387168452909152902054610429919084906103d0908590610823565b5050565b6001600160a01b0383811660008181526001602090815260408083209487168084529482529182902085905590518481527f8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b92591015b60405180910390a3505050565b6001600160a01b038216158015906104b057506001600160a01b0382163014155b6104fc5760405162461bcd60e51b815260206004820152601760248201527f4c494e4b3a20696e76616c696420726563697069656e7400000000000000000060448201526064016102b1565b6001600160a01b0383166000908152602081905260409020548111156105645760405162461bcd60e51b815260206004820152601a60248201527f4c494e4b3a20696e73756666696369656e742062616c616e636500000000000060448201526064016102b1565b6001600160a01b0383166000908152602081905260408120805483929061058c9084906107c8565b90915550506001600160a01b038216600090815260208190526040812080548392906105b9908490610823565b92505081905550816001600160a01b0316836001600160a01b03167fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef8360405161048291815260200190565b60006020808352835180602085015260005b8181101561063357858101830151858201604001528201610617565b506000604082860101526040601f19601f8301168501019250505092915050565b80356001600160a01b038116811461066b57600080fd5b919050565b6000806040838503121561068357600080fd5b61068c83610654565b946020939093013593505050565b6000806000606084860312156106af57600080fd5b6106b884610654565b92506106c660208501610654565b9150604084013590509250925092565b600080600080606085870312156106ec57600080fd5b6106f585610654565b935060208501359250604085013567ffffffffffffffff8082111561071957600080fd5b818701915087601f83011261072d57600080fd5b81358181111561073c57600080fd5b88602082850101111561074e57600080fd5b95989497505060200194505050565b60006020828403121561076f57600080fd5b61077882610654565b9392505050565b6000806040838503121561079257600080fd5b61079b83610654565b91506107a960208401610654565b90509250929050565b634e487b7160e01b600052601160045260246000fd5b8181038181111561023b5761023b6107b2565b6001600160a01b0385168152602081018490526060604082018190528101829052818360808301376000818301608090810191909152601f909201601f191601019392505050565b8082018082111561023b5761023b6107b256fea2646970667358221220c743cdbbb1d84fdfce53481f8e7120880568b8eb47797df6978c6092333452ae64736f6c63430008180033',
+};
+
+export const LocalAutomationRegistryArtifact: ChainlinkArtifact = {
+    abi: [
+        'constructor(address link, uint256 linkNativePrice, uint32 _checkGasLimit, uint32 _performGasLimit, uint32 _maxCheckDataSize, uint32 _maxPerformDataSize, address[] nodes)',
+        'error CheckDataExceedsLimit()',
+        'error GasLimitOutsideRange()',
+        'error InsufficientFunds()',
+        'error InsufficientGas()',
+        'error InvalidDataLength()',
+        'error InvalidRecipient()',
+        'error InvalidTrigger()',
+        'error InvalidTriggerType()',
+        'error OnlyActiveTransmitters()',
+        'error OnlyCallableByAdmin()',
+        'error OnlyCallableByLINKToken()',
+        'error OnlyCallableByOwner()',
+        'error OnlyCallableByOwnerOrAdmin()',
+        'error OnlyCallableByOwnerOrRegistrar()',
+        'error OnlyPausedUpkeep()',
+        'error OnlyUnpausedUpkeep()',
+        'error UpkeepCancelled()',
+        'error UpkeepNotCanceled()',
+        'event FundsAdded(uint256 indexed id, address indexed from, uint96 amount)',
+        'event FundsWithdrawn(uint256 indexed id, uint256 amount, address to)',
+        'event UpkeepCanceled(uint256 indexed id, uint64 indexed atBlockHeight)',
+        'event UpkeepCheckDataSet(uint256 indexed id, bytes newCheckData)',
+        'event UpkeepGasLimitSet(uint256 indexed id, uint96 gasLimit)',
+        'event UpkeepOffchainConfigSet(uint256 indexed id, bytes offchainConfig)',
+        'event UpkeepPaused(uint256 indexed id)',
+        'event UpkeepPerformed(uint256 indexed id, bool indexed success, uint96 totalPayment, uint256 gasUsed, uint256 gasOverhead, bytes trigger)',
+        'event UpkeepRegistered(uint256 indexed id, uint32 performGas, address admin)',
+        'event UpkeepTriggerConfigSet(uint256 indexed id, bytes triggerConfig)',
+        'event UpkeepUnpaused(uint256 indexed id)',
+        'function PERFORM_GAS_OVERHEAD() view returns (uint256)',
+        'function addFunds(uint256 id, uint96 amount)',
+        'function cancelUpkeep(uint256 id)',
+        'function checkCallback(uint256 id, bytes[] values, bytes extraData) returns (bool upkeepNeeded, bytes performData, uint8 upkeepFailureReason, uint256 gasUsed)',
+        'function checkGasLimit() view returns (uint32)',
+        'function checkUpkeep(uint256 id, bytes triggerData) returns (bool upkeepNeeded, bytes performData, uint8 upkeepFailureReason, uint256 gasUsed, uint256 gasLimit, uint256 fastGasWei, uint256 linkNative)',
+        'function checkUpkeep(uint256 id) returns (bool upkeepNeeded, bytes performData, uint8 upkeepFailureReason, uint256 gasUsed, uint256 gasLimit, uint256 fastGasWei, uint256 linkNative)',
+        'function getActiveUpkeepIDs(uint256 startIndex, uint256 maxCount) view returns (uint256[] ids)',
+        'function getBalance(uint256 id) view returns (uint96 balance)',
+        'function getMinBalanceForUpkeep(uint256 id) view returns (uint96 minBalance)',
+        'function getTriggerType(uint256 upkeepId) pure returns (uint8)',
+        'function getUpkeep(uint256 id) view returns (tuple(address target, uint32 performGas, bytes checkData, uint96 balance, address admin, uint64 maxValidBlocknumber, uint32 lastPerformedBlockNumber, uint96 amountSpent, bool paused, bytes offchainConfig) upkeepInfo)',
+        'function getUpkeepTriggerConfig(uint256 upkeepId) view returns (bytes)',
+        'function i_link() view returns (address)',
+        'function i_linkNativePrice() view returns (uint256)',
+        'function isNode(address) view returns (bool)',
+        'function maxCheckDataSize() view returns (uint32)',
+        'function maxPerformDataSize() view returns (uint32)',
+        'function onTokenTransfer(address sender, uint256 amount, bytes data)',
+        'function owner() view returns (address)',
+        'function pauseUpkeep(uint256 id)',
+        'function performGasLimit() view returns (uint32)',
+        'function performUpkeep(uint256 id, bytes performData) returns (bool success, uint256 gasUsed)',
+        'function registerUpkeep(address target, uint32 gasLimit, address admin, uint8 triggerType, bytes checkData, bytes triggerConfig, bytes offchainConfig) returns (uint256 id)',
+        'function registrar() view returns (address)',
+        'function setNode(address node, bool allowed)',
+        'function setRegistrar(address _registrar)',
+        'function setUpkeepCheckData(uint256 id, bytes newCheckData)',
+        'function setUpkeepGasLimit(uint256 id, uint32 gasLimit)',
+        'function setUpkeepOffchainConfig(uint256 id, bytes config)',
+        'function setUpkeepTriggerConfig(uint256 id, bytes triggerConfig)',
+        'function unpauseUpkeep(uint256 id)',
+        'function withdrawFunds(uint256 id, address to)',
+    ],
+    bytecode:
+        '0x6101606040523480156200001257600080fd5b50604051620038ed380380620038ed833981016040819052620000359162000122565b6001600160a01b03871660805260a08690523360c05263ffffffff80861660e052848116610100528381166101205282166101405260005b8151811015620000cc5760018060008484815181106200009157620000916200025e565b6020908102919091018101516001600160a01b03168252810191909152604001600020805460ff19169115159190911790556001016200006d565b505050505050505062000274565b80516001600160a01b0381168114620000f257600080fd5b919050565b805163ffffffff81168114620000f257600080fd5b634e487b7160e01b600052604160045260246000fd5b600080600080600080600060e0888a0312156200013e57600080fd5b6200014988620000da565b965060208089015196506200016160408a01620000f7565b95506200017160608a01620000f7565b94506200018160808a01620000f7565b93506200019160a08a01620000f7565b60c08a01519093506001600160401b0380821115620001af57600080fd5b818b0191508b601f830112620001c457600080fd5b815181811115620001d957620001d96200010c565b8060051b604051601f19603f830116810181811085821117156200020157620002016200010c565b60405291825284820192508381018501918e8311156200022057600080fd5b938501935b8285101562000249576200023985620000da565b8452938501939285019262000225565b80965050505050505092959891949750929550565b634e487b7160e01b600052603260045260246000fd5b60805160a05160c05160e0516101005161012051610140516135ae6200033f6000396000818161025d01528181611388015261266b0152600081816103500152818161083401526121710152600081816104f301526124c80152600081816105bc0152818161107a01526123130152600081816104a6015281816107a801528181610c2a01528181611f4501526124550152600081816103d801528181610f2e0152612712015260008181610462015281816112320152818161191201526119f401526135ae6000f3fe608060405234801561001057600080fd5b50600436106101fb5760003560e01c80637d253aff1161011a578063a72aa27e116100ad578063cd7f71b51161007c578063cd7f71b514610581578063ce7dc5b414610594578063ef94720d146105b7578063f7d334ba146105de578063faab9d39146105f157600080fd5b8063a72aa27e14610528578063b657bc9c1461053b578063c7c3a19a1461054e578063c80480221461056e57600080fd5b80638dcf0fe7116100e95780638dcf0fe7146104c8578063948108f7146104db578063a49ffbcc146104ee578063a4c0ed361461051557600080fd5b80637d253aff1461045d578063846086f9146104845780638765ecbe1461048e5780638da5cb5b146104a157600080fd5b806341addb7b116101925780635c016fb8116101615780635c016fb8146103d357806371791aa0146103fa578063744bfe61146104205780637bbaf1ea1461043357600080fd5b806341addb7b146103725780634ee88d35146103875780635147cd591461039a5780635165f2f5146103c057600080fd5b8063207b6516116101ce578063207b6516146102df57806328f32f38146102ff5780632b20e3971461032057806332d69dcf1461034b57600080fd5b8063017501521461020057806306e3b632146102385780631ba96fd3146102585780631e01043914610294575b600080fd5b61022361020e36600461277a565b60016020526000908152604090205460ff1681565b60405190151581526020015b60405180910390f35b61024b610246366004612797565b610604565b60405161022f91906127b9565b61027f7f000000000000000000000000000000000000000000000000000000000000000081565b60405163ffffffff909116815260200161022f565b6102c76102a23660046127fd565b600090815260056020526040902060010154600160601b90046001600160601b031690565b6040516001600160601b03909116815260200161022f565b6102f26102ed3660046127fd565b6106f9565b60405161022f9190612866565b61031261030d3660046128eb565b61079b565b60405190815260200161022f565b600054610333906001600160a01b031681565b6040516001600160a01b03909116815260200161022f565b61027f7f000000000000000000000000000000000000000000000000000000000000000081565b6103856103803660046129db565b610c1f565b005b610385610395366004612a14565b610c93565b6103ae6103a83660046127fd565b600f1a90565b60405160ff909116815260200161022f565b6103856103ce3660046127fd565b610d7f565b6103127f000000000000000000000000000000000000000000000000000000000000000081565b61040d610408366004612b4b565b610e77565b60405161022f9796959493929190612b91565b61038561042e366004612bd9565b61113c565b610446610441366004612a14565b6112e9565b60408051921515835260208301919091520161022f565b6103337f000000000000000000000000000000000000000000000000000000000000000081565b6103126201388081565b61038561049c3660046127fd565b611697565b6103337f000000000000000000000000000000000000000000000000000000000000000081565b6103856104d6366004612a14565b611796565b6103856104e9366004612bfe565b611860565b61027f7f000000000000000000000000000000000000000000000000000000000000000081565b610385610523366004612c2f565b6119e9565b610385610536366004612c8a565b611b4f565b6102c76105493660046127fd565b611c41565b61056161055c3660046127fd565b611c71565b60405161022f9190612cb6565b61038561057c3660046127fd565b611f2c565b61038561058f366004612a14565b6120ec565b6105a76105a2366004612dd7565b6121fd565b60405161022f9493929190612eac565b61027f7f000000000000000000000000000000000000000000000000000000000000000081565b61040d6105ec3660046127fd565b61240e565b6103856105ff36600461277a565b61244a565b6003546060908084106106275750506040805160008152602081019091526106f3565b600083158061063e57508161063c8587612ef3565b115b6106485783610652565b6106528583612f06565b9050806001600160401b0381111561066c5761066c612a5f565b604051908082528060200260200182016040528015610695578160200160208202803683370190505b50925060005b818110156106ef5760036106af8288612ef3565b815481106106bf576106bf612f19565b90600052602060002001548482815181106106dc576106dc612f19565b602090810291909101015260010161069b565b5050505b92915050565b600081815260076020526040902080546060919061071690612f2f565b80601f016020809104026020016040519081016040528092919081815260200182805461074290612f2f565b801561078f5780601f106107645761010080835404028352916020019161078f565b820191906000526020600020905b81548152906001019060200180831161077257829003601f168201915b50505050509050919050565b6000336001600160a01b037f000000000000000000000000000000000000000000000000000000000000000016148015906107e157506000546001600160a01b03163314155b156107ff5760405163d48b678b60e01b815260040160405180910390fd5b600160ff89161115610824576040516379596a0960e11b815260040160405180910390fd5b61082d8a6124b5565b63ffffffff7f0000000000000000000000000000000000000000000000000000000000000000168611156108745760405163ae7235df60e01b815260040160405180910390fd5b61087f888686612517565b61088888612551565b60028054919250600061089a83612f69565b91905055506040518061010001604052808c6001600160a01b031681526020018b63ffffffff1681526020016000151581526020016001600160401b0380168152602001600063ffffffff16815260200160006001600160601b0316815260200160006001600160601b031681526020018a6001600160a01b03168152506005600083815260200190815260200160002060008201518160000160006101000a8154816001600160a01b0302191690836001600160a01b0316021790555060208201518160000160146101000a81548163ffffffff021916908363ffffffff16021790555060408201518160000160186101000a81548160ff02191690831515021790555060608201518160010160006101000a8154816001600160401b0302191690836001600160401b0316021790555060808201518160010160086101000a81548163ffffffff021916908363ffffffff16021790555060a082015181600101600c6101000a8154816001600160601b0302191690836001600160601b0316021790555060c08201518160020160006101000a8154816001600160601b0302191690836001600160601b0316021790555060e082015181600201600c6101000a8154816001600160a01b0302191690836001600160a01b031602179055509050508686600660008481526020019081526020016000209182610a9f929190612fd2565b506000818152600760205260409020610ab9858783612fd2565b506000818152600860205260409020610ad3838583612fd2565b50600380546001810182557fc2575a0e9e593c00f959f8c92f12db2869c3395a3b0502d05e2516446f71f85b018290555460008281526004602090815260409182902092909255805163ffffffff8d1681526001600160a01b038c169281019290925282917fbae366358c023f887e791d7a62f2e4316f1026bd77f6fb49501a917b3bc5d012910160405180910390a2807fcba2d5723b2ee59e53a8e8a82a4a7caf4fdfe70e9f7c582950bf7e7a5c24e83d8888604051610b959291906130bb565b60405180910390a2807f2b72ac786c97e68dbab71023ed6f2bdbfc80ad9bb7808941929229d71b7d56648686604051610bcf9291906130bb565b60405180910390a2807f3e8740446213c8a77d40e08f79136ce3f347d13ed270a6ebdf57159e0faf48508484604051610c099291906130bb565b60405180910390a29a9950505050505050505050565b336001600160a01b037f00000000000000000000000000000000000000000000000000000000000000001614610c68576040516315ae3a6f60e11b815260040160405180910390fd5b6001600160a01b03919091166000908152600160205260409020805460ff1916911515919091179055565b6000838152600560205260409020600201548390600160601b90046001600160a01b03163314610cd65760405163523e0b8360e11b815260040160405180910390fd5b6000818152600560205260409020600101546001600160401b0390811614610d1157604051634e0041d160e11b815260040160405180910390fd5b610d25610d1e85600f1a90565b8484612517565b6000848152600760205260409020610d3e838583612fd2565b50837f2b72ac786c97e68dbab71023ed6f2bdbfc80ad9bb7808941929229d71b7d56648484604051610d719291906130bb565b60405180910390a250505050565b6000818152600560205260409020600201548190600160601b90046001600160a01b03163314610dc25760405163523e0b8360e11b815260040160405180910390fd5b6000818152600560205260409020600101546001600160401b0390811614610dfd57604051634e0041d160e11b815260040160405180910390fd5b600082815260056020526040902054600160c01b900460ff16610e33576040516306e229e160e21b815260040160405180910390fd5b600082815260056020526040808220805460ff60c01b191690555183917f7bada562044eb163f6b4003c4553e4e62825344c0418eea087bed5ee05a4745691a25050565b600082815260056020908152604080832081516101008101835281546001600160a01b038082168352600160a01b820463ffffffff908116968401879052600160c01b90920460ff1615159483019490945260018301546001600160401b038082166060808601829052600160401b84049094166080860152600160601b928390046001600160601b0390811660a087015260029096015495861660c08601529190940490941660e0830152938593849391923a927f00000000000000000000000000000000000000000000000000000000000000009214610f745750604080516020810190915260008082529750955060019450869350611130565b806040015115610f9f5750604080516020810190915260008082529750955060029450869350611130565b60006001610fad8c600f1a90565b60ff16146110035760008b815260066020526040908190209051610fd49190602401613154565b60408051601f198184030181529190526020810180516001600160e01b0316636e04ff0d60e01b179052611062565b898060200190518101906110179190613221565b60008c815260066020526040908190209051611037929190602401613331565b60408051601f198184030181529190526020810180516001600160e01b031663101a476d60e21b1790525b90505a955060008083600001516001600160a01b03167f000000000000000000000000000000000000000000000000000000000000000063ffffffff16846040516110ad91906133d0565b60006040518083038160008787f1925050503d80600081146110eb576040519150601f19603f3d011682016040523d82523d6000602084013e6110f0565b606091505b50915091505a6111009089612f06565b97508161111a5760009a5098506003975061113092505050565b611124848261262a565b919c509a509850505050505b92959891949750929550565b60008281526005602052604090206002810154600160601b90046001600160a01b0316331461117e5760405163523e0b8360e11b815260040160405180910390fd5b60018101546001600160401b031667fffffffffffffffe19016111b7576040516001627b1a2360e01b0319815260040160405180910390fd5b6001600160a01b0382166111de57604051634e46966960e11b815260040160405180910390fd5b6001810180546bffffffffffffffffffffffff60601b19811690915560405163a9059cbb60e01b81526001600160a01b038481166004830152600160601b9092046001600160601b031660248201819052917f0000000000000000000000000000000000000000000000000000000000000000169063a9059cbb906044016020604051808303816000875af115801561127b573d6000803e3d6000fd5b505050506040513d601f19601f8201168201806040525081019061129f91906133ec565b50604080516001600160601b03831681526001600160a01b038516602082015285917ff3b5906e5672f3e524854103bcafbbdba80dbdfeca2c35e116127b1060a683189101610d71565b33600090815260016020526040812054819060ff1661131b57604051631099ed7560e01b815260040160405180910390fd5b600085815260056020526040902060018101546001600160401b039081161461135757604051634e0041d160e11b815260040160405180910390fd5b8054600160c01b900460ff161561138157604051631452db0960e21b815260040160405180910390fd5b63ffffffff7f0000000000000000000000000000000000000000000000000000000000000000168411156113c857604051630dfe930960e41b815260040160405180910390fd5b80546113e190600160a01b900463ffffffff163a61270e565b60018201546001600160601b03918216600160601b909104909116101561141b5760405163356680b760e01b815260040160405180910390fd5b611429600262013880613409565b8154603f9061144690600160a01b900463ffffffff16604061342b565b6114509190613409565b61145a9190612ef3565b5a101561147a576040516307099c5360e21b815260040160405180910390fd5b5a81546040519193506001600160a01b03811691600160a01b90910463ffffffff16906114ad90889088906024016130bb565b60408051601f198184030181529181526020820180516001600160e01b0316634585e33b60e01b179052516114e291906133d0565b60006040518083038160008787f1925050503d8060008114611520576040519150601f19603f3d011682016040523d82523d6000602084013e611525565b606091505b50909350505a6115359083612f06565b91506000611543833a61270e565b60018301549091506001600160601b03600160601b9091048116908216111561157d57506001810154600160601b90046001600160601b03165b8082600101600c8282829054906101000a90046001600160601b03166115a39190613442565b92506101000a8154816001600160601b0302191690836001600160601b03160217905550808260020160008282829054906101000a90046001600160601b03166115ed9190613469565b82546101009290920a6001600160601b038181021990931691831602179091556001840180546bffffffff00000000000000001916600160401b4363ffffffff1602179055604080519184168252602082018690526201388090820152608060608201819052600090820152851515915088907fad8cc9579b21dfe2c2f6ea35ba15b656e46b4f5b0cb424f52739b8ce5cac9c5b9060a00160405180910390a35050935093915050565b6000818152600560205260409020600201548190600160601b90046001600160a01b031633146116da5760405163523e0b8360e11b815260040160405180910390fd5b6000818152600560205260409020600101546001600160401b039081161461171557604051634e0041d160e11b815260040160405180910390fd5b600082815260056020526040902054600160c01b900460ff161561174c57604051631452db0960e21b815260040160405180910390fd5b600082815260056020526040808220805460ff60c01b1916600160c01b1790555183917f8ab10247ce168c27748e656ecf852b951fcaac790c18106b19aa0ae57a8b741f91a25050565b6000838152600560205260409020600201548390600160601b90046001600160a01b031633146117d95760405163523e0b8360e11b815260040160405180910390fd5b6000818152600560205260409020600101546001600160401b039081161461181457604051634e0041d160e11b815260040160405180910390fd5b600084815260086020526040902061182d838583612fd2565b50837f3e8740446213c8a77d40e08f79136ce3f347d13ed270a6ebdf57159e0faf48508484604051610d719291906130bb565b6000828152600560205260409020600101546001600160401b039081161461189b57604051634e0041d160e11b815260040160405180910390fd5b60008281526005602052604090206001018054829190600c906118cf908490600160601b90046001600160601b0316613469565b82546101009290920a6001600160601b038181021990931691831602179091556040516323b872dd60e01b815233600482015230602482015290831660448201527f00000000000000000000000000000000000000000000000000000000000000006001600160a01b031691506323b872dd906064016020604051808303816000875af1158015611964573d6000803e3d6000fd5b505050506040513d601f19601f8201168201806040525081019061198891906133ec565b6119a55760405163356680b760e01b815260040160405180910390fd5b6040516001600160601b0382168152339083907fafd24114486da8ebfc32f3626dada8863652e187461aa74d4bfa7348915062039060200160405180910390a35050565b336001600160a01b037f00000000000000000000000000000000000000000000000000000000000000001614611a325760405163c8bad78d60e01b815260040160405180910390fd5b60208114611a5357604051630dfe930960e41b815260040160405180910390fd5b6000611a61828401846127fd565b6000818152600560205260409020600101549091506001600160401b0390811614611a9f57604051634e0041d160e11b815260040160405180910390fd5b60008181526005602052604090206001018054859190600c90611ad3908490600160601b90046001600160601b0316613469565b92506101000a8154816001600160601b0302191690836001600160601b03160217905550846001600160a01b0316817fafd24114486da8ebfc32f3626dada8863652e187461aa74d4bfa73489150620386604051611b4091906001600160601b0391909116815260200190565b60405180910390a35050505050565b6000828152600560205260409020600201548290600160601b90046001600160a01b03163314611b925760405163523e0b8360e11b815260040160405180910390fd5b6000818152600560205260409020600101546001600160401b0390811614611bcd57604051634e0041d160e11b815260040160405180910390fd5b611bd6826124b5565b600083815260056020908152604091829020805463ffffffff60a01b1916600160a01b63ffffffff871690810291909117909155915191825284917fc24c07e655ce79fba8a589778987d3c015bc6af1632bb20cf9182e02a65d972c910160405180910390a2505050565b6000818152600560205260408120546106f390600160a01b900463ffffffff16611c6c48600261342b565b61270e565b604080516101408101825260008082526020820181905260609282018390528282018190526080820181905260a0820181905260c0820181905260e08201819052610100820152610120810191909152600082815260056020908152604080832081516101008101835281546001600160a01b038082168352600160a01b820463ffffffff908116848801908152600160c01b90930460ff1615158487015260018501546001600160401b0381166060860152600160401b810482166080860152600160601b908190046001600160601b0390811660a087015260029096015495861660c0860152909404811660e084015284516101408101865283519091168152905190921682850152868552600690935292819020805492939291830191611d9a90612f2f565b80601f0160208091040260200160405190810160405280929190818152602001828054611dc690612f2f565b8015611e135780601f10611de857610100808354040283529160200191611e13565b820191906000526020600020905b815481529060010190602001808311611df657829003601f168201915b505050505081526020018260a001516001600160601b031681526020018260e001516001600160a01b0316815260200182606001516001600160401b03168152602001826080015163ffffffff1681526020018260c001516001600160601b03168152602001826040015115158152602001600860008681526020019081526020016000208054611ea390612f2f565b80601f0160208091040260200160405190810160405280929190818152602001828054611ecf90612f2f565b8015611f1c5780601f10611ef157610100808354040283529160200191611f1c565b820191906000526020600020905b815481529060010190602001808311611eff57829003601f168201915b5050505050815250915050919050565b6000818152600560205260409020336001600160a01b037f00000000000000000000000000000000000000000000000000000000000000001614801590611f8757506002810154600160601b90046001600160a01b03163314155b15611fa557604051637dedc72b60e11b815260040160405180910390fd5b60018101546001600160401b0390811614611fd357604051634e0041d160e11b815260040160405180910390fd5b6001818101805467ffffffffffffffff1916436001600160401b0316179055600083815260046020526040812054909161200c91612f06565b6003805491925060009161202290600190612f06565b8154811061203257612032612f19565b90600052602060002001549050806003838154811061205357612053612f19565b60009182526020909120015561206a826001612ef3565b600082815260046020526040902055600380548061208a5761208a613489565b600082815260208082208301600019908101839055909201909255858252600490526040808220829055516001600160401b0343169186917f91cb3bb75cfbd718bbfccc56b7f53d92d7048ef4ca39a3b7b7c6d4af1f7911819190a350505050565b6000838152600560205260409020600201548390600160601b90046001600160a01b0316331461212f5760405163523e0b8360e11b815260040160405180910390fd5b6000818152600560205260409020600101546001600160401b039081161461216a57604051634e0041d160e11b815260040160405180910390fd5b63ffffffff7f0000000000000000000000000000000000000000000000000000000000000000168211156121b15760405163ae7235df60e01b815260040160405180910390fd5b60008481526006602052604090206121ca838583612fd2565b50837fcba2d5723b2ee59e53a8e8a82a4a7caf4fdfe70e9f7c582950bf7e7a5c24e83d8484604051610d719291906130bb565b600084815260056020908152604080832081516101008101835281546001600160a01b038082168352600160a01b820463ffffffff90811696840196909652600160c01b90910460ff1615159382019390935260018201546001600160401b038082166060808501829052600160401b84049097166080850152600160601b928390046001600160601b0390811660a086015260029095015494851660c08501529190930490931660e082015284928392146122d357505060408051602081019091526000808252935091506001905082612403565b8060400151156122fd57505060408051602081019091526000808252935091506002905082612403565b5a915060008082600001516001600160a01b03167f000000000000000000000000000000000000000000000000000000000000000063ffffffff168b8b8b60405160240161234d9392919061349f565b60408051601f198184030181529181526020820180516001600160e01b03166325ab521760e11b1790525161238291906133d0565b60006040518083038160008787f1925050503d80600081146123c0576040519150601f19603f3d011682016040523d82523d6000602084013e6123c5565b606091505b50915091505a6123d59085612f06565b9350816123ee5760009650945060079350612403915050565b6123f8838261262a565b919850965094505050505b945094509450949050565b6000606060008060008060006124338860405180602001604052806000815250610e77565b959e949d50929b5090995097509550909350915050565b336001600160a01b037f00000000000000000000000000000000000000000000000000000000000000001614612493576040516315ae3a6f60e11b815260040160405180910390fd5b600080546001600160a01b0319166001600160a01b0392909216919091179055565b6108fc63ffffffff821610806124f657507f000000000000000000000000000000000000000000000000000000000000000063ffffffff168163ffffffff16115b15612514576040516314c237fb60e01b815260040160405180910390fd5b50565b60ff83161561252a5760c081141561252e565b8015155b1561254c5760405163a768d7fd60e01b815260040160405180910390fd5b505050565b60008061255f600143612f06565b60025460408051924060208401523090830152606082015260800160408051601f198184030181528282528051602091820120908301520160408051601f19818403018152919052905060045b600f8110156125eb57600060f81b8282815181106125cc576125cc612f19565b60200101906001600160f81b031916908160001a9053506001016125ac565b508260f81b81600f8151811061260357612603612f19565b60200101906001600160f81b031916908160001a9053506126238161350e565b9392505050565b600060606000838060200190518101906126449190613532565b9093509150826126695750506040805160208101909152600080825291506004612707565b7f000000000000000000000000000000000000000000000000000000000000000063ffffffff16825111156126b35750506040805160208101909152600080825291506005612707565b6126c7856020015163ffffffff163a61270e565b6001600160601b03168560a001516001600160601b031610156126ff5750506040805160208101909152600080825291506006612707565b506001915060005b9250925092565b60007f00000000000000000000000000000000000000000000000000000000000000008261273f6201388086612ef3565b612749919061342b565b61275b90670de0b6b3a764000061342b565b6126239190613409565b6001600160a01b038116811461251457600080fd5b60006020828403121561278c57600080fd5b813561262381612765565b600080604083850312156127aa57600080fd5b50508035926020909101359150565b6020808252825182820181905260009190848201906040850190845b818110156127f1578351835292840192918401916001016127d5565b50909695505050505050565b60006020828403121561280f57600080fd5b5035919050565b60005b83811015612831578181015183820152602001612819565b50506000910152565b60008151808452612852816020860160208601612816565b601f01601f19169290920160200192915050565b602081526000612623602083018461283a565b803563ffffffff8116811461288d57600080fd5b919050565b803560ff8116811461288d57600080fd5b60008083601f8401126128b557600080fd5b5081356001600160401b038111156128cc57600080fd5b6020830191508360208285010111156128e457600080fd5b9250929050565b60008060008060008060008060008060e08b8d03121561290a57600080fd5b8a3561291581612765565b995061292360208c01612879565b985060408b013561293381612765565b975061294160608c01612892565b965060808b01356001600160401b038082111561295d57600080fd5b6129698e838f016128a3565b909850965060a08d013591508082111561298257600080fd5b61298e8e838f016128a3565b909650945060c08d01359150808211156129a757600080fd5b506129b48d828e016128a3565b915080935050809150509295989b9194979a5092959850565b801515811461251457600080fd5b600080604083850312156129ee57600080fd5b82356129f981612765565b91506020830135612a09816129cd565b809150509250929050565b600080600060408486031215612a2957600080fd5b8335925060208401356001600160401b03811115612a4657600080fd5b612a52868287016128a3565b9497909650939450505050565b634e487b7160e01b600052604160045260246000fd5b60405161010081016001600160401b0381118282101715612a9857612a98612a5f565b60405290565b604051601f8201601f191681016001600160401b0381118282101715612ac657612ac6612a5f565b604052919050565b60006001600160401b03821115612ae757612ae7612a5f565b50601f01601f191660200190565b600082601f830112612b0657600080fd5b8135612b19612b1482612ace565b612a9e565b818152846020838601011115612b2e57600080fd5b816020850160208301376000918101602001919091529392505050565b60008060408385031215612b5e57600080fd5b8235915060208301356001600160401b03811115612b7b57600080fd5b612b8785828601612af5565b9150509250929050565b871515815260e060208201526000612bac60e083018961283a565b60ff979097166040830152506060810194909452608084019290925260a083015260c09091015292915050565b60008060408385031215612bec57600080fd5b823591506020830135612a0981612765565b60008060408385031215612c1157600080fd5b8235915060208301356001600160601b0381168114612a0957600080fd5b60008060008060608587031215612c4557600080fd5b8435612c5081612765565b93506020850135925060408501356001600160401b03811115612c7257600080fd5b612c7e878288016128a3565b95989497509550505050565b60008060408385031215612c9d57600080fd5b82359150612cad60208401612879565b90509250929050565b60208152612cd06020820183516001600160a01b03169052565b60006020830151612ce9604084018263ffffffff169052565b506040830151610140806060850152612d0661016085018361283a565b91506060850151612d2260808601826001600160601b03169052565b5060808501516001600160a01b03811660a08601525060a08501516001600160401b03811660c08601525060c085015163ffffffff811660e08601525060e0850151610100612d7b818701836001600160601b03169052565b8601519050610120612d908682018315159052565b860151858403601f1901838701529050612daa838261283a565b9695505050505050565b60006001600160401b03821115612dcd57612dcd612a5f565b5060051b60200190565b60008060008060608587031215612ded57600080fd5b843593506020808601356001600160401b0380821115612e0c57600080fd5b818801915088601f830112612e2057600080fd5b8135612e2e612b1482612db4565b81815260059190911b8301840190848101908b831115612e4d57600080fd5b8585015b83811015612e8557803585811115612e695760008081fd5b612e778e89838a0101612af5565b845250918601918601612e51565b50975050506040880135925080831115612e9e57600080fd5b5050612c7e878288016128a3565b8415158152608060208201526000612ec7608083018661283a565b60ff949094166040830152506060015292915050565b634e487b7160e01b600052601160045260246000fd5b808201808211156106f3576106f3612edd565b818103818111156106f3576106f3612edd565b634e487b7160e01b600052603260045260246000fd5b600181811c90821680612f4357607f821691505b602082108103612f6357634e487b7160e01b600052602260045260246000fd5b50919050565b600060018201612f7b57612f7b612edd565b5060010190565b601f82111561254c576000816000526020600020601f850160051c81016020861015612fab5750805b601f850160051c820191505b81811015612fca57828155600101612fb7565b505050505050565b6001600160401b03831115612fe957612fe9612a5f565b612ffd83612ff78354612f2f565b83612f82565b6000601f84116001811461303157600085156130195750838201355b600019600387901b1c1916600186901b17835561308b565b600083815260209020601f19861690835b828110156130625786850135825560209485019460019092019101613042565b508682101561307f5760001960f88860031b161c19848701351681555b505060018560011b0183555b5050505050565b81835281816020850137506000828201602090810191909152601f909101601f19169091010190565b6020815260006130cf602083018486613092565b949350505050565b600081546130e481612f2f565b808552602060018381168015613101576001811461311b57613149565b60ff1985168884015283151560051b880183019550613149565b866000528260002060005b858110156131415781548a8201860152908301908401613126565b890184019650505b505050505092915050565b60208152600061262360208301846130d7565b805161288d81612765565b600082601f83011261318357600080fd5b81516020613193612b1483612db4565b8083825260208201915060208460051b8701019350868411156131b557600080fd5b602086015b848110156131d157805183529183019183016131ba565b509695505050505050565b600082601f8301126131ed57600080fd5b81516131fb612b1482612ace565b81815284602083860101111561321057600080fd5b6130cf826020830160208701612816565b60006020828403121561323357600080fd5b81516001600160401b038082111561324a57600080fd5b90830190610100828603121561325f57600080fd5b613267612a75565b825181526020830151602082015260408301516040820152606083015160608201526080830151608082015261329f60a08401613167565b60a082015260c0830151828111156132b657600080fd5b6132c287828601613172565b60c08301525060e0830151828111156132da57600080fd5b6132e6878286016131dc565b60e08301525095945050505050565b60008151808452602080850194506020840160005b838110156133265781518752958201959082019060010161330a565b509495945050505050565b60408152825160408201526020830151606082015260408301516080820152606083015160a0820152608083015160c082015260018060a01b0360a08401511660e0820152600060c08401516101008081850152506133946101408401826132f5565b905060e0850151603f19848303016101208501526133b2828261283a565b91505082810360208401526133c781856130d7565b95945050505050565b600082516133e2818460208701612816565b9190910192915050565b6000602082840312156133fe57600080fd5b8151612623816129cd565b60008261342657634e487b7160e01b600052601260045260246000fd5b500490565b80820281158282048414176106f3576106f3612edd565b6001600160601b0382811682821603908082111561346257613462612edd565b5092915050565b6001600160601b0381811683821601908082111561346257613462612edd565b634e487b7160e01b600052603160045260246000fd5b6000604082016040835280865180835260608501915060608160051b8601019250602080890160005b838110156134f657605f198887030185526134e486835161283a565b955093820193908201906001016134c8565b50505050508281036020840152612daa818587613092565b80516020808301519190811015612f635760001960209190910360031b1b16919050565b6000806040838503121561354557600080fd5b8251613550816129cd565b60208401519092506001600160401b0381111561356c57600080fd5b612b87858286016131dc56fea2646970667358221220e92d1a7c3fd57570d89ef49e377caf2a9b1cbe96887a380f3c81ea23eddd40ec64736f6c63430008180033',
+};
+
+export const LocalAutomationRegistrarArtifact: ChainlinkArtifact = {
+    abi: [
+        'constructor(address link, address registry, uint96 minLINKJuels)',
+        'error InsufficientPayment()',
+        'error InvalidAdminAddress()',
+        'error LinkTransferFailed(address to)',
+        'event RegistrationApproved(bytes32 indexed hash, string displayName, uint256 indexed upkeepId)',
+        'function LINK() view returns (address)',
+        'function getConfig() view returns (address keeperRegistry, uint256 minLINKJuels)',
+        'function registerUpkeep(tuple(string name, bytes encryptedEmail, address upkeepContract, uint32 gasLimit, address adminAddress, uint8 triggerType, bytes checkData, bytes triggerConfig, bytes offchainConfig, uint96 amount) requestParams) returns (uint256 upkeepId)',
+    ],
+    bytecode:
+        '0x60e060405234801561001057600080fd5b50604051610aea380380610aea83398101604081905261002f9161006f565b6001600160a01b03928316608052911660a0526001600160601b031660c0526100c3565b80516001600160a01b038116811461006a57600080fd5b919050565b60008060006060848603121561008457600080fd5b61008d84610053565b925061009b60208501610053565b60408501519092506001600160601b03811681146100b857600080fd5b809150509250925092565b60805160a05160c0516109d16101196000396000818160e5015261011c01526000818160b9015281816102a1015281816103c90152610491015260008181604b015281816101b901526103a201526109d16000f3fe608060405234801561001057600080fd5b50600436106100415760003560e01c80631b6b6d23146100465780633f678e111461008a578063c3f909d4146100ab575b600080fd5b61006d7f000000000000000000000000000000000000000000000000000000000000000081565b6040516001600160a01b0390911681526020015b60405180910390f35b61009d61009836600461052e565b610110565b604051908152602001610081565b604080516001600160a01b037f00000000000000000000000000000000000000000000000000000000000000001681526001600160601b037f000000000000000000000000000000000000000000000000000000000000000016602082015201610081565b60006001600160601b037f00000000000000000000000000000000000000000000000000000000000000001661014e6101408401610120850161058d565b6001600160601b031610156101765760405163cd1c886760e01b815260040160405180910390fd5b600061018860a08401608085016105bf565b6001600160a01b0316036101af5760405163016ed19f60e21b815260040160405180910390fd5b6001600160a01b037f0000000000000000000000000000000000000000000000000000000000000000166323b872dd33306101f26101408701610120880161058d565b6040516001600160e01b031960e086901b1681526001600160a01b0393841660048201529290911660248301526001600160601b031660448201526064016020604051808303816000875af115801561024f573d6000803e3d6000fd5b505050506040513d601f19601f8201168201806040525081019061027391906105da565b6102975760405163185c9b9d60e31b81523060048201526024015b60405180910390fd5b6001600160a01b037f0000000000000000000000000000000000000000000000000000000000000000166328f32f386102d660608501604086016105bf565b6102e66080860160608701610610565b6102f660a08701608088016105bf565b61030660c0880160a0890161063c565b61031360c0890189610657565b61032060e08b018b610657565b61032e6101008d018d610657565b6040518b63ffffffff1660e01b81526004016103539a999897969594939291906106ce565b6020604051808303816000875af1158015610372573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906103969190610749565b90506001600160a01b037f000000000000000000000000000000000000000000000000000000000000000016634000aea07f00000000000000000000000000000000000000000000000000000000000000006103fa6101408601610120870161058d565b6040805160208101879052016040516020818303038152906040526040518463ffffffff1660e01b815260040161043393929190610762565b6020604051808303816000875af1158015610452573d6000803e3d6000fd5b505050506040513d601f19601f8201168201806040525081019061047691906105da565b6104be5760405163185c9b9d60e31b81526001600160a01b037f000000000000000000000000000000000000000000000000000000000000000016600482015260240161028e565b80826040516020016104d09190610817565b60408051601f1981840301815291905280516020909101207fb9a292fb7e3edd920cd2d2829a3615a640c43fd7de0a0820aa0668feb4c37d4b6105138580610657565b60405161052192919061097f565b60405180910390a3919050565b60006020828403121561054057600080fd5b813567ffffffffffffffff81111561055757600080fd5b8201610140818503121561056a57600080fd5b9392505050565b80356001600160601b038116811461058857600080fd5b919050565b60006020828403121561059f57600080fd5b61056a82610571565b80356001600160a01b038116811461058857600080fd5b6000602082840312156105d157600080fd5b61056a826105a8565b6000602082840312156105ec57600080fd5b8151801515811461056a57600080fd5b803563ffffffff8116811461058857600080fd5b60006020828403121561062257600080fd5b61056a826105fc565b803560ff8116811461058857600080fd5b60006020828403121561064e57600080fd5b61056a8261062b565b6000808335601e1984360301811261066e57600080fd5b83018035915067ffffffffffffffff82111561068957600080fd5b60200191503681900382131561069e57600080fd5b9250929050565b81835281816020850137506000828201602090810191909152601f909101601f19169091010190565b6001600160a01b038b8116825263ffffffff8b1660208301528916604082015260ff8816606082015260e060808201819052600090610710908301888a6106a5565b82810360a08401526107238187896106a5565b905082810360c08401526107388185876106a5565b9d9c50505050505050505050505050565b60006020828403121561075b57600080fd5b5051919050565b60018060a01b0384168152600060206001600160601b038516602084015260606040840152835180606085015260005b818110156107ae57858101830151858201608001528201610792565b506000608082860101526080601f19601f83011685010192505050949350505050565b6000808335601e198436030181126107e857600080fd5b830160208101925035905067ffffffffffffffff81111561080857600080fd5b80360382131561069e57600080fd5b60208152600061082783846107d1565b61014080602086015261083f610160860183856106a5565b925061084e60208701876107d1565b9250601f19808786030160408801526108688585846106a5565b9450610876604089016105a8565b6001600160a01b03811660608901529350610893606089016105fc565b63ffffffff8116608089015293506108ad608089016105a8565b6001600160a01b03811660a089015293506108ca60a0890161062b565b60ff811660c089015293506108e260c08901896107d1565b94509150808786030160e08801526108fb8585846106a5565b945061090a60e08901896107d1565b945091506101008188870301818901526109258686856106a5565b9550610933818a018a6107d1565b955092505061012081888703018189015261094f8686856106a5565b955061095c818a01610571565b9450505050610975818601836001600160601b03169052565b5090949350505050565b6020815260006109936020830184866106a5565b94935050505056fea26469706673582212209a9843d4779a9dd13d05024c9e9f8f0e174f6f58f1c7318708f4bbf24e30ef9664736f6c63430008180033',
+};
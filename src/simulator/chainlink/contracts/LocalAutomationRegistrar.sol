@@ -0,0 +1,63 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.18;
+
+import {LinkTokenInterface} from "@chainlink/contracts/src/v0.8/shared/interfaces/LinkTokenInterface.sol";
+import {LocalAutomationRegistry} from "./LocalAutomationRegistry.sol";
+
+/// @notice A development stand-in for the AutomationRegistrar v2.1, approving every registration right
+/// away: the upkeep is registered and funded with the LINK the caller approved, in the same transaction.
+contract LocalAutomationRegistrar {
+    struct RegistrationParams {
+        string name;
+        bytes encryptedEmail;
+        address upkeepContract;
+        uint32 gasLimit;
+        address adminAddress;
+        uint8 triggerType;
+        bytes checkData;
+        bytes triggerConfig;
+        bytes offchainConfig;
+        uint96 amount;
+    }
+
+    LinkTokenInterface public immutable LINK;
+    LocalAutomationRegistry private immutable i_registry;
+    uint96 private immutable i_minLINKJuels;
+
+    event RegistrationApproved(bytes32 indexed hash, string displayName, uint256 indexed upkeepId);
+
+    error InsufficientPayment();
+    error InvalidAdminAddress();
+    error LinkTransferFailed(address to);
+
+    constructor(address link, address registry, uint96 minLINKJuels) {
+        LINK = LinkTokenInterface(link);
+        i_registry = LocalAutomationRegistry(registry);
+        i_minLINKJuels = minLINKJuels;
+    }
+
+    function getConfig() external view returns (address keeperRegistry, uint256 minLINKJuels) {
+        return (address(i_registry), i_minLINKJuels);
+    }
+
+    /// @notice Registers an upkeep, funding it with `amount` LINK taken from the caller.
+    function registerUpkeep(RegistrationParams calldata requestParams) external returns (uint256 upkeepId) {
+        if (requestParams.amount < i_minLINKJuels) revert InsufficientPayment();
+        if (requestParams.adminAddress == address(0)) revert InvalidAdminAddress();
+        if (!LINK.transferFrom(msg.sender, address(this), requestParams.amount)) revert LinkTransferFailed(address(this));
+
+        upkeepId = i_registry.registerUpkeep(
+            requestParams.upkeepContract,
+            requestParams.gasLimit,
+            requestParams.adminAddress,
+            requestParams.triggerType,
+            requestParams.checkData,
+            requestParams.triggerConfig,
+            requestParams.offchainConfig
+        );
+        if (!LINK.transferAndCall(address(i_registry), requestParams.amount, abi.encode(upkeepId))) {
+            revert LinkTransferFailed(address(i_registry));
+        }
+        emit RegistrationApproved(keccak256(abi.encode(requestParams)), requestParams.name, upkeepId);
+    }
+}
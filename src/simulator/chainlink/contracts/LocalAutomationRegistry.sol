@@ -0,0 +1,477 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.18;
+
+import {AutomationCompatibleInterface} from "@chainlink/contracts/src/v0.8/automation/interfaces/AutomationCompatibleInterface.sol";
+import {ILogAutomation, Log} from "@chainlink/contracts/src/v0.8/automation/interfaces/ILogAutomation.sol";
+import {StreamsLookupCompatibleInterface} from "@chainlink/contracts/src/v0.8/automation/interfaces/StreamsLookupCompatibleInterface.sol";
+import {IERC677Receiver} from "@chainlink/contracts/src/v0.8/shared/interfaces/IERC677Receiver.sol";
+import {LinkTokenInterface} from "@chainlink/contracts/src/v0.8/shared/interfaces/LinkTokenInterface.sol";
+
+/// @notice A development stand-in for the Automation registry v2.1. The functions, events and errors
+/// clients use to manage upkeeps are those of v2.1, and upkeep IDs are derived the same way.
+/// @dev Instead of OCR reports, performs are sent by the nodes the owner allows, through performUpkeep.
+/// They are charged the gas they use at a fixed LINK price, without premium.
+contract LocalAutomationRegistry is IERC677Receiver {
+    uint8 private constant CONDITION_TRIGGER = 0;
+    uint8 private constant LOG_TRIGGER = 1;
+    uint64 private constant UINT64_MAX = type(uint64).max;
+    uint32 private constant PERFORM_GAS_MIN = 2_300;
+    // The ABI encoding of a LogTriggerConfig: emitter, filter selector and 4 topics
+    uint256 private constant LOG_TRIGGER_CONFIG_LENGTH = 192;
+
+    /// @notice Gas the registry spends around the call to performUpkeep, charged on top of it.
+    uint256 public constant PERFORM_GAS_OVERHEAD = 80_000;
+
+    // The values of UpkeepFailureReason in v2.1
+    uint8 private constant UPKEEP_CANCELLED = 1;
+    uint8 private constant UPKEEP_PAUSED = 2;
+    uint8 private constant TARGET_CHECK_REVERTED = 3;
+    uint8 private constant UPKEEP_NOT_NEEDED = 4;
+    uint8 private constant PERFORM_DATA_EXCEEDS_LIMIT = 5;
+    uint8 private constant INSUFFICIENT_BALANCE = 6;
+    uint8 private constant CALLBACK_REVERTED = 7;
+
+    struct UpkeepInfo {
+        address target;
+        uint32 performGas;
+        bytes checkData;
+        uint96 balance;
+        address admin;
+        uint64 maxValidBlocknumber;
+        uint32 lastPerformedBlockNumber;
+        uint96 amountSpent;
+        bool paused;
+        bytes offchainConfig;
+    }
+
+    struct Upkeep {
+        address target;
+        uint32 performGas;
+        bool paused;
+        uint64 maxValidBlocknumber;
+        uint32 lastPerformedBlockNumber;
+        uint96 balance;
+        uint96 amountSpent;
+        address admin;
+    }
+
+    LinkTokenInterface public immutable i_link;
+    uint256 public immutable i_linkNativePrice; // Wei per LINK
+    address public immutable owner;
+    uint32 public immutable checkGasLimit;
+    uint32 public immutable performGasLimit;
+    uint32 public immutable maxCheckDataSize;
+    uint32 public immutable maxPerformDataSize;
+
+    address public registrar;
+    mapping(address => bool) public isNode;
+
+    uint256 private s_nonce;
+    uint256[] private s_upkeepIDs; // Upkeeps that are not cancelled
+    mapping(uint256 => uint256) private s_upkeepIndex; // Position in s_upkeepIDs, plus one
+    mapping(uint256 => Upkeep) private s_upkeep;
+    mapping(uint256 => bytes) private s_checkData;
+    mapping(uint256 => bytes) private s_triggerConfig;
+    mapping(uint256 => bytes) private s_offchainConfig;
+
+    event UpkeepRegistered(uint256 indexed id, uint32 performGas, address admin);
+    event UpkeepCheckDataSet(uint256 indexed id, bytes newCheckData);
+    event UpkeepTriggerConfigSet(uint256 indexed id, bytes triggerConfig);
+    event UpkeepOffchainConfigSet(uint256 indexed id, bytes offchainConfig);
+    event UpkeepGasLimitSet(uint256 indexed id, uint96 gasLimit);
+    event UpkeepPaused(uint256 indexed id);
+    event UpkeepUnpaused(uint256 indexed id);
+    event UpkeepCanceled(uint256 indexed id, uint64 indexed atBlockHeight);
+    event FundsAdded(uint256 indexed id, address indexed from, uint96 amount);
+    event FundsWithdrawn(uint256 indexed id, uint256 amount, address to);
+    event UpkeepPerformed(uint256 indexed id, bool indexed success, uint96 totalPayment, uint256 gasUsed, uint256 gasOverhead, bytes trigger);
+
+    error CheckDataExceedsLimit();
+    error GasLimitOutsideRange();
+    error InsufficientFunds();
+    error InsufficientGas();
+    error InvalidDataLength();
+    error InvalidRecipient();
+    error InvalidTrigger();
+    error InvalidTriggerType();
+    error OnlyActiveTransmitters();
+    error OnlyCallableByAdmin();
+    error OnlyCallableByLINKToken();
+    error OnlyCallableByOwner();
+    error OnlyCallableByOwnerOrAdmin();
+    error OnlyCallableByOwnerOrRegistrar();
+    error OnlyPausedUpkeep();
+    error OnlyUnpausedUpkeep();
+    error UpkeepCancelled();
+    error UpkeepNotCanceled();
+
+    constructor(
+        address link,
+        uint256 linkNativePrice,
+        uint32 _checkGasLimit,
+        uint32 _performGasLimit,
+        uint32 _maxCheckDataSize,
+        uint32 _maxPerformDataSize,
+        address[] memory nodes
+    ) {
+        i_link = LinkTokenInterface(link);
+        i_linkNativePrice = linkNativePrice;
+        owner = msg.sender;
+        checkGasLimit = _checkGasLimit;
+        performGasLimit = _performGasLimit;
+        maxCheckDataSize = _maxCheckDataSize;
+        maxPerformDataSize = _maxPerformDataSize;
+        for (uint256 i = 0; i < nodes.length; i++) {
+            isNode[nodes[i]] = true;
+        }
+    }
+
+    modifier onlyOwner() {
+        if (msg.sender != owner) revert OnlyCallableByOwner();
+        _;
+    }
+
+    modifier onlyActiveAdmin(uint256 id) {
+        if (msg.sender != s_upkeep[id].admin) revert OnlyCallableByAdmin();
+        if (s_upkeep[id].maxValidBlocknumber != UINT64_MAX) revert UpkeepCancelled();
+        _;
+    }
+
+    // ------------------------------ owner ------------------------------
+
+    function setRegistrar(address _registrar) external onlyOwner {
+        registrar = _registrar;
+    }
+
+    /// @notice Allows or disallows an address to send performs.
+    function setNode(address node, bool allowed) external onlyOwner {
+        isNode[node] = allowed;
+    }
+
+    // ---------------------------- registration ----------------------------
+
+    function registerUpkeep(
+        address target,
+        uint32 gasLimit,
+        address admin,
+        uint8 triggerType,
+        bytes calldata checkData,
+        bytes calldata triggerConfig,
+        bytes calldata offchainConfig
+    ) external returns (uint256 id) {
+        if (msg.sender != owner && msg.sender != registrar) revert OnlyCallableByOwnerOrRegistrar();
+        if (triggerType > LOG_TRIGGER) revert InvalidTriggerType();
+        _validateGasLimit(gasLimit);
+        if (checkData.length > maxCheckDataSize) revert CheckDataExceedsLimit();
+        _validateTrigger(triggerType, triggerConfig);
+
+        id = _createID(triggerType);
+        s_nonce++;
+        s_upkeep[id] = Upkeep({
+            target: target,
+            performGas: gasLimit,
+            paused: false,
+            maxValidBlocknumber: UINT64_MAX,
+            lastPerformedBlockNumber: 0,
+            balance: 0,
+            amountSpent: 0,
+            admin: admin
+        });
+        s_checkData[id] = checkData;
+        s_triggerConfig[id] = triggerConfig;
+        s_offchainConfig[id] = offchainConfig;
+        s_upkeepIDs.push(id);
+        s_upkeepIndex[id] = s_upkeepIDs.length;
+
+        emit UpkeepRegistered(id, gasLimit, admin);
+        emit UpkeepCheckDataSet(id, checkData);
+        emit UpkeepTriggerConfigSet(id, triggerConfig);
+        emit UpkeepOffchainConfigSet(id, offchainConfig);
+    }
+
+    /// @notice Funds the upkeep whose ID is ABI-encoded in data, with LINK sent through transferAndCall.
+    function onTokenTransfer(address sender, uint256 amount, bytes calldata data) external override {
+        if (msg.sender != address(i_link)) revert OnlyCallableByLINKToken();
+        if (data.length != 32) revert InvalidDataLength();
+        uint256 id = abi.decode(data, (uint256));
+        if (s_upkeep[id].maxValidBlocknumber != UINT64_MAX) revert UpkeepCancelled();
+        s_upkeep[id].balance += uint96(amount);
+        emit FundsAdded(id, sender, uint96(amount));
+    }
+
+    function addFunds(uint256 id, uint96 amount) external {
+        if (s_upkeep[id].maxValidBlocknumber != UINT64_MAX) revert UpkeepCancelled();
+        s_upkeep[id].balance += amount;
+        if (!i_link.transferFrom(msg.sender, address(this), amount)) revert InsufficientFunds();
+        emit FundsAdded(id, msg.sender, amount);
+    }
+
+    /// @notice Cancels an upkeep right away, whether its admin or the owner asks.
+    function cancelUpkeep(uint256 id) external {
+        Upkeep storage upkeep = s_upkeep[id];
+        if (msg.sender != owner && msg.sender != upkeep.admin) revert OnlyCallableByOwnerOrAdmin();
+        if (upkeep.maxValidBlocknumber != UINT64_MAX) revert UpkeepCancelled();
+        upkeep.maxValidBlocknumber = uint64(block.number);
+
+        uint256 index = s_upkeepIndex[id] - 1;
+        uint256 last = s_upkeepIDs[s_upkeepIDs.length - 1];
+        s_upkeepIDs[index] = last;
+        s_upkeepIndex[last] = index + 1;
+        s_upkeepIDs.pop();
+        delete s_upkeepIndex[id];
+
+        emit UpkeepCanceled(id, uint64(block.number));
+    }
+
+    function withdrawFunds(uint256 id, address to) external {
+        Upkeep storage upkeep = s_upkeep[id];
+        if (msg.sender != upkeep.admin) revert OnlyCallableByAdmin();
+        if (upkeep.maxValidBlocknumber == UINT64_MAX) revert UpkeepNotCanceled();
+        if (to == address(0)) revert InvalidRecipient();
+        uint96 amount = upkeep.balance;
+        upkeep.balance = 0;
+        i_link.transfer(to, amount);
+        emit FundsWithdrawn(id, amount, to);
+    }
+
+    // ---------------------------- upkeep admin ----------------------------
+
+    function pauseUpkeep(uint256 id) external onlyActiveAdmin(id) {
+        if (s_upkeep[id].paused) revert OnlyUnpausedUpkeep();
+        s_upkeep[id].paused = true;
+        emit UpkeepPaused(id);
+    }
+
+    function unpauseUpkeep(uint256 id) external onlyActiveAdmin(id) {
+        if (!s_upkeep[id].paused) revert OnlyPausedUpkeep();
+        s_upkeep[id].paused = false;
+        emit UpkeepUnpaused(id);
+    }
+
+    function setUpkeepGasLimit(uint256 id, uint32 gasLimit) external onlyActiveAdmin(id) {
+        _validateGasLimit(gasLimit);
+        s_upkeep[id].performGas = gasLimit;
+        emit UpkeepGasLimitSet(id, gasLimit);
+    }
+
+    function setUpkeepCheckData(uint256 id, bytes calldata newCheckData) external onlyActiveAdmin(id) {
+        if (newCheckData.length > maxCheckDataSize) revert CheckDataExceedsLimit();
+        s_checkData[id] = newCheckData;
+        emit UpkeepCheckDataSet(id, newCheckData);
+    }
+
+    function setUpkeepTriggerConfig(uint256 id, bytes calldata triggerConfig) external onlyActiveAdmin(id) {
+        _validateTrigger(getTriggerType(id), triggerConfig);
+        s_triggerConfig[id] = triggerConfig;
+        emit UpkeepTriggerConfigSet(id, triggerConfig);
+    }
+
+    function setUpkeepOffchainConfig(uint256 id, bytes calldata config) external onlyActiveAdmin(id) {
+        s_offchainConfig[id] = config;
+        emit UpkeepOffchainConfigSet(id, config);
+    }
+
+    // ------------------------------- node -------------------------------
+
+    /// @notice Checks an upkeep like the v2.1 registry does: through checkLog with the ABI-encoded Log
+    /// in triggerData for log triggers, through checkUpkeep otherwise.
+    /// @dev Not a view, since checkUpkeep may change state while simulated; call it with eth_call.
+    function checkUpkeep(uint256 id, bytes memory triggerData)
+        public
+        returns (
+            bool upkeepNeeded,
+            bytes memory performData,
+            uint8 upkeepFailureReason,
+            uint256 gasUsed,
+            uint256 gasLimit,
+            uint256 fastGasWei,
+            uint256 linkNative
+        )
+    {
+        Upkeep memory upkeep = s_upkeep[id];
+        gasLimit = upkeep.performGas;
+        fastGasWei = tx.gasprice;
+        linkNative = i_linkNativePrice;
+        if (upkeep.maxValidBlocknumber != UINT64_MAX) {
+            return (false, "", UPKEEP_CANCELLED, 0, gasLimit, fastGasWei, linkNative);
+        }
+        if (upkeep.paused) {
+            return (false, "", UPKEEP_PAUSED, 0, gasLimit, fastGasWei, linkNative);
+        }
+
+        bytes memory callData = getTriggerType(id) == LOG_TRIGGER
+            ? abi.encodeCall(ILogAutomation.checkLog, (abi.decode(triggerData, (Log)), s_checkData[id]))
+            : abi.encodeCall(AutomationCompatibleInterface.checkUpkeep, (s_checkData[id]));
+        gasUsed = gasleft();
+        (bool success, bytes memory result) = upkeep.target.call{gas: checkGasLimit}(callData);
+        gasUsed = gasUsed - gasleft();
+
+        if (!success) {
+            return (false, result, TARGET_CHECK_REVERTED, gasUsed, gasLimit, fastGasWei, linkNative);
+        }
+        (upkeepNeeded, performData, upkeepFailureReason) = _checkResult(upkeep, result);
+    }
+
+    function checkUpkeep(uint256 id)
+        external
+        returns (
+            bool upkeepNeeded,
+            bytes memory performData,
+            uint8 upkeepFailureReason,
+            uint256 gasUsed,
+            uint256 gasLimit,
+            uint256 fastGasWei,
+            uint256 linkNative
+        )
+    {
+        return checkUpkeep(id, "");
+    }
+
+    /// @notice Answers a StreamsLookup revert of a check like the v2.1 registry does: calls checkCallback
+    /// on the upkeep with the reports the node fetched. A revert of the callback is returned as performData.
+    /// @dev Not a view, like checkUpkeep; call it with eth_call.
+    function checkCallback(uint256 id, bytes[] memory values, bytes calldata extraData)
+        external
+        returns (bool upkeepNeeded, bytes memory performData, uint8 upkeepFailureReason, uint256 gasUsed)
+    {
+        Upkeep memory upkeep = s_upkeep[id];
+        if (upkeep.maxValidBlocknumber != UINT64_MAX) {
+            return (false, "", UPKEEP_CANCELLED, 0);
+        }
+        if (upkeep.paused) {
+            return (false, "", UPKEEP_PAUSED, 0);
+        }
+
+        gasUsed = gasleft();
+        (bool success, bytes memory result) = upkeep.target.call{gas: checkGasLimit}(
+            abi.encodeCall(StreamsLookupCompatibleInterface.checkCallback, (values, extraData))
+        );
+        gasUsed = gasUsed - gasleft();
+
+        if (!success) {
+            return (false, result, CALLBACK_REVERTED, gasUsed);
+        }
+        (upkeepNeeded, performData, upkeepFailureReason) = _checkResult(upkeep, result);
+    }
+
+    /// @notice Calls performUpkeep on the upkeep with its gas limit, and charges it for the gas used.
+    /// A revert of the upkeep is reported by UpkeepPerformed, it does not revert the transaction.
+    function performUpkeep(uint256 id, bytes calldata performData) external returns (bool success, uint256 gasUsed) {
+        if (!isNode[msg.sender]) revert OnlyActiveTransmitters();
+        Upkeep storage upkeep = s_upkeep[id];
+        if (upkeep.maxValidBlocknumber != UINT64_MAX) revert UpkeepCancelled();
+        if (upkeep.paused) revert OnlyUnpausedUpkeep();
+        if (performData.length > maxPerformDataSize) revert InvalidDataLength();
+        if (upkeep.balance < _payment(upkeep.performGas, tx.gasprice)) revert InsufficientFunds();
+        // Calls get at most 63/64 of the gas left: make sure the upkeep receives all of its gas limit
+        if (gasleft() < (uint256(upkeep.performGas) * 64) / 63 + PERFORM_GAS_OVERHEAD / 2) revert InsufficientGas();
+
+        gasUsed = gasleft();
+        (success, ) = upkeep.target.call{gas: upkeep.performGas}(
+            abi.encodeCall(AutomationCompatibleInterface.performUpkeep, (performData))
+        );
+        gasUsed = gasUsed - gasleft();
+
+        uint96 payment = _payment(gasUsed, tx.gasprice);
+        if (payment > upkeep.balance) {
+            payment = upkeep.balance;
+        }
+        upkeep.balance -= payment;
+        upkeep.amountSpent += payment;
+        upkeep.lastPerformedBlockNumber = uint32(block.number);
+        emit UpkeepPerformed(id, success, payment, gasUsed, PERFORM_GAS_OVERHEAD, "");
+    }
+
+    // ------------------------------- views -------------------------------
+
+    function getUpkeep(uint256 id) external view returns (UpkeepInfo memory upkeepInfo) {
+        Upkeep memory upkeep = s_upkeep[id];
+        return UpkeepInfo({
+            target: upkeep.target,
+            performGas: upkeep.performGas,
+            checkData: s_checkData[id],
+            balance: upkeep.balance,
+            admin: upkeep.admin,
+            maxValidBlocknumber: upkeep.maxValidBlocknumber,
+            lastPerformedBlockNumber: upkeep.lastPerformedBlockNumber,
+            amountSpent: upkeep.amountSpent,
+            paused: upkeep.paused,
+            offchainConfig: s_offchainConfig[id]
+        });
+    }
+
+    /// @notice The IDs of the upkeeps that are not cancelled, all of them from startIndex when maxCount is 0.
+    function getActiveUpkeepIDs(uint256 startIndex, uint256 maxCount) external view returns (uint256[] memory ids) {
+        uint256 total = s_upkeepIDs.length;
+        if (startIndex >= total) {
+            return new uint256[](0);
+        }
+        uint256 count = maxCount == 0 || startIndex + maxCount > total ? total - startIndex : maxCount;
+        ids = new uint256[](count);
+        for (uint256 i = 0; i < count; i++) {
+            ids[i] = s_upkeepIDs[startIndex + i];
+        }
+    }
+
+    function getTriggerType(uint256 upkeepId) public pure returns (uint8) {
+        return uint8(bytes32(upkeepId)[15]);
+    }
+
+    function getUpkeepTriggerConfig(uint256 upkeepId) external view returns (bytes memory) {
+        return s_triggerConfig[upkeepId];
+    }
+
+    function getBalance(uint256 id) external view returns (uint96 balance) {
+        return s_upkeep[id].balance;
+    }
+
+    /// @notice What a perform using the whole gas limit costs at the current base fee, doubled like
+    /// the v2.1 registry's gas ceiling multiplier.
+    function getMinBalanceForUpkeep(uint256 id) external view returns (uint96 minBalance) {
+        return _payment(s_upkeep[id].performGas, block.basefee * 2);
+    }
+
+    // ------------------------------ internal ------------------------------
+
+    function _createID(uint8 triggerType) private view returns (uint256) {
+        bytes memory idBytes = abi.encodePacked(keccak256(abi.encode(blockhash(block.number - 1), address(this), s_nonce)));
+        for (uint256 idx = 4; idx < 15; idx++) {
+            idBytes[idx] = 0;
+        }
+        idBytes[15] = bytes1(triggerType);
+        return uint256(bytes32(idBytes));
+    }
+
+    function _validateGasLimit(uint32 gasLimit) private view {
+        if (gasLimit < PERFORM_GAS_MIN || gasLimit > performGasLimit) revert GasLimitOutsideRange();
+    }
+
+    function _validateTrigger(uint8 triggerType, bytes calldata triggerConfig) private pure {
+        if (triggerType == CONDITION_TRIGGER ? triggerConfig.length != 0 : triggerConfig.length != LOG_TRIGGER_CONFIG_LENGTH) {
+            revert InvalidTrigger();
+        }
+    }
+
+    // Decodes what a check of the upkeep returned, refusing what the upkeep may not perform
+    function _checkResult(Upkeep memory upkeep, bytes memory result)
+        private
+        view
+        returns (bool upkeepNeeded, bytes memory performData, uint8 upkeepFailureReason)
+    {
+        (upkeepNeeded, performData) = abi.decode(result, (bool, bytes));
+        if (!upkeepNeeded) {
+            return (false, "", UPKEEP_NOT_NEEDED);
+        }
+        if (performData.length > maxPerformDataSize) {
+            return (false, "", PERFORM_DATA_EXCEEDS_LIMIT);
+        }
+        if (upkeep.balance < _payment(upkeep.performGas, tx.gasprice)) {
+            return (false, "", INSUFFICIENT_BALANCE);
+        }
+        return (true, performData, 0);
+    }
+
+    function _payment(uint256 gasUsed, uint256 gasPrice) private view returns (uint96) {
+        return uint96(((gasUsed + PERFORM_GAS_OVERHEAD) * gasPrice * 1e18) / i_linkNativePrice);
+    }
+}
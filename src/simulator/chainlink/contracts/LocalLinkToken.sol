@@ -0,0 +1,77 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.18;
+
+import {IERC677Receiver} from "@chainlink/contracts/src/v0.8/shared/interfaces/IERC677Receiver.sol";
+
+/// @notice LINK for development nodes: an ERC-677 token implementing LinkTokenInterface, whose whole
+/// supply is minted to the deployer.
+/// @dev transferAndCall only emits the ERC-20 Transfer event: ethers contracts warn about overloaded events.
+contract LocalLinkToken {
+    string public constant name = "ChainLink Token";
+    string public constant symbol = "LINK";
+    uint8 public constant decimals = 18;
+    uint256 public constant totalSupply = 1e27;
+
+    mapping(address => uint256) public balanceOf;
+    mapping(address => mapping(address => uint256)) public allowance;
+
+    event Transfer(address indexed from, address indexed to, uint256 value);
+    event Approval(address indexed owner, address indexed spender, uint256 value);
+
+    constructor() {
+        balanceOf[msg.sender] = totalSupply;
+        emit Transfer(address(0), msg.sender, totalSupply);
+    }
+
+    function transfer(address to, uint256 value) public returns (bool success) {
+        _transfer(msg.sender, to, value);
+        return true;
+    }
+
+    function transferFrom(address from, address to, uint256 value) external returns (bool success) {
+        uint256 allowed = allowance[from][msg.sender];
+        require(allowed >= value, "LINK: insufficient allowance");
+        if (allowed != type(uint256).max) {
+            allowance[from][msg.sender] = allowed - value;
+        }
+        _transfer(from, to, value);
+        return true;
+    }
+
+    function approve(address spender, uint256 value) external returns (bool success) {
+        _approve(msg.sender, spender, value);
+        return true;
+    }
+
+    function increaseApproval(address spender, uint256 addedValue) external {
+        _approve(msg.sender, spender, allowance[msg.sender][spender] + addedValue);
+    }
+
+    function decreaseApproval(address spender, uint256 subtractedValue) external returns (bool success) {
+        uint256 allowed = allowance[msg.sender][spender];
+        _approve(msg.sender, spender, subtractedValue > allowed ? 0 : allowed - subtractedValue);
+        return true;
+    }
+
+    /// @notice Transfers tokens and notifies the recipient, if it is a contract.
+    function transferAndCall(address to, uint256 value, bytes calldata data) external returns (bool success) {
+        transfer(to, value);
+        if (to.code.length > 0) {
+            IERC677Receiver(to).onTokenTransfer(msg.sender, value, data);
+        }
+        return true;
+    }
+
+    function _transfer(address from, address to, uint256 value) private {
+        require(to != address(0) && to != address(this), "LINK: invalid recipient");
+        require(balanceOf[from] >= value, "LINK: insufficient balance");
+        balanceOf[from] -= value;
+        balanceOf[to] += value;
+        emit Transfer(from, to, value);
+    }
+
+    function _approve(address owner, address spender, uint256 value) private {
+        allowance[owner][spender] = value;
+        emit Approval(owner, spender, value);
+    }
+}
@@ -0,0 +1,50 @@
+import { ethers, ContractFactory, Signer } from 'ethers';
+import type { LocalChainlinkDeployment } from '../../core/networks.js';
+import { DEFAULT_LINK_NATIVE_PRICE } from '../billing.js';
+import { ChainlinkArtifact, LocalAutomationRegistrarArtifact, LocalAutomationRegistryArtifact, LocalLinkTokenArtifact } from './artifacts.js';
+
+// The limits of the local registry, as its network configuration declares them
+const CHECK_GAS_LIMIT = 10_000_000;
+const PERFORM_GAS_LIMIT = 5_000_000;
+const MAX_CHECK_DATA_SIZE = 5_000;
+const MAX_PERFORM_DATA_SIZE = 2_000;
+
+export interface DeployChainlinkOptions {
+    nodes?: string[]; // Addresses allowed to send performs through the registry, defaults to the deployer's
+    linkNativePrice?: string; // Native tokens per LINK performs are charged at, defaults to DEFAULT_LINK_NATIVE_PRICE
+}
+
+/**
+ * Deploys a LINK token, an Automation registry and its registrar to a development node, and
+ * connects them. The deployer holds the whole LINK supply and owns the registry.
+ * @returns The addresses of the deployed contracts.
+ */
+export async function deployChainlinkStack(signer: Signer, options: DeployChainlinkOptions = {}): Promise<LocalChainlinkDeployment> {
+    const [deployer, network] = await Promise.all([signer.getAddress(), signer.provider!.getNetwork()]);
+    const nodes = options.nodes && options.nodes.length > 0 ? options.nodes.map((node) => ethers.utils.getAddress(node)) : [deployer];
+    const linkNativePrice = ethers.utils.parseEther(options.linkNativePrice || DEFAULT_LINK_NATIVE_PRICE);
+
+    const link = await deploy(LocalLinkTokenArtifact, signer);
+    console.log(`[Chainlink] Deployed LINK at ${link.address}`);
+    const registry = await deploy(LocalAutomationRegistryArtifact, signer,
+        link.address, linkNativePrice, CHECK_GAS_LIMIT, PERFORM_GAS_LIMIT, MAX_CHECK_DATA_SIZE, MAX_PERFORM_DATA_SIZE, nodes);
+    console.log(`[Chainlink] Deployed the registry at ${registry.address}`);
+    const registrar = await deploy(LocalAutomationRegistrarArtifact, signer, link.address, registry.address, 0);
+    console.log(`[Chainlink] Deployed the registrar at ${registrar.address}`);
+    await (await registry.setRegistrar(registrar.address)).wait();
+
+    return {
+        chainId: network.chainId,
+        linkTokenAddress: link.address,
+        registrarAddress: registrar.address,
+        registryAddress: registry.address,
+        nodes,
+        deployedAt: new Date().toISOString(),
+    };
+}
+
+async function deploy(artifact: ChainlinkArtifact, signer: Signer, ...args: unknown[]): Promise<ethers.Contract> {
+    const contract = await new ContractFactory(artifact.abi, artifact.bytecode, signer).deploy(...args);
+    await contract.deployed();
+    return contract;
+}
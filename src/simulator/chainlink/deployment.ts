@@ -0,0 +1,28 @@
+import fs from 'fs';
+import path from 'path';
+import type { LocalChainlinkDeployment } from '../../core/networks.js';
+
+/**
+ * The file recording the local Chainlink stack deployed to a chain, in `dir`.
+ */
+export function getChainlinkDeploymentPath(chainId: number, dir: string): string {
+    return path.join(dir, `chainlink-${chainId}.json`);
+}
+
+export function writeChainlinkDeployment(deployment: LocalChainlinkDeployment, dir: string): void {
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(getChainlinkDeploymentPath(deployment.chainId, dir), JSON.stringify(deployment, null, 2));
+}
+
+/**
+ * Reads the local Chainlink stack recorded in `dir` for a chain.
+ * @returns The deployment, or undefined if none was recorded for that chain.
+ */
+export function readChainlinkDeployment(chainId: number, dir: string): LocalChainlinkDeployment | undefined {
+    try {
+        const deployment = JSON.parse(fs.readFileSync(getChainlinkDeploymentPath(chainId, dir), 'utf8')) as LocalChainlinkDeployment;
+        return deployment.chainId === chainId ? deployment : undefined;
+    } catch {
+        return undefined;
+    }
+}
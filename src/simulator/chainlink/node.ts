@@ -0,0 +1,274 @@
+import { ethers, BigNumber, Contract, ContractReceipt, ContractTransaction, Signer, providers } from 'ethers';
+import { CreateCustomUpkeepOptions, CreateLogUpkeepOptions } from '../../interfaces.js';
+import type { LocalChainlinkDeployment } from '../../core/networks.js';
+import { UpkeepCaller } from '../jobs.js';
+import { LocalAutomationRegistrarArtifact, LocalAutomationRegistryArtifact } from './artifacts.js';
+
+// How often the registry is read for new, changed and cancelled upkeeps
+const SYNC_INTERVAL_MS = 1000;
+
+const LOG_TRIGGER = 1;
+const LOG_TRIGGER_CONFIG = ['address', 'uint8', 'bytes32', 'bytes32', 'bytes32', 'bytes32'];
+const LOG_STRUCT = 'tuple(uint256 index, uint256 timestamp, bytes32 txHash, uint256 blockNumber, bytes32 blockHash, address source, bytes32[] topics, bytes data)';
+
+// Gas of a perform transaction on top of the upkeep's gas limit: the registry's overhead, and the
+// 1/64 of the gas left that calls keep
+const PERFORM_TX_OVERHEAD = 150_000;
+
+// The UpkeepFailureReason values of checkUpkeep and checkCallback
+const TARGET_CHECK_REVERTED = 3;
+const UPKEEP_NOT_NEEDED = 4;
+const CALLBACK_REVERTED = 7;
+const FAILURE_REASONS: Record<number, string> = {
+    1: 'the upkeep is cancelled',
+    2: 'the upkeep is paused',
+    5: "performData exceeds the registry's maxPerformDataSize",
+    6: "the upkeep's balance does not cover a perform",
+};
+
+/**
+ * Turns the answer of the registry's checkUpkeep or checkCallback into the upkeep's.
+ * @throws An error with the upkeep's revert data if it reverted, or why the registry refused the check.
+ */
+function upkeepAnswer(result: unknown): [boolean, string] {
+    const [upkeepNeeded, performData, failureReason] = result as [boolean, string, number];
+    if (upkeepNeeded || failureReason === UPKEEP_NOT_NEEDED) {
+        return [upkeepNeeded, performData];
+    }
+    if (failureReason === TARGET_CHECK_REVERTED || failureReason === CALLBACK_REVERTED) {
+        // The registry returns the revert data of the upkeep as performData
+        const revert = new Error(failureReason === CALLBACK_REVERTED ? 'checkCallback of the upkeep reverted' : 'The check of the upkeep reverted');
+        throw performData === '0x' ? revert : Object.assign(revert, { data: performData });
+    }
+    throw new Error(`The registry refused the check: ${FAILURE_REASONS[failureReason] ?? `failure reason ${failureReason}`}`);
+}
+
+/**
+ * An upkeep as the registry holds it.
+ */
+export interface ChainUpkeep {
+    id: string;
+    options: CreateCustomUpkeepOptions | CreateLogUpkeepOptions;
+    admin: string;
+    balance: BigNumber; // LINK, in juels
+    amountSpent: BigNumber;
+    paused: boolean;
+}
+
+/**
+ * Callbacks the node uses to hand the registry's upkeeps to the simulator.
+ */
+export interface ChainlinkNodeHooks {
+    /**
+     * Called with every active upkeep on each sync, whether it changed or not.
+     * @param resumeFrom - For upkeeps registered while the node runs, the block they were registered in
+     */
+    onUpkeep(upkeep: ChainUpkeep, resumeFrom?: number): void | Promise<void>;
+    /** Called once an upkeep was cancelled. */
+    onUpkeepCancelled(upkeepId: string): void | Promise<void>;
+}
+
+// What is read once per upkeep: the registrar only tells the name when the upkeep is registered
+interface UpkeepDetails {
+    name: string;
+    registeredAt: number;
+}
+
+/**
+ * Plays the Chainlink node for a local Automation registry (see `dev deploy-chainlink`): it follows the
+ * upkeeps registered on it, and provides the jobs of the simulator with callers checking and performing
+ * them through the registry, which simulates the checks and charges the performs like Chainlink does.
+ */
+export class ChainlinkNode {
+    // Checks are simulated from the zero address, like Chainlink does
+    private _registry: Contract;
+    private _registrar: Contract;
+    private _upkeeps = new Map<string, UpkeepDetails>();
+    private _synced = false;
+    private _intervalId: NodeJS.Timeout | null = null;
+    private _currentSync: Promise<void> = Promise.resolve();
+
+    constructor(private _deployment: LocalChainlinkDeployment, private _provider: providers.Provider, private _hooks: ChainlinkNodeHooks, private _manualTick = false) {
+        this._registry = new Contract(_deployment.registryAddress, LocalAutomationRegistryArtifact.abi, _provider);
+        this._registrar = new Contract(_deployment.registrarAddress, LocalAutomationRegistrarArtifact.abi, _provider);
+    }
+
+    public get registryAddress(): string {
+        return this._deployment.registryAddress;
+    }
+
+    /**
+     * Makes sure the signers may perform through the registry, allowing them if `owner` owns it,
+     * then follows its upkeeps.
+     * @throws An error if the registry is not deployed on this chain, or a signer cannot be allowed.
+     */
+    public async start(owner: Signer, nodes: string[]): Promise<void> {
+        if (await this._provider.getCode(this.registryAddress) === '0x') {
+            throw new Error(`No Chainlink registry at ${this.registryAddress}: was the node reset? Deploy the stack again with: cartesi-chainlink dev deploy-chainlink`);
+        }
+        const registry = this._registry.connect(owner);
+        const [registryOwner, ownerAddress] = await Promise.all([registry.owner() as Promise<string>, owner.getAddress()]);
+        for (const node of nodes) {
+            if (await registry.isNode(node)) {
+                continue;
+            }
+            if (registryOwner !== ownerAddress) {
+                throw new Error(`${node} may not perform through the registry at ${this.registryAddress}, and only its owner ${registryOwner} can allow it.`);
+            }
+            await (await registry.setNode(node, true)).wait();
+            console.log(`[ChainlinkNode] Allowed ${node} to perform through the registry.`);
+        }
+
+        await this.sync();
+        console.log(`[ChainlinkNode] Serving the ${this._upkeeps.size} upkeep(s) of the registry at ${this.registryAddress}.`);
+        if (!this._manualTick) {
+            this._intervalId = setInterval(() => void this.sync(), SYNC_INTERVAL_MS);
+        }
+    }
+
+    /**
+     * Reads the registry's upkeeps, reporting them to the hooks. Concurrent calls run one after the other.
+     */
+    public sync(): Promise<void> {
+        this._currentSync = this._currentSync.then(() => this._sync());
+        return this._currentSync;
+    }
+
+    public async stop(): Promise<void> {
+        if (this._intervalId) {
+            clearInterval(this._intervalId);
+            this._intervalId = null;
+        }
+        await this._currentSync;
+    }
+
+    /**
+     * Builds what the job of an upkeep calls: checks simulated by the registry's checkUpkeep (and
+     * checkCallback after a StreamsLookup), and performs sent by `signer` to its performUpkeep.
+     */
+    public caller(upkeepId: string, signer: Signer): UpkeepCaller {
+        const check = async (triggerData: string): Promise<[boolean, string]> =>
+            upkeepAnswer(await this._registry.callStatic['checkUpkeep(uint256,bytes)'](upkeepId, triggerData));
+
+        return {
+            checkUpkeep: () => check('0x'),
+            callStatic: {
+                checkLog: (log: unknown) => check(ethers.utils.defaultAbiCoder.encode([LOG_STRUCT], [log])),
+                checkCallback: async (values: string[], extraData: string) =>
+                    upkeepAnswer(await this._registry.callStatic.checkCallback(upkeepId, values, extraData)),
+            },
+            performUpkeep: async (performData: string, overrides: { gasLimit: number }): Promise<ContractTransaction> => {
+                const tx: ContractTransaction = await this._registry.connect(signer).performUpkeep(upkeepId, performData, {
+                    gasLimit: Math.ceil((overrides.gasLimit * 64) / 63) + PERFORM_TX_OVERHEAD,
+                });
+                return { ...tx, wait: (confirmations?: number) => this._confirmPerform(tx, confirmations) };
+            },
+        };
+    }
+
+    /**
+     * The LINK the registry charged for a perform.
+     * @returns The payment in juels, or undefined if the receipt holds no perform of this registry.
+     */
+    public performPayment(receipt: ContractReceipt): BigNumber | undefined {
+        return this._parsePerformed(receipt)?.totalPayment;
+    }
+
+    // A perform whose upkeep reverted is mined: the registry reports it in UpkeepPerformed
+    private async _confirmPerform(tx: ContractTransaction, confirmations?: number): Promise<ContractReceipt> {
+        const receipt = await tx.wait(confirmations);
+        const performed = this._parsePerformed(receipt);
+        if (performed && !performed.success) {
+            // With the gas the upkeep used, like the receipt of a perform sent to the upkeep itself
+            throw Object.assign(new Error(`performUpkeep reverted in the registry's call (transaction ${receipt.transactionHash})`), {
+                receipt: { ...receipt, gasUsed: performed.gasUsed },
+            });
+        }
+        return receipt;
+    }
+
+    private _parsePerformed(receipt: ContractReceipt): { success: boolean; totalPayment: BigNumber; gasUsed: BigNumber } | undefined {
+        for (const log of receipt.logs) {
+            if (log.address !== this.registryAddress) {
+                continue;
+            }
+            const parsed = this._registry.interface.parseLog(log);
+            if (parsed.name === 'UpkeepPerformed') {
+                const { success, totalPayment, gasUsed } = parsed.args;
+                return { success, totalPayment, gasUsed };
+            }
+        }
+        return undefined;
+    }
+
+    private async _sync(): Promise<void> {
+        try {
+            const ids = ((await this._registry.getActiveUpkeepIDs(0, 0)) as BigNumber[]).map((id) => id.toString());
+            for (const upkeepId of this._upkeeps.keys()) {
+                if (!ids.includes(upkeepId)) {
+                    this._upkeeps.delete(upkeepId);
+                    await this._hooks.onUpkeepCancelled(upkeepId);
+                }
+            }
+            for (const upkeepId of ids) {
+                const known = this._upkeeps.get(upkeepId);
+                const details = known ?? await this._readDetails(upkeepId);
+                const upkeep = await this._readUpkeep(upkeepId, details.name);
+                // Upkeeps found on startup start at the latest block, later ones right after their registration
+                await this._hooks.onUpkeep(upkeep, !known && this._synced ? details.registeredAt : undefined);
+                this._upkeeps.set(upkeepId, details);
+            }
+            this._synced = true;
+        } catch (error: unknown) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            console.error(`[ChainlinkNode] Failed to read the upkeeps of the registry at ${this.registryAddress}:`, errorMessage);
+        }
+    }
+
+    private async _readUpkeep(upkeepId: string, name: string): Promise<ChainUpkeep> {
+        const [info, triggerType] = await Promise.all([
+            this._registry.getUpkeep(upkeepId),
+            this._registry.getTriggerType(upkeepId) as Promise<number>,
+        ]);
+        const base = {
+            name,
+            upkeepContract: info.target as string,
+            gasLimit: info.performGas as number,
+            initialFunds: '0', // Funded on the registry, see balance
+        };
+        let options: ChainUpkeep['options'];
+        if (triggerType === LOG_TRIGGER) {
+            const [emitter, filterSelector, topic0, ...topics] = ethers.utils.defaultAbiCoder.decode(
+                LOG_TRIGGER_CONFIG, await this._registry.getUpkeepTriggerConfig(upkeepId)
+            ) as [string, number, string, string, string, string];
+            options = {
+                ...base,
+                triggerType: 'log',
+                logEmitterAddress: emitter,
+                logEventSignature: topic0,
+                // Bit i of the selector is set when topic i + 1 is filtered on
+                logTopicFilters: topics.map((topic, i) => (filterSelector & (1 << i) ? topic : null)),
+            };
+        } else {
+            options = { ...base, triggerType: 'custom', checkData: info.checkData };
+        }
+        return {
+            id: upkeepId,
+            options,
+            admin: info.admin,
+            balance: info.balance,
+            amountSpent: info.amountSpent,
+            paused: info.paused,
+        };
+    }
+
+    private async _readDetails(upkeepId: string): Promise<UpkeepDetails> {
+        const [registered] = await this._registry.queryFilter(this._registry.filters.UpkeepRegistered(upkeepId), 0);
+        const [approved] = await this._registrar.queryFilter(this._registrar.filters.RegistrationApproved(null, null, upkeepId), 0);
+        return {
+            // Upkeeps registered on the registry directly have no name
+            name: approved?.args?.displayName || `Upkeep ${upkeepId.slice(0, 8)}…`,
+            registeredAt: registered?.blockNumber ?? await this._provider.getBlockNumber(),
+        };
+    }
+}
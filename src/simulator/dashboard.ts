@@ -0,0 +1,287 @@
+/**
+ * The simulator's web dashboard, served at `GET /`. A single page with inline styles and script,
+ * so that it works offline: it only talks to the simulator's own API and event stream.
+ * When the API requires a bearer token, the page takes it from its `#token=` fragment or asks for it,
+ * and keeps it for the browser tab.
+ */
+export const DASHBOARD_HTML = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Chainlink Simulator</title>
+<style>
+  :root { --bg: #0f1218; --panel: #171b24; --border: #2a3040; --text: #dde2ec; --muted: #8a93a6; --accent: #375bd2; --ok: #3fb27f; --warn: #d9a13b; --err: #e05d5d; }
+  * { box-sizing: border-box; }
+  body { margin: 0; font: 14px/1.45 -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; background: var(--bg); color: var(--text); }
+  header { display: flex; flex-wrap: wrap; gap: 8px 24px; align-items: baseline; padding: 16px 24px; border-bottom: 1px solid var(--border); }
+  header h1 { margin: 0; font-size: 18px; }
+  header span { color: var(--muted); }
+  main { display: grid; grid-template-columns: minmax(0, 3fr) minmax(0, 2fr); gap: 16px; padding: 16px 24px; }
+  section { background: var(--panel); border: 1px solid var(--border); border-radius: 6px; padding: 12px 16px; min-width: 0; }
+  section.wide { grid-column: 1 / -1; }
+  h2 { margin: 0 0 8px; font-size: 15px; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid var(--border); white-space: nowrap; }
+  th { color: var(--muted); font-weight: normal; }
+  tbody tr { cursor: pointer; }
+  tbody tr:hover, tbody tr.selected { background: #1f2533; }
+  code { font: 12px ui-monospace, SFMono-Regular, Menlo, monospace; }
+  button { background: var(--accent); color: #fff; border: 0; border-radius: 4px; padding: 3px 10px; margin-right: 4px; cursor: pointer; font: inherit; }
+  button.secondary { background: #3a4256; }
+  button.danger { background: var(--err); }
+  button:disabled { opacity: .5; cursor: default; }
+  .badge { display: inline-block; padding: 0 8px; border-radius: 10px; font-size: 12px; background: #3a4256; }
+  .active, .performed, .perform-confirmed, .registered { color: var(--ok); }
+  .paused, .skipped, .not-needed, .check, .perform-sent { color: var(--warn); }
+  .check-failed, .perform-failed, .unregistered, .error { color: var(--err); }
+  .muted { color: var(--muted); }
+  .scroll { max-height: 420px; overflow: auto; }
+  #message { min-height: 20px; padding: 0 24px; }
+  @media (max-width: 900px) { main { grid-template-columns: 1fr; } }
+</style>
+</head>
+<body>
+<header>
+  <h1>Chainlink Simulator</h1>
+  <span id="status">Connecting...</span>
+</header>
+<div id="message"></div>
+<main>
+  <section class="wide">
+    <h2>Upkeeps</h2>
+    <table>
+      <thead><tr><th>Name</th><th>Trigger</th><th>Contract</th><th>Status</th><th>Balance</th><th>Performs</th><th></th></tr></thead>
+      <tbody id="upkeeps"><tr><td colspan="7" class="muted">No upkeep registered.</td></tr></tbody>
+    </table>
+  </section>
+  <section>
+    <h2 id="history-title">Recent checks and performs</h2>
+    <div class="scroll">
+      <table>
+        <thead><tr><th>Block</th><th>Outcome</th><th>Transaction</th><th>Gas</th><th>Details</th></tr></thead>
+        <tbody id="history"><tr><td colspan="5" class="muted">Select an upkeep.</td></tr></tbody>
+      </table>
+    </div>
+  </section>
+  <section>
+    <h2>Live events</h2>
+    <div class="scroll">
+      <table><tbody id="events"><tr><td class="muted">Waiting for events...</td></tr></tbody></table>
+    </div>
+  </section>
+</main>
+<script>
+(function () {
+  var selected = null;
+  var refreshTimer = null;
+  var source = null;
+  var MAX_EVENTS = 100;
+  var TOKEN_KEY = 'simulatorToken';
+  var token = sessionStorage.getItem(TOKEN_KEY);
+  var declined = false; // The token prompt was cancelled
+
+  // Opened as /#token=..., the token is kept for the tab and removed from the address bar
+  var fragment = /^#token=(.+)$/.exec(location.hash);
+  if (fragment) {
+    token = decodeURIComponent(fragment[1]);
+    sessionStorage.setItem(TOKEN_KEY, token);
+    history.replaceState(null, '', location.pathname);
+  }
+
+  function $(id) { return document.getElementById(id); }
+
+  function escape(value) {
+    return String(value === undefined || value === null ? '' : value).replace(/[&<>"']/g, function (c) {
+      return { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c];
+    });
+  }
+
+  function short(hex) {
+    return hex && hex.length > 14 ? hex.slice(0, 8) + '...' + hex.slice(-6) : (hex || '');
+  }
+
+  function showMessage(text, isError) {
+    $('message').innerHTML = text ? '<span class="' + (isError ? 'error' : 'muted') + '">' + escape(text) + '</span>' : '';
+  }
+
+  // After a cancel, the page shows the 401 errors until it is reloaded
+  function askToken() {
+    if (declined) {
+      return false;
+    }
+    var entered = prompt('The simulator requires a bearer token (stored in .cartesi-chainlink/simulator-<port>.token):');
+    if (entered) {
+      token = entered.trim();
+      sessionStorage.setItem(TOKEN_KEY, token);
+      openEvents();
+    } else {
+      declined = true;
+    }
+    return Boolean(entered);
+  }
+
+  function request(method, path, body) {
+    var sent = token;
+    var headers = body ? { 'Content-Type': 'application/json' } : {};
+    if (sent) {
+      headers.Authorization = 'Bearer ' + sent;
+    }
+    return fetch(path, {
+      method: method,
+      headers: headers,
+      body: body ? JSON.stringify(body) : undefined
+    }).then(function (response) {
+      // Retried right away if another request got the token meanwhile
+      if (response.status === 401 && (token !== sent || askToken())) {
+        return request(method, path, body);
+      }
+      return response.json().catch(function () { return {}; }).then(function (data) {
+        if (!response.ok) {
+          throw new Error(data.message || ('HTTP ' + response.status));
+        }
+        return data;
+      });
+    });
+  }
+
+  function loadStatus() {
+    return request('GET', '/status').then(function (status) {
+      $('status').textContent = 'Wallet ' + short(status.wallet) + ' \\u00b7 RPC ' + status.rpcUrl +
+        (status.manualTick ? ' \\u00b7 manual ticks' : '') + ' \\u00b7 up ' + status.uptime + 's';
+    });
+  }
+
+  function loadUpkeeps() {
+    return request('GET', '/upkeeps').then(function (data) {
+      var rows = data.upkeeps.map(function (upkeep) {
+        var paused = upkeep.status === 'paused';
+        return '<tr data-id="' + escape(upkeep.id) + '"' + (upkeep.id === selected ? ' class="selected"' : '') + '>' +
+          '<td title="ID ' + escape(upkeep.id) + '">' + escape(upkeep.name) + '</td>' +
+          '<td><span class="badge">' + escape(upkeep.triggerType) + '</span></td>' +
+          '<td><code title="' + escape(upkeep.target) + '">' + escape(short(upkeep.target)) + '</code></td>' +
+          '<td class="' + escape(upkeep.status) + '">' + escape(upkeep.status) + '</td>' +
+          '<td>' + escape(upkeep.balance) + ' LINK</td>' +
+          '<td>' + escape(upkeep.performCount) + '</td>' +
+          '<td>' +
+            '<button data-action="check"' + (paused ? ' disabled' : '') + '>Check now</button>' +
+            '<button class="secondary" data-action="' + (paused ? 'unpause' : 'pause') + '">' + (paused ? 'Resume' : 'Pause') + '</button>' +
+            '<button class="danger" data-action="unregister">Unregister</button>' +
+          '</td></tr>';
+      });
+      $('upkeeps').innerHTML = rows.length ? rows.join('') : '<tr><td colspan="7" class="muted">No upkeep registered.</td></tr>';
+      if (selected && !data.upkeeps.some(function (upkeep) { return upkeep.id === selected; })) {
+        selected = null;
+      }
+    });
+  }
+
+  function loadHistory() {
+    if (!selected) {
+      $('history-title').textContent = 'Recent checks and performs';
+      $('history').innerHTML = '<tr><td colspan="5" class="muted">Select an upkeep.</td></tr>';
+      return Promise.resolve();
+    }
+    return request('GET', '/upkeeps/' + encodeURIComponent(selected) + '/history?limit=50').then(function (page) {
+      $('history-title').textContent = 'Recent checks and performs (' + page.records.length + ' of ' + page.total + ')';
+      var rows = page.records.map(function (record) {
+        var details = record.error || (record.trigger ? 'log ' + short(record.trigger.transactionHash) + '#' + record.trigger.logIndex : '');
+        return '<tr><td>' + escape(record.blockNumber) + '</td>' +
+          '<td class="' + escape(record.status) + '">' + escape(record.status) + '</td>' +
+          '<td><code title="' + escape(record.txHash) + '">' + escape(short(record.txHash)) + '</code></td>' +
+          '<td>' + escape(record.gasUsed) + '</td>' +
+          '<td title="' + escape(details) + '">' + escape(details.length > 60 ? details.slice(0, 60) + '...' : details) + '</td></tr>';
+      });
+      $('history').innerHTML = rows.length ? rows.join('') : '<tr><td colspan="5" class="muted">Not checked yet.</td></tr>';
+    });
+  }
+
+  function refresh() {
+    return Promise.all([loadStatus(), loadUpkeeps().then(loadHistory)]).catch(function (error) {
+      $('status').textContent = 'Simulator unreachable: ' + error.message;
+    });
+  }
+
+  // Events come in bursts (check, perform sent, perform confirmed), so refreshes are batched
+  function scheduleRefresh() {
+    if (!refreshTimer) {
+      refreshTimer = setTimeout(function () { refreshTimer = null; refresh(); }, 300);
+    }
+  }
+
+  function addEvent(event) {
+    var list = $('events');
+    if (list.querySelector('.muted')) {
+      list.innerHTML = '';
+    }
+    var detail = event.txHash ? short(event.txHash) : event.error || (event.upkeepNeeded !== undefined ? 'upkeepNeeded: ' + event.upkeepNeeded : '');
+    var row = document.createElement('tr');
+    row.innerHTML = '<td class="muted">' + escape(new Date(event.timestamp).toLocaleTimeString()) + '</td>' +
+      '<td class="' + escape(event.type) + '">' + escape(event.type) + '</td>' +
+      '<td><code>' + escape(short(event.upkeepId)) + '</code></td><td>' + escape(detail) + '</td>';
+    list.insertBefore(row, list.firstChild);
+    while (list.children.length > MAX_EVENTS) {
+      list.removeChild(list.lastChild);
+    }
+  }
+
+  function act(action, id) {
+    var done;
+    if (action === 'unregister') {
+      if (!confirm('Unregister upkeep ' + id + '?')) {
+        return;
+      }
+      done = request('POST', '/unregister', { upkeepId: id }).then(function () { return 'Unregistered ' + id + '.'; });
+    } else if (action === 'check') {
+      showMessage('Checking ' + id + '...');
+      done = request('POST', '/upkeeps/' + encodeURIComponent(id) + '/check').then(function (summary) {
+        var outcomes = summary.executions.map(function (record) { return record.status; });
+        return 'Checked at block ' + summary.blockNumber + ': ' + (outcomes.length ? outcomes.join(', ') : 'nothing was due') + '.';
+      });
+    } else {
+      done = request('POST', '/upkeeps/' + encodeURIComponent(id) + '/' + action).then(function () {
+        return (action === 'pause' ? 'Paused ' : 'Resumed ') + id + '.';
+      });
+    }
+    done.then(function (text) { showMessage(text); }, function (error) { showMessage(error.message, true); }).then(refresh);
+  }
+
+  $('upkeeps').addEventListener('click', function (event) {
+    var row = event.target.closest('tr[data-id]');
+    if (!row) {
+      return;
+    }
+    var action = event.target.getAttribute('data-action');
+    if (action) {
+      act(action, row.getAttribute('data-id'));
+      return;
+    }
+    selected = row.getAttribute('data-id');
+    loadUpkeeps().then(loadHistory);
+  });
+
+  // Live updates come from the event stream; without it, poll
+  function openEvents() {
+    if (!window.EventSource) {
+      return;
+    }
+    if (source) {
+      source.close();
+    }
+    source = new EventSource('/events' + (token ? '?token=' + encodeURIComponent(token) : ''));
+    ['registered', 'unregistered', 'check', 'perform-sent', 'perform-confirmed', 'perform-failed'].forEach(function (type) {
+      source.addEventListener(type, function (message) {
+        addEvent(JSON.parse(message.data));
+        scheduleRefresh();
+      });
+    });
+  }
+
+  openEvents();
+  setInterval(refresh, window.EventSource ? 15000 : 3000);
+  refresh();
+})();
+</script>
+</body>
+</html>
+`;
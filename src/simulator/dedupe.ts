@@ -0,0 +1,85 @@
+import { ethers } from 'ethers';
+
+/**
+ * What happened to a log, once its block was confirmed.
+ */
+export type LogState = 'checked-not-needed' | 'performed' | 'failed';
+
+export interface ProcessedLog {
+    blockNumber: number;
+    blockHash: string;
+    transactionHash: string;
+    logIndex: number;
+    state: LogState;
+    error?: string; // Why a 'failed' log was not performed
+}
+
+/**
+ * Remembers the logs a log trigger job has processed, so that each log is handled at most once.
+ * Like on Chainlink, a log is identified by its block hash and index: the same transaction
+ * mined again in a replacement block after a reorg yields a new log. Entries are kept for a
+ * window of blocks only, pruned by block height.
+ */
+export class LogDedupeStore {
+    private _entries = new Map<string, ProcessedLog>();
+
+    static keyOf(log: Pick<ethers.providers.Log, 'blockHash' | 'logIndex'>): string {
+        return `${log.blockHash.toLowerCase()}:${log.logIndex}`;
+    }
+
+    get size(): number {
+        return this._entries.size;
+    }
+
+    has(log: Pick<ethers.providers.Log, 'blockHash' | 'logIndex'>): boolean {
+        return this._entries.has(LogDedupeStore.keyOf(log));
+    }
+
+    get(log: Pick<ethers.providers.Log, 'blockHash' | 'logIndex'>): ProcessedLog | undefined {
+        return this._entries.get(LogDedupeStore.keyOf(log));
+    }
+
+    record(log: ethers.providers.Log, state: LogState, error?: string): ProcessedLog {
+        const entry: ProcessedLog = {
+            blockNumber: log.blockNumber,
+            blockHash: log.blockHash,
+            transactionHash: log.transactionHash,
+            logIndex: log.logIndex,
+            state,
+            ...(error && { error }),
+        };
+        this._entries.set(LogDedupeStore.keyOf(log), entry);
+        return entry;
+    }
+
+    /**
+     * Forgets the logs of the blocks above `blockNumber`, e.g. when they were replaced by a reorg.
+     * @returns The forgotten entries.
+     */
+    dropAbove(blockNumber: number): ProcessedLog[] {
+        return this._removeWhere((entry) => entry.blockNumber > blockNumber);
+    }
+
+    /**
+     * Forgets the logs of the blocks below `blockNumber`, which can no longer be delivered again.
+     * @returns The number of forgotten entries.
+     */
+    prune(blockNumber: number): number {
+        return this._removeWhere((entry) => entry.blockNumber < blockNumber).length;
+    }
+
+    entries(): ProcessedLog[] {
+        return [...this._entries.values()];
+    }
+
+    private _removeWhere(predicate: (entry: ProcessedLog) => boolean): ProcessedLog[] {
+        const removed: ProcessedLog[] = [];
+        for (const [key, entry] of this._entries) {
+            if (predicate(entry)) {
+                this._entries.delete(key);
+                removed.push(entry);
+            }
+        }
+        return removed;
+    }
+}
@@ -0,0 +1,63 @@
+import { SimulatorEvent, SimulatorEventType } from '../interfaces.js';
+
+export const SIMULATOR_EVENT_TYPES: SimulatorEventType[] = ['registered', 'unregistered', 'check', 'perform-sent', 'perform-confirmed', 'perform-failed'];
+
+// Events kept for clients reconnecting with Last-Event-ID
+export const DEFAULT_EVENT_BUFFER_SIZE = 200;
+
+export type SimulatorEventListener = (event: SimulatorEvent) => void;
+
+/**
+ * The events of a simulator, numbered in order and handed to every listener. The most recent
+ * ones are kept, so that a client that reconnects can replay those it missed.
+ */
+export class SimulatorEvents {
+    private _listeners = new Set<SimulatorEventListener>();
+    private _recent: SimulatorEvent[] = [];
+    private _nextId = 1;
+
+    constructor(private _bufferSize = DEFAULT_EVENT_BUFFER_SIZE) {}
+
+    emit(event: Omit<SimulatorEvent, 'id' | 'timestamp'>): SimulatorEvent {
+        const numbered: SimulatorEvent = { id: this._nextId++, timestamp: new Date().toISOString(), ...event };
+        this._recent.push(numbered);
+        if (this._recent.length > this._bufferSize) {
+            this._recent.shift();
+        }
+        for (const listener of this._listeners) {
+            try {
+                listener(numbered);
+            } catch (error: unknown) {
+                // A broken listener must not keep the others, or the job emitting, from going on
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                console.error(`[SimulatorEvents] Listener failed on ${numbered.type} event:`, errorMessage);
+            }
+        }
+        return numbered;
+    }
+
+    /**
+     * Calls `listener` with every event from now on.
+     * @returns A function removing the listener.
+     */
+    subscribe(listener: SimulatorEventListener): () => void {
+        this._listeners.add(listener);
+        return () => {
+            this._listeners.delete(listener);
+        };
+    }
+
+    /**
+     * The id of the latest event, 0 before the first one.
+     */
+    get lastId(): number {
+        return this._nextId - 1;
+    }
+
+    /**
+     * @returns The kept events emitted after the event `lastId`, oldest first.
+     */
+    since(lastId: number): SimulatorEvent[] {
+        return this._recent.filter((event) => event.id > lastId);
+    }
+}
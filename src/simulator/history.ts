@@ -0,0 +1,86 @@
+import { ethers } from 'ethers';
+import { ExecutionRecord } from '../interfaces.js';
+
+export const DEFAULT_HISTORY_LIMIT = 500;
+export const DEFAULT_HISTORY_PAGE_SIZE = 50;
+
+/**
+ * What a job reports about an execution; the history numbers and timestamps it.
+ */
+export type Execution = Omit<ExecutionRecord, 'id' | 'timestamp'>;
+
+const ERROR_SELECTOR = '0x08c379a0'; // Error(string)
+const PANIC_SELECTOR = '0x4e487b71'; // Panic(uint256)
+
+// Where nodes and ethers put the revert data of a failed call, depending on the node and the ethers version
+export function findRevertData(error: unknown, depth = 0): string | undefined {
+    if (!error || typeof error !== 'object' || depth > 4) {
+        return undefined;
+    }
+    const { data, error: inner } = error as { data?: unknown; error?: unknown };
+    if (typeof data === 'string' && ethers.utils.isHexString(data) && data.length >= 10) {
+        return data;
+    }
+    if (data && typeof data === 'object') {
+        const nested = findRevertData(data, depth + 1);
+        if (nested) {
+            return nested;
+        }
+    }
+    return findRevertData(inner, depth + 1);
+}
+
+/**
+ * Turns the error of a failed check or perform into a readable reason: the decoded
+ * `Error(string)` or `Panic(uint256)` of a revert, otherwise the error message.
+ */
+export function decodeRevertReason(error: unknown): string {
+    const data = findRevertData(error);
+    try {
+        if (data?.startsWith(ERROR_SELECTOR)) {
+            return `reverted: ${ethers.utils.defaultAbiCoder.decode(['string'], ethers.utils.hexDataSlice(data, 4))[0]}`;
+        }
+        if (data?.startsWith(PANIC_SELECTOR)) {
+            const code = ethers.utils.defaultAbiCoder.decode(['uint256'], ethers.utils.hexDataSlice(data, 4))[0] as ethers.BigNumber;
+            return `panicked with code 0x${code.toNumber().toString(16)}`;
+        }
+        if (data) {
+            return `reverted with custom error ${data.slice(0, 10)}`;
+        }
+    } catch {
+        // Malformed revert data: fall back to the message
+    }
+    const { reason, message } = (error ?? {}) as { reason?: string; message?: string };
+    return reason ?? message ?? String(error);
+}
+
+/**
+ * The executions of one upkeep, kept in memory for the last `limit` checks and performs.
+ */
+export class ExecutionHistory {
+    private _records: ExecutionRecord[] = [];
+    private _nextId = 1;
+
+    constructor(private _limit = DEFAULT_HISTORY_LIMIT) {}
+
+    get size(): number {
+        return this._records.length;
+    }
+
+    record(execution: Execution): ExecutionRecord {
+        const record: ExecutionRecord = { id: this._nextId++, timestamp: new Date().toISOString(), ...execution };
+        this._records.push(record);
+        if (this._records.length > this._limit) {
+            this._records.shift();
+        }
+        return record;
+    }
+
+    /**
+     * @returns Up to `limit` records, most recent first, skipping the `offset` most recent ones.
+     */
+    page(offset = 0, limit = DEFAULT_HISTORY_PAGE_SIZE): ExecutionRecord[] {
+        const end = Math.max(this._records.length - offset, 0);
+        return this._records.slice(Math.max(end - limit, 0), end).reverse();
+    }
+}
@@ -1,8 +1,15 @@
-import { ethers, Contract, BigNumber } from 'ethers';
-import { CreateCustomUpkeepOptions, CreateLogUpkeepOptions } from '../interfaces.js';
+import { ethers, Contract, BigNumber, ContractFunction, ContractReceipt } from 'ethers';
+import { CreateCustomUpkeepOptions, CreateLogUpkeepOptions, CreateTimeUpkeepOptions } from '../interfaces.js';
+import { CronSchedule, nextCronTick, parseCronExpression } from '../core/cron.js';
+import { encodeTopicFilters } from '../core/topics.js';
+import { LogDedupeStore, ProcessedLog } from './dedupe.js';
+import { LimitViolation, createViolation, isOutOfGas } from './limits.js';
+import { Execution, decodeRevertReason } from './history.js';
+import { ReportSource, checkWithStreamsLookup } from './streams.js';
 
 const CustomLogicABI = [
     "function checkUpkeep(bytes calldata) external view returns (bool upkeepNeeded, bytes memory performData)",
+    "function checkCallback(bytes[] values, bytes extraData) external view returns (bool upkeepNeeded, bytes performData)",
     "function performUpkeep(bytes calldata performData) external"
 ];
 
@@ -11,46 +18,146 @@ const CombinedLogAutomationABI = [
   // Modern ILogAutomation with the full 8-field tuple
   "function checkLog((uint256 index,uint256 timestamp,bytes32 txHash,uint256 blockNumber,bytes32 blockHash,address source,bytes32[] topics,bytes data) log, bytes checkData) external view returns (bool upkeepNeeded, bytes performData)",
   // Common
+  "function checkCallback(bytes[] values, bytes extraData) external view returns (bool upkeepNeeded, bytes performData)",
   "function performUpkeep(bytes calldata performData) external",
 ];
 
+/**
+ * What a job calls to check and perform its upkeep: the upkeep contract by default. The upkeeps of a
+ * local Chainlink registry are checked and performed through the registry instead, see ChainlinkNode.
+ */
+export interface UpkeepCaller {
+    checkUpkeep: ContractFunction;
+    performUpkeep: ContractFunction;
+    callStatic: { [name: string]: ContractFunction };
+}
 
 export interface IUpkeepJob {
-    start(): void;
-    stop(): void;
+    /**
+     * Starts the job at the latest block, or right after `resumeFrom` when restoring a job,
+     * catching up on what was missed since that block.
+     */
+    start(resumeFrom?: number): Promise<void>;
+    /**
+     * Runs what is due at the current block right away, as the job's timer or block listener would.
+     * Resolves once the checks and performs it started have settled.
+     * @param force - Run even if the current block was processed already, e.g. to check an upkeep on demand
+     */
+    tick(force?: boolean): Promise<void>;
+    /** Stops checking for new work; resolves once an in-flight check/perform has settled. */
+    stop(): Promise<void>;
+}
+
+/**
+ * Callbacks a job uses to report back to the registry that owns it.
+ */
+export interface UpkeepJobHooks {
+    /** Called before a perform is sent; resolves to why it must be skipped (e.g. when underfunded), if it must. */
+    canPerform?(performData: string): Promise<string | undefined>;
+    onPerformed?(performData: string, receipt: ContractReceipt): void;
+    /** Called when a check or perform runs out of the gas Chainlink would give it. */
+    onViolation?(violation: LimitViolation): void;
+    /** Called when a check call settled, answered or failed, with how long it took. */
+    onCheckDuration?(seconds: number): void;
+    /** Called when a check answered, before the perform it asks for is sent. */
+    onChecked?(execution: Omit<Execution, 'status'>): void;
+    /** Called when a perform transaction was sent, before it is mined. */
+    onPerformSent?(execution: Omit<Execution, 'status'>, txHash: string): void;
+    /** Called after every check and perform, whatever its outcome. */
+    onExecution?(execution: Execution): void;
+    /** Called once everything up to this block has been processed; a restored job resumes after it. */
+    onCheckpoint?(blockNumber: number): void;
+}
+
+/**
+ * Describes a failed check or perform, with the transaction of a reverted perform if there was one.
+ */
+function failedExecution(error: unknown, phase: 'check' | 'perform', execution: Omit<Execution, 'status'>): Execution {
+    const receipt = (error as { receipt?: ContractReceipt } | null)?.receipt;
+    return {
+        ...execution,
+        ...(receipt && { txHash: receipt.transactionHash, gasUsed: BigNumber.from(receipt.gasUsed).toString() }),
+        status: phase === 'check' ? 'check-failed' : 'perform-failed',
+        error: decodeRevertReason(error),
+    };
+}
+
+/**
+ * Runs a check call, reporting how long it took.
+ */
+async function timeCheck<T>(check: () => Promise<T>, hooks: UpkeepJobHooks): Promise<T> {
+    const startedAt = performance.now();
+    try {
+        return await check();
+    } finally {
+        hooks.onCheckDuration?.((performance.now() - startedAt) / 1000);
+    }
+}
+
+/**
+ * Reports a check or perform that ran out of gas as a violation of the matching limit.
+ */
+function reportOutOfGas(error: unknown, phase: 'check' | 'perform', gasLimit: number | undefined, hooks: UpkeepJobHooks): void {
+    if (gasLimit === undefined || !isOutOfGas(error, gasLimit)) {
+        return;
+    }
+    hooks.onViolation?.(phase === 'check'
+        ? createViolation('checkGasLimit', `The check ran out of gas: it needs more than the checkGasLimit of ${gasLimit}.`)
+        : createViolation('gasLimit', `performUpkeep ran out of gas: it needs more than the upkeep's gasLimit of ${gasLimit}.`));
+}
+
+/**
+ * Settings of the custom logic jobs, shared by every custom logic upkeep of a simulator.
+ */
+export interface CustomLogicJobConfig {
+    checkGasLimit?: number; // Gas available to checkUpkeep, like the network's checkGasLimit; unlimited when unset
+    manualTick?: boolean; // Run only on tick(), without polling for new blocks
+    reportSource?: ReportSource; // Answers the StreamsLookup reverts of checks, which fail without one
 }
 
 export class CustomLogicJob implements IUpkeepJob {
-    private _upkeepContract: Contract;
+    private _upkeepContract: Contract | UpkeepCaller;
     private _signer: ethers.Signer;
     private _provider: ethers.providers.Provider;
     private _isExecuting = false;
     private _lastProcessedBlock = 0;
     private _intervalId: NodeJS.Timeout | null = null;
+    private _currentTick: Promise<void> = Promise.resolve();
 
-    constructor(private _options: CreateCustomUpkeepOptions, signer: ethers.Signer) {
+    constructor(private _options: CreateCustomUpkeepOptions, signer: ethers.Signer, private _hooks: UpkeepJobHooks = {}, private _config: CustomLogicJobConfig = {}, caller?: UpkeepCaller) {
         this._signer = signer;
         this._provider = signer.provider!;
-        this._upkeepContract = new Contract(this._options.upkeepContract, CustomLogicABI, this._signer);
+        this._upkeepContract = caller ?? new Contract(this._options.upkeepContract, CustomLogicABI, this._signer);
     }
 
-    public async start(): Promise<void> {
-        console.log(`[CustomLogicJob - ${this._options.name}] Starting... Polling for new blocks every second.`);
-        this._lastProcessedBlock = await this._provider.getBlockNumber();
+    public async start(resumeFrom?: number): Promise<void> {
+        console.log(`[CustomLogicJob - ${this._options.name}] Starting... ${this._config.manualTick ? 'Checking on manual ticks.' : 'Polling for new blocks every second.'}`);
+        // checkUpkeep looks at the current state, so resuming only means checking right away
+        this._lastProcessedBlock = resumeFrom ?? await this._provider.getBlockNumber();
         console.log(`[CustomLogicJob - ${this._options.name}] Initial block number: ${this._lastProcessedBlock}`);
-        this._intervalId = setInterval(() => this._tick(), 1000);
+        if (this._config.manualTick) {
+            return;
+        }
+        this._intervalId = setInterval(() => {
+            if (!this._isExecuting) {
+                this._currentTick = this._tick();
+            }
+        }, 1000);
     }
 
-    private async _tick(): Promise<void> {
+    private async _tick(force = false): Promise<void> {
         if (this._isExecuting) {
             return;
         }
 
+        let processed = false;
+        let phase: 'check' | 'perform' = 'check';
+        let execution: Omit<Execution, 'status'> = { blockNumber: 0 };
         try {
             this._isExecuting = true;
             const currentBlock = await this._provider.getBlockNumber();
 
-            if (currentBlock <= this._lastProcessedBlock) {
+            if (currentBlock <= this._lastProcessedBlock && !force) {
                 // No new block to process, this is expected behavior on a non-auto-mining chain
                 // console.log(`[CustomLogicJob - ${this._options.name}] No new block (current: ${currentBlock}, last: ${this._lastProcessedBlock})...`);
                 this._isExecuting = false; // Release lock before returning
@@ -58,15 +165,38 @@ export class CustomLogicJob implements IUpkeepJob {
             }
 
             this._lastProcessedBlock = currentBlock;
-
-            const [upkeepNeeded, performData] = await this._upkeepContract.checkUpkeep(this._options.checkData || '0x');
-
-            if (upkeepNeeded) {
-                console.log(`[CustomLogicJob - ${this._options.name}] ✅ Upkeep needed. Performing...`);
-                const tx = await this._upkeepContract.performUpkeep(performData);
-                const receipt = await tx.wait();
-                console.log(`[CustomLogicJob - ${this._options.name}] 🎉 Upkeep performed! Tx: ${receipt.transactionHash}`);
+            processed = true;
+            execution = { blockNumber: currentBlock };
+
+            const checkOverrides = { ...(this._config.checkGasLimit && { gasLimit: this._config.checkGasLimit }) };
+            const [upkeepNeeded, performData] = await timeCheck(() => checkWithStreamsLookup(
+                () => this._upkeepContract.checkUpkeep(this._options.checkData || '0x', checkOverrides),
+                (values, extraData, overrides) => this._upkeepContract.callStatic.checkCallback(values, extraData, overrides),
+                this._config.reportSource,
+                checkOverrides
+            ), this._hooks);
+            execution = { ...execution, upkeepNeeded, performData };
+            this._hooks.onChecked?.(execution);
+
+            if (!upkeepNeeded) {
+                this._hooks.onExecution?.({ ...execution, status: 'not-needed' });
+                return;
+            }
+            const skipReason = this._hooks.canPerform && await this._hooks.canPerform(performData);
+            if (skipReason) {
+                this._hooks.onExecution?.({ ...execution, status: 'skipped', error: skipReason });
+                return;
             }
+            console.log(`[CustomLogicJob - ${this._options.name}] ✅ Upkeep needed. Performing...`);
+            phase = 'perform';
+            const tx = await this._upkeepContract.performUpkeep(performData, {
+                gasLimit: this._options.gasLimit
+            });
+            this._hooks.onPerformSent?.(execution, tx.hash);
+            const receipt = await tx.wait();
+            this._hooks.onPerformed?.(performData, receipt);
+            this._hooks.onExecution?.({ ...execution, txHash: receipt.transactionHash, gasUsed: receipt.gasUsed.toString(), status: 'performed' });
+            console.log(`[CustomLogicJob - ${this._options.name}] 🎉 Upkeep performed! Tx: ${receipt.transactionHash}`);
         } catch (error: unknown) {
             let errorMessage = 'An unknown error occurred';
             if (error instanceof Error) {
@@ -75,84 +205,416 @@ export class CustomLogicJob implements IUpkeepJob {
                 errorMessage = String((error as {message: unknown}).message);
             }
             console.error(`[CustomLogicJob - ${this._options.name}] Error during check/perform: ${errorMessage}`);
+            reportOutOfGas(error, phase, phase === 'check' ? this._config.checkGasLimit : this._options.gasLimit, this._hooks);
+            if (processed) {
+                this._hooks.onExecution?.(failedExecution(error, phase, execution));
+            }
             // For detailed debugging, log the full error object
             // console.error(error);
         } finally {
             this._isExecuting = false;
+            if (processed) {
+                this._hooks.onCheckpoint?.(this._lastProcessedBlock);
+            }
         }
     }
 
-    public stop(): void {
+    public async tick(force = false): Promise<void> {
+        await this._currentTick;
+        this._currentTick = this._tick(force);
+        await this._currentTick;
+    }
+
+    public async stop(): Promise<void> {
         if (this._intervalId) {
             clearInterval(this._intervalId);
             this._intervalId = null;
         }
+        await this._currentTick;
         console.log(`[CustomLogicJob - ${this._options.name}] Stopped.`);
     }
 }
 
-// Helper: event signature -> topic0
-function topic0FromSignature(sig: string): string {
-    return ethers.utils.id(sig);
-  }
-  
-  // Helper: address -> 32-byte topic (topic1)
-  function addressToTopic(addr: string): string {
-    return ethers.utils.hexZeroPad(addr, 32);
-  }
-  
-  // Helper: number/bigint -> 32-byte topic (topic2, topic3, etc.)
-  function uintToTopic(n: number | bigint): string {
-    const bn = ethers.BigNumber.from(n);
-    return ethers.utils.hexZeroPad(ethers.utils.hexlify(bn), 32);
-  }
+/**
+ * Settings of the time-based jobs, shared by every time-based upkeep of a simulator.
+ */
+export interface CronJobConfig {
+    manualTick?: boolean; // Run only on tick(), without polling for new blocks
+}
+
+/**
+ * Simulates a time-based (cron) upkeep. The schedule is evaluated against the
+ * local chain's block timestamps, so `evm_increaseTime` and friends move it forward.
+ * Like Chainlink's CronUpkeep, missed ticks are coalesced into a single perform.
+ */
+export class CronJob implements IUpkeepJob {
+    private _upkeepContract: Contract;
+    private _signer: ethers.Signer;
+    private _provider: ethers.providers.Provider;
+    private _schedule: CronSchedule;
+    private _isExecuting = false;
+    private _lastProcessedBlock = 0;
+    private _nextTick = 0;
+    private _intervalId: NodeJS.Timeout | null = null;
+    private _currentTick: Promise<void> = Promise.resolve();
+
+    constructor(private _options: CreateTimeUpkeepOptions, signer: ethers.Signer, private _hooks: UpkeepJobHooks = {}, private _config: CronJobConfig = {}) {
+        this._signer = signer;
+        this._provider = signer.provider!;
+        this._schedule = parseCronExpression(this._options.cronExpression);
+        this._upkeepContract = new Contract(this._options.upkeepContract, CustomLogicABI, this._signer);
+    }
+
+    public async start(resumeFrom?: number): Promise<void> {
+        // When resuming, schedule from the last processed block so that a tick missed meanwhile is performed
+        const block = await this._provider.getBlock(resumeFrom ?? 'latest');
+        this._lastProcessedBlock = block.number;
+        this._nextTick = nextCronTick(this._schedule, block.timestamp);
+        console.log(`[CronJob - ${this._options.name}] Starting with schedule "${this._options.cronExpression}". Next tick at ${new Date(this._nextTick * 1000).toISOString()}.`);
+        if (this._config.manualTick) {
+            return;
+        }
+        this._intervalId = setInterval(() => {
+            if (!this._isExecuting) {
+                this._currentTick = this._tick();
+            }
+        }, 1000);
+    }
+
+    private async _tick(force = false): Promise<void> {
+        if (this._isExecuting) {
+            return;
+        }
 
-export class LogTriggerJob {
-  private _upkeepContract: Contract;
+        let processed = false;
+        let execution: Omit<Execution, 'status'> | undefined;
+        try {
+            this._isExecuting = true;
+            const block = await this._provider.getBlock('latest');
+
+            // Forced, the schedule is still evaluated: a time-based upkeep only performs when a tick is due
+            if (block.number <= this._lastProcessedBlock && !force) {
+                return;
+            }
+            this._lastProcessedBlock = block.number;
+            processed = true;
+
+            if (block.timestamp < this._nextTick) {
+                return;
+            }
+
+            // Schedule from the block that triggered this run, so ticks missed in between are skipped
+            this._nextTick = nextCronTick(this._schedule, block.timestamp);
+
+            const performData = this._options.performData || '0x';
+            // Time-based upkeeps are not checked: every tick is performed
+            execution = { blockNumber: block.number, performData };
+            const skipReason = this._hooks.canPerform && await this._hooks.canPerform(performData);
+            if (skipReason) {
+                this._hooks.onExecution?.({ ...execution, status: 'skipped', error: skipReason });
+                return;
+            }
+
+            console.log(`[CronJob - ${this._options.name}] ⏰ Cron tick reached (block ${block.number}). Performing...`);
+            const tx = await this._upkeepContract.performUpkeep(performData, {
+                gasLimit: this._options.gasLimit
+            });
+            this._hooks.onPerformSent?.(execution, tx.hash);
+            const receipt = await tx.wait();
+            this._hooks.onPerformed?.(performData, receipt);
+            this._hooks.onExecution?.({ ...execution, txHash: receipt.transactionHash, gasUsed: receipt.gasUsed.toString(), status: 'performed' });
+            console.log(`[CronJob - ${this._options.name}] 🎉 Upkeep performed! Tx: ${receipt.transactionHash}. Next tick at ${new Date(this._nextTick * 1000).toISOString()}.`);
+        } catch (error: unknown) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            console.error(`[CronJob - ${this._options.name}] Error during perform: ${errorMessage}`);
+            reportOutOfGas(error, 'perform', this._options.gasLimit, this._hooks);
+            if (execution) {
+                this._hooks.onExecution?.(failedExecution(error, 'perform', execution));
+            }
+        } finally {
+            this._isExecuting = false;
+            if (processed) {
+                this._hooks.onCheckpoint?.(this._lastProcessedBlock);
+            }
+        }
+    }
+
+    public async tick(force = false): Promise<void> {
+        await this._currentTick;
+        this._currentTick = this._tick(force);
+        await this._currentTick;
+    }
+
+    public async stop(): Promise<void> {
+        if (this._intervalId) {
+            clearInterval(this._intervalId);
+            this._intervalId = null;
+        }
+        await this._currentTick;
+        console.log(`[CronJob - ${this._options.name}] Stopped.`);
+    }
+}
+
+/**
+ * Settings of the log trigger jobs, shared by every log upkeep of a simulator.
+ */
+export interface LogTriggerJobConfig {
+  confirmations?: number; // Blocks mined on top of a log's block before it is checked, defaults to 0
+  dedupeWindow?: number; // Blocks of processed logs kept for dedupe and reorg detection, defaults to DEFAULT_DEDUPE_WINDOW
+  checkGasLimit?: number; // Gas available to checkLog, like the network's checkGasLimit; unlimited when unset
+  manualTick?: boolean; // Run only on tick(), without listening for new blocks
+  reportSource?: ReportSource; // Answers the StreamsLookup reverts of checks, which fail without one
+  pollingInterval?: number; // Milliseconds between polls for new blocks over HTTP, defaults to DEFAULT_LOG_POLLING_INTERVAL
+  maxBlockRange?: number; // Most blocks fetched by one eth_getLogs query, defaults to DEFAULT_MAX_BLOCK_RANGE
+}
+
+export const DEFAULT_DEDUPE_WINDOW = 128;
+export const DEFAULT_LOG_POLLING_INTERVAL = 1000;
+export const DEFAULT_MAX_BLOCK_RANGE = 1000;
+
+// Accepted eth_getLogs queries in a row after which a range reduced by a refusal is doubled again
+const BLOCK_RANGE_GROWTH_INTERVAL = 10;
+
+// What nodes answer to eth_getLogs queries spanning too many blocks or returning too many logs
+const RANGE_TOO_LARGE = /block range|range (is )?too (large|wide|big)|exceed(s|ed)? (the )?max|too many (results|logs|blocks)|more than \d+ results|response size|limit exceeded/i;
+
+/**
+ * Tells whether the node refused an eth_getLogs query for its size, in which case a smaller range may pass.
+ */
+function isRangeTooLarge(error: unknown): boolean {
+    for (let current = error, depth = 0; current && typeof current === 'object' && depth < 4; depth++) {
+        const { code, message, body } = current as { code?: unknown; message?: unknown; body?: unknown };
+        // -32005 is the "limit exceeded" error of EIP-1474
+        if (code === -32005 || (typeof message === 'string' && RANGE_TOO_LARGE.test(message)) || (typeof body === 'string' && RANGE_TOO_LARGE.test(body))) {
+            return true;
+        }
+        current = (current as { error?: unknown }).error;
+    }
+    return false;
+}
+
+/**
+ * Simulates a log trigger upkeep. On every new block, the logs of the blocks that reached the
+ * confirmation depth are fetched and checked in order, each at most once. The hashes of processed
+ * blocks are remembered, so that a reorg deeper than the confirmation depth rewinds the job: logs
+ * of replaced blocks are forgotten and the logs of the replacement blocks are checked.
+ *
+ * Over HTTP, the job polls the head itself and fetches the logs from the block after the last one it
+ * processed, in eth_getLogs queries of at most maxBlockRange blocks, halving the range while the node
+ * refuses queries that large and growing it back once queries pass again. WebSocket providers push new blocks through their subscription instead.
+ */
+export class LogTriggerJob implements IUpkeepJob {
+  private _upkeepContract: Contract | UpkeepCaller;
   private _signer: ethers.Signer;
   private _provider: ethers.providers.Provider;
 
   // Provider filter (v5 accepts nulls for wildcards)
   private _eventFilter: ethers.providers.Filter;
 
-  private _processedLogs = new Set<string>();
-
-  constructor(private _options: CreateLogUpkeepOptions, signer: ethers.Signer) {
+  private _confirmations: number;
+  private _checkGasLimit?: number;
+  private _reportSource?: ReportSource;
+  private _pollingInterval: number;
+  private _maxBlockRange: number;
+  private _blockRange: number; // Blocks per eth_getLogs query: maxBlockRange, or less since the node refused it
+  private _acceptedQueries = 0; // Queries accepted since the range last changed
+  private _pollTimer: NodeJS.Timeout | null = null;
+  private _dedupeWindow: number;
+  private _processedLogs = new LogDedupeStore();
+  private _blockHashes = new Map<number, string>(); // Hashes of processed blocks, for reorg detection
+  private _lastProcessedBlock = 0;
+  private _latestBlock = 0;
+  private _isRunning = false;
+  private _isProcessing = false;
+  private _manualTick: boolean;
+  private _currentRun: Promise<void> = Promise.resolve();
+
+  constructor(private _options: CreateLogUpkeepOptions, signer: ethers.Signer, private _hooks: UpkeepJobHooks = {}, config: LogTriggerJobConfig = {}, caller?: UpkeepCaller) {
     this._signer = signer;
     this._provider = signer.provider!;
-
-    this._upkeepContract = new Contract(
+    this._confirmations = config.confirmations ?? 0;
+    this._checkGasLimit = config.checkGasLimit;
+    this._reportSource = config.reportSource;
+    this._pollingInterval = config.pollingInterval ?? DEFAULT_LOG_POLLING_INTERVAL;
+    this._maxBlockRange = Math.max(1, config.maxBlockRange ?? DEFAULT_MAX_BLOCK_RANGE);
+    this._blockRange = this._maxBlockRange;
+    this._manualTick = config.manualTick ?? false;
+    this._dedupeWindow = Math.max(config.dedupeWindow ?? DEFAULT_DEDUPE_WINDOW, this._confirmations + 1);
+
+    this._upkeepContract = caller ?? new Contract(
       _options.upkeepContract,
       CombinedLogAutomationABI,
       this._signer
     );
 
-    // Build topics with proper typing and null wildcards
-    const topic0 = topic0FromSignature(_options.logEventSignature);
-    const t1 = _options.logTopicFilters?.[0]
-      ? addressToTopic(_options.logTopicFilters[0] as string)
-      : null;
-    const t2 = _options.logTopicFilters?.[1]
-      ? uintToTopic(BigInt(_options.logTopicFilters[1] as string))
-      : null;
-    const t3 = _options.logTopicFilters?.[2]
-      ? uintToTopic(BigInt(_options.logTopicFilters[2] as string))
-      : null;
-
-    const topics: (string | string[] | null)[] = [topic0, t1, t2, t3];
+    // Encoded like the trigger config of the Chainlink provider, so both match the same logs
+    const { topic0, topics } = encodeTopicFilters(_options);
 
     this._eventFilter = {
       address: _options.logEmitterAddress,
-      topics
+      topics: [topic0, ...topics]
     };
   }
 
-  private _onLogDetected = async (log: ethers.providers.Log) => {
+  /**
+   * The logs processed within the dedupe window, with what happened to each.
+   */
+  get processedLogs(): ProcessedLog[] {
+    return this._processedLogs.entries();
+  }
+
+  private _onBlock = (blockNumber: number) => {
+    this._latestBlock = Math.max(this._latestBlock, blockNumber);
+    if (!this._isProcessing) {
+      this._currentRun = this._run();
+    }
+  };
+
+  private _poll = async () => {
+    try {
+      // The polled head is authoritative: it moves back when the node was reset
+      this._latestBlock = await this._provider.getBlockNumber();
+      this._onBlock(this._latestBlock);
+    } catch (err) {
+      console.error(`[LogTriggerJob - ${this._options.name}] Failed to poll for new blocks:`, (err as Error).message);
+    }
+  };
+
+  // HTTP providers are polled by the job; the block events of other providers (e.g. WebSocket subscriptions) are used as is
+  private get _polls(): boolean {
+    return this._provider instanceof ethers.providers.JsonRpcProvider && !(this._provider instanceof ethers.providers.WebSocketProvider);
+  }
+
+  // Processes blocks until the confirmed head is reached; blocks mined meanwhile are picked up by the loop
+  private async _run(confirmations = this._confirmations): Promise<void> {
+    this._isProcessing = true;
+    try {
+      while (this._isRunning) {
+        await this._detectReorg();
+        const confirmedBlock = this._latestBlock - confirmations;
+        if (confirmedBlock <= this._lastProcessedBlock) {
+          break;
+        }
+        // Long catch-ups are checkpointed every maxBlockRange blocks
+        await this._processBlocks(this._lastProcessedBlock + 1, Math.min(confirmedBlock, this._lastProcessedBlock + this._blockRange));
+      }
+    } catch (err) {
+      console.error(`[LogTriggerJob - ${this._options.name}] Failed to process new blocks, retrying on the next block:`, (err as Error).message);
+    } finally {
+      this._isProcessing = false;
+    }
+  }
+
+  private async _processBlocks(fromBlock: number, toBlock: number): Promise<void> {
+    const [logs, lastBlock] = await Promise.all([
+      this._getLogs(fromBlock, toBlock),
+      this._provider.getBlock(toBlock),
+    ]);
+    if (toBlock - fromBlock > 0 && logs.length > 0) {
+      console.log(`[LogTriggerJob - ${this._options.name}] Processing ${logs.length} log(s) from blocks ${fromBlock}-${toBlock}.`);
+    }
+
+    for (const log of logs) {
+      if (!this._isRunning) {
+        return;
+      }
+      this._blockHashes.set(log.blockNumber, log.blockHash);
+      if (!this._processedLogs.has(log)) {
+        await this._handleLog(log);
+      }
+    }
 
-    console.log(`[LogTriggerJob - ${this._options.name}] Log detected: ${log.transactionHash}-${log.logIndex}`);
+    this._blockHashes.set(toBlock, lastBlock.hash);
+    this._lastProcessedBlock = toBlock;
+    this._prune();
+    this._hooks.onCheckpoint?.(toBlock);
+  }
+
+  /**
+   * Fetches the matching logs of the blocks, in queries of at most _blockRange blocks. When the node
+   * refuses a query for its size, the range is halved for this and later queries; it doubles again,
+   * up to maxBlockRange, after every BLOCK_RANGE_GROWTH_INTERVAL queries accepted in a row.
+   */
+  private async _getLogs(fromBlock: number, toBlock: number): Promise<ethers.providers.Log[]> {
+    const logs: ethers.providers.Log[] = [];
+    let start = fromBlock;
+    while (start <= toBlock) {
+      const end = Math.min(toBlock, start + this._blockRange - 1);
+      try {
+        logs.push(...await this._provider.getLogs({ ...this._eventFilter, fromBlock: start, toBlock: end }));
+        start = end + 1;
+        if (++this._acceptedQueries >= BLOCK_RANGE_GROWTH_INTERVAL && this._blockRange < this._maxBlockRange) {
+          this._blockRange = Math.min(this._maxBlockRange, this._blockRange * 2);
+          this._acceptedQueries = 0;
+        }
+      } catch (err) {
+        if (end === start || !isRangeTooLarge(err)) {
+          throw err;
+        }
+        this._blockRange = Math.ceil((end - start + 1) / 2);
+        this._acceptedQueries = 0;
+        console.warn(`[LogTriggerJob - ${this._options.name}] The node refused the logs of ${end - start + 1} blocks, fetching ${this._blockRange} at a time.`);
+      }
+    }
+    return logs;
+  }
+
+  /**
+   * Compares the hash of the last processed block with the chain's. When it changed, walks back to
+   * the newest processed block that is still part of the chain, forgets the logs above it, and rewinds there.
+   */
+  private async _detectReorg(): Promise<void> {
+    const recordedHash = this._blockHashes.get(this._lastProcessedBlock);
+    if (!recordedHash) {
+      return;
+    }
+    const block = await this._provider.getBlock(this._lastProcessedBlock);
+    if (block?.hash === recordedHash) {
+      return;
+    }
+
+    let forkBase: number | undefined;
+    for (const height of [...this._blockHashes.keys()].sort((a, b) => b - a)) {
+      const canonical = await this._provider.getBlock(height);
+      if (canonical?.hash === this._blockHashes.get(height)) {
+        forkBase = height;
+        break;
+      }
+      this._blockHashes.delete(height);
+    }
+    if (forkBase === undefined) {
+      forkBase = this._lastProcessedBlock - this._dedupeWindow;
+      console.warn(`[LogTriggerJob - ${this._options.name}] ⚠️  Reorg deeper than the dedupe window of ${this._dedupeWindow} blocks.`);
+    }
+
+    const dropped = this._processedLogs.dropAbove(forkBase);
+    const performed = dropped.filter((entry) => entry.state === 'performed').length;
+    console.warn(
+      `[LogTriggerJob - ${this._options.name}] ⚠️  Reorg detected: blocks after ${forkBase} were replaced. ` +
+      `Dropped ${dropped.length} processed log(s)${performed > 0 ? ` (${performed} already performed)` : ''}, re-checking from block ${forkBase + 1}.`
+    );
+    this._lastProcessedBlock = forkBase;
+  }
+
+  private _prune(): void {
+    const minBlock = this._lastProcessedBlock - this._dedupeWindow;
+    this._processedLogs.prune(minBlock);
+    for (const height of this._blockHashes.keys()) {
+      if (height < minBlock) {
+        this._blockHashes.delete(height);
+      }
+    }
+  }
+
+  private async _handleLog(log: ethers.providers.Log): Promise<void> {
     const logId = `${log.transactionHash}-${log.logIndex}`;
-    if (this._processedLogs.has(logId)) return;
+    console.log(`[LogTriggerJob - ${this._options.name}] Log detected: ${logId} (block ${log.blockNumber})`);
 
+    let phase: 'check' | 'perform' = 'check';
+    let execution: Omit<Execution, 'status'> = {
+      blockNumber: log.blockNumber,
+      trigger: { transactionHash: log.transactionHash, logIndex: log.logIndex, blockHash: log.blockHash },
+    };
     try {
       // Build ILogAutomation.Log struct with uint256 as BigNumber
       const block = await this._provider.getBlock(log.blockNumber);
@@ -168,48 +630,101 @@ export class LogTriggerJob {
         data: log.data
       };
 
-      let upkeepNeeded = false;
-      let performData = '0x';
+      type CheckLogObj = { upkeepNeeded?: boolean; performData?: string } & [boolean, string];
 
-      try {
-        type CheckLogObj = { upkeepNeeded?: boolean; performData?: string } & [boolean, string];
-
-        const ret = (await this._upkeepContract.callStatic.checkLog(
-          logStruct,
-          '0x'
-        )) as CheckLogObj;
-        
-        const needed = ret.upkeepNeeded ?? ret[0];
-        const pData  = ret.performData  ?? ret[1];
-
-        upkeepNeeded = Boolean(needed);
-        performData  = typeof pData === 'string' ? pData : '0x';
-      } catch (e) {
-        throw e;
-      }
+      const checkOverrides = { ...(this._checkGasLimit && { gasLimit: this._checkGasLimit }) };
+      const checkLog = async (): Promise<[boolean, string]> => {
+        const ret = (await this._upkeepContract.callStatic.checkLog(logStruct, '0x', checkOverrides)) as CheckLogObj;
+        const pData = ret.performData ?? ret[1];
+        return [Boolean(ret.upkeepNeeded ?? ret[0]), typeof pData === 'string' ? pData : '0x'];
+      };
 
-      if (upkeepNeeded) {
-        console.log(`[LogTriggerJob - ${this._options.name}] Upkeep needed. Performing...`);
-        const tx = await this._upkeepContract.performUpkeep(performData, {
-          gasLimit: this._options.gasLimit
-        });
-        await tx.wait();
-        this._processedLogs.add(logId);
-        console.log(`[LogTriggerJob - ${this._options.name}] Upkeep performed!`);
+      const [upkeepNeeded, performData] = await timeCheck(() => checkWithStreamsLookup(
+        checkLog,
+        (values, extraData, overrides) => this._upkeepContract.callStatic.checkCallback(values, extraData, overrides),
+        this._reportSource,
+        checkOverrides
+      ), this._hooks);
+      execution = { ...execution, upkeepNeeded, performData };
+      this._hooks.onChecked?.(execution);
+
+      if (!upkeepNeeded) {
+        this._processedLogs.record(log, 'checked-not-needed');
+        this._hooks.onExecution?.({ ...execution, status: 'not-needed' });
+        return;
       }
+      const skipReason = this._hooks.canPerform && await this._hooks.canPerform(performData);
+      if (skipReason) {
+        this._processedLogs.record(log, 'failed', skipReason);
+        this._hooks.onExecution?.({ ...execution, status: 'skipped', error: skipReason });
+        return;
+      }
+      console.log(`[LogTriggerJob - ${this._options.name}] Upkeep needed. Performing...`);
+      phase = 'perform';
+      const tx = await this._upkeepContract.performUpkeep(performData, {
+        gasLimit: this._options.gasLimit
+      });
+      this._hooks.onPerformSent?.(execution, tx.hash);
+      const receipt = await tx.wait();
+      this._processedLogs.record(log, 'performed');
+      this._hooks.onPerformed?.(performData, receipt);
+      this._hooks.onExecution?.({ ...execution, txHash: receipt.transactionHash, gasUsed: receipt.gasUsed.toString(), status: 'performed' });
+      console.log(`[LogTriggerJob - ${this._options.name}] Upkeep performed!`);
     } catch (err) {
+      // Like on Chainlink, a log whose check or perform failed is not retried
+      this._processedLogs.record(log, 'failed', (err as Error).message);
       console.error(
         `[LogTriggerJob - ${this._options.name}]`,
         (err as Error).message
       );
+      reportOutOfGas(err, phase, phase === 'check' ? this._checkGasLimit : this._options.gasLimit, this._hooks);
+      this._hooks.onExecution?.(failedExecution(err, phase, execution));
     }
-  };
+  }
 
-  start(): void {
-    this._provider.on(this._eventFilter, this._onLogDetected);
+  async start(resumeFrom?: number): Promise<void> {
+    this._isRunning = true;
+    this._latestBlock = await this._provider.getBlockNumber();
+    // A new job only sees logs emitted after its registration; a restored one resumes after its checkpoint
+    this._lastProcessedBlock = resumeFrom ?? this._latestBlock;
+    const startBlock = await this._provider.getBlock(this._lastProcessedBlock);
+    this._blockHashes.set(this._lastProcessedBlock, startBlock.hash);
+    if (resumeFrom !== undefined && resumeFrom < this._latestBlock - this._confirmations) {
+      console.log(`[LogTriggerJob - ${this._options.name}] Catching up from block ${resumeFrom + 1}.`);
+    }
+    if (this._manualTick) {
+      // Logs missed since the checkpoint are caught up on the first tick
+      return;
+    }
+    if (this._polls) {
+      this._pollTimer = setInterval(() => void this._poll(), this._pollingInterval);
+    } else {
+      this._provider.on('block', this._onBlock);
+    }
+    this._onBlock(this._latestBlock);
+    await this._currentRun;
   }
 
-  stop(): void {
-    this._provider.off(this._eventFilter, this._onLogDetected);
+  async tick(force = false): Promise<void> {
+    const blockNumber = await this._provider.getBlockNumber();
+    while (this._isProcessing) {
+      await this._currentRun;
+    }
+    this._latestBlock = Math.max(this._latestBlock, blockNumber);
+    // A forced tick checks the logs of the blocks still waiting for their confirmations too; the reorgs
+    // of those blocks are detected like any other
+    this._currentRun = this._run(force ? 0 : this._confirmations);
+    await this._currentRun;
   }
-}
\ No newline at end of file
+
+  async stop(): Promise<void> {
+    this._isRunning = false;
+    if (this._pollTimer) {
+      clearInterval(this._pollTimer);
+      this._pollTimer = null;
+    }
+    this._provider.off('block', this._onBlock);
+    await this._currentRun;
+    console.log(`[LogTriggerJob - ${this._options.name}] Stopped.`);
+  }
+}
@@ -0,0 +1,31 @@
+import { BigNumber } from 'ethers';
+
+// Ethereum Sepolia, the network most local projects are headed to
+export const DEFAULT_LIMITS_CHAIN_ID = 11155111;
+
+/**
+ * A limit an upkeep ran into while it was checked or performed.
+ */
+export interface LimitViolation {
+    limit: 'checkGasLimit' | 'gasLimit' | 'maxCheckDataSize' | 'maxPerformDataSize';
+    message: string;
+    timestamp: string; // ISO date
+}
+
+export function createViolation(limit: LimitViolation['limit'], message: string): LimitViolation {
+    return { limit, message, timestamp: new Date().toISOString() };
+}
+
+const OUT_OF_GAS_PATTERN = /out of gas|gas required exceeds allowance|gas limit reached/i;
+
+/**
+ * Tells whether a failed check or perform ran out of the gas it was given: either the node
+ * reports it, or a reverted transaction used all of its gas limit.
+ */
+export function isOutOfGas(error: unknown, gasLimit?: number): boolean {
+    const { message, error: inner, receipt } = (error ?? {}) as { message?: string; error?: { message?: string }; receipt?: { gasUsed?: BigNumber } };
+    if (OUT_OF_GAS_PATTERN.test(`${message ?? ''} ${inner?.message ?? ''}`)) {
+        return true;
+    }
+    return gasLimit !== undefined && receipt?.gasUsed !== undefined && BigNumber.from(receipt.gasUsed).gte(gasLimit);
+}
@@ -0,0 +1,188 @@
+import { providers } from 'ethers';
+import { Execution } from './history.js';
+
+const PREFIX = 'chainlink_simulator';
+
+// Bucket bounds, in seconds for check durations and in gas units for performs
+const CHECK_DURATION_BUCKETS = [0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+const PERFORM_GAS_BUCKETS = [25_000, 50_000, 100_000, 200_000, 500_000, 1_000_000, 2_000_000, 5_000_000];
+
+type Labels = Record<string, string>;
+
+/**
+ * The labels identifying an upkeep in the metrics.
+ */
+export interface UpkeepLabels extends Labels {
+    upkeep: string; // The upkeep ID
+    name: string;
+}
+
+/**
+ * The values measured when the metrics are scraped rather than as things happen.
+ */
+export interface SimulatorGauges {
+    activeJobs: number;
+    blockLags: { labels: UpkeepLabels & { trigger: string }; lag: number }[]; // Chain head minus the last block a job processed
+}
+
+function escapeLabel(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels): string {
+    const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`);
+    return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function header(name: string, type: 'counter' | 'gauge' | 'histogram', help: string): string[] {
+    return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+}
+
+class Counter {
+    private _series = new Map<string, { labels: Labels; value: number }>();
+
+    constructor(readonly name: string, private _help: string) {}
+
+    inc(labels: Labels, amount = 1): void {
+        const key = formatLabels(labels);
+        const series = this._series.get(key) ?? { labels, value: 0 };
+        series.value += amount;
+        this._series.set(key, series);
+    }
+
+    remove(match: (labels: Labels) => boolean): void {
+        for (const [key, series] of this._series) {
+            if (match(series.labels)) {
+                this._series.delete(key);
+            }
+        }
+    }
+
+    render(): string[] {
+        return [
+            ...header(this.name, 'counter', this._help),
+            ...[...this._series.entries()].map(([key, series]) => `${this.name}${key} ${series.value}`),
+        ];
+    }
+}
+
+class Histogram {
+    private _series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+    constructor(readonly name: string, private _help: string, private _buckets: number[]) {}
+
+    observe(labels: Labels, value: number): void {
+        const key = formatLabels(labels);
+        const series = this._series.get(key) ?? { labels, counts: this._buckets.map(() => 0), sum: 0, count: 0 };
+        this._buckets.forEach((bound, index) => {
+            if (value <= bound) {
+                series.counts[index] += 1;
+            }
+        });
+        series.sum += value;
+        series.count += 1;
+        this._series.set(key, series);
+    }
+
+    remove(match: (labels: Labels) => boolean): void {
+        for (const [key, series] of this._series) {
+            if (match(series.labels)) {
+                this._series.delete(key);
+            }
+        }
+    }
+
+    render(): string[] {
+        const lines = header(this.name, 'histogram', this._help);
+        for (const { labels, counts, sum, count } of this._series.values()) {
+            this._buckets.forEach((bound, index) => {
+                lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[index]}`);
+            });
+            lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+            lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+            lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+        }
+        return lines;
+    }
+}
+
+// Reverted calls are answers from the node, not failures to reach it
+function isRevert(error: unknown): boolean {
+    const { code, message } = (error ?? {}) as { code?: unknown; message?: unknown };
+    return code === 3 || /revert/i.test(String(message ?? ''));
+}
+
+/**
+ * The simulator's metrics, rendered in the Prometheus text exposition format: checks and performs
+ * per upkeep and outcome, perform gas, check durations and failed RPC requests.
+ */
+export class SimulatorMetrics {
+    private _checks = new Counter(`${PREFIX}_checks_total`, 'Checks run, by upkeep and outcome (needed, not_needed, failed).');
+    private _performs = new Counter(`${PREFIX}_performs_total`, 'Performs, by upkeep and outcome (success, failed, skipped).');
+    private _performGas = new Histogram(`${PREFIX}_perform_gas_used`, 'Gas used by perform transactions, reverted ones included.', PERFORM_GAS_BUCKETS);
+    private _checkDuration = new Histogram(`${PREFIX}_check_duration_seconds`, 'Time taken by checkUpkeep and checkLog calls.', CHECK_DURATION_BUCKETS);
+    private _rpcErrors = new Counter(`${PREFIX}_rpc_errors_total`, 'Requests to the RPC node that failed, by method. Reverted calls are not counted.');
+
+    /**
+     * Counts the failed requests of a provider, from the debug events ethers emits for every response.
+     */
+    watchProvider(provider: providers.JsonRpcProvider): void {
+        provider.on('debug', (info: { action?: string; error?: unknown; request?: { method?: string } }) => {
+            if (info.action === 'response' && info.error && !isRevert(info.error)) {
+                this.recordRpcError(info.request?.method ?? 'unknown');
+            }
+        });
+    }
+
+    recordExecution(labels: UpkeepLabels, execution: Execution): void {
+        const { status, upkeepNeeded, gasUsed } = execution;
+        if (status === 'check-failed') {
+            this._checks.inc({ ...labels, outcome: 'failed' });
+        } else if (upkeepNeeded !== undefined) {
+            // Time-based upkeeps are not checked
+            this._checks.inc({ ...labels, outcome: upkeepNeeded ? 'needed' : 'not_needed' });
+        }
+
+        if (status === 'performed' || status === 'perform-failed' || status === 'skipped') {
+            const outcome = status === 'performed' ? 'success' : status === 'skipped' ? 'skipped' : 'failed';
+            this._performs.inc({ ...labels, outcome });
+        }
+        if (gasUsed !== undefined) {
+            this._performGas.observe(labels, Number(gasUsed));
+        }
+    }
+
+    recordCheckDuration(labels: UpkeepLabels, seconds: number): void {
+        this._checkDuration.observe(labels, seconds);
+    }
+
+    recordRpcError(method: string): void {
+        this._rpcErrors.inc({ method });
+    }
+
+    /**
+     * Drops the series of an upkeep, once it is unregistered.
+     */
+    forget(upkeepId: string): void {
+        const match = (labels: Labels) => labels.upkeep === upkeepId;
+        for (const metric of [this._checks, this._performs, this._performGas, this._checkDuration]) {
+            metric.remove(match);
+        }
+    }
+
+    render(gauges: SimulatorGauges): string {
+        const activeJobs = `${PREFIX}_active_jobs`;
+        const blockLag = `${PREFIX}_block_lag`;
+        return [
+            ...this._checks.render(),
+            ...this._performs.render(),
+            ...this._performGas.render(),
+            ...this._checkDuration.render(),
+            ...this._rpcErrors.render(),
+            ...header(activeJobs, 'gauge', 'Jobs of active upkeeps.'),
+            `${activeJobs} ${gauges.activeJobs}`,
+            ...header(blockLag, 'gauge', 'Blocks between the chain head and the last block processed by custom logic and log trigger jobs.'),
+            ...gauges.blockLags.map(({ labels, lag }) => `${blockLag}${formatLabels(labels)} ${lag}`),
+        ].join('\n') + '\n';
+    }
+}
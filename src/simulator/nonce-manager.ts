@@ -0,0 +1,164 @@
+import { ethers, BigNumber, Wallet } from 'ethers';
+
+/**
+ * How a NonceManagedSigner retries and replaces transactions.
+ */
+export interface NonceManagerConfig {
+    receiptTimeoutMs?: number; // How long a transaction may stay unmined before it is replaced, defaults to 30s
+    maxAttempts?: number; // Sends per transaction: the first one plus retries or replacements, defaults to 3
+    gasBumpPercent?: number; // Fee increase of each replacement, defaults to 20 (nodes require at least 10)
+}
+
+export const DEFAULT_RECEIPT_TIMEOUT_MS = 30_000;
+export const DEFAULT_MAX_ATTEMPTS = 3;
+export const DEFAULT_GAS_BUMP_PERCENT = 20;
+
+// Errors meaning that the nonce we used is out of sync with the node
+const NONCE_ERROR_PATTERN = /nonce too low|nonce too high|nonce has already been used|replacement transaction underpriced|replacement fee too low|already known|known transaction/i;
+
+function isNonceError(error: unknown): boolean {
+    const { message, error: inner } = (error ?? {}) as { message?: string; error?: { message?: string } };
+    return NONCE_ERROR_PATTERN.test(`${message ?? ''} ${inner?.message ?? ''}`);
+}
+
+function isTimeout(error: unknown): boolean {
+    return (error as { code?: string }).code === ethers.errors.TIMEOUT;
+}
+
+function bump(value: ethers.BigNumberish | undefined, percent: number): BigNumber | undefined {
+    return value === undefined || value === null ? undefined : BigNumber.from(value).mul(100 + percent).div(100);
+}
+
+/**
+ * A signer for the simulator's jobs that hands out nonces itself, so that several upkeeps
+ * performing in the same block never race for the same nonce. Sends are queued: each gets the
+ * next nonce and is broadcast in order, while waiting for receipts happens concurrently.
+ *
+ * When the node rejects a nonce, it is resynced from the pending transaction count and the send
+ * retried. A transaction still unmined after `receiptTimeoutMs` is replaced: sent again with the
+ * same nonce and fees raised by `gasBumpPercent`, up to `maxAttempts` sends in total.
+ */
+export class NonceManagedSigner extends ethers.Signer {
+    readonly provider: ethers.providers.Provider;
+    private _receiptTimeoutMs: number;
+    private _maxAttempts: number;
+    private _gasBumpPercent: number;
+    private _nextNonce?: number; // Unknown until the first send, and after a failed one
+    private _queue: Promise<unknown> = Promise.resolve();
+
+    constructor(private _wallet: Wallet, config: NonceManagerConfig = {}) {
+        super();
+        this.provider = _wallet.provider;
+        this._receiptTimeoutMs = config.receiptTimeoutMs ?? DEFAULT_RECEIPT_TIMEOUT_MS;
+        this._maxAttempts = Math.max(config.maxAttempts ?? DEFAULT_MAX_ATTEMPTS, 1);
+        this._gasBumpPercent = Math.max(config.gasBumpPercent ?? DEFAULT_GAS_BUMP_PERCENT, 10);
+    }
+
+    get address(): string {
+        return this._wallet.address;
+    }
+
+    async getAddress(): Promise<string> {
+        return this._wallet.address;
+    }
+
+    signMessage(message: ethers.Bytes | string): Promise<string> {
+        return this._wallet.signMessage(message);
+    }
+
+    signTransaction(transaction: ethers.providers.TransactionRequest): Promise<string> {
+        return this._wallet.signTransaction(transaction);
+    }
+
+    connect(_provider: ethers.providers.Provider): ethers.Signer {
+        throw new Error('NonceManagedSigner cannot be connected to another provider.');
+    }
+
+    /**
+     * Queues a transaction and broadcasts it with the next nonce. The returned response's
+     * `wait()` follows the replacements, resolving to the receipt of whichever one is mined.
+     */
+    sendTransaction(transaction: ethers.utils.Deferrable<ethers.providers.TransactionRequest>): Promise<ethers.providers.TransactionResponse> {
+        const send = this._queue.then(() => this._broadcast(transaction));
+        // A failed send must not block the ones queued after it
+        this._queue = send.catch(() => undefined);
+        return send;
+    }
+
+    private async _broadcast(transaction: ethers.utils.Deferrable<ethers.providers.TransactionRequest>): Promise<ethers.providers.TransactionResponse> {
+        for (let attempt = 1; ; attempt++) {
+            try {
+                if (this._nextNonce === undefined) {
+                    this._nextNonce = await this.provider.getTransactionCount(this._wallet.address, 'pending');
+                }
+                const populated = await this.populateTransaction({ ...transaction, nonce: this._nextNonce });
+                const response = await this.provider.sendTransaction(await this.signTransaction(populated));
+                this._nextNonce += 1;
+                response.wait = (confirmations?: number) => this._waitMined(populated, [response.hash], confirmations);
+                return response;
+            } catch (error) {
+                // The node may know a nonce we don't (e.g. after sends from another tool): resync before anything else
+                this._nextNonce = undefined;
+                if (!isNonceError(error) || attempt >= this._maxAttempts) {
+                    throw error;
+                }
+                console.warn(`[NonceManager - ${this._wallet.address}] Nonce out of sync, retrying (attempt ${attempt + 1}/${this._maxAttempts}).`);
+            }
+        }
+    }
+
+    /**
+     * Waits for one of the transactions sent with this nonce, replacing it whenever it times out.
+     * @throws An error if the mined transaction reverted, or none was mined after `maxAttempts` sends.
+     */
+    private async _waitMined(populated: ethers.providers.TransactionRequest, hashes: string[], confirmations = 1): Promise<ethers.providers.TransactionReceipt> {
+        let request = populated;
+        for (let attempt = 1; ; attempt++) {
+            const hash = hashes[hashes.length - 1];
+            let receipt: ethers.providers.TransactionReceipt | null = null;
+            try {
+                receipt = await this.provider.waitForTransaction(hash, confirmations, this._receiptTimeoutMs);
+            } catch (error) {
+                if (!isTimeout(error)) {
+                    throw error;
+                }
+            }
+            // A replaced transaction may have been mined after all
+            receipt = receipt ?? await this._findReceipt(hashes);
+            if (receipt) {
+                if (receipt.status === 0) {
+                    // Like ethers' CALL_EXCEPTION, the receipt tells e.g. whether it ran out of gas
+                    throw Object.assign(new Error(`Transaction ${receipt.transactionHash} reverted.`), { receipt });
+                }
+                return receipt;
+            }
+
+            if (attempt >= this._maxAttempts) {
+                throw new Error(`Transaction with nonce ${populated.nonce} was not mined after ${attempt} attempt(s) (${hashes.join(', ')}).`);
+            }
+            request = request.type === 2
+                ? { ...request, maxFeePerGas: bump(request.maxFeePerGas, this._gasBumpPercent), maxPriorityFeePerGas: bump(request.maxPriorityFeePerGas, this._gasBumpPercent) }
+                : { ...request, gasPrice: bump(request.gasPrice, this._gasBumpPercent) };
+            console.warn(`[NonceManager - ${this._wallet.address}] Transaction ${hash} not mined after ${this._receiptTimeoutMs}ms, replacing it with higher fees (attempt ${attempt + 1}/${this._maxAttempts}).`);
+            try {
+                const replacement = await this.provider.sendTransaction(await this.signTransaction(request));
+                hashes.push(replacement.hash);
+            } catch (error) {
+                // The node refusing the nonce means one of the earlier transactions was mined meanwhile
+                if (!isNonceError(error)) {
+                    throw error;
+                }
+            }
+        }
+    }
+
+    private async _findReceipt(hashes: string[]): Promise<ethers.providers.TransactionReceipt | null> {
+        for (const hash of hashes) {
+            const receipt = await this.provider.getTransactionReceipt(hash);
+            if (receipt) {
+                return receipt;
+            }
+        }
+        return null;
+    }
+}
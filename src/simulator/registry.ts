@@ -1,70 +1,855 @@
-import { ethers, Wallet, providers } from 'ethers';
-import { CreateUpkeepOptions, CreateLogUpkeepOptions, CreateCustomUpkeepOptions } from '../interfaces.js';
-import { CustomLogicJob, IUpkeepJob, LogTriggerJob } from './jobs.js';
+import { ethers, Wallet, providers, BigNumber, ContractReceipt } from 'ethers';
+import { CreateUpkeepOptions, CreateLogUpkeepOptions, CreateCustomUpkeepOptions, CreateTimeUpkeepOptions, ExecutionHistoryPage, TickSummary, UpdateUpkeepOptions, UpkeepInfo } from '../interfaces.js';
+import { CronJob, CustomLogicJob, IUpkeepJob, LogTriggerJob, LogTriggerJobConfig, UpkeepCaller, UpkeepJobHooks } from './jobs.js';
+import { BillingOptions, LinkBilling } from './billing.js';
+import { RegistryStore, StoredRegistry } from './store.js';
+import { NonceManagedSigner, NonceManagerConfig } from './nonce-manager.js';
+import { DEFAULT_HISTORY_PAGE_SIZE, Execution, ExecutionHistory } from './history.js';
+import { SimulatorEvents } from './events.js';
+import { ChainClock } from './time.js';
+import { SimulatorMetrics, UpkeepLabels } from './metrics.js';
+import { deriveUpkeepId } from './upkeep-id.js';
+import { ChainUpkeep, ChainlinkNode } from './chainlink/node.js';
+import { ReportSource } from './streams.js';
+import type { LocalChainlinkDeployment } from '../core/networks.js';
+import { ExecutionLimits, dataSize, getExecutionLimits, validateUpkeepLimits } from '../core/limits.js';
+import { DEFAULT_LIMITS_CHAIN_ID, LimitViolation, createViolation } from './limits.js';
 
-interface SimulatorConfig {
+export const DEFAULT_SIMULATOR_PORT = 7788;
+export const DEFAULT_SIMULATOR_HOST = 'localhost';
+
+/**
+ * Connects to the simulator's node: ws:// and wss:// URLs get a WebSocket provider, whose new blocks
+ * come from an eth_subscribe subscription instead of polling. Close it with closeRpcProvider.
+ */
+export function createRpcProvider(rpcUrl: string): providers.JsonRpcProvider {
+    return /^wss?:\/\//i.test(rpcUrl) ? new providers.WebSocketProvider(rpcUrl) : new providers.JsonRpcProvider(rpcUrl);
+}
+
+/**
+ * Closes the connection of a WebSocket provider, which would keep the process alive; HTTP providers hold none.
+ */
+export async function closeRpcProvider(provider: providers.Provider): Promise<void> {
+    if (provider instanceof providers.WebSocketProvider) {
+        await provider.destroy();
+    }
+}
+
+export interface SimulatorConfig {
     rpcUrl: string;
     privateKey: string;
+    billing?: BillingOptions; // When set, performs are charged simulated LINK
+    port?: number; // Port of the HTTP server, defaults to DEFAULT_SIMULATOR_PORT
+    host?: string; // Address the HTTP server binds to, defaults to DEFAULT_SIMULATOR_HOST (this machine only)
+    authToken?: string; // When set, API requests must carry it as a bearer token
+    corsOrigins?: string[]; // Origins browsers may call the API from ('*' for any); none by default
+    storePath?: string; // When set, registrations are persisted to this file and restored on startup
+    logTrigger?: LogTriggerJobConfig; // Confirmation depth, dedupe window and log ingestion of log trigger upkeeps
+    keyPool?: string[]; // Extra private keys; jobs are spread across them and privateKey to send performs in parallel
+    nonceManager?: NonceManagerConfig; // Retries and replacements of perform transactions
+    limitsChainId?: number; // The network whose gas and data-size limits are enforced, defaults to billing's, then DEFAULT_LIMITS_CHAIN_ID
+    manualTick?: boolean; // When set, upkeeps only run on tick(): nothing polls for new blocks
+    chainlink?: LocalChainlinkDeployment; // When set, the upkeeps of this local Chainlink stack are run through its registry
+    reportSource?: ReportSource; // Data Streams reports for the StreamsLookup reverts of checks
+}
+
+// Violations kept per upkeep, the oldest are dropped first
+const MAX_VIOLATIONS = 20;
+
+// Checkpoints come in every block, so saves are batched
+const STORE_SAVE_DELAY_MS = 250;
+
+export type UpkeepStatus = 'active' | 'paused';
+
+/**
+ * The registration payload accepted by the simulator: the regular upkeep options,
+ * plus the admin that the client registers the upkeep for.
+ */
+export type SimulatorRegistration = CreateUpkeepOptions & { adminAddress?: string };
+
+/**
+ * The simulator's view of a registered upkeep, as returned by `GET /upkeeps/:id`.
+ */
+export interface SimulatedUpkeepInfo extends UpkeepInfo {
+    id: string;
+    name: string;
+    triggerType: CreateUpkeepOptions['triggerType'];
+    status: UpkeepStatus;
+    performCount: number;
+    totalSpent: string; // Simulated LINK charged so far
+    lastCharge: string; // Simulated LINK charged for the last perform
+    violations: LimitViolation[]; // Most recent last
+    registry?: string; // The local Chainlink registry the upkeep is registered on, if it is
+}
+
+/**
+ * The registry's internal bookkeeping for a single upkeep.
+ */
+interface UpkeepRecord {
+    options: CreateUpkeepOptions;
+    job: IUpkeepJob;
+    status: UpkeepStatus;
+    admin: string;
+    balance: BigNumber; // Simulated LINK, in juels (1e-18 LINK)
+    lastPerformData: string;
+    performCount: number;
+    totalSpent: BigNumber;
+    lastCharge: BigNumber;
+    lastProcessedBlock?: number;
+    violations: LimitViolation[];
+    history: ExecutionHistory; // In memory only, not persisted
+    started: Promise<void>; // Settles once the job has started, failing or not
+    onChain?: boolean; // Registered on the local Chainlink registry, which holds its state: not persisted
 }
 
 export class UpkeepRegistry {
     private _wallet: Wallet;
+    private _signers: NonceManagedSigner[]; // Send the performs, the first one with _wallet's key
+    private _jobSigners = new Map<string, NonceManagedSigner>(); // Which signer performs for each upkeep
     private _provider: providers.Provider;
-    private _activeJobs: Map<string, IUpkeepJob> = new Map();
+    private _clock: ChainClock;
+    private _upkeeps: Map<string, UpkeepRecord> = new Map();
+    private _billing?: LinkBilling;
+    private _limits: ExecutionLimits;
+    private _rpcUrl: string;
+    private _logTrigger: LogTriggerJobConfig;
+    private _store?: RegistryStore;
+    private _chainId?: number; // Known once restore() ran; nothing is saved before
+    private _nonce = 0; // Registrations made so far, upkeep IDs are derived from it like on the registry
+    private _saveTimer?: NodeJS.Timeout;
+    private _events = new SimulatorEvents();
+    private _metrics = new SimulatorMetrics();
+    private _manualTick: boolean;
+    private _tickQueue: Promise<unknown> = Promise.resolve();
+    private _tickExecutions?: TickSummary['executions']; // Collects the executions of the running tick
+    private _chainlink?: ChainlinkNode;
+    private _reportSource?: ReportSource;
 
     constructor(config: SimulatorConfig) {
-        this._provider = new ethers.providers.JsonRpcProvider(config.rpcUrl);
+        this._rpcUrl = config.rpcUrl;
+        this._logTrigger = config.logTrigger ?? {};
+        this._manualTick = config.manualTick ?? false;
+        this._reportSource = config.reportSource;
+        if (config.storePath) {
+            this._store = new RegistryStore(config.storePath);
+        }
+        const provider = createRpcProvider(config.rpcUrl);
+        this._provider = provider;
+        this._clock = new ChainClock(provider);
+        this._metrics.watchProvider(provider);
         this._wallet = new ethers.Wallet(config.privateKey, this._provider);
+        const keys = [...new Set([config.privateKey, ...(config.keyPool ?? [])])];
+        this._signers = keys.map((key) => new NonceManagedSigner(new ethers.Wallet(key, this._provider), config.nonceManager));
         console.log(`[UpkeepRegistry] Initialized with wallet address: ${this._wallet.address}`);
+        if (this._signers.length > 1) {
+            console.log(`[UpkeepRegistry] Spreading performs across ${this._signers.length} keys: ${this.walletAddresses.join(', ')}`);
+        }
+        const limitsChainId = config.limitsChainId ?? config.billing?.chainId ?? DEFAULT_LIMITS_CHAIN_ID;
+        this._limits = getExecutionLimits(limitsChainId);
+        console.log(`[UpkeepRegistry] Enforcing the limits of chainId ${limitsChainId}: checkGasLimit ${this._limits.checkGasLimit}, performGasLimit ${this._limits.performGasLimit}, maxCheckDataSize ${this._limits.maxCheckDataSize ?? 'none'}, maxPerformDataSize ${this._limits.maxPerformDataSize ?? 'none'}.`);
+        if (config.billing) {
+            this._billing = new LinkBilling(config.billing);
+            console.log(`[UpkeepRegistry] Simulating LINK billing with ${this._billing.networkName} fee parameters.`);
+        }
+        if (config.chainlink) {
+            this._chainlink = new ChainlinkNode(config.chainlink, provider, {
+                onUpkeep: (upkeep, resumeFrom) => this._syncChainUpkeep(upkeep, resumeFrom),
+                onUpkeepCancelled: (upkeepId) => this._dropChainUpkeep(upkeepId),
+            }, this._manualTick);
+        }
     }
 
-    public registerUpkeep(options: CreateUpkeepOptions): void {
-        const contractAddress = options.upkeepContract;
-        if (this._activeJobs.has(contractAddress)) {
-            throw new Error(`Upkeep for contract ${contractAddress} is already registered.`);
-        }
+    /**
+     * Starts running the upkeeps of the local Chainlink registry, if one is configured: they are
+     * checked and performed through the registry, and follow what is changed there.
+     * @throws An error if the registry is missing, or the keys of the simulator cannot perform through it.
+     */
+    public async startChainlinkNode(): Promise<void> {
+        await this._chainlink?.start(this._wallet, this.walletAddresses);
+    }
+
+    /**
+     * Registers an upkeep under a new ID. A contract may have several upkeeps, e.g. a log trigger and a
+     * custom logic one, or custom logic ones with different checkData.
+     * @returns The upkeep ID, a uint256 in decimal derived like the registry derives it.
+     */
+    public async registerUpkeep(registration: SimulatorRegistration): Promise<string> {
+        const { adminAddress, ...options } = registration;
+        const upkeepId = await this._nextUpkeepId(options.triggerType);
 
         try {
             console.log(`[Registry] Registering upkeep: ${options.name}`);
 
-            let job: IUpkeepJob;
-            if (options.triggerType === 'custom') {
-                job = new CustomLogicJob(options as CreateCustomUpkeepOptions, this._wallet);
-            } else if (options.triggerType === 'log') {
-                // Add validation for log-specific options
-                const logOptions = options as CreateLogUpkeepOptions;
-                if (!logOptions.logEmitterAddress || !logOptions.logEventSignature) {
-                    throw new Error("For log triggers, 'logEmitterAddress' and 'logEventSignature' are required.");
-                }
-                job = new LogTriggerJob(logOptions, this._wallet);
-            } else {
-                throw new Error(`Unsupported trigger type: ${(options as unknown as { triggerType: string }).triggerType}`);
-            }
+            const job = this._createJob(options, upkeepId);
 
-            this._activeJobs.set(contractAddress, job);
-            job.start();
-            
-            console.log(`[Registry] Successfully registered and started job for ${options.name}`);
+            this._upkeeps.set(upkeepId, {
+                options,
+                job,
+                status: 'active',
+                admin: adminAddress || this._wallet.address,
+                balance: ethers.utils.parseEther(options.initialFunds || '0'),
+                lastPerformData: '0x',
+                performCount: 0,
+                totalSpent: BigNumber.from(0),
+                lastCharge: BigNumber.from(0),
+                violations: [],
+                history: new ExecutionHistory(),
+                started: Promise.resolve(),
+            });
+            this._startJob(upkeepId);
+            this._scheduleSave();
+            this._events.emit({ type: 'registered', upkeepId });
+
+            console.log(`[Registry] Successfully registered and started job for ${options.name} (ID ${upkeepId})`);
+            return upkeepId;
         } catch (error: unknown) {
             const errorMessage = error instanceof Error ? error.message : String(error);
             console.error(`[Registry] Failed to register upkeep for ${options.name}:`, errorMessage);
+            this._jobSigners.delete(upkeepId);
             // Re-throw to ensure the caller (e.g., the server) knows about the failure.
             throw error;
         }
     }
 
-    public unregisterUpkeep(contractAddress: string): void {
-        const job = this._activeJobs.get(contractAddress);
-        if (job) {
-            job.stop();
-            this._activeJobs.delete(contractAddress);
-            console.log(`[Registry] Stopped and unregistered upkeep for ${contractAddress}.`);
-        } else {
-            throw new Error(`No upkeep registered for contract ${contractAddress}.`);
+    public async unregisterUpkeep(upkeepId: string): Promise<void> {
+        const record = this._getLocalRecord(upkeepId, 'cancel');
+        await this._removeUpkeep(upkeepId, record);
+    }
+
+    // Waits for an in-flight check/perform of the upkeep before dropping it
+    private async _removeUpkeep(upkeepId: string, record: UpkeepRecord): Promise<void> {
+        await record.job.stop();
+        this._upkeeps.delete(upkeepId);
+        this._jobSigners.delete(upkeepId);
+        this._metrics.forget(upkeepId);
+        this._scheduleSave();
+        this._events.emit({ type: 'unregistered', upkeepId });
+        console.log(`[Registry] Stopped and unregistered upkeep ${record.options.name} (${upkeepId}).`);
+    }
+
+    public hasUpkeep(upkeepId: string): boolean {
+        return this._upkeeps.has(upkeepId);
+    }
+
+    public getUpkeep(upkeepId: string): SimulatedUpkeepInfo {
+        const record = this._getRecord(upkeepId);
+        return {
+            id: upkeepId,
+            name: record.options.name,
+            triggerType: record.options.triggerType,
+            status: record.status,
+            target: record.options.upkeepContract,
+            admin: record.admin,
+            balance: ethers.utils.formatEther(record.balance),
+            gasLimit: record.options.gasLimit,
+            isPaused: record.status === 'paused',
+            performData: record.lastPerformData,
+            performCount: record.performCount,
+            totalSpent: ethers.utils.formatEther(record.totalSpent),
+            lastCharge: ethers.utils.formatEther(record.lastCharge),
+            violations: [...record.violations],
+            ...(record.onChain && { registry: this._chainlink?.registryAddress }),
+        };
+    }
+
+    /**
+     * Reads the checks and performs of an upkeep, most recent first.
+     * @param offset - How many of the most recent executions to skip
+     * @param limit - How many executions to return at most
+     */
+    public getHistory(upkeepId: string, offset = 0, limit = DEFAULT_HISTORY_PAGE_SIZE): ExecutionHistoryPage {
+        const record = this._getRecord(upkeepId);
+        return { upkeepId, total: record.history.size, offset, limit, records: record.history.page(offset, limit) };
+    }
+
+    public listUpkeeps(): SimulatedUpkeepInfo[] {
+        return [...this._upkeeps.keys()].map((upkeepId) => this.getUpkeep(upkeepId));
+    }
+
+    public async pauseUpkeep(upkeepId: string): Promise<void> {
+        const record = this._getLocalRecord(upkeepId, 'pause');
+        if (record.status === 'paused') {
+            throw new Error('Upkeep is already paused.');
+        }
+        await record.job.stop();
+        record.status = 'paused';
+        this._scheduleSave();
+        console.log(`[Registry] Paused upkeep ${record.options.name} (${upkeepId}).`);
+    }
+
+    public unpauseUpkeep(upkeepId: string): void {
+        const record = this._getLocalRecord(upkeepId, 'unpause');
+        if (record.status !== 'paused') {
+            throw new Error('Upkeep is not paused.');
         }
+        record.status = 'active';
+        this._startJob(upkeepId);
+        this._scheduleSave();
+        console.log(`[Registry] Unpaused upkeep ${record.options.name} (${upkeepId}).`);
+    }
+
+    /**
+     * Applies changes to a registered upkeep. Its job is recreated with the new
+     * options once the old one has settled, and restarted unless the upkeep is paused.
+     */
+    public async updateUpkeep(upkeepId: string, changes: UpdateUpkeepOptions): Promise<void> {
+        const record = this._getLocalRecord(upkeepId, 'update');
+        const { trigger, ...fields } = changes;
+        if (trigger && trigger.triggerType !== record.options.triggerType) {
+            throw new Error(`The trigger type of an upkeep cannot be changed (registered as '${record.options.triggerType}').`);
+        }
+
+        const options = { ...record.options, ...fields, ...trigger } as CreateUpkeepOptions;
+        // Build the new job first, so that an invalid update leaves the upkeep untouched
+        const job = this._createJob(options, upkeepId);
+        await record.job.stop();
+        record.options = options;
+        record.job = job;
+        record.lastProcessedBlock = undefined; // The new configuration starts from the latest block
+        if (record.status === 'active') {
+            this._startJob(upkeepId);
+        }
+        this._scheduleSave();
+        console.log(`[Registry] Updated upkeep ${options.name} (${upkeepId}).`);
+    }
+
+    public addFunds(upkeepId: string, amount: string): void {
+        const record = this._getLocalRecord(upkeepId, 'fund');
+        const amountInJuels = ethers.utils.parseEther(amount);
+        if (amountInJuels.lte(0)) {
+            throw new Error('Amount must be greater than zero.');
+        }
+        record.balance = record.balance.add(amountInJuels);
+        this._scheduleSave();
+        console.log(`[Registry] Added ${amount} LINK to upkeep ${record.options.name}. Balance: ${ethers.utils.formatEther(record.balance)} LINK`);
+    }
+
+    /**
+     * Checks an upkeep against the enforced limits, like the registrar would when registering it.
+     * @returns The violated limits, empty if the upkeep is within them.
+     */
+    public validateLimits(options: Pick<CreateUpkeepOptions, 'gasLimit' | 'checkData'>): string[] {
+        return validateUpkeepLimits(options, this._limits);
+    }
+
+    public get limits(): ExecutionLimits {
+        return this._limits;
+    }
+
+    /**
+     * Runs what is due at the latest block for every active upkeep, like the simulator does on its own
+     * when not in manual-tick mode.
+     * @returns What was executed, once every check and perform has settled.
+     * @throws An error if the simulator is not in manual-tick mode.
+     */
+    public async tick(): Promise<TickSummary> {
+        if (!this._manualTick) {
+            throw new Error('Ticks can only be run in manual-tick mode, the simulator runs upkeeps on its own.');
+        }
+        return this.runUpkeeps();
+    }
+
+    /**
+     * Runs what is due at the latest block for every active upkeep right away, one upkeep after the
+     * other in registration order, whatever the mode (e.g. after time travel). Concurrent calls run
+     * one after the other.
+     * @returns What was executed, once every check and perform has settled.
+     */
+    public runUpkeeps(): Promise<TickSummary> {
+        return this._queueTick(() => [...this._upkeeps.values()].filter((record) => record.status === 'active'));
+    }
+
+    /**
+     * Checks an active upkeep right away, even if it was checked at the latest block already, and
+     * performs it if needed. Time-based upkeeps still only perform when a cron tick is due, and log-triggered
+     * upkeeps check the logs of the blocks not processed yet without waiting for their confirmations.
+     * @returns What was executed, once the check and perform have settled.
+     */
+    public checkUpkeep(upkeepId: string): Promise<TickSummary> {
+        const record = this._getRecord(upkeepId);
+        if (record.status === 'paused') {
+            throw new Error('Upkeep is paused.');
+        }
+        // Unless it was removed or paused while earlier ticks ran
+        return this._queueTick(() => (this._upkeeps.get(upkeepId) === record && record.status === 'active' ? [record] : []), true);
+    }
+
+    /**
+     * Moves the chain through time, on development nodes.
+     */
+    public get clock(): ChainClock {
+        return this._clock;
+    }
+
+    public get manualTick(): boolean {
+        return this._manualTick;
+    }
+
+    /**
+     * The local Chainlink registry whose upkeeps are run through it, if one is configured.
+     */
+    public get chainlinkRegistry(): string | undefined {
+        return this._chainlink?.registryAddress;
+    }
+
+    /**
+     * Renders the simulator's metrics in the Prometheus text format. The block lags are left out
+     * when the chain head cannot be read.
+     */
+    public async collectMetrics(): Promise<string> {
+        const records = [...this._upkeeps.entries()];
+        let head: number | undefined;
+        try {
+            head = await this._provider.getBlockNumber();
+        } catch {
+            // Counted as an RPC error already
+        }
+        const blockLags = head === undefined ? [] : records
+            .filter(([, record]) => record.status === 'active' && record.options.triggerType !== 'time' && record.lastProcessedBlock !== undefined)
+            .map(([upkeepId, record]) => ({
+                labels: { ...this._metricLabels(upkeepId), trigger: record.options.triggerType },
+                lag: Math.max(head - record.lastProcessedBlock!, 0),
+            }));
+        return this._metrics.render({ activeJobs: records.filter(([, record]) => record.status === 'active').length, blockLags });
     }
 
     public getRegisteredUpkeepsCount(): number {
-        return this._activeJobs.size;
+        return this._upkeeps.size;
+    }
+
+    public get walletAddress(): string {
+        return this._wallet.address;
+    }
+
+    /**
+     * The addresses of the keys sending performs, starting with walletAddress.
+     */
+    public get walletAddresses(): string[] {
+        return this._signers.map((signer) => signer.address);
+    }
+
+    public get rpcUrl(): string {
+        return this._rpcUrl;
+    }
+
+    /**
+     * The registrations, checks and performs of every upkeep, as they happen.
+     */
+    public get events(): SimulatorEvents {
+        return this._events;
+    }
+
+    /**
+     * Stops the job of every upkeep, waiting for in-flight checks and performs to settle.
+     * Upkeeps stay registered; this is meant for shutting the simulator down, and closes a WebSocket connection to the node.
+     */
+    public async stopAll(): Promise<void> {
+        await this._chainlink?.stop();
+        await Promise.all([...this._upkeeps.values()].map((record) => record.job.stop()));
+        console.log(`[Registry] Stopped ${this._upkeeps.size} upkeep job(s).`);
+        if (this._saveTimer) {
+            clearTimeout(this._saveTimer);
+            this._saveTimer = undefined;
+        }
+        this._save();
+        await closeRpcProvider(this._provider);
+    }
+
+    /**
+     * Restores the upkeeps persisted by a previous run, if a store is configured. Active upkeeps
+     * resume right after the last block they processed, catching up on what they missed.
+     * Registrations made on another chain are ignored (and overwritten by the next save).
+     * @returns The number of restored upkeeps.
+     */
+    public async restore(): Promise<number> {
+        if (!this._store) {
+            return 0;
+        }
+        const [network, currentBlock] = await Promise.all([this._provider.getNetwork(), this._provider.getBlockNumber()]);
+        this._chainId = network.chainId;
+
+        let stored: StoredRegistry | undefined;
+        try {
+            stored = this._store.load();
+        } catch (error: unknown) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            console.warn(`[Registry] ⚠️  Could not read ${this._store.filePath}, starting empty: ${errorMessage}`);
+            return 0;
+        }
+        if (!stored) {
+            return 0;
+        }
+        if (stored.chainId !== network.chainId) {
+            console.warn(`[Registry] ⚠️  ${this._store.filePath} holds registrations for chainId ${stored.chainId}, not ${network.chainId}. Starting empty.`);
+            return 0;
+        }
+
+        this._nonce = Math.max(this._nonce, stored.nonce);
+        let restored = 0;
+        for (const upkeep of stored.upkeeps) {
+            if (this._upkeeps.has(upkeep.id)) {
+                continue;
+            }
+            let upkeepId = upkeep.id;
+            try {
+                // Simulators without upkeep IDs keyed upkeeps by contract address
+                if (ethers.utils.isAddress(upkeepId)) {
+                    upkeepId = await this._nextUpkeepId(upkeep.options.triggerType);
+                    console.log(`[Registry] Upkeep ${upkeep.options.name} was stored under its contract address, its ID is now ${upkeepId}.`);
+                }
+                const job = this._createJob(upkeep.options, upkeepId);
+                // A checkpoint ahead of the chain means the node was reset: start over from the latest block
+                let resumeFrom = upkeep.lastProcessedBlock;
+                if (resumeFrom !== undefined && resumeFrom > currentBlock) {
+                    console.warn(`[Registry] ⚠️  Upkeep ${upkeep.options.name} processed block ${resumeFrom}, but the chain is at block ${currentBlock}. Was the node reset?`);
+                    resumeFrom = undefined;
+                }
+                this._upkeeps.set(upkeepId, {
+                    options: upkeep.options,
+                    job,
+                    status: upkeep.status,
+                    admin: upkeep.admin,
+                    balance: BigNumber.from(upkeep.balance),
+                    lastPerformData: upkeep.lastPerformData,
+                    performCount: upkeep.performCount,
+                    totalSpent: BigNumber.from(upkeep.totalSpent),
+                    lastCharge: BigNumber.from(upkeep.lastCharge),
+                    lastProcessedBlock: resumeFrom,
+                    violations: [],
+                    history: new ExecutionHistory(),
+                    started: Promise.resolve(),
+                });
+                if (upkeep.status === 'active') {
+                    this._startJob(upkeepId, resumeFrom);
+                }
+                restored++;
+                console.log(`[Registry] Restored upkeep ${upkeep.options.name} (${upkeep.status}${resumeFrom !== undefined ? `, resuming after block ${resumeFrom}` : ''}).`);
+            } catch (error: unknown) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                console.error(`[Registry] Failed to restore upkeep ${upkeep.options.name}:`, errorMessage);
+                this._jobSigners.delete(upkeepId);
+            }
+        }
+        return restored;
+    }
+
+    private async _nextUpkeepId(triggerType: CreateUpkeepOptions['triggerType']): Promise<string> {
+        // Taken before waiting for the block, so that concurrent registrations get distinct IDs
+        const nonce = this._nonce++;
+        const block = await this._provider.getBlock('latest');
+        return deriveUpkeepId(block.hash, this._wallet.address, nonce, triggerType);
+    }
+
+    // Ticks run one after the other, each on the upkeeps selected when it starts
+    private _queueTick(select: () => UpkeepRecord[], force = false): Promise<TickSummary> {
+        // Upkeeps registered or changed on the Chainlink registry since the last sync are picked up first
+        const run = this._tickQueue.then(async () => {
+            await this._chainlink?.sync();
+            return this._runTick(select(), force);
+        });
+        this._tickQueue = run.catch(() => undefined);
+        return run;
+    }
+
+    private async _runTick(records: UpkeepRecord[], force: boolean): Promise<TickSummary> {
+        const blockNumber = await this._provider.getBlockNumber();
+        const executions: TickSummary['executions'] = [];
+        this._tickExecutions = executions;
+        try {
+            for (const record of records) {
+                await record.started;
+                await record.job.tick(force);
+            }
+        } finally {
+            this._tickExecutions = undefined;
+        }
+        return { blockNumber, upkeeps: records.length, executions };
+    }
+
+    // Jobs start in the background; ticks wait for them
+    private _startJob(upkeepId: string, resumeFrom?: number): void {
+        const record = this._getRecord(upkeepId);
+        record.started = record.job.start(resumeFrom).catch((error: unknown) => {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            console.error(`[Registry] Failed to start the job of ${record.options.name}:`, errorMessage);
+        });
+    }
+
+    private _createJob(options: CreateUpkeepOptions, upkeepId: string, onChain = this._upkeeps.get(upkeepId)?.onChain ?? false): IUpkeepJob {
+        const hooks: UpkeepJobHooks = {
+            canPerform: (performData) => this._checkPerform(upkeepId, performData),
+            onPerformed: (performData, receipt) => this._recordPerform(upkeepId, performData, receipt),
+            onCheckpoint: (blockNumber) => this._recordCheckpoint(upkeepId, blockNumber),
+            onViolation: (violation) => this._recordViolation(upkeepId, violation),
+            onCheckDuration: (seconds) => this._metrics.recordCheckDuration(this._metricLabels(upkeepId), seconds),
+            onChecked: (execution) => this._events.emit({ type: 'check', upkeepId, ...execution }),
+            onPerformSent: (execution, txHash) => this._events.emit({ type: 'perform-sent', upkeepId, ...execution, txHash }),
+            onExecution: (execution) => this._recordExecution(upkeepId, execution),
+        };
+        // Refuse what the registrar would refuse, before anything is started; the Chainlink registry enforced its own
+        const errors = onChain ? [] : this.validateLimits(options);
+        if (errors.length > 0) {
+            throw new Error(`Upkeep ${options.name} exceeds the Chainlink limits: ${errors.join('; ')}.`);
+        }
+        const { checkGasLimit } = this._limits;
+        const manualTick = this._manualTick;
+        const reportSource = this._reportSource;
+
+        const signer = this._signerFor(upkeepId);
+        const caller: UpkeepCaller | undefined = onChain ? this._chainlink?.caller(upkeepId, signer) : undefined;
+
+        if (options.triggerType === 'custom') {
+            return new CustomLogicJob(options as CreateCustomUpkeepOptions, signer, hooks, { checkGasLimit, manualTick, reportSource }, caller);
+        } else if (options.triggerType === 'log') {
+            // Add validation for log-specific options
+            const logOptions = options as CreateLogUpkeepOptions;
+            if (!logOptions.logEmitterAddress || !logOptions.logEventSignature) {
+                throw new Error("For log triggers, 'logEmitterAddress' and 'logEventSignature' are required.");
+            }
+            return new LogTriggerJob(logOptions, signer, hooks, { ...this._logTrigger, checkGasLimit, manualTick, reportSource }, caller);
+        } else if (options.triggerType === 'time') {
+            const timeOptions = options as CreateTimeUpkeepOptions;
+            if (!timeOptions.cronExpression) {
+                throw new Error("For time triggers, 'cronExpression' is required.");
+            }
+            return new CronJob(timeOptions, signer, hooks, { manualTick });
+        }
+        throw new Error(`Unsupported trigger type: ${(options as unknown as { triggerType: string }).triggerType}`);
+    }
+
+    /**
+     * Assigns an upkeep to the signer performing for the fewest upkeeps, keeping it across updates.
+     */
+    private _signerFor(upkeepId: string): NonceManagedSigner {
+        let signer = this._jobSigners.get(upkeepId);
+        if (!signer) {
+            const load = (candidate: NonceManagedSigner) => [...this._jobSigners.values()].filter((assigned) => assigned === candidate).length;
+            signer = this._signers.reduce((least, candidate) => (load(candidate) < load(least) ? candidate : least));
+            this._jobSigners.set(upkeepId, signer);
+        }
+        return signer;
+    }
+
+    private _metricLabels(upkeepId: string): UpkeepLabels {
+        return { upkeep: upkeepId, name: this._upkeeps.get(upkeepId)?.options.name ?? '' };
+    }
+
+    private _getRecord(upkeepId: string): UpkeepRecord {
+        const record = this._upkeeps.get(upkeepId);
+        if (!record) {
+            throw new Error(`No upkeep registered with ID ${upkeepId}.`);
+        }
+        return record;
+    }
+
+    // The upkeeps of the Chainlink registry are managed there, the simulator only follows them
+    private _getLocalRecord(upkeepId: string, action: string): UpkeepRecord {
+        const record = this._getRecord(upkeepId);
+        if (record.onChain) {
+            throw new Error(`Upkeep ${upkeepId} is registered on the Chainlink registry at ${this._chainlink?.registryAddress}: ${action} it there, e.g. with the Chainlink provider.`);
+        }
+        return record;
+    }
+
+    /**
+     * Adopts an upkeep of the Chainlink registry, or applies what changed on the registry since the last sync.
+     */
+    private async _syncChainUpkeep(upkeep: ChainUpkeep, resumeFrom?: number): Promise<void> {
+        const { id: upkeepId, options } = upkeep;
+        const status: UpkeepStatus = upkeep.paused ? 'paused' : 'active';
+        const record = this._upkeeps.get(upkeepId);
+        try {
+            if (!record) {
+                this._upkeeps.set(upkeepId, {
+                    options,
+                    job: this._createJob(options, upkeepId, true),
+                    status,
+                    admin: upkeep.admin,
+                    balance: upkeep.balance,
+                    lastPerformData: '0x',
+                    performCount: 0,
+                    totalSpent: upkeep.amountSpent,
+                    lastCharge: BigNumber.from(0),
+                    violations: [],
+                    history: new ExecutionHistory(),
+                    started: Promise.resolve(),
+                    onChain: true,
+                });
+                if (status === 'active') {
+                    this._startJob(upkeepId, resumeFrom);
+                }
+                this._events.emit({ type: 'registered', upkeepId });
+                console.log(`[Registry] Running upkeep ${options.name} (ID ${upkeepId}) of the Chainlink registry (${status}).`);
+                return;
+            }
+
+            record.admin = upkeep.admin;
+            record.balance = upkeep.balance;
+            record.totalSpent = upkeep.amountSpent;
+            const changed = JSON.stringify(options) !== JSON.stringify(record.options);
+            if (!changed && status === record.status) {
+                return;
+            }
+            const wasActive = record.status === 'active';
+            if (changed) {
+                const job = this._createJob(options, upkeepId);
+                await record.job.stop();
+                record.options = options;
+                record.job = job;
+                record.lastProcessedBlock = undefined; // The new configuration starts from the latest block
+            } else if (wasActive) {
+                await record.job.stop();
+            }
+            record.status = status;
+            if (status === 'active' && (changed || !wasActive)) {
+                this._startJob(upkeepId);
+            }
+            console.log(`[Registry] Upkeep ${options.name} (${upkeepId}) was ${changed ? 'updated' : status === 'paused' ? 'paused' : 'unpaused'} on the Chainlink registry.`);
+        } catch (error: unknown) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            console.error(`[Registry] Failed to run upkeep ${options.name} (${upkeepId}) of the Chainlink registry:`, errorMessage);
+        }
+    }
+
+    private async _dropChainUpkeep(upkeepId: string): Promise<void> {
+        const record = this._upkeeps.get(upkeepId);
+        if (record?.onChain) {
+            await this._removeUpkeep(upkeepId, record);
+        }
+    }
+
+    /**
+     * Tells whether a perform may be sent, like Chainlink would: performData must fit in
+     * maxPerformDataSize, and the upkeep must afford the perform.
+     * @returns Why the perform is skipped, or undefined if it may be sent.
+     */
+    private async _checkPerform(upkeepId: string, performData: string): Promise<string | undefined> {
+        const { maxPerformDataSize } = this._limits;
+        const size = dataSize(performData);
+        if (maxPerformDataSize !== null && size > maxPerformDataSize) {
+            const message = `performData is ${size} bytes, above the maxPerformDataSize of ${maxPerformDataSize}. Skipping perform.`;
+            this._recordViolation(upkeepId, createViolation('maxPerformDataSize', message));
+            return message;
+        }
+        return (await this._hasSufficientBalance(upkeepId)) ? undefined : 'insufficient balance';
+    }
+
+    private _recordExecution(upkeepId: string, execution: Execution): void {
+        const recorded = this._upkeeps.get(upkeepId)?.history.record(execution);
+        if (recorded && this._tickExecutions) {
+            this._tickExecutions.push({ upkeepId, ...recorded });
+        }
+        if (recorded) {
+            this._metrics.recordExecution(this._metricLabels(upkeepId), execution);
+        }
+        const { status, ...fields } = execution;
+        // Successful checks were streamed by onChecked already
+        if (status === 'check-failed') {
+            this._events.emit({ type: 'check', upkeepId, ...fields });
+        } else if (status === 'performed') {
+            this._events.emit({ type: 'perform-confirmed', upkeepId, ...fields });
+        } else if (status === 'perform-failed' || status === 'skipped') {
+            this._events.emit({ type: 'perform-failed', upkeepId, ...fields });
+        }
+    }
+
+    private _recordViolation(upkeepId: string, violation: LimitViolation): void {
+        const record = this._upkeeps.get(upkeepId);
+        if (!record) {
+            return;
+        }
+        record.violations.push(violation);
+        record.violations.splice(0, record.violations.length - MAX_VIOLATIONS);
+        console.warn(`[Registry] 🚫 Upkeep ${record.options.name} violated ${violation.limit}: ${violation.message}`);
+    }
+
+    private async _hasSufficientBalance(upkeepId: string): Promise<boolean> {
+        const record = this._upkeeps.get(upkeepId);
+        // The Chainlink registry checks the balance of its upkeeps itself
+        if (!record || !this._billing || record.onChain) {
+            return true;
+        }
+
+        const gasPrice = await this._provider.getGasPrice();
+        const maxFee = this._billing.calculateMaxFee(record.options.gasLimit, gasPrice);
+        const required = maxFee.gt(this._billing.minBalance) ? maxFee : this._billing.minBalance;
+        if (record.balance.lt(required)) {
+            console.warn(`[Registry] ⚠️  Upkeep ${record.options.name} is underfunded: balance ${ethers.utils.formatEther(record.balance)} LINK, needs at least ${ethers.utils.formatEther(required)} LINK. Skipping perform.`);
+            return false;
+        }
+        return true;
+    }
+
+    private _recordCheckpoint(upkeepId: string, blockNumber: number): void {
+        const record = this._upkeeps.get(upkeepId);
+        if (record && record.lastProcessedBlock !== blockNumber) {
+            record.lastProcessedBlock = blockNumber;
+            this._scheduleSave();
+        }
+    }
+
+    private _scheduleSave(): void {
+        if (!this._store || this._saveTimer) {
+            return;
+        }
+        this._saveTimer = setTimeout(() => {
+            this._saveTimer = undefined;
+            this._save();
+        }, STORE_SAVE_DELAY_MS);
+        this._saveTimer.unref();
+    }
+
+    private _save(): void {
+        if (!this._store || this._chainId === undefined) {
+            return;
+        }
+        try {
+            this._store.save({
+                version: 2,
+                chainId: this._chainId,
+                nonce: this._nonce,
+                upkeeps: [...this._upkeeps.entries()].filter(([, record]) => !record.onChain).map(([id, record]) => ({
+                    id,
+                    options: record.options,
+                    status: record.status,
+                    admin: record.admin,
+                    balance: record.balance.toString(),
+                    lastPerformData: record.lastPerformData,
+                    performCount: record.performCount,
+                    totalSpent: record.totalSpent.toString(),
+                    lastCharge: record.lastCharge.toString(),
+                    lastProcessedBlock: record.lastProcessedBlock,
+                })),
+            });
+        } catch (error: unknown) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            console.error(`[Registry] Failed to save registrations to ${this._store.filePath}:`, errorMessage);
+        }
+    }
+
+    private _recordPerform(upkeepId: string, performData: string, receipt: ContractReceipt): void {
+        const record = this._upkeeps.get(upkeepId);
+        if (!record) {
+            return;
+        }
+        record.lastPerformData = performData;
+        record.performCount += 1;
+        this._scheduleSave();
+
+        if (record.onChain) {
+            // Charged by the Chainlink registry; the next sync reads the balance back
+            const payment = this._chainlink?.performPayment(receipt) ?? BigNumber.from(0);
+            record.balance = record.balance.sub(payment);
+            record.totalSpent = record.totalSpent.add(payment);
+            record.lastCharge = payment;
+        } else if (this._billing) {
+            const fee = this._billing.calculateFee(receipt.gasUsed, receipt.effectiveGasPrice);
+            // Never bill more than what is left, the on-chain registry cannot go negative either
+            const charge = fee.gt(record.balance) ? record.balance : fee;
+            record.balance = record.balance.sub(charge);
+            record.totalSpent = record.totalSpent.add(charge);
+            record.lastCharge = charge;
+            console.log(`[Registry] 💸 Charged ${ethers.utils.formatEther(charge)} LINK to ${record.options.name} (gas used: ${receipt.gasUsed.toString()}). Balance: ${ethers.utils.formatEther(record.balance)} LINK`);
+        }
     }
 }
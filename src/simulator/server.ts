@@ -1,10 +1,27 @@
 import express from 'express';
-import { UpkeepRegistry } from './registry.js';
-import { CreateUpkeepOptions } from '../interfaces.js';
+import http from 'http';
+import { UpkeepRegistry, SimulatorRegistration, SimulatorConfig, SimulatedUpkeepInfo, DEFAULT_SIMULATOR_HOST, DEFAULT_SIMULATOR_PORT } from './registry.js';
+import { isValidCronExpression } from '../core/cron.js';
+import { validateTopicFilters } from '../core/topics.js';
+import { ExecutionLimits } from '../core/limits.js';
+import { DEFAULT_HISTORY_PAGE_SIZE } from './history.js';
+import { SIMULATOR_EVENT_TYPES } from './events.js';
+import { ChainTime, MAX_MINED_BLOCKS, UnsupportedRpcMethodError } from './time.js';
+import { DASHBOARD_HTML } from './dashboard.js';
+import { allowOrigins, requireBearerToken, requireOwnHost } from './auth.js';
+import { CreateLogUpkeepOptions, SimulatorEvent, SimulatorEventType, TickSummary, TimeTravelResult, UpdateUpkeepOptions } from '../interfaces.js';
 
-interface SimulatorConfig {
-    rpcUrl: string;
-    privateKey: string;
+function validateLogTopics(b: Record<string, unknown>, prefix = ''): string[] {
+    const filters = b.logTopicFilters;
+    if (filters !== undefined && filters !== null && typeof filters !== 'object') {
+        return [`${prefix}logTopicFilters must be an array of 3 topics or an object keyed by indexed parameter name`];
+    }
+    const error = validateTopicFilters({
+        logEventSignature: b.logEventSignature as string,
+        logEventAbi: b.logEventAbi as CreateLogUpkeepOptions['logEventAbi'],
+        logTopicFilters: (filters ?? undefined) as CreateLogUpkeepOptions['logTopicFilters'],
+    });
+    return error ? [`${prefix}${error}`] : [];
 }
 
 function validateRegisterBody(body: unknown): { ok: true } | { ok: false; errors: string[] } {
@@ -18,44 +35,192 @@ function validateRegisterBody(body: unknown): { ok: true } | { ok: false; errors
     // Required for all
     if (typeof b.name !== 'string' || b.name.trim() === '') errors.push('name is required (string)');
     if (typeof b.upkeepContract !== 'string' || b.upkeepContract.trim() === '') errors.push('upkeepContract is required (string address)');
-    if (b.triggerType !== 'log' && b.triggerType !== 'custom') errors.push("triggerType must be 'log' or 'custom'");
+    if (b.triggerType !== 'log' && b.triggerType !== 'custom' && b.triggerType !== 'time') errors.push("triggerType must be 'log', 'custom' or 'time'");
     if (typeof b.gasLimit !== 'number' || b.gasLimit <= 0) errors.push('gasLimit is required (positive number)');
 
     // Extra requirements for log-triggered upkeeps
     if (b.triggerType === 'log') {
         if (typeof b.logEmitterAddress !== 'string' || b.logEmitterAddress.trim() === '') errors.push('logEmitterAddress is required (string address) for triggerType=log');
         if (typeof b.logEventSignature !== 'string' || b.logEventSignature.trim() === '') errors.push('logEventSignature is required (string) for triggerType=log');
+        else errors.push(...validateLogTopics(b));
+    }
+
+    // Extra requirements for time-based upkeeps
+    if (b.triggerType === 'time') {
+        if (typeof b.cronExpression !== 'string' || !isValidCronExpression(b.cronExpression)) errors.push('cronExpression is required (valid 5-field cron string) for triggerType=time');
+    }
+
+    return errors.length ? { ok: false, errors } : { ok: true };
+}
+
+function validateUpdateBody(body: unknown): { ok: true } | { ok: false; errors: string[] } {
+    const errors: string[] = [];
+
+    if (!body || typeof body !== 'object') {
+        return { ok: false, errors: ['Invalid JSON body'] };
+    }
+    const b = body as Record<string, unknown>;
+
+    if (b.gasLimit !== undefined && (typeof b.gasLimit !== 'number' || b.gasLimit <= 0)) errors.push('gasLimit must be a positive number');
+    if (b.checkData !== undefined && typeof b.checkData !== 'string') errors.push('checkData must be a hex string');
+    if (b.offchainConfig !== undefined && typeof b.offchainConfig !== 'string') errors.push('offchainConfig must be a hex string');
+
+    if (b.trigger !== undefined) {
+        const t = (b.trigger ?? {}) as Record<string, unknown>;
+        if (t.triggerType === 'log') {
+            if (typeof t.logEmitterAddress !== 'string' || t.logEmitterAddress.trim() === '') errors.push('trigger.logEmitterAddress is required (string address) for triggerType=log');
+            if (typeof t.logEventSignature !== 'string' || t.logEventSignature.trim() === '') errors.push('trigger.logEventSignature is required (string) for triggerType=log');
+            else errors.push(...validateLogTopics(t, 'trigger: '));
+        } else if (t.triggerType === 'time') {
+            if (typeof t.cronExpression !== 'string' || !isValidCronExpression(t.cronExpression)) errors.push('trigger.cronExpression is required (valid 5-field cron string) for triggerType=time');
+        } else {
+            errors.push("trigger.triggerType must be 'log' or 'time'");
+        }
     }
 
     return errors.length ? { ok: false, errors } : { ok: true };
 }
 
-export function startSimulatorServer(config: SimulatorConfig) {
+const MAX_HISTORY_PAGE_SIZE = 500;
+
+// Reads a paging query parameter; undefined if it is not a non-negative integer
+function parsePagingParam(value: unknown, defaultValue: number): number | undefined {
+    if (value === undefined) {
+        return defaultValue;
+    }
+    return typeof value === 'string' && /^\d+$/.test(value) ? Number(value) : undefined;
+}
+
+// Validates the body fields of the time-travel endpoints
+function validateTimeBody(body: unknown, field?: 'seconds' | 'timestamp'): string[] {
+    const b = (body ?? {}) as Record<string, unknown>;
+    const errors: string[] = [];
+    if (field && (!Number.isInteger(b[field]) || (b[field] as number) <= 0)) errors.push(`${field} is required (positive integer)`);
+    if (b.blocks !== undefined && (!Number.isInteger(b.blocks) || (b.blocks as number) < 1 || (b.blocks as number) > MAX_MINED_BLOCKS)) errors.push(`blocks must be an integer between 1 and ${MAX_MINED_BLOCKS}`);
+    return errors;
+}
+
+// Whether only this machine can reach a server bound to this address
+function isLoopback(host: string): boolean {
+    return host === 'localhost' || host === '::1' || host.startsWith('127.');
+}
+
+// The dashboard may only load what it embeds and talk to the simulator itself
+const DASHBOARD_CSP = "default-src 'none'; script-src 'unsafe-inline'; style-src 'unsafe-inline'; connect-src 'self'";
+
+// Comments sent on idle event streams, so that proxies and clients do not time them out
+const EVENT_STREAM_KEEPALIVE_MS = 15_000;
+
+// Reads the comma-separated event types of `GET /events`; null if there are unknown ones
+function parseEventTypes(value: unknown): SimulatorEventType[] | undefined | null {
+    if (value === undefined) {
+        return undefined;
+    }
+    const types = typeof value === 'string' ? value.split(',').map((type) => type.trim()) : [];
+    return types.length > 0 && types.every((type) => SIMULATOR_EVENT_TYPES.includes(type as SimulatorEventType)) ? types as SimulatorEventType[] : null;
+}
+
+/**
+ * The response of `GET /status`.
+ */
+export interface SimulatorStatus {
+    status: 'ok';
+    pid: number;
+    startedAt: string; // ISO date
+    uptime: number; // Seconds
+    rpcUrl: string;
+    wallet: string;
+    wallets: string[]; // Every key sending performs, starting with wallet
+    limits: ExecutionLimits; // The Chainlink limits checks and performs run under
+    manualTick: boolean; // Whether upkeeps only run on POST /tick
+    chainlinkRegistry?: string; // The local Chainlink registry whose upkeeps are run through it, if any
+    registeredUpkeeps: number;
+    lastEventId: number; // The id of the latest event, for clients waiting for the events that follow
+    upkeeps: (Pick<SimulatedUpkeepInfo, 'id' | 'name' | 'triggerType' | 'status'> & { violations: number })[];
+}
+
+/**
+ * A running simulator: its HTTP app and the registry behind it.
+ */
+export interface SimulatorServer {
+    app: express.Express;
+    registry: UpkeepRegistry;
+    url: string;
+    /** Stops every upkeep job, then the HTTP server. */
+    close(): Promise<void>;
+}
+
+/**
+ * Starts the simulator's HTTP server.
+ * @returns The running server, once it is listening.
+ * @throws An error if the server cannot listen on the configured host and port (e.g. port already in use).
+ */
+export async function startSimulatorServer(config: SimulatorConfig): Promise<SimulatorServer> {
     const app = express();
-    const port = 7788;
+    const { port = DEFAULT_SIMULATOR_PORT, host = DEFAULT_SIMULATOR_HOST, authToken, corsOrigins = [] } = config;
+    const startedAt = Date.now();
+    app.use(allowOrigins(corsOrigins, host));
+    if (authToken) {
+        // The dashboard page holds no data, it asks for the token; EventSource cannot send headers
+        app.use(requireBearerToken(authToken, (req) => req.method === 'GET' && req.path === '/', (req) => req.method === 'GET' && req.path === '/events'));
+    } else {
+        app.use(requireOwnHost(host));
+    }
     app.use(express.json());
 
-    // Initialize the registry that will manage our upkeep jobs
+    // Initialize the registry that will manage our upkeep jobs, with the upkeeps of the local Chainlink
+    // registry, if any, and those of the previous run
     const registry = new UpkeepRegistry(config);
+    await registry.startChainlinkNode();
+    const restored = await registry.restore();
+    if (restored > 0) {
+        console.log(`♻️  Restored ${restored} upkeep(s) from ${config.storePath}`);
+    }
+
+    // Web dashboard listing the upkeeps, their recent executions and live events
+    app.get('/', (req, res) => {
+        res.status(200).set('Content-Security-Policy', DASHBOARD_CSP).type('html').send(DASHBOARD_HTML);
+    });
 
     // API endpoint to check the health of the simulator
     app.get('/status', (req, res) => {
-        res.status(200).json({ 
+        const status: SimulatorStatus = {
             status: 'ok',
-            registeredUpkeeps: registry.getRegisteredUpkeepsCount() 
-        });
+            pid: process.pid,
+            startedAt: new Date(startedAt).toISOString(),
+            uptime: Math.floor((Date.now() - startedAt) / 1000),
+            rpcUrl: registry.rpcUrl,
+            wallet: registry.walletAddress,
+            wallets: registry.walletAddresses,
+            limits: registry.limits,
+            manualTick: registry.manualTick,
+            chainlinkRegistry: registry.chainlinkRegistry,
+            registeredUpkeeps: registry.getRegisteredUpkeepsCount(),
+            lastEventId: registry.events.lastId,
+            upkeeps: registry.listUpkeeps().map(({ id, name, triggerType, status, violations }) => ({ id, name, triggerType, status, violations: violations.length })),
+        };
+        res.status(200).json(status);
+    });
+
+    // Prometheus metrics: checks, performs, gas, check durations, RPC errors and block lag
+    app.get('/metrics', async (req, res) => {
+        res.status(200).type('text/plain; version=0.0.4').send(await registry.collectMetrics());
     });
 
     // API endpoint for a client (e.g., a test script) to register a new upkeep
-    app.post('/register', (req, res) => {
+    app.post('/register', async (req, res) => {
         const validation = validateRegisterBody(req.body);
         if (!validation.ok) {
             return res.status(400).json({ message: 'Invalid register payload', errors: validation.errors });
         }
+        const limitErrors = registry.validateLimits(req.body as SimulatorRegistration);
+        if (limitErrors.length > 0) {
+            return res.status(400).json({ message: 'Upkeep exceeds the Chainlink limits', errors: limitErrors });
+        }
         try {
-            const options = req.body as CreateUpkeepOptions;
-            registry.registerUpkeep(options);
-            res.status(200).send({ message: 'Upkeep registered successfully' });
+            const registration = req.body as SimulatorRegistration;
+            const upkeepId = await registry.registerUpkeep(registration);
+            res.status(200).send({ message: 'Upkeep registered successfully', upkeepId });
         } catch (error: unknown) {
             const errorMessage = error instanceof Error ? error.message : String(error);
             console.error('[Server] Failed to register upkeep:', errorMessage);
@@ -64,13 +229,16 @@ export function startSimulatorServer(config: SimulatorConfig) {
     });
 
     // API endpoint to unregister an upkeep (e.g., during test cleanup)
-    app.post('/unregister', (req, res) => {
+    app.post('/unregister', async (req, res) => {
         try {
-            const { upkeepContract } = req.body as { upkeepContract?: string };
-            if (typeof upkeepContract !== 'string' || upkeepContract.trim() === '') {
-                return res.status(400).json({ message: 'Invalid unregister payload', errors: ['upkeepContract is required (string address)'] });
+            const { upkeepId } = (req.body ?? {}) as { upkeepId?: string };
+            if (typeof upkeepId !== 'string' || upkeepId.trim() === '') {
+                return res.status(400).json({ message: 'Invalid unregister payload', errors: ['upkeepId is required (string)'] });
+            }
+            if (!registry.hasUpkeep(upkeepId)) {
+                return res.status(404).json({ message: `No upkeep registered with ID ${upkeepId}` });
             }
-            registry.unregisterUpkeep(upkeepContract);
+            await registry.unregisterUpkeep(upkeepId);
             res.status(200).send({ message: 'Upkeep unregistered successfully' });
         } catch (error: unknown) {
             const errorMessage = error instanceof Error ? error.message : String(error);
@@ -79,9 +247,207 @@ export function startSimulatorServer(config: SimulatorConfig) {
         }
     });
 
-    app.listen(port, () => {
-        console.log(`🚀 Local Chainlink Simulator server running on http://localhost:${port}`);
+    // API endpoint to list every registered upkeep
+    app.get('/upkeeps', (req, res) => {
+        res.status(200).json({ upkeeps: registry.listUpkeeps() });
+    });
+
+    // API endpoint to read the simulated on-chain record of an upkeep
+    app.get('/upkeeps/:id', (req, res) => {
+        if (!registry.hasUpkeep(req.params.id)) {
+            return res.status(404).json({ message: `No upkeep registered with ID ${req.params.id}` });
+        }
+        res.status(200).json(registry.getUpkeep(req.params.id));
+    });
+
+    // API endpoint to page through the checks and performs of an upkeep, most recent first
+    app.get('/upkeeps/:id/history', (req, res) => {
+        if (!registry.hasUpkeep(req.params.id)) {
+            return res.status(404).json({ message: `No upkeep registered with ID ${req.params.id}` });
+        }
+        const offset = parsePagingParam(req.query.offset, 0);
+        const limit = parsePagingParam(req.query.limit, DEFAULT_HISTORY_PAGE_SIZE);
+        if (offset === undefined || limit === undefined || limit < 1 || limit > MAX_HISTORY_PAGE_SIZE) {
+            return res.status(400).json({ message: `offset must be a non-negative integer and limit an integer between 1 and ${MAX_HISTORY_PAGE_SIZE}` });
+        }
+        res.status(200).json(registry.getHistory(req.params.id, offset, limit));
     });
 
-    return app;
+    // API endpoint running every due check and perform in manual-tick mode, answering with what ran
+    app.post('/tick', async (req, res) => {
+        if (!registry.manualTick) {
+            return res.status(400).json({ message: 'The simulator is not in manual-tick mode; start it with --manual-tick' });
+        }
+        try {
+            res.status(200).json(await registry.tick());
+        } catch (error: unknown) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            console.error('[Server] Failed to tick:', errorMessage);
+            res.status(500).json({ message: `Failed to tick: ${errorMessage}` });
+        }
+    });
+
+    // API endpoints moving the chain through time (development nodes only), then running the upkeeps right away
+    app.post('/time/increase', async (req, res) => {
+        const errors = validateTimeBody(req.body, 'seconds');
+        if (errors.length) {
+            return res.status(400).json({ message: 'Invalid time payload', errors });
+        }
+        const { seconds, blocks } = req.body as { seconds: number; blocks?: number };
+        await handleTimeTravel(res, 'increase time', () => registry.clock.increaseTime(seconds, blocks));
+    });
+
+    app.post('/time/set', async (req, res) => {
+        const errors = validateTimeBody(req.body, 'timestamp');
+        if (errors.length) {
+            return res.status(400).json({ message: 'Invalid time payload', errors });
+        }
+        const { timestamp, blocks } = req.body as { timestamp: number; blocks?: number };
+        await handleTimeTravel(res, 'set the next block timestamp', () => registry.clock.setNextBlockTimestamp(timestamp, blocks));
+    });
+
+    app.post('/time/mine', async (req, res) => {
+        const errors = validateTimeBody(req.body);
+        if (errors.length) {
+            return res.status(400).json({ message: 'Invalid mine payload', errors });
+        }
+        const { blocks } = (req.body ?? {}) as { blocks?: number };
+        await handleTimeTravel(res, 'mine blocks', () => registry.clock.mine(blocks));
+    });
+
+    async function handleTimeTravel(res: express.Response, context: string, travel: () => Promise<ChainTime>) {
+        try {
+            const time = await travel();
+            const result: TimeTravelResult = { ...time, tick: await registry.runUpkeeps() };
+            res.status(200).json(result);
+        } catch (error: unknown) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            console.error(`[Server] Failed to ${context}:`, errorMessage);
+            res.status(error instanceof UnsupportedRpcMethodError ? 501 : 500).json({ message: `Failed to ${context}: ${errorMessage}` });
+        }
+    }
+
+    // API endpoint streaming the simulator's events (Server-Sent Events), optionally of one upkeep or some types only
+    const eventStreams = new Set<express.Response>();
+    app.get('/events', (req, res) => {
+        const upkeepId = typeof req.query.upkeepId === 'string' ? req.query.upkeepId : undefined;
+        const types = parseEventTypes(req.query.types);
+        if (types === null) {
+            return res.status(400).json({ message: `types must be a comma-separated list of: ${SIMULATOR_EVENT_TYPES.join(', ')}` });
+        }
+
+        res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' });
+        res.write(': connected\n\n');
+        const send = (event: SimulatorEvent) => {
+            if ((!upkeepId || event.upkeepId === upkeepId) && (!types || types.includes(event.type))) {
+                res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+            }
+        };
+        // A client reconnecting with the id of the last event it got receives those it missed
+        const lastEventId = Number(req.get('Last-Event-ID'));
+        if (Number.isInteger(lastEventId)) {
+            registry.events.since(lastEventId).forEach(send);
+        }
+        const unsubscribe = registry.events.subscribe(send);
+        const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), EVENT_STREAM_KEEPALIVE_MS);
+        eventStreams.add(res);
+        req.on('close', () => {
+            clearInterval(keepAlive);
+            unsubscribe();
+            eventStreams.delete(res);
+        });
+    });
+
+    // API endpoint checking an upkeep right away (the dashboard's manual check), answering with what ran
+    app.post('/upkeeps/:id/check', async (req, res) => {
+        if (!registry.hasUpkeep(req.params.id)) {
+            return res.status(404).json({ message: `No upkeep registered with ID ${req.params.id}` });
+        }
+        let summary: Promise<TickSummary>;
+        try {
+            summary = registry.checkUpkeep(req.params.id);
+        } catch (error: unknown) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            return res.status(400).json({ message: `Failed to check upkeep: ${errorMessage}` });
+        }
+        try {
+            res.status(200).json(await summary);
+        } catch (error: unknown) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            console.error('[Server] Failed to check upkeep:', errorMessage);
+            res.status(500).json({ message: `Failed to check upkeep: ${errorMessage}` });
+        }
+    });
+
+    // API endpoints for the admin actions of an upkeep
+    app.post('/upkeeps/:id/pause', async (req, res) => {
+        await handleUpkeepAction(req.params.id, res, 'pause upkeep', () => registry.pauseUpkeep(req.params.id));
+    });
+
+    app.post('/upkeeps/:id/unpause', async (req, res) => {
+        await handleUpkeepAction(req.params.id, res, 'unpause upkeep', () => registry.unpauseUpkeep(req.params.id));
+    });
+
+    app.post('/upkeeps/:id/fund', async (req, res) => {
+        const { amount } = (req.body ?? {}) as { amount?: unknown };
+        if (typeof amount !== 'string' || !/^\d+(\.\d+)?$/.test(amount)) {
+            return res.status(400).json({ message: 'Invalid fund payload', errors: ["amount is required (decimal string, e.g. '5.0')"] });
+        }
+        await handleUpkeepAction(req.params.id, res, 'fund upkeep', () => registry.addFunds(req.params.id, amount));
+    });
+
+    app.post('/upkeeps/:id/update', async (req, res) => {
+        const validation = validateUpdateBody(req.body);
+        if (!validation.ok) {
+            return res.status(400).json({ message: 'Invalid update payload', errors: validation.errors });
+        }
+        await handleUpkeepAction(req.params.id, res, 'update upkeep', () => registry.updateUpkeep(req.params.id, req.body as UpdateUpkeepOptions));
+    });
+
+    async function handleUpkeepAction(upkeepId: string, res: express.Response, context: string, action: () => void | Promise<void>) {
+        if (!registry.hasUpkeep(upkeepId)) {
+            return res.status(404).json({ message: `No upkeep registered with ID ${upkeepId}` });
+        }
+        try {
+            await action();
+            res.status(200).json(registry.getUpkeep(upkeepId));
+        } catch (error: unknown) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            console.error(`[Server] Failed to ${context}:`, errorMessage);
+            res.status(400).json({ message: `Failed to ${context}: ${errorMessage}` });
+        }
+    }
+
+    const server = await new Promise<http.Server>((resolve, reject) => {
+        const onListen = (error?: Error) => {
+            if (error) {
+                reject(new Error(`Failed to listen on ${host}:${port}: ${error.message}`));
+            } else {
+                resolve(listening);
+            }
+        };
+        const listening = app.listen(port, host, onListen);
+    });
+
+    const url = `http://${host}:${port}`;
+    console.log(`🚀 Local Chainlink Simulator server running on ${url}`);
+    if (authToken) {
+        console.log(`🔐 API requests need the bearer token`);
+    } else if (!isLoopback(host)) {
+        console.warn(`⚠️  Listening on ${host} without a token: anyone reaching port ${port} can make the simulator send transactions.`);
+    }
+    console.log(`📊 Dashboard: ${url}/`);
+    console.log(`📈 Metrics: ${url}/metrics`);
+
+    return {
+        app,
+        registry,
+        url,
+        async close() {
+            await registry.stopAll();
+            // Open event streams would keep the server from closing
+            eventStreams.forEach((stream) => stream.end());
+            await new Promise<void>((resolve) => server.close(() => resolve()));
+        },
+    };
 }
@@ -0,0 +1,64 @@
+import fs from 'fs';
+import path from 'path';
+import { CreateUpkeepOptions } from '../interfaces.js';
+
+/**
+ * A registered upkeep as persisted between simulator runs. Amounts are in juels.
+ */
+export interface StoredUpkeep {
+    id: string; // The upkeep ID, or the contract address in stores of version 1
+    options: CreateUpkeepOptions;
+    status: 'active' | 'paused';
+    admin: string;
+    balance: string;
+    lastPerformData: string;
+    performCount: number;
+    totalSpent: string;
+    lastCharge: string;
+    lastProcessedBlock?: number; // The job resumes after this block
+}
+
+export interface StoredRegistry {
+    version: 2;
+    chainId: number; // Registrations only make sense on the chain they were made on
+    nonce: number; // Registrations made so far, upkeep IDs are derived from it
+    upkeeps: StoredUpkeep[];
+}
+
+// Stores of simulators keying upkeeps by contract address, without a nonce
+type StoredRegistryV1 = Omit<StoredRegistry, 'version' | 'nonce'> & { version: 1 };
+
+/**
+ * Persists the registry's upkeeps to a JSON file, so that they survive a restart of the simulator.
+ */
+export class RegistryStore {
+    constructor(private _filePath: string) {}
+
+    get filePath(): string {
+        return this._filePath;
+    }
+
+    /**
+     * @returns The stored registry, or undefined if nothing was stored yet.
+     * @throws An error if the file cannot be parsed.
+     */
+    load(): StoredRegistry | undefined {
+        if (!fs.existsSync(this._filePath)) {
+            return undefined;
+        }
+        const data = JSON.parse(fs.readFileSync(this._filePath, 'utf8')) as StoredRegistry | StoredRegistryV1;
+        if ((data.version !== 1 && data.version !== 2) || !Array.isArray(data.upkeeps)) {
+            throw new Error(`Unsupported registry store format in ${this._filePath}`);
+        }
+        // Upkeeps stored under their contract address are given an ID when restored
+        return data.version === 1 ? { ...data, version: 2, nonce: 0 } : data;
+    }
+
+    save(data: StoredRegistry): void {
+        // Write then rename, so that a crash mid-write never leaves a truncated store behind
+        const tempPath = `${this._filePath}.tmp`;
+        fs.mkdirSync(path.dirname(this._filePath), { recursive: true });
+        fs.writeFileSync(tempPath, JSON.stringify(data, null, 2));
+        fs.renameSync(tempPath, this._filePath);
+    }
+}
@@ -0,0 +1,142 @@
+import fs from 'fs';
+import path from 'path';
+import axios from 'axios';
+import { ethers, BigNumber } from 'ethers';
+import { findRevertData } from './history.js';
+
+const StreamsLookupInterface = new ethers.utils.Interface([
+    'error StreamsLookup(string feedParamKey, string[] feeds, string timeParamKey, uint256 time, bytes extraData)',
+]);
+const STREAMS_LOOKUP_SELECTOR = StreamsLookupInterface.getSighash('StreamsLookup');
+
+/**
+ * The Data Streams reports a check asks for by reverting with StreamsLookup.
+ */
+export interface StreamsLookup {
+    feedParamKey: string; // 'feedIDs' (Data Streams v0.3) or 'feedIdHex' (v0.2)
+    feeds: string[];
+    timeParamKey: string; // 'timestamp' or 'blockNumber': what `time` is
+    time: BigNumber;
+    extraData: string; // Handed back to checkCallback
+}
+
+/**
+ * Where the simulator takes Data Streams reports from, in place of the Data Streams API.
+ */
+export interface ReportSource {
+    /**
+     * Resolves to the full report of every feed of the lookup, in the order of `lookup.feeds`.
+     * @throws An error if a report is missing.
+     */
+    fetchReports(lookup: StreamsLookup): Promise<string[]>;
+}
+
+/**
+ * Reports read from a JSON file mapping feed IDs to a full report, or to reports over time:
+ * `{ "0x0003...": "0x...", "0x0004...": [{ "time": 1700000000, "report": "0x..." }] }`.
+ * The newest report whose `time` is not after the lookup's is used. The file is read on every
+ * lookup, so it can be changed while the simulator runs.
+ */
+export class FixtureReportSource implements ReportSource {
+    constructor(private _filePath: string) {}
+
+    public async fetchReports(lookup: StreamsLookup): Promise<string[]> {
+        const fixture = JSON.parse(await fs.promises.readFile(this._filePath, 'utf8')) as Record<string, string | { time: number; report: string }[]>;
+        const feeds = new Map(Object.entries(fixture).map(([feed, reports]) => [feed.toLowerCase(), reports]));
+        return lookup.feeds.map((feed) => {
+            const reports = feeds.get(feed.toLowerCase());
+            if (typeof reports === 'string') {
+                return reports;
+            }
+            const report = (reports ?? [])
+                .filter((entry) => lookup.time.gte(entry.time))
+                .sort((a, b) => b.time - a.time)[0];
+            if (!report) {
+                throw new Error(`No report of feed ${feed} at ${lookup.timeParamKey} ${lookup.time.toString()} in ${this._filePath}`);
+            }
+            return report.report;
+        });
+    }
+}
+
+/**
+ * Reports fetched from a server answering like the Data Streams API's bulk endpoint, such as a mock
+ * server: `GET <baseUrl>/api/v1/reports/bulk?feedIDs=<feeds>&timestamp=<time>`, returning
+ * `{ "reports": [{ "feedID": "0x...", "fullReport": "0x..." }] }`.
+ */
+export class HttpReportSource implements ReportSource {
+    constructor(private _baseUrl: string, private _headers: Record<string, string> = {}) {}
+
+    public async fetchReports(lookup: StreamsLookup): Promise<string[]> {
+        const { data } = await axios.get<{ reports?: { feedID: string; fullReport: string }[] }>(`${this._baseUrl.replace(/\/$/, '')}/api/v1/reports/bulk`, {
+            params: { [lookup.feedParamKey]: lookup.feeds.join(','), [lookup.timeParamKey]: lookup.time.toString() },
+            headers: this._headers,
+        });
+        const reports = new Map((data.reports ?? []).map((report) => [report.feedID.toLowerCase(), report.fullReport]));
+        return lookup.feeds.map((feed) => {
+            const report = reports.get(feed.toLowerCase());
+            if (!report) {
+                throw new Error(`${this._baseUrl} returned no report of feed ${feed} at ${lookup.timeParamKey} ${lookup.time.toString()}`);
+            }
+            return report;
+        });
+    }
+}
+
+/**
+ * Creates the report source of `dev start --streams-reports`: an HTTP server for http(s) URLs, a JSON fixture file otherwise.
+ */
+export function createReportSource(location: string): ReportSource {
+    return /^https?:\/\//.test(location) ? new HttpReportSource(location) : new FixtureReportSource(path.resolve(location));
+}
+
+/**
+ * Decodes the StreamsLookup revert of a check.
+ * @returns The lookup, or undefined if the check failed for another reason.
+ */
+export function decodeStreamsLookup(error: unknown): StreamsLookup | undefined {
+    const data = findRevertData(error);
+    if (!data?.startsWith(STREAMS_LOOKUP_SELECTOR)) {
+        return undefined;
+    }
+    try {
+        const { feedParamKey, feeds, timeParamKey, time, extraData } = StreamsLookupInterface.decodeErrorResult('StreamsLookup', data);
+        return { feedParamKey, feeds, timeParamKey, time, extraData };
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Runs a check, following a StreamsLookup revert like Chainlink does: the reports it asks for are fetched
+ * from `source`, and the answer of the upkeep's checkCallback with them is the check's.
+ * @throws The error of the check if it failed otherwise, or an error if the reports cannot be fetched.
+ */
+export async function checkWithStreamsLookup(
+    check: () => Promise<[boolean, string]>,
+    checkCallback: (values: string[], extraData: string, overrides: ethers.CallOverrides) => Promise<unknown>,
+    source: ReportSource | undefined,
+    overrides: ethers.CallOverrides = {}
+): Promise<[boolean, string]> {
+    let lookup: StreamsLookup | undefined;
+    try {
+        return await check();
+    } catch (error: unknown) {
+        lookup = decodeStreamsLookup(error);
+        if (!lookup) {
+            throw error;
+        }
+    }
+    if (!source) {
+        throw new Error(`The check asked for Data Streams reports of ${lookup.feeds.join(', ')} (StreamsLookup), but the simulator has no report source: start it with --streams-reports <file|url>`);
+    }
+    let values: string[];
+    try {
+        values = await source.fetchReports(lookup);
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new Error(`Failed to fetch the Data Streams reports of a StreamsLookup: ${errorMessage}`);
+    }
+    const [upkeepNeeded, performData] = (await checkCallback(values, lookup.extraData, overrides)) as [boolean, string];
+    return [upkeepNeeded, performData];
+}
@@ -0,0 +1,82 @@
+import { providers } from 'ethers';
+import { TimeTravelResult } from '../interfaces.js';
+
+// Blocks a single call may mine, so that a typo does not keep the node busy for minutes
+export const MAX_MINED_BLOCKS = 1_000;
+
+const METHOD_NOT_FOUND_CODE = -32601;
+const METHOD_NOT_FOUND_PATTERN = /method .*(not found|not supported|does not exist|is not available)|unsupported method/i;
+
+/**
+ * Thrown when the node lacks one of the development RPC methods time travel relies on.
+ */
+export class UnsupportedRpcMethodError extends Error {
+    constructor(readonly method: string) {
+        super(`The node does not support ${method}: time travel needs a development node such as Anvil or Hardhat.`);
+        this.name = 'UnsupportedRpcMethodError';
+    }
+}
+
+function isMethodNotFound(error: unknown): boolean {
+    const { code, message, error: inner } = (error ?? {}) as { code?: unknown; message?: string; error?: { code?: unknown; message?: string } };
+    return code === METHOD_NOT_FOUND_CODE || inner?.code === METHOD_NOT_FOUND_CODE || METHOD_NOT_FOUND_PATTERN.test(`${message ?? ''} ${inner?.message ?? ''}`);
+}
+
+/**
+ * The latest block after time travel.
+ */
+export type ChainTime = Omit<TimeTravelResult, 'tick'>;
+
+/**
+ * Moves the local chain through time with the development RPC methods of Anvil and Hardhat
+ * (`evm_increaseTime`, `evm_setNextBlockTimestamp` and `evm_mine`). Every call mines at least one
+ * block, so that the new time is visible to contracts and upkeeps right away.
+ */
+export class ChainClock {
+    private _unsupported = new Set<string>(); // Methods the node rejected, not tried again
+
+    constructor(private _provider: providers.JsonRpcProvider) {}
+
+    /**
+     * Moves the clock forward by `seconds`, then mines `blocks` blocks.
+     */
+    async increaseTime(seconds: number, blocks = 1): Promise<ChainTime> {
+        await this._send('evm_increaseTime', [seconds]);
+        return this.mine(blocks);
+    }
+
+    /**
+     * Mines `blocks` blocks, the first one with the given timestamp.
+     * @throws An error if the node refuses the timestamp, e.g. because it is not after the latest block's.
+     */
+    async setNextBlockTimestamp(timestamp: number, blocks = 1): Promise<ChainTime> {
+        await this._send('evm_setNextBlockTimestamp', [timestamp]);
+        return this.mine(blocks);
+    }
+
+    async mine(blocks = 1): Promise<ChainTime> {
+        if (!Number.isInteger(blocks) || blocks < 1 || blocks > MAX_MINED_BLOCKS) {
+            throw new Error(`blocks must be an integer between 1 and ${MAX_MINED_BLOCKS}.`);
+        }
+        for (let i = 0; i < blocks; i++) {
+            await this._send('evm_mine', []);
+        }
+        const block = await this._provider.getBlock('latest');
+        return { blockNumber: block.number, timestamp: block.timestamp };
+    }
+
+    private async _send(method: string, params: unknown[]): Promise<unknown> {
+        if (this._unsupported.has(method)) {
+            throw new UnsupportedRpcMethodError(method);
+        }
+        try {
+            return await this._provider.send(method, params);
+        } catch (error: unknown) {
+            if (isMethodNotFound(error)) {
+                this._unsupported.add(method);
+                throw new UnsupportedRpcMethodError(method);
+            }
+            throw error;
+        }
+    }
+}
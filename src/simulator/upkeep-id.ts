@@ -0,0 +1,20 @@
+import { ethers } from 'ethers';
+import { CreateUpkeepOptions } from '../interfaces.js';
+
+// The trigger types of the registry, encoded in byte 15 of the upkeep ID; time-based upkeeps are conditional
+const TRIGGER_TYPES: Record<CreateUpkeepOptions['triggerType'], number> = { custom: 0, time: 0, log: 1 };
+
+/**
+ * Derives an upkeep ID like AutomationRegistry 2.1+ does in `_createID`: the hash of the previous block's
+ * hash, the registry's address and its registration nonce, with bytes 4 to 14 cleared and the trigger
+ * type in byte 15.
+ * @returns The ID as a decimal uint256, the way the Chainlink provider returns IDs.
+ */
+export function deriveUpkeepId(blockHash: string, registryAddress: string, nonce: number, triggerType: CreateUpkeepOptions['triggerType']): string {
+    const hash = ethers.utils.arrayify(ethers.utils.keccak256(
+        ethers.utils.defaultAbiCoder.encode(['bytes32', 'address', 'uint256'], [blockHash, registryAddress, nonce])
+    ));
+    hash.fill(0, 4, 15);
+    hash[15] = TRIGGER_TYPES[triggerType];
+    return ethers.BigNumber.from(hash).toString();
+}